@@ -0,0 +1,76 @@
+// Deterministic stand-in for an OpenAI-compatible /chat/completions endpoint.
+//
+//   node scripts/stub-ai-server.mjs
+//   supabase secrets set AI_API_URL=http://host.docker.internal:8788/v1
+//
+// Replies are picked from the system prompt of each interview-ai action, so the
+// same interview always gets the same questions, follow-ups and analysis:
+// - generate_questions: the requested number of numbered questions about the category
+// - follow_up: one follow-up when the latest answer has fewer than five words
+// - analyze_responses: a fixed score of 82 with a rubric for every question
+// Set STUB_AI_INVALID=1 to reply with text that fails validation.
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 8788);
+const invalid = process.env.STUB_AI_INVALID === "1";
+
+const reply = (messages) => {
+  const system = messages.find((m) => m.role === "system")?.content ?? "";
+  const user = messages.filter((m) => m.role === "user")[0]?.content ?? "";
+
+  const questionCount = system.match(/Generate exactly (\d+)/)?.[1];
+  if (questionCount) {
+    const category = system.match(/for a (.+?) developer position/)?.[1] ?? "general";
+    return Array.from({ length: Number(questionCount) }, (_, i) => `Stub ${category} question ${i + 1}?`);
+  }
+
+  if (system.includes("Decide whether one more follow-up question")) {
+    const answers = [...user.matchAll(/^Answer: (.*)$/gm)].map((match) => match[1]);
+    const latest = answers[answers.length - 1] ?? "";
+    return answers.length === 1 && latest.trim().split(/\s+/).length < 5
+      ? { action: "follow_up", question: "Could you expand on that with an example?" }
+      : { action: "move_on" };
+  }
+
+  const count = user.match(/^Q\d+/gm)?.length ?? 0;
+  return {
+    score: 82,
+    analysis: `Stub analysis of ${count} answers.`,
+    strengths: ["Clear explanations"],
+    improvements: ["More concrete examples"],
+    recommendation: "hire",
+    questions: Array.from({ length: count }, (_, i) => ({
+      question: i + 1,
+      score: 80,
+      correctness: 4,
+      depth: 4,
+      communication: 4,
+      modelAnswer: `A strong answer to question ${i + 1} covers the fundamentals.`,
+      missedPoints: [],
+    })),
+  };
+};
+
+const server = createServer((req, res) => {
+  if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Not found" }));
+    return;
+  }
+
+  let body = "";
+  req.on("data", (chunk) => {
+    body += chunk;
+  });
+  req.on("end", () => {
+    const { model, messages = [] } = JSON.parse(body || "{}");
+    const content = invalid ? "Sorry, I can't help with that." : JSON.stringify(reply(messages));
+    console.log(`Chat request: model=${model}, messages=${messages.length}`);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ choices: [{ message: { role: "assistant", content } }] }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Stub AI server listening on http://localhost:${port}/v1/chat/completions`);
+});
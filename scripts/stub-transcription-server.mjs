@@ -0,0 +1,32 @@
+// Minimal stand-in for an OpenAI-compatible /audio/transcriptions endpoint.
+//
+//   node scripts/stub-transcription-server.mjs
+//   supabase secrets set STT_API_URL=http://host.docker.internal:8787/v1 STT_API_KEY=stub
+//
+// Every request is answered with STUB_TRANSCRIPT (or a fixed sentence).
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 8787);
+const transcript = process.env.STUB_TRANSCRIPT ?? "This is a stubbed transcription of the candidate's answer.";
+
+const server = createServer((req, res) => {
+  if (req.method !== "POST" || !req.url?.endsWith("/audio/transcriptions")) {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Not found" }));
+    return;
+  }
+
+  let bytes = 0;
+  req.on("data", (chunk) => {
+    bytes += chunk.length;
+  });
+  req.on("end", () => {
+    console.log(`Transcription request: ${bytes} bytes, auth=${req.headers.authorization ? "yes" : "no"}`);
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ text: transcript }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Stub transcription server listening on http://localhost:${port}/v1/audio/transcriptions`);
+});
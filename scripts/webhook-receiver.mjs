@@ -0,0 +1,53 @@
+// Local endpoint for trying out webhooks: logs every delivery and checks its signature.
+//
+//   WEBHOOK_SECRET=<signing secret> node scripts/webhook-receiver.mjs
+//   supabase secrets set WEBHOOK_ALLOW_PRIVATE_URLS=1
+//   then add a webhook for http://host.docker.internal:8789/ and send a test event
+//
+// Deliveries with a missing or wrong signature are answered with 401; without
+// WEBHOOK_SECRET the signature isn't checked. Set WEBHOOK_FAIL=1 to answer every
+// delivery with 500, to watch the dispatcher retry it.
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { createServer } from "node:http";
+
+const port = Number(process.env.PORT ?? 8789);
+const secret = process.env.WEBHOOK_SECRET;
+const fail = process.env.WEBHOOK_FAIL === "1";
+
+const verify = (timestamp, body, header) => {
+  const expected = Buffer.from(`v1=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`);
+  const actual = Buffer.from(header ?? "");
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+};
+
+const server = createServer((req, res) => {
+  if (req.method !== "POST") {
+    res.writeHead(404, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "Not found" }));
+    return;
+  }
+
+  const chunks = [];
+  req.on("data", (chunk) => chunks.push(chunk));
+  req.on("end", () => {
+    const body = Buffer.concat(chunks).toString("utf8");
+    const event = req.headers["x-webhook-event"];
+    const id = req.headers["x-webhook-id"];
+
+    if (secret && !verify(req.headers["x-webhook-timestamp"], body, req.headers["x-webhook-signature"])) {
+      console.log(`${event} ${id}: invalid signature`);
+      res.writeHead(401, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: "Invalid signature" }));
+      return;
+    }
+
+    console.log(`${event} ${id}${secret ? " (signature ok)" : ""}`);
+    console.log(body);
+    res.writeHead(fail ? 500 : 200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ received: !fail }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+});
@@ -1,38 +1,114 @@
 import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthProvider } from "@/hooks/useAuth";
+import { LocaleProvider } from "@/hooks/useLocale";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { queryClient } from "@/lib/query-client";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import History from "./pages/History";
+import InterviewDetail from "./pages/InterviewDetail";
+import QuestionBank from "./pages/QuestionBank";
+import Categories from "./pages/Categories";
+import RecruiterDashboard from "./pages/RecruiterDashboard";
+import Invites from "./pages/Invites";
+import Invite from "./pages/Invite";
+import Webhooks from "./pages/Webhooks";
+import SharedResults from "./pages/SharedResults";
 import NotFound from "./pages/NotFound";
 
-const queryClient = new QueryClient();
-
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <AuthProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            <Route path="/auth" element={<Auth />} />
-            <Route
-              path="/"
-              element={
-                <ProtectedRoute>
-                  <Index />
-                </ProtectedRoute>
-              }
-            />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-        </BrowserRouter>
-      </AuthProvider>
+      <LocaleProvider>
+        <AuthProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              <Route path="/auth" element={<Auth />} />
+              <Route
+                path="/"
+                element={
+                  <ProtectedRoute>
+                    <Index />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/history"
+                element={
+                  <ProtectedRoute>
+                    <History />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/interviews/:id"
+                element={
+                  <ProtectedRoute>
+                    <InterviewDetail />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/questions"
+                element={
+                  <ProtectedRoute requiredRole="admin">
+                    <QuestionBank />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/admin/categories"
+                element={
+                  <ProtectedRoute requiredRole="admin">
+                    <Categories />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/recruiter"
+                element={
+                  <ProtectedRoute requiredRole="recruiter">
+                    <RecruiterDashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/recruiter/invites"
+                element={
+                  <ProtectedRoute requiredRole="recruiter">
+                    <Invites />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/recruiter/webhooks"
+                element={
+                  <ProtectedRoute requiredRole="recruiter">
+                    <Webhooks />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/invite/:token"
+                element={
+                  <ProtectedRoute>
+                    <Invite />
+                  </ProtectedRoute>
+                }
+              />
+              <Route path="/shared/:token" element={<SharedResults />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+          </BrowserRouter>
+        </AuthProvider>
+      </LocaleProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
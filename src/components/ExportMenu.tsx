@@ -0,0 +1,64 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Download, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useLocale } from "@/hooks/useLocale";
+import { downloadFile } from "@/lib/download";
+import { buildCsvExport, buildJsonExport } from "@/lib/interview-export";
+import type { InterviewRow } from "@/lib/interviews";
+import { toast } from "sonner";
+
+interface ExportMenuProps {
+  // Called on click, so full rows are only fetched for an export
+  loadRows: () => Promise<InterviewRow[]>;
+  // File name without the date and extension
+  filename: string;
+}
+
+export const ExportMenu = ({ loadRows, filename }: ExportMenuProps) => {
+  const { t } = useLocale();
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async (type: "json" | "csv") => {
+    setIsExporting(true);
+    try {
+      const rows = await loadRows();
+      if (rows.length === 0) {
+        toast.info(t("transfer.nothingToExport"));
+        return;
+      }
+      const name = `${filename}-${format(new Date(), "yyyy-MM-dd")}.${type}`;
+      if (type === "json") {
+        downloadFile(name, buildJsonExport(rows), "application/json");
+      } else {
+        downloadFile(name, buildCsvExport(rows), "text/csv");
+      }
+    } catch (error) {
+      console.error("Error exporting interviews:", error);
+      toast.error(t("transfer.exportFailed"));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" disabled={isExporting}>
+          {isExporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Download className="w-4 h-4 mr-2" />}
+          {t("transfer.export")}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end">
+        <DropdownMenuItem onSelect={() => handleExport("json")}>{t("transfer.exportJson")}</DropdownMenuItem>
+        <DropdownMenuItem onSelect={() => handleExport("csv")}>{t("transfer.exportCsv")}</DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
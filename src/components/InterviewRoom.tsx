@@ -1,40 +1,108 @@
 import { useState, useEffect, useRef, useCallback } from "react";
 import { motion } from "framer-motion";
-import { Video, Loader2 } from "lucide-react";
+import { Video, Loader2, AlertTriangle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Progress } from "@/components/ui/progress";
 import { supabase } from "@/integrations/supabase/client";
+import {
+  AnswerInputMode,
+  InterviewResponse,
+  QuestionTiming,
+  markInterviewFinished,
+  markInterviewInProgress,
+  saveRecording,
+  saveResponses,
+} from "@/lib/interviews";
+import { getFollowUpMaxDepth, getFollowUpThread, requestFollowUp } from "@/lib/follow-ups";
+import { appendIntegrityEvents, IntegrityEvent } from "@/lib/integrity";
+import { dataUrlToBlob, getPhotoPath, getRecordingPath, toRecordingUpload } from "@/lib/recording";
+import { enqueueUpload, waitForUpload } from "@/lib/upload-manager";
+import { getSpeechToTextProvider, getTextToSpeechProvider, SpeechToTextSession } from "@/lib/speech";
+import { getSpeechLang, Locale } from "@/lib/i18n";
+import { useCategories } from "@/hooks/useCategories";
+import { useIntegrityMonitor } from "@/hooks/useIntegrityMonitor";
+import { useLocale } from "@/hooks/useLocale";
+import { useMediaRecorder } from "@/hooks/useMediaRecorder";
+import { useVoiceSettings } from "@/hooks/useVoiceSettings";
+import { useUploads } from "@/hooks/useUploads";
+import { UploadProgress } from "@/components/UploadProgress";
 import { toast } from "sonner";
 import { VideoPreview, VideoPreviewRef } from "@/components/interview/VideoPreview";
 import { QuestionPanel } from "@/components/interview/QuestionPanel";
+import { VoiceSettingsPopover } from "@/components/interview/VoiceSettingsPopover";
 
 interface InterviewRoomProps {
+  interviewId: string;
   candidateName: string;
   category: string;
+  locale: Locale;
+  // Questions fixed by an invite; otherwise they are drawn and generated by interview-ai
+  presetQuestions?: string[];
   onComplete: (data: {
     questions: string[];
-    responses: { question: string; answer: string }[];
-    videoUrl: string | null;
+    responses: InterviewResponse[];
+    videoPath: string | null;
+    // JPEG data URLs, kept for the results screen's report
+    photos: string[];
+    integrityEvents: IntegrityEvent[];
   }) => void;
 }
 
-export const InterviewRoom = ({ candidateName, category, onComplete }: InterviewRoomProps) => {
+const exitFullscreen = () => {
+  if (document.fullscreenElement) {
+    document.exitFullscreen().catch((error) => console.error("Error leaving fullscreen:", error));
+  }
+};
+
+export const InterviewRoom = ({
+  interviewId,
+  candidateName,
+  category,
+  locale,
+  presetQuestions,
+  onComplete,
+}: InterviewRoomProps) => {
+  const { t } = useLocale();
+  const { getCategoryName } = useCategories();
+  const speechLang = getSpeechLang(locale);
   const [isLoading, setIsLoading] = useState(true);
   const [questions, setQuestions] = useState<string[]>([]);
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0);
-  const [responses, setResponses] = useState<{ question: string; answer: string }[]>([]);
+  const [responses, setResponses] = useState<InterviewResponse[]>([]);
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [isListening, setIsListening] = useState(false);
+  const [isTranscribing, setIsTranscribing] = useState(false);
+  const [isThinking, setIsThinking] = useState(false);
+  const [questionsDegraded, setQuestionsDegraded] = useState(false);
   const [currentAnswer, setCurrentAnswer] = useState("");
+  const [answerMode, setAnswerMode] = useState<AnswerInputMode>("spoken");
   const [videoEnabled, setVideoEnabled] = useState(false);
   const [micEnabled, setMicEnabled] = useState(false);
   const [hasSpoken, setHasSpoken] = useState(false);
   const [capturedPhotos, setCapturedPhotos] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [uploadIds, setUploadIds] = useState<string[]>([]);
+  const uploads = useUploads();
 
   const videoPreviewRef = useRef<VideoPreviewRef>(null);
   const streamRef = useRef<MediaStream | null>(null);
-  const recognitionRef = useRef<InstanceType<typeof window.SpeechRecognition> | null>(null);
+  const sttSessionRef = useRef<SpeechToTextSession | null>(null);
+  const transcriptRef = useRef("");
   const autoCaptureTimersRef = useRef<NodeJS.Timeout[]>([]);
+  const mediaRecorder = useMediaRecorder();
+  const { settings: voiceSettings, updateSettings: updateVoiceSettings } = useVoiceSettings();
+  const sessionStartedAtRef = useRef<number | null>(null);
+  const timingsRef = useRef<QuestionTiming[]>([]);
+  // Appends run one after another so events are stored in the order they ended
+  const integritySaveRef = useRef<Promise<void>>(Promise.resolve());
+
+  const queueIntegritySave = useCallback((event: IntegrityEvent) => {
+    integritySaveRef.current = integritySaveRef.current
+      .then(() => appendIntegrityEvents(interviewId, [event]))
+      .catch((saveError) => console.error("Error saving integrity events:", saveError));
+  }, [interviewId]);
+
+  const integrityMonitor = useIntegrityMonitor({ listening: isListening, onEvent: queueIntegritySave });
 
   // Load questions on mount
   useEffect(() => {
@@ -43,23 +111,34 @@ export const InterviewRoom = ({ candidateName, category, onComplete }: Interview
       // Cleanup timers on unmount
       autoCaptureTimersRef.current.forEach(timer => clearTimeout(timer));
     };
-  }, [category]);
+  }, [category, locale]);
+
+  // Don't leave the candidate in fullscreen if they navigate away mid-interview
+  useEffect(() => exitFullscreen, []);
 
   const loadQuestions = async () => {
+    if (presetQuestions?.length) {
+      setQuestions(presetQuestions);
+      setResponses(presetQuestions.map((q) => ({ question: q, answer: "" })));
+      setIsLoading(false);
+      return;
+    }
+
     try {
       setIsLoading(true);
       const { data, error } = await supabase.functions.invoke("interview-ai", {
-        body: { action: "generate_questions", category },
+        body: { action: "generate_questions", interviewId },
       });
 
       if (error) throw error;
 
       const loadedQuestions = data.result as string[];
       setQuestions(loadedQuestions);
+      setQuestionsDegraded(!!data.degraded);
       setResponses(loadedQuestions.map((q) => ({ question: q, answer: "" })));
     } catch (error) {
       console.error("Error loading questions:", error);
-      toast.error("Failed to load questions. Please try again.");
+      toast.error(t("room.loadQuestionsFailed"));
     } finally {
       setIsLoading(false);
     }
@@ -67,6 +146,11 @@ export const InterviewRoom = ({ candidateName, category, onComplete }: Interview
 
   // Start camera and microphone - MUST be called directly from user gesture
   const startMedia = async () => {
+    // Fullscreen also needs the gesture, which may have expired once the permission prompt is answered
+    document.documentElement.requestFullscreen?.().catch((error) => {
+      console.warn("Fullscreen is not available:", error);
+    });
+
     try {
       const stream = await navigator.mediaDevices.getUserMedia({
         video: {
@@ -90,15 +174,25 @@ export const InterviewRoom = ({ candidateName, category, onComplete }: Interview
       setVideoEnabled(true);
       setMicEnabled(true);
 
+      // Record the whole session continuously from the same stream
+      mediaRecorder.start(stream);
+      sessionStartedAtRef.current = Date.now();
+      integrityMonitor.start(sessionStartedAtRef.current, stream);
+
+      markInterviewInProgress(interviewId).catch((statusError) => {
+        console.error("Error updating interview status:", statusError);
+      });
+
       // Schedule automatic photo captures at different points
       scheduleAutoCaptures();
 
     } catch (error) {
       console.error("Error accessing media devices:", error);
+      exitFullscreen();
       if ((error as Error).name === "NotAllowedError") {
-        toast.error("Camera and microphone access denied. Please check browser permissions.");
+        toast.error(t("room.mediaDenied"));
       } else {
-        toast.error("Please allow camera and microphone access to continue.");
+        toast.error(t("room.mediaRequired"));
       }
     }
   };
@@ -123,16 +217,16 @@ export const InterviewRoom = ({ candidateName, category, onComplete }: Interview
   const capturePhoto = useCallback(() => {
     if (!videoPreviewRef.current) return;
     if (capturedPhotos.length >= 3) {
-      toast.info("Maximum 3 photos already captured");
+      toast.info(t("room.maxPhotos"));
       return;
     }
 
     const photoData = videoPreviewRef.current.captureFrame();
     if (photoData) {
       setCapturedPhotos(prev => [...prev, photoData]);
-      toast.success(`Photo ${capturedPhotos.length + 1} captured!`);
+      toast.success(t("room.photoCaptured", { count: capturedPhotos.length + 1 }));
     }
-  }, [capturedPhotos.length]);
+  }, [capturedPhotos.length, t]);
 
   // Toggle video
   const toggleVideo = useCallback(() => {
@@ -150,107 +244,204 @@ export const InterviewRoom = ({ candidateName, category, onComplete }: Interview
     }
   }, [micEnabled]);
 
-  // Speak a question using Web Speech API
-  const speakQuestion = useCallback((text: string) => {
-    return new Promise<void>((resolve) => {
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.rate = 0.9;
-      utterance.pitch = 1;
-      
-      utterance.onstart = () => setIsSpeaking(true);
-      utterance.onend = () => {
-        setIsSpeaking(false);
-        setHasSpoken(true);
-        resolve();
-      };
-      utterance.onerror = () => {
-        setIsSpeaking(false);
-        setHasSpoken(true);
-        resolve();
-      };
-
-      speechSynthesis.speak(utterance);
-    });
+  // Record when a question phase happened, relative to the recording start.
+  // Starts keep the first occurrence (replays, retakes), ends keep the latest.
+  const markTiming = useCallback((index: number, key: keyof QuestionTiming) => {
+    if (sessionStartedAtRef.current === null) return;
+
+    const timing = { ...timingsRef.current[index] };
+    const isStart = key === "questionStartedAt" || key === "answerStartedAt";
+    if (isStart && timing[key] !== undefined) return;
+
+    timing[key] = Date.now() - sessionStartedAtRef.current;
+    timingsRef.current[index] = timing;
   }, []);
 
-  // Start listening for answer
-  const startListening = useCallback(() => {
-    const SpeechRecognitionClass = window.SpeechRecognition || window.webkitSpeechRecognition;
-    
-    if (!SpeechRecognitionClass) {
-      toast.error("Speech recognition is not supported in your browser.");
-      return;
+  // Speak a question with the configured text-to-speech backend
+  const speakQuestion = useCallback(async (text: string) => {
+    markTiming(currentQuestionIndex, "questionStartedAt");
+
+    const provider = getTextToSpeechProvider();
+    if (provider) {
+      // Disable replays right away; server audio may take a moment to arrive
+      setIsSpeaking(true);
+      try {
+        await provider.speak(text, {
+          settings: voiceSettings,
+          lang: speechLang,
+          onStart: () => setIsSpeaking(true),
+        });
+      } catch (error) {
+        console.error("Error speaking question:", error);
+        toast.error(t("room.speakFailed"));
+      }
     }
 
-    const recognition = new SpeechRecognitionClass();
-    recognitionRef.current = recognition;
+    setIsSpeaking(false);
+    setHasSpoken(true);
+  }, [currentQuestionIndex, markTiming, voiceSettings, speechLang, t]);
 
-    recognition.continuous = true;
-    recognition.interimResults = true;
-    recognition.lang = "en-US";
+  const previewVoice = useCallback(() => {
+    getTextToSpeechProvider()
+      ?.speak(t("room.voicePreview"), {
+        settings: voiceSettings,
+        lang: speechLang,
+        onStart: () => {},
+      })
+      .catch((error) => console.error("Error previewing voice:", error));
+  }, [voiceSettings, speechLang, t]);
 
-    let finalTranscript = "";
+  // Start listening for answer
+  const startListening = useCallback(() => {
+    const provider = getSpeechToTextProvider();
 
-    recognition.onstart = () => setIsListening(true);
-    
-    recognition.onresult = (event) => {
-      let interimTranscript = "";
-      for (let i = event.resultIndex; i < event.results.length; i++) {
-        const transcript = event.results[i][0].transcript;
-        if (event.results[i].isFinal) {
-          finalTranscript += transcript + " ";
-        } else {
-          interimTranscript += transcript;
+    if (!provider) {
+      toast.error(t("room.sttUnsupported"));
+      return;
+    }
+
+    sttSessionRef.current = provider.start({
+      stream: streamRef.current,
+      lang: speechLang,
+      onStart: () => {
+        markTiming(currentQuestionIndex, "answerStartedAt");
+        setIsListening(true);
+      },
+      onTranscript: setCurrentAnswer,
+      onError: (error) => {
+        setIsListening(false);
+        if (error === "transcription-failed") {
+          toast.error(t("room.transcriptionFailed"));
         }
-      }
-      setCurrentAnswer(finalTranscript + interimTranscript);
-    };
+      },
+      onEnd: () => setIsListening(false),
+    });
+  }, [currentQuestionIndex, markTiming, speechLang, t]);
 
-    recognition.onerror = (event) => {
-      console.error("Speech recognition error:", event.error);
-      setIsListening(false);
-    };
+  // Stop listening and save answer
+  const stopListening = useCallback(async () => {
+    let answer = currentAnswer;
 
-    recognition.onend = () => {
+    const session = sttSessionRef.current;
+    sttSessionRef.current = null;
+    if (session) {
+      markTiming(currentQuestionIndex, "answerEndedAt");
       setIsListening(false);
-    };
-
-    recognition.start();
-  }, []);
-
-  // Stop listening and save answer
-  const stopListening = useCallback(() => {
-    if (recognitionRef.current) {
-      recognitionRef.current.stop();
+      setIsTranscribing(true);
+      answer = await session.stop();
+      transcriptRef.current = answer;
+      setCurrentAnswer(answer);
+      setIsTranscribing(false);
+    } else if (answerMode === "typed" && answer) {
+      markTiming(currentQuestionIndex, "answerEndedAt");
     }
     setIsListening(false);
 
     // Save the current answer
-    setResponses((prev) => {
-      const updated = [...prev];
-      updated[currentQuestionIndex] = {
-        question: questions[currentQuestionIndex],
-        answer: currentAnswer,
-      };
-      return updated;
+    const updated = [...responses];
+    updated[currentQuestionIndex] = {
+      ...updated[currentQuestionIndex],
+      question: questions[currentQuestionIndex],
+      answer,
+      timing: timingsRef.current[currentQuestionIndex],
+      inputMode: answerMode,
+      edited: answerMode === "spoken" && !!transcriptRef.current && answer !== transcriptRef.current,
+    };
+    setResponses(updated);
+
+    saveResponses(interviewId, updated).catch((saveError) => {
+      console.error("Error saving answer:", saveError);
+      toast.error(t("room.saveAnswerFailed"));
     });
-  }, [currentAnswer, currentQuestionIndex, questions]);
 
-  // Move to next question or finish
+    return updated;
+  }, [currentAnswer, answerMode, currentQuestionIndex, questions, responses, interviewId, markTiming, t]);
+
+  // Typed answers start with the first keystroke
+  const changeAnswer = useCallback((answer: string) => {
+    if (answerMode === "typed") {
+      markTiming(currentQuestionIndex, "answerStartedAt");
+    }
+    setCurrentAnswer(answer);
+  }, [answerMode, currentQuestionIndex, markTiming]);
+
+  // Ask the AI whether the latest answer deserves a probing question
+  const getFollowUp = async (latestResponses: InterviewResponse[]) => {
+    const thread = getFollowUpThread(latestResponses, currentQuestionIndex);
+    if (thread.length > getFollowUpMaxDepth() || !latestResponses[currentQuestionIndex]?.answer.trim()) {
+      return null;
+    }
+
+    setIsThinking(true);
+    try {
+      const decision = await requestFollowUp({
+        interviewId,
+        insertAt: currentQuestionIndex + 1,
+        conversation: thread,
+      });
+      return decision.action === "follow_up" ? decision.question : null;
+    } catch (error) {
+      // A missing follow-up shouldn't hold up the interview
+      console.error("Error requesting follow-up:", error);
+      return null;
+    } finally {
+      setIsThinking(false);
+    }
+  };
+
+  // Move to next question (or a follow-up) or finish
   const handleNext = async () => {
-    stopListening();
+    getTextToSpeechProvider()?.cancel();
+    markTiming(currentQuestionIndex, "questionEndedAt");
+    const latestResponses = await stopListening();
+    const followUp = await getFollowUp(latestResponses);
     setHasSpoken(false);
     setCurrentAnswer("");
+    transcriptRef.current = "";
+
+    if (followUp) {
+      const insertAt = currentQuestionIndex + 1;
+      const followUpOf = latestResponses[currentQuestionIndex].followUpOf ?? currentQuestionIndex;
+      const updatedQuestions = [...questions.slice(0, insertAt), followUp, ...questions.slice(insertAt)];
+      const updatedResponses = [
+        ...latestResponses.slice(0, insertAt),
+        { question: followUp, answer: "", followUpOf },
+        ...latestResponses.slice(insertAt),
+      ];
+      timingsRef.current.splice(insertAt, 0, {});
+
+      setQuestions(updatedQuestions);
+      setResponses(updatedResponses);
+      setCurrentQuestionIndex(insertAt);
+      return;
+    }
 
     if (currentQuestionIndex < questions.length - 1) {
       setCurrentQuestionIndex((prev) => prev + 1);
     } else {
-      await finishInterview();
+      await finishInterview(latestResponses);
     }
   };
 
-  // Finish interview and upload photos
-  const finishInterview = async () => {
+  // Finish interview and upload the recording and photos
+  const finishInterview = async (responses: InterviewResponse[]) => {
+    // interview-ai analyzes the stored answers, so the last one must be saved before the results
+    // screen; only then is the interview marked finished
+    const savedResponses = saveResponses(interviewId, responses)
+      .catch((saveError) => {
+        console.error("Error saving answer:", saveError);
+        toast.error(t("room.saveAnswerFailed"));
+      })
+      .then(() => markInterviewFinished(interviewId))
+      .catch((statusError) => console.error("Error updating interview status:", statusError));
+
+    // Stop monitoring first, so leaving fullscreen below isn't recorded
+    const integrityEvents = integrityMonitor.stop();
+    exitFullscreen();
+
+    // Flush the recorder before the tracks it is reading from are stopped
+    const recording = await mediaRecorder.stop();
+
     // Stop the media stream
     if (streamRef.current) {
       streamRef.current.getTracks().forEach((track) => track.stop());
@@ -259,70 +450,52 @@ export const InterviewRoom = ({ candidateName, category, onComplete }: Interview
     // Clear auto-capture timers
     autoCaptureTimersRef.current.forEach(timer => clearTimeout(timer));
 
-    let photoUrls: string[] = [];
+    let videoPath: string | null = null;
+    const photoPaths: string[] = [];
 
-    // Upload captured photos
-    if (capturedPhotos.length > 0) {
+    if (recording || capturedPhotos.length > 0) {
       try {
         const { data: { user } } = await supabase.auth.getUser();
         if (!user) {
-          toast.error("Authentication required to upload photos");
-          onComplete({ questions, responses, videoUrl: null });
+          toast.error(t("room.authRequired"));
+          await savedResponses;
+          onComplete({ questions, responses, videoPath: null, photos: capturedPhotos, integrityEvents });
           return;
         }
 
-        toast.loading("Saving photos...", { id: "upload" });
+        setIsSaving(true);
+        const uploadIds: string[] = [];
+
+        if (recording) {
+          const upload = toRecordingUpload(recording);
+          videoPath = getRecordingPath(user.id, interviewId, upload.type);
+          uploadIds.push(await enqueueUpload({ path: videoPath, blob: upload, label: t("room.recordingLabel") }));
+        }
 
         for (let i = 0; i < capturedPhotos.length; i++) {
-          const photoData = capturedPhotos[i];
-          
-          // Convert base64 to blob
-          const base64Data = photoData.split(',')[1];
-          const byteCharacters = atob(base64Data);
-          const byteNumbers = new Array(byteCharacters.length);
-          for (let j = 0; j < byteCharacters.length; j++) {
-            byteNumbers[j] = byteCharacters.charCodeAt(j);
-          }
-          const byteArray = new Uint8Array(byteNumbers);
-          const blob = new Blob([byteArray], { type: 'image/jpeg' });
-
-          const fileName = `${user.id}/interview-${candidateName.replace(/\s+/g, "-")}-${Date.now()}-photo${i + 1}.jpg`;
-
-          const { data, error } = await supabase.storage
-            .from("interview-recordings")
-            .upload(fileName, blob, {
-              contentType: 'image/jpeg',
-              upsert: false,
-            });
-
-          if (error) {
-            console.error(`Upload error for photo ${i + 1}:`, error);
-            continue;
-          }
-
-          // Get signed URL for the uploaded photo
-          const { data: signedUrlData } = await supabase.storage
-            .from("interview-recordings")
-            .createSignedUrl(fileName, 3600);
-
-          if (signedUrlData?.signedUrl) {
-            photoUrls.push(signedUrlData.signedUrl);
-          }
+          const path = getPhotoPath(user.id, interviewId, i);
+          photoPaths.push(path);
+          uploadIds.push(
+            await enqueueUpload({ path, blob: dataUrlToBlob(capturedPhotos[i]), label: t("room.photoLabel", { number: i + 1 }) }),
+          );
         }
+        setUploadIds(uploadIds);
+
+        // Paths are deterministic, so the row can point at files still being uploaded
+        await saveRecording(interviewId, { videoPath, photoPaths });
 
-        toast.success(`${photoUrls.length} photo(s) saved successfully!`, { id: "upload" });
+        const results = await Promise.all(uploadIds.map(waitForUpload));
+        if (results.some((result) => result?.status === "failed")) {
+          toast.error(t("room.uploadsFailed"));
+        }
       } catch (error) {
-        console.error("Error uploading photos:", error);
-        toast.error("Failed to save photos.", { id: "upload" });
+        console.error("Error uploading recording:", error);
+        toast.error(t("room.recordingFailed"));
       }
     }
 
-    // Pass the first photo URL as videoUrl for backwards compatibility
-    onComplete({ 
-      questions, 
-      responses, 
-      videoUrl: photoUrls.length > 0 ? photoUrls[0] : null 
-    });
+    await savedResponses;
+    onComplete({ questions, responses, videoPath, photos: capturedPhotos, integrityEvents });
   };
 
   const progress = questions.length > 0 ? ((currentQuestionIndex + 1) / questions.length) * 100 : 0;
@@ -336,7 +509,28 @@ export const InterviewRoom = ({ candidateName, category, onComplete }: Interview
           className="text-center"
         >
           <Loader2 className="w-12 h-12 text-primary animate-spin mx-auto mb-4" />
-          <p className="text-muted-foreground">Preparing your interview...</p>
+          <p className="text-muted-foreground">{t("room.preparing")}</p>
+        </motion.div>
+      </div>
+    );
+  }
+
+  if (isSaving) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="w-full max-w-md"
+        >
+          <div className="text-center mb-8">
+            <Loader2 className="w-12 h-12 text-primary animate-spin mx-auto mb-4" />
+            <h2 className="text-2xl font-display font-bold mb-2">{t("room.savingTitle")}</h2>
+            <p className="text-muted-foreground">{t("room.savingDescription")}</p>
+          </div>
+          <div className="glass rounded-2xl p-6">
+            <UploadProgress uploads={uploads.filter((upload) => uploadIds.includes(upload.id))} />
+          </div>
         </motion.div>
       </div>
     );
@@ -353,17 +547,15 @@ export const InterviewRoom = ({ candidateName, category, onComplete }: Interview
           <div className="w-24 h-24 mx-auto mb-6 rounded-full glass flex items-center justify-center">
             <Video className="w-12 h-12 text-primary" />
           </div>
-          <h2 className="text-2xl font-display font-bold mb-4">Enable Camera</h2>
-          <p className="text-muted-foreground mb-8">
-            Please enable your camera and microphone to start the interview. 
-            We'll capture a few photos during the session.
-          </p>
+          <h2 className="text-2xl font-display font-bold mb-4">{t("room.enableCameraTitle")}</h2>
+          <p className="text-muted-foreground mb-4">{t("room.enableCameraDescription")}</p>
+          <p className="text-sm text-muted-foreground mb-8">{t("room.integrityNotice")}</p>
           <Button
             onClick={startMedia}
             size="lg"
             className="bg-gradient-to-r from-primary to-secondary hover:opacity-90"
           >
-            Enable Camera & Microphone
+            {t("room.enableCameraButton")}
           </Button>
         </motion.div>
       </div>
@@ -381,18 +573,29 @@ export const InterviewRoom = ({ candidateName, category, onComplete }: Interview
         <div className="flex items-center justify-between mb-4">
           <div>
             <p className="text-sm text-muted-foreground">
-              Question {currentQuestionIndex + 1} of {questions.length}
+              {t("room.questionProgress", { current: currentQuestionIndex + 1, total: questions.length })}
             </p>
-            <h2 className="text-xl font-display font-semibold capitalize">
-              {category} Interview
+            <h2 className="text-xl font-display font-semibold">
+              {t("common.interviewTitle", { category: getCategoryName(category) })}
             </h2>
           </div>
           <div className="flex items-center gap-2">
+            <VoiceSettingsPopover
+              settings={voiceSettings}
+              onChange={updateVoiceSettings}
+              onPreview={previewVoice}
+            />
             <div className="w-3 h-3 rounded-full bg-primary" />
-            <span className="text-sm text-muted-foreground">In Progress</span>
+            <span className="text-sm text-muted-foreground">{t("room.inProgress")}</span>
           </div>
         </div>
         <Progress value={progress} className="h-2" />
+        {questionsDegraded && (
+          <p className="mt-3 flex items-center gap-2 text-sm text-yellow-400">
+            <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+            {t("room.questionsDegraded")}
+          </p>
+        )}
       </motion.div>
 
       {/* Main Content */}
@@ -411,15 +614,21 @@ export const InterviewRoom = ({ candidateName, category, onComplete }: Interview
 
         {/* Question Panel */}
         <QuestionPanel
-          question={questions[currentQuestionIndex] || "Loading question..."}
+          question={questions[currentQuestionIndex] || t("room.loadingQuestion")}
           currentAnswer={currentAnswer}
+          answerMode={answerMode}
           isSpeaking={isSpeaking}
           isListening={isListening}
+          isTranscribing={isTranscribing}
+          isThinking={isThinking}
+          isFollowUp={responses[currentQuestionIndex]?.followUpOf !== undefined}
           hasSpoken={hasSpoken}
           isLastQuestion={currentQuestionIndex >= questions.length - 1}
           onListenToQuestion={() => speakQuestion(questions[currentQuestionIndex])}
           onStartListening={startListening}
           onStopListening={stopListening}
+          onAnswerChange={changeAnswer}
+          onAnswerModeChange={setAnswerMode}
           onNext={handleNext}
         />
       </div>
@@ -0,0 +1,34 @@
+import { Languages } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLocale } from "@/hooks/useLocale";
+import { Locale, locales } from "@/lib/i18n";
+
+interface LanguageSelectProps {
+  className?: string;
+}
+
+export const LanguageSelect = ({ className }: LanguageSelectProps) => {
+  const { locale, setLocale, t } = useLocale();
+
+  return (
+    <Select value={locale} onValueChange={(value) => setLocale(value as Locale)}>
+      <SelectTrigger className={className} aria-label={t("common.language")}>
+        <Languages className="w-4 h-4 mr-2 text-muted-foreground" />
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {locales.map((option) => (
+          <SelectItem key={option.id} value={option.id}>
+            {option.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
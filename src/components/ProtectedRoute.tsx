@@ -1,16 +1,22 @@
 import { ReactNode } from "react";
-import { Navigate } from "react-router-dom";
+import { Navigate, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import { useRoles } from "@/hooks/useRoles";
+import { AppRole } from "@/lib/roles";
 import { Loader2 } from "lucide-react";
 
 interface ProtectedRouteProps {
   children: ReactNode;
+  // Role needed on top of being signed in; admins pass every role check
+  requiredRole?: AppRole;
 }
 
-export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
+export const ProtectedRoute = ({ children, requiredRole }: ProtectedRouteProps) => {
   const { user, loading } = useAuth();
+  const location = useLocation();
+  const { hasRole, isLoading: rolesLoading } = useRoles();
 
-  if (loading) {
+  if (loading || (requiredRole && rolesLoading)) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Loader2 className="w-8 h-8 text-primary animate-spin" />
@@ -19,7 +25,12 @@ export const ProtectedRoute = ({ children }: ProtectedRouteProps) => {
   }
 
   if (!user) {
-    return <Navigate to="/auth" replace />;
+    // Come back here after signing in, e.g. to an invite link
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  if (requiredRole && !hasRole(requiredRole) && !hasRole("admin")) {
+    return <Navigate to="/" replace />;
   }
 
   return <>{children}</>;
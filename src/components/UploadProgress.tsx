@@ -0,0 +1,69 @@
+import { CheckCircle, AlertTriangle, Loader2, RefreshCw, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useLocale } from "@/hooks/useLocale";
+import type { MessageKey } from "@/lib/i18n";
+import { dismissUpload, retryUpload, UploadState, UploadStatus } from "@/lib/upload-manager";
+
+const statusLabels: Record<UploadStatus, MessageKey> = {
+  queued: "upload.queued",
+  uploading: "upload.uploading",
+  retrying: "upload.retrying",
+  completed: "upload.completed",
+  failed: "upload.failed",
+};
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface UploadProgressProps {
+  uploads: UploadState[];
+}
+
+export const UploadProgress = ({ uploads }: UploadProgressProps) => {
+  const { t } = useLocale();
+
+  return (
+    <ul className="space-y-4">
+      {uploads.map((upload) => {
+        const percent = upload.size > 0 ? Math.round((upload.uploadedBytes / upload.size) * 100) : 100;
+        return (
+          <li key={upload.id} className="space-y-2">
+            <div className="flex items-center justify-between gap-3 text-sm">
+              <div className="flex items-center gap-2 min-w-0">
+                {upload.status === "completed" ? (
+                  <CheckCircle className="w-4 h-4 text-emerald-400 flex-shrink-0" />
+                ) : upload.status === "failed" ? (
+                  <AlertTriangle className="w-4 h-4 text-destructive flex-shrink-0" />
+                ) : (
+                  <Loader2 className="w-4 h-4 text-primary animate-spin flex-shrink-0" />
+                )}
+                <span className="font-medium truncate">{upload.label}</span>
+              </div>
+              <span className="text-muted-foreground whitespace-nowrap">
+                {t(statusLabels[upload.status])} · {formatBytes(upload.uploadedBytes)} / {formatBytes(upload.size)}
+              </span>
+            </div>
+            <Progress value={percent} className="h-2" />
+            {upload.status === "failed" && (
+              <div className="flex items-center justify-between gap-3">
+                <p className="text-xs text-destructive truncate">{upload.error}</p>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="outline" onClick={() => retryUpload(upload.id)}>
+                    <RefreshCw className="w-3 h-3 mr-1" />
+                    {t("upload.retry")}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => dismissUpload(upload.id)}>
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
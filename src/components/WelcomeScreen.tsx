@@ -3,12 +3,14 @@ import { motion } from "framer-motion";
 import { ArrowRight, Sparkles } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { useLocale } from "@/hooks/useLocale";
 
 interface WelcomeScreenProps {
   onNext: (name: string) => void;
 }
 
 export const WelcomeScreen = ({ onNext }: WelcomeScreenProps) => {
+  const { t } = useLocale();
   const [name, setName] = useState("");
   const [isFocused, setIsFocused] = useState(false);
 
@@ -44,9 +46,9 @@ export const WelcomeScreen = ({ onNext }: WelcomeScreenProps) => {
           transition={{ delay: 0.3 }}
           className="text-4xl md:text-5xl font-display font-bold mb-4"
         >
-          <span className="gradient-text">AI Interview</span>
+          <span className="gradient-text">{t("welcome.titleAccent")}</span>
           <br />
-          <span className="text-foreground">Assistant</span>
+          <span className="text-foreground">{t("welcome.titleRest")}</span>
         </motion.h1>
 
         <motion.p
@@ -55,7 +57,7 @@ export const WelcomeScreen = ({ onNext }: WelcomeScreenProps) => {
           transition={{ delay: 0.4 }}
           className="text-muted-foreground text-lg mb-10"
         >
-          Experience the future of technical interviews with our AI-powered platform
+          {t("welcome.subtitle")}
         </motion.p>
 
         {/* Name Input Form */}
@@ -78,7 +80,7 @@ export const WelcomeScreen = ({ onNext }: WelcomeScreenProps) => {
             >
               <Input
                 type="text"
-                placeholder="Enter your full name"
+                placeholder={t("welcome.namePlaceholder")}
                 value={name}
                 onChange={(e) => setName(e.target.value)}
                 onFocus={() => setIsFocused(true)}
@@ -94,7 +96,7 @@ export const WelcomeScreen = ({ onNext }: WelcomeScreenProps) => {
             size="lg"
             className="w-full h-14 text-lg font-semibold rounded-xl bg-gradient-to-r from-primary to-secondary hover:opacity-90 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed group"
           >
-            Start Interview
+            {t("welcome.start")}
             <ArrowRight className="ml-2 w-5 h-5 group-hover:translate-x-1 transition-transform" />
           </Button>
         </motion.form>
@@ -106,7 +108,7 @@ export const WelcomeScreen = ({ onNext }: WelcomeScreenProps) => {
           transition={{ delay: 0.7 }}
           className="mt-12 flex justify-center gap-8 text-sm text-muted-foreground"
         >
-          {["Voice-Based", "AI-Powered", "Real-Time Analysis"].map((feature, i) => (
+          {[t("welcome.featureVoice"), t("welcome.featureAi"), t("welcome.featureRealtime")].map((feature, i) => (
             <motion.div
               key={feature}
               initial={{ opacity: 0, y: 10 }}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCategories } from "@/hooks/useCategories";
+import { useLocale } from "@/hooks/useLocale";
+import { Locale, locales } from "@/lib/i18n";
+import {
+  BankQuestion,
+  BankQuestionInput,
+  Difficulty,
+  difficultyLabels,
+  parseTags,
+} from "@/lib/question-bank";
+import { toast } from "sonner";
+
+interface BankQuestionDialogProps {
+  open: boolean;
+  // Question being edited, or null to add a new one
+  question: BankQuestion | null;
+  isSaving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: BankQuestionInput) => void;
+}
+
+const emptyForm = {
+  category: "",
+  locale: "en" as Locale,
+  difficulty: "medium" as Difficulty,
+  tags: "",
+  text: "",
+  referenceAnswer: "",
+  active: true,
+};
+
+export const BankQuestionDialog = ({ open, question, isSaving, onOpenChange, onSave }: BankQuestionDialogProps) => {
+  const { t } = useLocale();
+  const { categories } = useCategories();
+  const [form, setForm] = useState(emptyForm);
+  const defaultCategory = categories[0]?.slug ?? "";
+
+  // Start from the edited question each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      question
+        ? {
+            category: question.category,
+            locale: question.locale as Locale,
+            difficulty: question.difficulty as Difficulty,
+            tags: question.tags.join(", "),
+            text: question.text,
+            referenceAnswer: question.reference_answer ?? "",
+            active: question.active,
+          }
+        : { ...emptyForm, category: defaultCategory },
+    );
+  }, [open, question, defaultCategory]);
+
+  const update = (patch: Partial<typeof form>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.text.trim()) {
+      toast.error(t("bank.textRequired"));
+      return;
+    }
+    onSave({ ...form, tags: parseTags(form.tags) });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{question ? t("bank.edit") : t("bank.add")}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid sm:grid-cols-3 gap-3">
+            <div className="space-y-2">
+              <Label>{t("bank.category")}</Label>
+              <Select value={form.category} onValueChange={(category) => update({ category })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {categories.map((c) => (
+                    <SelectItem key={c.slug} value={c.slug}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("bank.difficulty")}</Label>
+              <Select
+                value={form.difficulty}
+                onValueChange={(difficulty) => update({ difficulty: difficulty as Difficulty })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(difficultyLabels) as Difficulty[]).map((difficulty) => (
+                    <SelectItem key={difficulty} value={difficulty}>
+                      {t(difficultyLabels[difficulty])}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("common.language")}</Label>
+              <Select value={form.locale} onValueChange={(locale) => update({ locale: locale as Locale })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locales.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bank-text">{t("bank.question")}</Label>
+            <Textarea
+              id="bank-text"
+              value={form.text}
+              onChange={(e) => update({ text: e.target.value })}
+              maxLength={500}
+              className="min-h-[80px]"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bank-reference">{t("bank.referenceAnswer")}</Label>
+            <Textarea
+              id="bank-reference"
+              value={form.referenceAnswer}
+              onChange={(e) => update({ referenceAnswer: e.target.value })}
+              placeholder={t("bank.referenceAnswerPlaceholder")}
+              className="min-h-[100px]"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="bank-tags">{t("bank.tags")}</Label>
+            <Input
+              id="bank-tags"
+              value={form.tags}
+              onChange={(e) => update({ tags: e.target.value })}
+              placeholder={t("bank.tagsPlaceholder")}
+            />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch
+              id="bank-active"
+              checked={form.active}
+              onCheckedChange={(active) => update({ active })}
+            />
+            <Label htmlFor="bank-active">{t("bank.active")}</Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,221 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  Category,
+  categoryColors,
+  categoryIcons,
+  CategoryInput,
+  isValidSlug,
+} from "@/lib/categories";
+import { cn } from "@/lib/utils";
+import { toast } from "sonner";
+
+interface CategoryDialogProps {
+  open: boolean;
+  // Category being edited, or null to add a new one
+  category: Category | null;
+  // Slugs already in use, to catch duplicates before the insert fails
+  existingSlugs: string[];
+  isSaving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: CategoryInput) => void;
+}
+
+const emptyForm: CategoryInput = {
+  slug: "",
+  name: "",
+  description: "",
+  icon: "code",
+  color: categoryColors[0],
+  promptContext: "",
+  enabled: true,
+};
+
+export const CategoryDialog = ({
+  open,
+  category,
+  existingSlugs,
+  isSaving,
+  onOpenChange,
+  onSave,
+}: CategoryDialogProps) => {
+  const { t } = useLocale();
+  const [form, setForm] = useState(emptyForm);
+
+  // Start from the edited category each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      category
+        ? {
+            slug: category.slug,
+            name: category.name,
+            description: category.description ?? "",
+            icon: category.icon,
+            color: category.color,
+            promptContext: category.prompt_context ?? "",
+            enabled: category.enabled,
+          }
+        : emptyForm,
+    );
+  }, [open, category]);
+
+  const update = (patch: Partial<CategoryInput>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!category) {
+      if (!isValidSlug(form.slug)) {
+        toast.error(t("categories.slugInvalid"));
+        return;
+      }
+      if (existingSlugs.includes(form.slug)) {
+        toast.error(t("categories.slugTaken"));
+        return;
+      }
+    }
+    if (!form.name.trim()) {
+      toast.error(t("categories.nameRequired"));
+      return;
+    }
+    onSave(form);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{category ? t("categories.edit") : t("categories.add")}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">{t("categories.name")}</Label>
+              <Input
+                id="category-name"
+                value={form.name}
+                onChange={(e) => update({ name: e.target.value })}
+                maxLength={50}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-slug">{t("categories.slug")}</Label>
+              <Input
+                id="category-slug"
+                value={form.slug}
+                onChange={(e) => update({ slug: e.target.value.toLowerCase() })}
+                disabled={!!category}
+                maxLength={50}
+                placeholder="react-native"
+              />
+              {!category && <p className="text-xs text-muted-foreground">{t("categories.slugHint")}</p>}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-description">{t("categories.description")}</Label>
+            <Input
+              id="category-description"
+              value={form.description}
+              onChange={(e) => update({ description: e.target.value })}
+              maxLength={200}
+            />
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>{t("categories.icon")}</Label>
+              <Select value={form.icon} onValueChange={(icon) => update({ icon })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(categoryIcons).map(([name, Icon]) => (
+                    <SelectItem key={name} value={name}>
+                      <span className="flex items-center gap-2">
+                        <Icon className="w-4 h-4" />
+                        {name}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("categories.color")}</Label>
+              <div className="flex flex-wrap gap-2">
+                {categoryColors.map((color) => (
+                  <button
+                    key={color}
+                    type="button"
+                    onClick={() => update({ color })}
+                    aria-label={color}
+                    className={cn(
+                      "w-8 h-8 rounded-lg bg-gradient-to-br transition-transform",
+                      color,
+                      form.color === color ? "ring-2 ring-primary ring-offset-2 ring-offset-background scale-110" : "",
+                    )}
+                  />
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-prompt-context">{t("categories.promptContext")}</Label>
+            <Textarea
+              id="category-prompt-context"
+              value={form.promptContext}
+              onChange={(e) => update({ promptContext: e.target.value })}
+              placeholder={t("categories.promptContextPlaceholder")}
+              maxLength={1000}
+              className="min-h-[100px]"
+            />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch
+              id="category-enabled"
+              checked={form.enabled}
+              onCheckedChange={(enabled) => update({ enabled })}
+            />
+            <Label htmlFor="category-enabled">{t("categories.enabled")}</Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useCategories } from "@/hooks/useCategories";
+import { useLocale } from "@/hooks/useLocale";
+import { InviteInput, MAX_INVITE_QUESTIONS, parseQuestions } from "@/lib/invites";
+import { Locale, locales } from "@/lib/i18n";
+import type { Organization } from "@/lib/organizations";
+import { toast } from "sonner";
+
+interface InviteDialogProps {
+  open: boolean;
+  organizations: Organization[];
+  isSaving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: InviteInput) => void;
+}
+
+const emptyForm = {
+  organizationId: "",
+  label: "",
+  category: "",
+  locale: "en" as Locale,
+  questions: "",
+  // datetime-local value, in the recruiter's time zone
+  expiresAt: "",
+  maxAttempts: 1,
+};
+
+export const InviteDialog = ({ open, organizations, isSaving, onOpenChange, onSave }: InviteDialogProps) => {
+  const { t } = useLocale();
+  const { enabledCategories } = useCategories();
+  const [form, setForm] = useState(emptyForm);
+  const defaultOrganization = organizations.length === 1 ? organizations[0].id : "";
+  const defaultCategory = enabledCategories[0]?.slug ?? "";
+
+  // Start from a blank invite each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setForm({ ...emptyForm, organizationId: defaultOrganization, category: defaultCategory });
+  }, [open, defaultOrganization, defaultCategory]);
+
+  const update = (patch: Partial<typeof form>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.label.trim()) {
+      toast.error(t("invites.labelRequired"));
+      return;
+    }
+    if (!form.organizationId) {
+      toast.error(t("invites.organizationRequired"));
+      return;
+    }
+    const questions = parseQuestions(form.questions);
+    if (questions.length > MAX_INVITE_QUESTIONS) {
+      toast.error(t("invites.tooManyQuestions", { max: MAX_INVITE_QUESTIONS }));
+      return;
+    }
+    onSave({
+      ...form,
+      questions,
+      expiresAt: form.expiresAt ? new Date(form.expiresAt).toISOString() : null,
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{t("invites.add")}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="invite-label">{t("invites.label")}</Label>
+              <Input
+                id="invite-label"
+                value={form.label}
+                onChange={(e) => update({ label: e.target.value })}
+                placeholder={t("invites.labelPlaceholder")}
+                maxLength={100}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("invites.organization")}</Label>
+              <Select value={form.organizationId} onValueChange={(organizationId) => update({ organizationId })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {organizations.map((organization) => (
+                    <SelectItem key={organization.id} value={organization.id}>
+                      {organization.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label>{t("history.category")}</Label>
+              <Select value={form.category} onValueChange={(category) => update({ category })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {enabledCategories.map((c) => (
+                    <SelectItem key={c.slug} value={c.slug}>
+                      {c.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("common.language")}</Label>
+              <Select value={form.locale} onValueChange={(locale) => update({ locale: locale as Locale })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {locales.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invite-questions">{t("invites.questions")}</Label>
+            <Textarea
+              id="invite-questions"
+              value={form.questions}
+              onChange={(e) => update({ questions: e.target.value })}
+              placeholder={t("invites.questionsPlaceholder")}
+              className="min-h-[120px]"
+            />
+          </div>
+
+          <div className="grid sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="invite-deadline">{t("invites.deadline")}</Label>
+              <Input
+                id="invite-deadline"
+                type="datetime-local"
+                value={form.expiresAt}
+                onChange={(e) => update({ expiresAt: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="invite-attempts">{t("invites.maxAttempts")}</Label>
+              <Input
+                id="invite-attempts"
+                type="number"
+                min={1}
+                max={10}
+                value={form.maxAttempts}
+                onChange={(e) => update({ maxAttempts: Math.min(10, Math.max(1, Number(e.target.value) || 1)) })}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,27 @@
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { useLocale } from "@/hooks/useLocale";
+import type { ScoreBucket } from "@/lib/dashboard";
+
+interface ScoreDistributionChartProps {
+  buckets: ScoreBucket[];
+}
+
+export const ScoreDistributionChart = ({ buckets }: ScoreDistributionChartProps) => {
+  const { t } = useLocale();
+  const config: ChartConfig = {
+    count: { label: t("dashboard.interviews"), color: "hsl(var(--primary))" },
+  };
+
+  return (
+    <ChartContainer config={config} className="h-48 w-full">
+      <BarChart data={buckets} margin={{ top: 8, right: 8, bottom: 0, left: -24 }}>
+        <CartesianGrid vertical={false} strokeDasharray="3 3" />
+        <XAxis dataKey="range" tickLine={false} axisLine={false} fontSize={11} />
+        <YAxis allowDecimals={false} tickLine={false} axisLine={false} fontSize={11} />
+        <ChartTooltip content={<ChartTooltipContent />} />
+        <Bar dataKey="count" fill="var(--color-count)" radius={[4, 4, 0, 0]} />
+      </BarChart>
+    </ChartContainer>
+  );
+};
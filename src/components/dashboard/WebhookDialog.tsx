@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLocale } from "@/hooks/useLocale";
+import type { Organization } from "@/lib/organizations";
+import { isValidWebhookUrl, Webhook, WEBHOOK_EVENTS, WebhookEvent, WebhookInput } from "@/lib/webhooks";
+import { toast } from "sonner";
+
+interface WebhookDialogProps {
+  open: boolean;
+  // The webhook being edited, or null for a new one
+  webhook: Webhook | null;
+  organizations: Organization[];
+  isSaving: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (input: WebhookInput) => void;
+}
+
+const emptyForm: WebhookInput = {
+  organizationId: "",
+  url: "",
+  events: [...WEBHOOK_EVENTS],
+  enabled: true,
+};
+
+export const WebhookDialog = ({ open, webhook, organizations, isSaving, onOpenChange, onSave }: WebhookDialogProps) => {
+  const { t } = useLocale();
+  const [form, setForm] = useState(emptyForm);
+  const defaultOrganization = organizations.length === 1 ? organizations[0].id : "";
+
+  // Start from the webhook being edited, or a blank one, each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      webhook
+        ? {
+            organizationId: webhook.organization_id,
+            url: webhook.url,
+            events: webhook.events as WebhookEvent[],
+            enabled: webhook.enabled,
+          }
+        : { ...emptyForm, organizationId: defaultOrganization }
+    );
+  }, [open, webhook, defaultOrganization]);
+
+  const update = (patch: Partial<WebhookInput>) => setForm((prev) => ({ ...prev, ...patch }));
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) =>
+    update({
+      events: checked
+        ? WEBHOOK_EVENTS.filter((e) => e === event || form.events.includes(e))
+        : form.events.filter((e) => e !== event),
+    });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!isValidWebhookUrl(form.url)) {
+      toast.error(t("webhooks.urlInvalid"));
+      return;
+    }
+    if (!form.organizationId) {
+      toast.error(t("invites.organizationRequired"));
+      return;
+    }
+    if (form.events.length === 0) {
+      toast.error(t("webhooks.eventsRequired"));
+      return;
+    }
+    onSave(form);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{webhook ? t("webhooks.edit") : t("webhooks.add")}</DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="webhook-url">{t("webhooks.url")}</Label>
+            <Input
+              id="webhook-url"
+              value={form.url}
+              onChange={(e) => update({ url: e.target.value })}
+              placeholder="https://ats.example.com/hooks/interviews"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t("invites.organization")}</Label>
+            <Select value={form.organizationId} onValueChange={(organizationId) => update({ organizationId })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {organizations.map((organization) => (
+                  <SelectItem key={organization.id} value={organization.id}>
+                    {organization.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t("webhooks.events")}</Label>
+            <div className="grid sm:grid-cols-2 gap-2">
+              {WEBHOOK_EVENTS.map((event) => (
+                <label key={event} className="flex items-center gap-2 text-sm font-mono cursor-pointer">
+                  <Checkbox
+                    checked={form.events.includes(event)}
+                    onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                  />
+                  {event}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch id="webhook-enabled" checked={form.enabled} onCheckedChange={(enabled) => update({ enabled })} />
+            <Label htmlFor="webhook-enabled">{t("webhooks.enabled")}</Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="ghost" onClick={() => onOpenChange(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,32 +1,54 @@
 import { motion, AnimatePresence } from "framer-motion";
-import { Volume2, Mic, MicOff, ChevronRight } from "lucide-react";
+import { Volume2, Mic, MicOff, ChevronRight, Loader2, Keyboard } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useLocale } from "@/hooks/useLocale";
+import type { AnswerInputMode } from "@/lib/interviews";
 
 interface QuestionPanelProps {
   question: string;
   currentAnswer: string;
+  answerMode: AnswerInputMode;
   isSpeaking: boolean;
   isListening: boolean;
+  isTranscribing: boolean;
+  isThinking: boolean;
+  isFollowUp: boolean;
   hasSpoken: boolean;
   isLastQuestion: boolean;
   onListenToQuestion: () => void;
   onStartListening: () => void;
   onStopListening: () => void;
+  onAnswerChange: (answer: string) => void;
+  onAnswerModeChange: (mode: AnswerInputMode) => void;
   onNext: () => void;
 }
 
 export const QuestionPanel = ({
   question,
   currentAnswer,
+  answerMode,
   isSpeaking,
   isListening,
+  isTranscribing,
+  isThinking,
+  isFollowUp,
   hasSpoken,
   isLastQuestion,
   onListenToQuestion,
   onStartListening,
   onStopListening,
+  onAnswerChange,
+  onAnswerModeChange,
   onNext,
 }: QuestionPanelProps) => {
+  const { t } = useLocale();
+  const isTyping = answerMode === "typed";
+  // Transcripts become editable once the microphone is off
+  const canEditAnswer = isTyping || (!isListening && !isTranscribing && !!currentAnswer);
+  const canMoveOn = (hasSpoken || isTyping) && !isListening;
+
   return (
     <motion.div
       initial={{ opacity: 0, x: 20 }}
@@ -50,19 +72,38 @@ export const QuestionPanel = ({
                 className="flex items-center gap-2 mb-4 text-primary"
               >
                 <Volume2 className="w-5 h-5 animate-pulse" />
-                <span className="text-sm font-medium">AI is speaking...</span>
+                <span className="text-sm font-medium">{t("question.aiSpeaking")}</span>
               </motion.div>
             )}
 
+            {isFollowUp && (
+              <p className="text-xs font-medium uppercase tracking-wide text-secondary mb-2">
+                {t("question.followUp")}
+              </p>
+            )}
+
             {/* Question Text */}
             <h3 className="text-xl md:text-2xl font-display font-semibold mb-6 leading-relaxed">
               {question}
             </h3>
 
             {/* Answer Display */}
-            {currentAnswer && (
+            {canEditAnswer ? (
+              <div className="mb-4">
+                <p className="text-sm text-muted-foreground mb-2">
+                  {isTyping ? t("question.typeAnswer") : t("question.editTranscript")}
+                </p>
+                <Textarea
+                  value={currentAnswer}
+                  onChange={(e) => onAnswerChange(e.target.value)}
+                  placeholder={isTyping ? t("question.answerPlaceholder") : undefined}
+                  className="min-h-[140px] bg-muted/50"
+                  autoFocus={isTyping}
+                />
+              </div>
+            ) : currentAnswer && (
               <div className="p-4 rounded-xl bg-muted/50 mb-4">
-                <p className="text-sm text-muted-foreground mb-1">Your Answer:</p>
+                <p className="text-sm text-muted-foreground mb-1">{t("question.yourAnswer")}</p>
                 <p className="text-foreground">{currentAnswer}</p>
               </div>
             )}
@@ -75,14 +116,56 @@ export const QuestionPanel = ({
                 className="flex items-center gap-2 text-destructive"
               >
                 <div className="w-3 h-3 rounded-full bg-destructive animate-pulse" />
-                <span className="text-sm font-medium">Listening... Speak your answer</span>
+                <span className="text-sm font-medium">{t("question.listening")}</span>
+              </motion.div>
+            )}
+
+            {/* Transcribing Indicator */}
+            {isTranscribing && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="flex items-center gap-2 text-primary"
+              >
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span className="text-sm font-medium">{t("question.transcribing")}</span>
+              </motion.div>
+            )}
+
+            {/* Follow-up Indicator */}
+            {isThinking && (
+              <motion.div
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                className="flex items-center gap-2 text-primary"
+              >
+                <Loader2 className="w-4 h-4 animate-spin" />
+                <span className="text-sm font-medium">{t("question.thinking")}</span>
               </motion.div>
             )}
           </motion.div>
         </AnimatePresence>
 
+        {/* Answer Mode */}
+        <ToggleGroup
+          type="single"
+          value={answerMode}
+          onValueChange={(value) => value && onAnswerModeChange(value as AnswerInputMode)}
+          disabled={isListening || isTranscribing}
+          className="justify-start mt-6"
+        >
+          <ToggleGroupItem value="spoken" size="sm" aria-label={t("question.speakModeLabel")}>
+            <Mic className="w-4 h-4 mr-2" />
+            {t("question.speakMode")}
+          </ToggleGroupItem>
+          <ToggleGroupItem value="typed" size="sm" aria-label={t("question.typeModeLabel")}>
+            <Keyboard className="w-4 h-4 mr-2" />
+            {t("question.typeMode")}
+          </ToggleGroupItem>
+        </ToggleGroup>
+
         {/* Controls */}
-        <div className="flex gap-3 mt-6">
+        <div className="flex gap-3 mt-4">
           {!hasSpoken ? (
             <Button
               onClick={onListenToQuestion}
@@ -90,15 +173,16 @@ export const QuestionPanel = ({
               className="flex-1 h-12 bg-gradient-to-r from-primary to-secondary hover:opacity-90"
             >
               <Volume2 className="w-5 h-5 mr-2" />
-              Listen to Question
+              {t("question.listen")}
             </Button>
-          ) : !isListening ? (
+          ) : isTyping ? null : !isListening ? (
             <Button
               onClick={onStartListening}
+              disabled={isTranscribing}
               className="flex-1 h-12 bg-gradient-to-r from-primary to-secondary hover:opacity-90"
             >
               <Mic className="w-5 h-5 mr-2" />
-              Start Speaking
+              {t("question.startSpeaking")}
             </Button>
           ) : (
             <Button
@@ -107,17 +191,18 @@ export const QuestionPanel = ({
               className="flex-1 h-12"
             >
               <MicOff className="w-5 h-5 mr-2" />
-              Stop Recording
+              {t("question.stopRecording")}
             </Button>
           )}
 
-          {hasSpoken && !isListening && (
+          {canMoveOn && (
             <Button
               onClick={onNext}
-              variant="outline"
-              className="h-12 px-6"
+              disabled={isTranscribing || isThinking}
+              variant={isTyping && hasSpoken ? "default" : "outline"}
+              className={isTyping && hasSpoken ? "flex-1 h-12" : "h-12 px-6"}
             >
-              {isLastQuestion ? "Finish" : "Next"}
+              {isLastQuestion ? t("question.finish") : t("question.next")}
               <ChevronRight className="w-5 h-5 ml-1" />
             </Button>
           )}
@@ -0,0 +1,117 @@
+import { useEffect, useState } from "react";
+import { Settings2, Volume2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { useLocale } from "@/hooks/useLocale";
+import { getBrowserVoices } from "@/lib/speech/browser-tts";
+import { SERVER_VOICES } from "@/lib/speech/server-tts";
+import { getTextToSpeechProvider, VoiceSettings } from "@/lib/speech";
+
+const DEFAULT_VOICE = "default";
+
+interface VoiceSettingsPopoverProps {
+  settings: VoiceSettings;
+  onChange: (patch: Partial<VoiceSettings>) => void;
+  onPreview: () => void;
+}
+
+export const VoiceSettingsPopover = ({ settings, onChange, onPreview }: VoiceSettingsPopoverProps) => {
+  const { locale, t } = useLocale();
+  const backend = getTextToSpeechProvider()?.backend;
+  const [browserVoices, setBrowserVoices] = useState<SpeechSynthesisVoice[]>(getBrowserVoices);
+
+  // Browsers load their voice list asynchronously
+  useEffect(() => {
+    if (backend !== "browser") return;
+    const loadVoices = () => setBrowserVoices(getBrowserVoices());
+    loadVoices();
+    speechSynthesis.addEventListener("voiceschanged", loadVoices);
+    return () => speechSynthesis.removeEventListener("voiceschanged", loadVoices);
+  }, [backend]);
+
+  const voiceOptions =
+    backend === "server"
+      ? SERVER_VOICES.map((voice) => ({ value: voice, label: voice.charAt(0).toUpperCase() + voice.slice(1) }))
+      : browserVoices
+          // Only offer voices that can read questions in the interview language
+          .filter((voice) => voice.lang.toLowerCase().startsWith(locale))
+          .map((voice) => ({ value: voice.voiceURI, label: `${voice.name} (${voice.lang})` }));
+
+  if (!backend) return null;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="rounded-full" title={t("voice.settings")}>
+          <Settings2 className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 space-y-5">
+        <div className="space-y-2">
+          <Label>{t("voice.interviewerVoice")}</Label>
+          <Select
+            value={settings.voice ?? DEFAULT_VOICE}
+            onValueChange={(value) => onChange({ voice: value === DEFAULT_VOICE ? null : value })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_VOICE}>{t("voice.defaultVoice")}</SelectItem>
+              {voiceOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex justify-between">
+            <Label>{t("voice.speed")}</Label>
+            <span className="text-sm text-muted-foreground">{settings.rate.toFixed(1)}x</span>
+          </div>
+          <Slider
+            min={0.5}
+            max={1.5}
+            step={0.1}
+            value={[settings.rate]}
+            onValueChange={([rate]) => onChange({ rate })}
+          />
+        </div>
+
+        {/* Server-rendered voices have a fixed pitch */}
+        {backend === "browser" && (
+          <div className="space-y-3">
+            <div className="flex justify-between">
+              <Label>{t("voice.pitch")}</Label>
+              <span className="text-sm text-muted-foreground">{settings.pitch.toFixed(1)}</span>
+            </div>
+            <Slider
+              min={0.5}
+              max={1.5}
+              step={0.1}
+              value={[settings.pitch]}
+              onValueChange={([pitch]) => onChange({ pitch })}
+            />
+          </div>
+        )}
+
+        <Button variant="outline" className="w-full" onClick={onPreview}>
+          <Volume2 className="w-4 h-4 mr-2" />
+          {t("voice.preview")}
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
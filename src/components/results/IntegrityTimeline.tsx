@@ -0,0 +1,116 @@
+import { motion } from "framer-motion";
+import {
+  AppWindow,
+  ClipboardPaste,
+  Copy,
+  EyeOff,
+  LucideIcon,
+  MicOff,
+  Minimize2,
+  ShieldAlert,
+  ShieldCheck,
+} from "lucide-react";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  countIntegrityEvents,
+  getQuestionIndexAt,
+  IntegrityEvent,
+  IntegrityEventType,
+  integrityEventLabels,
+  integrityEventTypes,
+} from "@/lib/integrity";
+import { formatTimestamp, InterviewResponse } from "@/lib/interviews";
+
+const eventIcons: Record<IntegrityEventType, LucideIcon> = {
+  tab_hidden: EyeOff,
+  focus_lost: AppWindow,
+  fullscreen_exit: Minimize2,
+  copy: Copy,
+  paste: ClipboardPaste,
+  long_silence: MicOff,
+};
+
+interface IntegrityTimelineProps {
+  events: IntegrityEvent[];
+  // Used to tell which question each event happened during
+  responses: InterviewResponse[];
+}
+
+// Proctoring signals recorded in the interview room: a count per kind, then every event in order
+export const IntegrityTimeline = ({ events, responses }: IntegrityTimelineProps) => {
+  const { t } = useLocale();
+  const counts = countIntegrityEvents(events);
+  const sorted = [...events].sort((a, b) => a.at - b.at);
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.6 }}
+      className="glass rounded-2xl p-6 mb-6"
+    >
+      <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        {events.length > 0 ? (
+          <ShieldAlert className="w-5 h-5 text-yellow-400" />
+        ) : (
+          <ShieldCheck className="w-5 h-5 text-emerald-400" />
+        )}
+        {t("integrity.title")}
+      </h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        {events.length > 0 ? t("integrity.summary", { count: events.length }) : t("integrity.none")}
+      </p>
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 mb-4">
+        {integrityEventTypes.map((type) => {
+          const Icon = eventIcons[type];
+          return (
+            <div
+              key={type}
+              className={`flex items-center gap-2 rounded-lg bg-muted/30 px-3 py-2 text-sm ${
+                counts[type] > 0 ? "text-yellow-400" : "text-muted-foreground"
+              }`}
+            >
+              <Icon className="w-4 h-4 shrink-0" />
+              <span className="flex-1 truncate">{t(integrityEventLabels[type])}</span>
+              <span className="font-semibold">{counts[type]}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {/* Timeline */}
+      {sorted.length > 0 && (
+        <ol className="space-y-2 max-h-72 overflow-y-auto">
+          {sorted.map((event, i) => {
+            const Icon = eventIcons[event.type];
+            const questionIndex = getQuestionIndexAt(responses, event.at);
+            return (
+              <li key={i} className="flex items-center gap-3 text-sm">
+                <span className="w-12 shrink-0 font-mono text-xs text-muted-foreground">
+                  {formatTimestamp(event.at / 1000)}
+                </span>
+                <Icon className="w-4 h-4 shrink-0 text-yellow-400" />
+                <span className="flex-1">
+                  {t(integrityEventLabels[event.type])}
+                  {event.duration !== undefined && (
+                    <span className="text-muted-foreground">
+                      {" "}· {t("integrity.duration", { seconds: Math.round(event.duration / 1000) })}
+                    </span>
+                  )}
+                  {event.chars !== undefined && (
+                    <span className="text-muted-foreground"> · {t("integrity.chars", { count: event.chars })}</span>
+                  )}
+                </span>
+                {questionIndex !== null && (
+                  <span className="shrink-0 text-xs text-muted-foreground">Q{questionIndex + 1}</span>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </motion.div>
+  );
+};
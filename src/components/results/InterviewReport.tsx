@@ -0,0 +1,170 @@
+import { motion } from "framer-motion";
+import { TrendingUp, AlertTriangle, CheckCircle } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { QuestionRubric } from "@/components/results/QuestionRubric";
+import { RecordingPlayer } from "@/components/results/RecordingPlayer";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  AnalysisResult,
+  getChapters,
+  getRecommendationBadge,
+  getScoreColor,
+  InterviewResponse,
+} from "@/lib/interviews";
+
+interface InterviewReportProps {
+  analysis: AnalysisResult | null;
+  responses: InterviewResponse[];
+  videoPath: string | null;
+  // Already signed, for shared pages whose visitors can't read storage
+  videoUrl?: string | null;
+}
+
+export const InterviewReport = ({ analysis, responses, videoPath, videoUrl }: InterviewReportProps) => {
+  const { t } = useLocale();
+  const recBadge = analysis ? getRecommendationBadge(analysis.recommendation) : null;
+  const assessments = new Map(analysis?.questions?.map((assessment) => [assessment.question, assessment]));
+
+  return (
+    <>
+      {analysis && (
+        <>
+          {/* Score Card */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="glass rounded-2xl p-8 mb-6"
+          >
+            <div className="flex flex-col md:flex-row items-center justify-between gap-6">
+              <div className="text-center md:text-left">
+                <p className="text-sm text-muted-foreground mb-1">{t("report.overallScore")}</p>
+                <div className={`text-6xl font-display font-bold ${getScoreColor(analysis.score)}`}>
+                  {analysis.score}
+                  <span className="text-2xl text-muted-foreground">/100</span>
+                </div>
+              </div>
+
+              <div className="flex-1 max-w-xs">
+                <Progress value={analysis.score} className="h-4 mb-3" />
+                <div className={`inline-flex px-4 py-2 rounded-full text-sm font-medium border ${recBadge.color}`}>
+                  {t(recBadge.labelKey)}
+                </div>
+              </div>
+            </div>
+          </motion.div>
+
+          {/* Analysis */}
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.2 }}
+            className="glass rounded-2xl p-6 mb-6"
+          >
+            <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <TrendingUp className="w-5 h-5 text-primary" />
+              {t("report.analysis")}
+            </h3>
+            <p className="text-muted-foreground leading-relaxed">{analysis.analysis}</p>
+          </motion.div>
+
+          {/* Strengths & Improvements */}
+          <div className="grid md:grid-cols-2 gap-6 mb-6">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.3 }}
+              className="glass rounded-2xl p-6"
+            >
+              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <CheckCircle className="w-5 h-5 text-emerald-400" />
+                {t("report.strengths")}
+              </h3>
+              <ul className="space-y-3">
+                {analysis.strengths.map((strength, i) => (
+                  <motion.li
+                    key={i}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: 0.4 + i * 0.1 }}
+                    className="flex items-start gap-2 text-muted-foreground"
+                  >
+                    <div className="w-1.5 h-1.5 rounded-full bg-emerald-400 mt-2 flex-shrink-0" />
+                    {strength}
+                  </motion.li>
+                ))}
+              </ul>
+            </motion.div>
+
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ delay: 0.4 }}
+              className="glass rounded-2xl p-6"
+            >
+              <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 text-yellow-400" />
+                {t("report.improvements")}
+              </h3>
+              <ul className="space-y-3">
+                {analysis.improvements.map((improvement, i) => (
+                  <motion.li
+                    key={i}
+                    initial={{ opacity: 0, x: -10 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: 0.5 + i * 0.1 }}
+                    className="flex items-start gap-2 text-muted-foreground"
+                  >
+                    <div className="w-1.5 h-1.5 rounded-full bg-yellow-400 mt-2 flex-shrink-0" />
+                    {improvement}
+                  </motion.li>
+                ))}
+              </ul>
+            </motion.div>
+          </div>
+        </>
+      )}
+
+      {/* Q&A Summary */}
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        transition={{ delay: 0.5 }}
+        className="glass rounded-2xl p-6 mb-6"
+      >
+        <h3 className="text-lg font-semibold mb-4">{t("report.summary")}</h3>
+        <div className="space-y-4">
+          {responses.map((r, i) => (
+            <div key={i} className={`p-4 rounded-xl bg-muted/30 ${r.followUpOf !== undefined ? "ml-6" : ""}`}>
+              <div className="flex items-start justify-between gap-3 mb-2">
+                <p className="text-sm font-medium text-primary">
+                  {r.followUpOf !== undefined && (
+                    <span className="text-secondary">{t("report.followUp", { number: r.followUpOf + 1 })} · </span>
+                  )}
+                  Q{i + 1}: {r.question}
+                </p>
+                {r.inputMode && (
+                  <Badge variant="outline" className="shrink-0 text-xs">
+                    {t(r.inputMode === "typed" ? "report.typed" : r.edited ? "report.spokenEdited" : "report.spoken")}
+                  </Badge>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground">
+                {r.answer || t("report.noResponse")}
+              </p>
+              {assessments.get(i + 1) && <QuestionRubric assessment={assessments.get(i + 1)} />}
+            </div>
+          ))}
+        </div>
+      </motion.div>
+
+      {/* Video Recording */}
+      {videoUrl ? (
+        <RecordingPlayer url={videoUrl} chapters={getChapters(responses)} />
+      ) : (
+        videoPath && <RecordingPlayer path={videoPath} chapters={getChapters(responses)} />
+      )}
+    </>
+  );
+};
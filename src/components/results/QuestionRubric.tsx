@@ -0,0 +1,66 @@
+import { useLocale } from "@/hooks/useLocale";
+import { getScoreColor, QuestionAssessment } from "@/lib/interviews";
+import type { MessageKey } from "@/lib/i18n";
+
+const RATING_MAX = 5;
+
+const criteria: { key: "correctness" | "depth" | "communication"; label: MessageKey }[] = [
+  { key: "correctness", label: "rubric.correctness" },
+  { key: "depth", label: "rubric.depth" },
+  { key: "communication", label: "rubric.communication" },
+];
+
+interface QuestionRubricProps {
+  assessment: QuestionAssessment;
+}
+
+export const QuestionRubric = ({ assessment }: QuestionRubricProps) => {
+  const { t } = useLocale();
+
+  return (
+    <div className="mt-4 pt-4 border-t border-border/50 space-y-4">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        <div className="text-sm">
+          <span className="text-muted-foreground">{t("rubric.score")} </span>
+          <span className={`font-semibold ${getScoreColor(assessment.score)}`}>{assessment.score}</span>
+          <span className="text-muted-foreground">/100</span>
+        </div>
+
+        {criteria.map(({ key, label }) => (
+          <div key={key} className="flex items-center gap-2 text-sm">
+            <span className="text-muted-foreground">{t(label)}</span>
+            <div className="flex gap-0.5" aria-label={`${assessment[key]}/${RATING_MAX}`}>
+              {Array.from({ length: RATING_MAX }, (_, i) => (
+                <div
+                  key={i}
+                  className={`w-2.5 h-2.5 rounded-full ${i < assessment[key] ? "bg-primary" : "bg-muted"}`}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {assessment.modelAnswer && (
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">{t("rubric.modelAnswer")}</p>
+          <p className="text-sm text-foreground/80">{assessment.modelAnswer}</p>
+        </div>
+      )}
+
+      {assessment.missedPoints.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-1">{t("rubric.missedPoints")}</p>
+          <ul className="space-y-1">
+            {assessment.missedPoints.map((point, i) => (
+              <li key={i} className="flex items-start gap-2 text-sm text-foreground/80">
+                <div className="w-1.5 h-1.5 rounded-full bg-yellow-400 mt-2 flex-shrink-0" />
+                {point}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,138 @@
+import { useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { useQuery } from "@tanstack/react-query";
+import { Download, ListVideo, Loader2, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useLocale } from "@/hooks/useLocale";
+import { Chapter, formatTimestamp } from "@/lib/interviews";
+import { createRecordingUrl } from "@/lib/recording";
+import { toast } from "sonner";
+
+interface RecordingPlayerProps {
+  // Storage path, signed on demand; or a URL that is already signed, as on shared pages
+  path?: string;
+  url?: string;
+  chapters: Chapter[];
+}
+
+export const RecordingPlayer = ({ path, url: signedUrl, chapters }: RecordingPlayerProps) => {
+  const { t } = useLocale();
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [currentTime, setCurrentTime] = useState(0);
+
+  const { data: pathUrl, isLoading, isError } = useQuery({
+    queryKey: ["recording-url", path],
+    queryFn: () => createRecordingUrl(path),
+    enabled: !signedUrl,
+    // Signed URLs are valid for an hour
+    staleTime: 50 * 60 * 1000,
+  });
+  const url = signedUrl ?? pathUrl;
+
+  // MediaRecorder WebM files carry no duration header; seeking to the end
+  // forces the browser to scan the file so the scrubber works
+  const handleLoadedMetadata = () => {
+    const video = videoRef.current;
+    if (!video || Number.isFinite(video.duration)) return;
+
+    const resetPosition = () => {
+      video.removeEventListener("durationchange", resetPosition);
+      video.currentTime = 0;
+    };
+    video.addEventListener("durationchange", resetPosition);
+    video.currentTime = Number.MAX_SAFE_INTEGER;
+  };
+
+  const jumpToChapter = (chapter: Chapter) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = chapter.start;
+    video.play().catch(console.error);
+  };
+
+  const activeChapter = [...chapters].reverse().find(
+    (chapter) => currentTime >= chapter.start && (chapter.end === null || currentTime < chapter.end),
+  );
+
+  const handleDownload = async () => {
+    try {
+      const downloadUrl = await createRecordingUrl(path, { download: true });
+      window.open(downloadUrl, "_blank");
+    } catch (error) {
+      console.error("Error creating download link:", error);
+      toast.error(t("recording.downloadFailed"));
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.6 }}
+      className="glass rounded-2xl p-6 mb-6"
+    >
+      <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+        <Play className="w-5 h-5 text-primary" />
+        {t("recording.title")}
+      </h3>
+      {isLoading && !signedUrl ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 text-primary animate-spin" />
+        </div>
+      ) : isError || !url ? (
+        <p className="text-sm text-muted-foreground">{t("recording.unavailable")}</p>
+      ) : (
+        <>
+          <video
+            ref={videoRef}
+            src={url}
+            controls
+            preload="metadata"
+            onLoadedMetadata={handleLoadedMetadata}
+            onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+            className="w-full rounded-xl bg-black"
+            style={{ maxHeight: "400px" }}
+          />
+
+          {/* Chapters */}
+          {chapters.length > 0 && (
+            <div className="mt-4">
+              <p className="text-sm font-medium mb-2 flex items-center gap-2">
+                <ListVideo className="w-4 h-4 text-primary" />
+                {t("recording.chapters")}
+              </p>
+              <ul className="space-y-1">
+                {chapters.map((chapter) => (
+                  <li key={chapter.index}>
+                    <button
+                      type="button"
+                      onClick={() => jumpToChapter(chapter)}
+                      className={`w-full flex items-start gap-3 rounded-lg px-3 py-2 text-left text-sm transition-colors hover:bg-muted/50 ${
+                        activeChapter?.index === chapter.index ? "bg-primary/10 text-primary" : "text-muted-foreground"
+                      }`}
+                    >
+                      <span className="font-mono whitespace-nowrap">
+                        {formatTimestamp(chapter.start)}
+                        {chapter.end !== null && ` – ${formatTimestamp(chapter.end)}`}
+                      </span>
+                      <span className="line-clamp-1">
+                        Q{chapter.index + 1}: {chapter.label}
+                      </span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {path && (
+            <Button variant="outline" className="mt-4" onClick={handleDownload}>
+              <Download className="w-4 h-4 mr-2" />
+              {t("recording.download")}
+            </Button>
+          )}
+        </>
+      )}
+    </motion.div>
+  );
+};
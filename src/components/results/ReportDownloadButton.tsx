@@ -0,0 +1,43 @@
+import { useState } from "react";
+import { FileDown, Loader2 } from "lucide-react";
+import { Button, ButtonProps } from "@/components/ui/button";
+import { useLocale } from "@/hooks/useLocale";
+import { downloadFile } from "@/lib/download";
+import { buildReportPdf, getReportFilename, ReportData } from "@/lib/report";
+import { toast } from "sonner";
+
+interface ReportDownloadButtonProps {
+  // Called on click, so photos are only fetched when a report is wanted
+  loadData: () => Promise<ReportData>;
+  size?: ButtonProps["size"];
+}
+
+export const ReportDownloadButton = ({ loadData, size }: ReportDownloadButtonProps) => {
+  const { t, dateLocale } = useLocale();
+  const [isGenerating, setIsGenerating] = useState(false);
+
+  const handleDownload = async () => {
+    setIsGenerating(true);
+    try {
+      const data = await loadData();
+      const pdf = await buildReportPdf(data, { t, dateLocale });
+      downloadFile(getReportFilename(data.candidateName, data.date), pdf, "application/pdf");
+    } catch (error) {
+      console.error("Error generating report:", error);
+      toast.error(t("report.downloadFailed"));
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Button variant="outline" size={size} onClick={handleDownload} disabled={isGenerating}>
+      {isGenerating ? (
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+      ) : (
+        <FileDown className="w-4 h-4 mr-2" />
+      )}
+      {t("report.download")}
+    </Button>
+  );
+};
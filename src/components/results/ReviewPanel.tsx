@@ -0,0 +1,243 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, ClipboardCheck, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  AnalysisResult,
+  getRecommendationBadge,
+  getScoreColor,
+  InterviewResponse,
+} from "@/lib/interviews";
+import {
+  getDisagreements,
+  getReview,
+  QuestionRating,
+  RATING_MAX,
+  ReviewDecision,
+  reviewDecisions,
+  saveReview,
+} from "@/lib/reviews";
+import { toast } from "sonner";
+
+interface ReviewPanelProps {
+  interviewId: string;
+  analysis: AnalysisResult | null;
+  responses: InterviewResponse[];
+}
+
+export const ReviewPanel = ({ interviewId, analysis, responses }: ReviewPanelProps) => {
+  const { user } = useAuth();
+  const { t, dateLocale } = useLocale();
+  const queryClient = useQueryClient();
+  const [decision, setDecision] = useState<ReviewDecision | null>(null);
+  const [notes, setNotes] = useState("");
+  const [ratings, setRatings] = useState<QuestionRating[]>([]);
+  const questionCount = responses.length;
+
+  const { data: review, isLoading, isError } = useQuery({
+    queryKey: ["review", interviewId],
+    queryFn: () => getReview(interviewId),
+  });
+
+  // Start from the saved review, with a row for every question
+  useEffect(() => {
+    if (isLoading) return;
+    const saved = new Map(review?.questionRatings.map((rating) => [rating.question, rating]));
+    setDecision(review?.decision ?? null);
+    setNotes(review?.notes ?? "");
+    setRatings(
+      Array.from({ length: questionCount }, (_, i) => saved.get(i + 1) ?? { question: i + 1, rating: 0, note: "" })
+    );
+  }, [review, isLoading, questionCount]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => saveReview(user.id, interviewId, { decision, notes, questionRatings: ratings }),
+    onSuccess: () => {
+      toast.success(t("review.saved"));
+      queryClient.invalidateQueries({ queryKey: ["review", interviewId] });
+    },
+    onError: (error) => {
+      console.error("Error saving review:", error);
+      toast.error(t("review.saveFailed"));
+    },
+  });
+
+  const updateRating = (question: number, patch: Partial<QuestionRating>) =>
+    setRatings((prev) => prev.map((rating) => (rating.question === question ? { ...rating, ...patch } : rating)));
+
+  // Highlight what's on screen, so disagreements show before the review is saved
+  const disagreements = getDisagreements({ decision, questionRatings: ratings }, analysis);
+  const aiScores = new Map(analysis?.questions?.map((assessment) => [assessment.question, assessment.score]));
+  const aiBadge = analysis ? getRecommendationBadge(analysis.recommendation) : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ delay: 0.1 }}
+      className="glass rounded-2xl p-6 mb-6"
+    >
+      <h3 className="text-lg font-semibold mb-1 flex items-center gap-2">
+        <ClipboardCheck className="w-5 h-5 text-primary" />
+        {t("review.title")}
+      </h3>
+      <p className="text-sm text-muted-foreground mb-6">
+        {review?.updatedAt
+          ? t("review.lastSaved", { date: format(new Date(review.updatedAt), "PPp", { locale: dateLocale }) })
+          : t("review.subtitle")}
+      </p>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 text-primary animate-spin" />
+        </div>
+      ) : isError ? (
+        <p className="text-center text-muted-foreground py-8">{t("review.loadFailed")}</p>
+      ) : (
+        <div className="space-y-6">
+          {/* Verdicts */}
+          <div
+            className={`grid md:grid-cols-2 gap-4 rounded-xl p-4 border ${
+              disagreements.decision ? "border-yellow-500/50 bg-yellow-500/5" : "border-border/50"
+            }`}
+          >
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-2">{t("review.aiVerdict")}</p>
+              {analysis ? (
+                <div className="flex items-center gap-3">
+                  <span className={`inline-flex px-3 py-1 rounded-full text-sm font-medium border ${aiBadge.color}`}>
+                    {t(aiBadge.labelKey)}
+                  </span>
+                  <span className={`font-semibold ${getScoreColor(analysis.score)}`}>{analysis.score}</span>
+                </div>
+              ) : (
+                <p className="text-sm text-muted-foreground">{t("review.notAnalyzed")}</p>
+              )}
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-muted-foreground mb-2">{t("review.yourDecision")}</p>
+              <div className="flex flex-wrap gap-2">
+                {reviewDecisions.map((option) => (
+                  <Button
+                    key={option}
+                    type="button"
+                    size="sm"
+                    variant={decision === option ? "default" : "outline"}
+                    onClick={() => setDecision(decision === option ? null : option)}
+                  >
+                    {t(getRecommendationBadge(option).labelKey)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            {disagreements.decision && (
+              <p className="md:col-span-2 flex items-center gap-2 text-sm text-yellow-400">
+                <AlertTriangle className="w-4 h-4 shrink-0" />
+                {t("review.decisionDiffers")}
+              </p>
+            )}
+          </div>
+
+          {/* Per-question ratings */}
+          {ratings.length > 0 && (
+            <div>
+              <p className="text-sm font-medium mb-3">{t("review.questions")}</p>
+              <div className="space-y-3">
+                {ratings.map((rating) => {
+                  const aiScore = aiScores.get(rating.question);
+                  const differs = disagreements.questions.has(rating.question);
+                  return (
+                    <div
+                      key={rating.question}
+                      className={`p-3 rounded-xl border ${
+                        differs ? "border-yellow-500/50 bg-yellow-500/5" : "border-transparent bg-muted/30"
+                      }`}
+                    >
+                      <div className="flex items-start justify-between gap-3 mb-2">
+                        <p className="text-sm text-muted-foreground line-clamp-2">
+                          Q{rating.question}: {responses[rating.question - 1]?.question}
+                        </p>
+                        {differs && (
+                          <Badge variant="outline" className="shrink-0 text-xs text-yellow-400 border-yellow-500/30">
+                            {t("review.differs")}
+                          </Badge>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap items-center gap-x-6 gap-y-2">
+                        <div className="text-sm">
+                          <span className="text-muted-foreground">{t("review.aiScore")} </span>
+                          {aiScore !== undefined ? (
+                            <>
+                              <span className={`font-semibold ${getScoreColor(aiScore)}`}>{aiScore}</span>
+                              <span className="text-muted-foreground">/100</span>
+                            </>
+                          ) : (
+                            <span className="text-muted-foreground">–</span>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2 text-sm">
+                          <span className="text-muted-foreground">{t("review.yourRating")}</span>
+                          <div className="flex gap-1">
+                            {Array.from({ length: RATING_MAX }, (_, i) => (
+                              <button
+                                key={i}
+                                type="button"
+                                aria-label={`${i + 1}/${RATING_MAX}`}
+                                onClick={() =>
+                                  updateRating(rating.question, { rating: rating.rating === i + 1 ? 0 : i + 1 })
+                                }
+                                className={`w-4 h-4 rounded-full transition-colors ${
+                                  i < rating.rating ? "bg-primary" : "bg-muted hover:bg-muted-foreground/40"
+                                }`}
+                              />
+                            ))}
+                          </div>
+                        </div>
+                      </div>
+                      <Input
+                        value={rating.note}
+                        onChange={(e) => updateRating(rating.question, { note: e.target.value })}
+                        placeholder={t("review.notePlaceholder")}
+                        maxLength={500}
+                        className="mt-3 h-8 text-sm"
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="review-notes">{t("review.notes")}</Label>
+            <Textarea
+              id="review-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder={t("review.notesPlaceholder")}
+              maxLength={5000}
+              className="min-h-[100px]"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("common.save")}
+            </Button>
+          </div>
+        </div>
+      )}
+    </motion.div>
+  );
+};
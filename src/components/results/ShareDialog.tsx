@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Ban, Copy, Link2, Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  createShareLink,
+  getShareUrl,
+  isShareLinkActive,
+  listShareLinks,
+  revokeShareLink,
+  shareExpiryOptions,
+  ShareLinkInput,
+} from "@/lib/share-links";
+import { toast } from "sonner";
+
+interface ShareDialogProps {
+  interviewId: string;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export const ShareDialog = ({ interviewId, open, onOpenChange }: ShareDialogProps) => {
+  const { user } = useAuth();
+  const { t, dateLocale } = useLocale();
+  const queryClient = useQueryClient();
+  const [expiresInDays, setExpiresInDays] = useState(shareExpiryOptions[1]);
+  const [includeMedia, setIncludeMedia] = useState(false);
+
+  // Start from the defaults each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setExpiresInDays(shareExpiryOptions[1]);
+    setIncludeMedia(false);
+  }, [open]);
+
+  const { data: links, isLoading, isError } = useQuery({
+    queryKey: ["share-links", interviewId],
+    queryFn: () => listShareLinks(interviewId),
+    enabled: open,
+  });
+
+  const copyLink = async (token: string, successKey: "share.created" | "share.linkCopied") => {
+    try {
+      await navigator.clipboard.writeText(getShareUrl(token));
+      toast.success(t(successKey));
+    } catch (error) {
+      console.error("Error copying share link:", error);
+      toast.error(t("share.copyFailed"));
+    }
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (input: ShareLinkInput) => createShareLink(user.id, input),
+    onSuccess: (link) => {
+      queryClient.invalidateQueries({ queryKey: ["share-links", interviewId] });
+      copyLink(link.token, "share.created");
+    },
+    onError: (error) => {
+      console.error("Error creating share link:", error);
+      toast.error(t("share.createFailed"));
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: (id: string) => revokeShareLink(id),
+    onSuccess: () => {
+      toast.success(t("share.revoked"));
+      queryClient.invalidateQueries({ queryKey: ["share-links", interviewId] });
+    },
+    onError: (error) => {
+      console.error("Error revoking share link:", error);
+      toast.error(t("share.revokeFailed"));
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{t("share.title")}</DialogTitle>
+          <DialogDescription>{t("share.description")}</DialogDescription>
+        </DialogHeader>
+
+        {/* New link */}
+        <div className="space-y-4">
+          <div className="grid sm:grid-cols-2 gap-3 items-end">
+            <div className="space-y-2">
+              <Label>{t("share.expiresIn")}</Label>
+              <Select value={String(expiresInDays)} onValueChange={(value) => setExpiresInDays(Number(value))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {shareExpiryOptions.map((days) => (
+                    <SelectItem key={days} value={String(days)}>
+                      {days === 1 ? t("share.oneDay") : t("share.days", { count: days })}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex items-center gap-3 h-10">
+              <Switch id="share-media" checked={includeMedia} onCheckedChange={setIncludeMedia} />
+              <Label htmlFor="share-media">{t("share.includeMedia")}</Label>
+            </div>
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={() => createMutation.mutate({ interviewId, expiresInDays, includeMedia })}
+            disabled={createMutation.isPending}
+          >
+            {createMutation.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Link2 className="w-4 h-4 mr-2" />
+            )}
+            {t("share.create")}
+          </Button>
+        </div>
+
+        {/* Existing links */}
+        <div className="border-t border-border/50 pt-4">
+          <p className="text-sm font-medium mb-3">{t("share.yourLinks")}</p>
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="w-5 h-5 text-primary animate-spin" />
+            </div>
+          ) : isError ? (
+            <p className="text-sm text-muted-foreground">{t("share.loadFailed")}</p>
+          ) : links.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("share.empty")}</p>
+          ) : (
+            <ul className="space-y-2 max-h-64 overflow-y-auto">
+              {links.map((link) => {
+                const active = isShareLinkActive(link);
+                return (
+                  <li
+                    key={link.id}
+                    className={`flex items-center justify-between gap-3 rounded-lg bg-muted/30 px-3 py-2 text-sm ${
+                      active ? "" : "opacity-50"
+                    }`}
+                  >
+                    <div className="min-w-0">
+                      <p className="truncate">
+                        {link.revoked_at
+                          ? t("share.statusRevoked")
+                          : active
+                            ? t("share.statusActive", {
+                                date: format(new Date(link.expires_at), "PPp", { locale: dateLocale }),
+                              })
+                            : t("share.statusExpired")}
+                      </p>
+                      {link.include_media && (
+                        <Badge variant="outline" className="mt-1 text-xs">
+                          {t("share.withMedia")}
+                        </Badge>
+                      )}
+                    </div>
+                    {active && (
+                      <div className="flex shrink-0 gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => copyLink(link.token, "share.linkCopied")}
+                          title={t("share.copy")}
+                        >
+                          <Copy className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => revokeMutation.mutate(link.id)}
+                          disabled={revokeMutation.isPending}
+                          title={t("share.revoke")}
+                        >
+                          <Ban className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
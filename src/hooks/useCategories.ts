@@ -0,0 +1,20 @@
+import { useQuery } from "@tanstack/react-query";
+import { listCategories } from "@/lib/categories";
+
+// Categories change rarely; share one copy across screens
+export const useCategories = () => {
+  const { data: categories = [], isLoading, isError } = useQuery({
+    queryKey: ["categories"],
+    queryFn: listCategories,
+    staleTime: 5 * 60 * 1000,
+  });
+
+  return {
+    categories,
+    // Admins also get disabled categories back; only enabled ones can start an interview
+    enabledCategories: categories.filter((category) => category.enabled),
+    isLoading,
+    isError,
+    getCategoryName: (slug: string) => categories.find((category) => category.slug === slug)?.name ?? slug,
+  };
+};
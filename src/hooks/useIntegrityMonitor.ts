@@ -0,0 +1,165 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { IntegrityEvent, IntegrityEventType, LONG_SILENCE_MS, SILENCE_LEVEL } from "@/lib/integrity";
+
+// How often the microphone level is sampled while the candidate answers
+const SILENCE_SAMPLE_MS = 500;
+
+// A blur followed this quickly by the tab being hidden is a tab switch, not a separate focus loss
+const BLUR_SETTLE_MS = 200;
+
+// Records tab switches, focus loss, fullscreen exits, copy/paste and, while `listening`,
+// long silences on the microphone. `onEvent` gets each event once it is over, with its
+// duration, since stored events can only be appended to and never rewritten.
+export const useIntegrityMonitor = ({
+  listening,
+  onEvent,
+}: {
+  listening: boolean;
+  onEvent: (event: IntegrityEvent) => void;
+}) => {
+  const [active, setActive] = useState(false);
+  const eventsRef = useRef<IntegrityEvent[]>([]);
+  const startedAtRef = useRef(0);
+  const streamRef = useRef<MediaStream | null>(null);
+  const onEventRef = useRef(onEvent);
+  onEventRef.current = onEvent;
+
+  // Events that are still going on, reported when they end
+  const openRef = useRef<Partial<Record<IntegrityEventType, IntegrityEvent>>>({});
+
+  const emit = useCallback((event: IntegrityEvent) => {
+    eventsRef.current.push(event);
+    onEventRef.current(event);
+  }, []);
+
+  const record = useCallback((event: Omit<IntegrityEvent, "at">, at = Date.now()) => {
+    emit({ ...event, at: at - startedAtRef.current });
+  }, [emit]);
+
+  const open = useCallback((type: IntegrityEventType) => {
+    openRef.current[type] ??= { type, at: Date.now() - startedAtRef.current };
+  }, []);
+
+  const close = useCallback((type: IntegrityEventType) => {
+    const event = openRef.current[type];
+    if (!event) return;
+    delete openRef.current[type];
+    emit({ ...event, duration: Date.now() - startedAtRef.current - event.at });
+  }, [emit]);
+
+  // `startedAt` is when the session recording started, so events line up with the video
+  const start = useCallback((startedAt: number, stream: MediaStream) => {
+    eventsRef.current = [];
+    openRef.current = {};
+    startedAtRef.current = startedAt;
+    streamRef.current = stream;
+    setActive(true);
+  }, []);
+
+  // Ends anything still going on and returns every recorded event
+  const stop = useCallback(() => {
+    (Object.keys(openRef.current) as IntegrityEventType[]).forEach(close);
+    setActive(false);
+    return [...eventsRef.current];
+  }, [close]);
+
+  // Page-level signals
+  useEffect(() => {
+    if (!active) return;
+
+    let blurTimer: ReturnType<typeof setTimeout> | undefined;
+    let wasFullscreen = !!document.fullscreenElement;
+
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        clearTimeout(blurTimer);
+        close("focus_lost");
+        open("tab_hidden");
+      } else {
+        close("tab_hidden");
+      }
+    };
+    const handleBlur = () => {
+      clearTimeout(blurTimer);
+      blurTimer = setTimeout(() => {
+        if (!document.hidden && !document.hasFocus()) open("focus_lost");
+      }, BLUR_SETTLE_MS);
+    };
+    const handleFocus = () => {
+      clearTimeout(blurTimer);
+      close("focus_lost");
+    };
+    const handleFullscreenChange = () => {
+      if (document.fullscreenElement) {
+        wasFullscreen = true;
+      } else if (wasFullscreen) {
+        wasFullscreen = false;
+        record({ type: "fullscreen_exit" });
+      }
+    };
+    const handleCopy = () => {
+      record({ type: "copy", chars: window.getSelection()?.toString().length ?? 0 });
+    };
+    const handlePaste = (e: ClipboardEvent) => {
+      record({ type: "paste", chars: e.clipboardData?.getData("text").length ?? 0 });
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    window.addEventListener("blur", handleBlur);
+    window.addEventListener("focus", handleFocus);
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    document.addEventListener("copy", handleCopy);
+    document.addEventListener("cut", handleCopy);
+    document.addEventListener("paste", handlePaste);
+
+    return () => {
+      clearTimeout(blurTimer);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+      window.removeEventListener("blur", handleBlur);
+      window.removeEventListener("focus", handleFocus);
+      document.removeEventListener("fullscreenchange", handleFullscreenChange);
+      document.removeEventListener("copy", handleCopy);
+      document.removeEventListener("cut", handleCopy);
+      document.removeEventListener("paste", handlePaste);
+    };
+  }, [active, open, close, record]);
+
+  // Long silences while the candidate is answering out loud
+  useEffect(() => {
+    const stream = streamRef.current;
+    if (!active || !listening || !stream || stream.getAudioTracks().length === 0) return;
+    if (typeof AudioContext === "undefined") return;
+
+    const context = new AudioContext();
+    const analyser = context.createAnalyser();
+    analyser.fftSize = 2048;
+    context.createMediaStreamSource(stream).connect(analyser);
+    const samples = new Float32Array(analyser.fftSize);
+    let silentSince: number | null = null;
+
+    const endSilence = () => {
+      if (silentSince !== null && Date.now() - silentSince >= LONG_SILENCE_MS) {
+        record({ type: "long_silence", duration: Date.now() - silentSince }, silentSince);
+      }
+      silentSince = null;
+    };
+
+    const interval = setInterval(() => {
+      analyser.getFloatTimeDomainData(samples);
+      const level = Math.sqrt(samples.reduce((sum, sample) => sum + sample * sample, 0) / samples.length);
+      if (level < SILENCE_LEVEL) {
+        silentSince ??= Date.now();
+      } else {
+        endSilence();
+      }
+    }, SILENCE_SAMPLE_MS);
+
+    return () => {
+      clearInterval(interval);
+      endSilence();
+      context.close().catch((error) => console.error("Error closing audio context:", error));
+    };
+  }, [active, listening, record]);
+
+  return { start, stop };
+};
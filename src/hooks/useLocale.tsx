@@ -0,0 +1,62 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useState } from "react";
+import {
+  dateLocales,
+  DEFAULT_LOCALE,
+  isLocale,
+  Locale,
+  MessageKey,
+  translate,
+  TranslateValues,
+} from "@/lib/i18n";
+
+const STORAGE_KEY = "interview-locale";
+
+interface LocaleContextType {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, values?: TranslateValues) => string;
+  dateLocale: (typeof dateLocales)[Locale];
+}
+
+const LocaleContext = createContext<LocaleContextType | undefined>(undefined);
+
+const getInitialLocale = (): Locale => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+
+  const browserLanguage = navigator.language?.split("-")[0];
+  return isLocale(browserLanguage) ? browserLanguage : DEFAULT_LOCALE;
+};
+
+// UI language, remembered per browser so the sign-in screen is translated too
+export const LocaleProvider = ({ children }: { children: ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(getInitialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    localStorage.setItem(STORAGE_KEY, next);
+    setLocaleState(next);
+  }, []);
+
+  const t = useCallback(
+    (key: MessageKey, values?: TranslateValues) => translate(locale, key, values),
+    [locale],
+  );
+
+  return (
+    <LocaleContext.Provider value={{ locale, setLocale, t, dateLocale: dateLocales[locale] }}>
+      {children}
+    </LocaleContext.Provider>
+  );
+};
+
+export const useLocale = () => {
+  const context = useContext(LocaleContext);
+  if (context === undefined) {
+    throw new Error("useLocale must be used within a LocaleProvider");
+  }
+  return context;
+};
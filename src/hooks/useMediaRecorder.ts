@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  getRecordingMimeType,
+  RECORDING_TIMESLICE_MS,
+  RECORDING_VIDEO_BITS_PER_SECOND,
+} from "@/lib/recording";
+
+// Continuously records a MediaStream into WebM chunks
+export const useMediaRecorder = () => {
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+
+  const start = useCallback((stream: MediaStream) => {
+    const mimeType = getRecordingMimeType();
+    if (mimeType === null) {
+      console.warn("MediaRecorder is not supported in this browser; skipping recording");
+      return false;
+    }
+
+    chunksRef.current = [];
+    const recorder = new MediaRecorder(stream, {
+      ...(mimeType ? { mimeType } : {}),
+      videoBitsPerSecond: RECORDING_VIDEO_BITS_PER_SECOND,
+    });
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) {
+        chunksRef.current.push(event.data);
+      }
+    };
+    recorder.onerror = (event) => {
+      console.error("MediaRecorder error:", event);
+    };
+
+    recorder.start(RECORDING_TIMESLICE_MS);
+    recorderRef.current = recorder;
+    return true;
+  }, []);
+
+  // Resolves with the complete recording once the final chunk is flushed
+  const stop = useCallback(() => {
+    return new Promise<Blob | null>((resolve) => {
+      const recorder = recorderRef.current;
+      recorderRef.current = null;
+
+      const assemble = () => {
+        const chunks = chunksRef.current;
+        chunksRef.current = [];
+        resolve(chunks.length > 0 ? new Blob(chunks, { type: recorder?.mimeType || "video/webm" }) : null);
+      };
+
+      if (!recorder || recorder.state === "inactive") {
+        assemble();
+        return;
+      }
+
+      recorder.addEventListener("stop", assemble, { once: true });
+      recorder.stop();
+    });
+  }, []);
+
+  useEffect(() => {
+    return () => {
+      const recorder = recorderRef.current;
+      if (recorder && recorder.state !== "inactive") {
+        recorder.stop();
+      }
+    };
+  }, []);
+
+  return { start, stop };
+};
@@ -0,0 +1,18 @@
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/hooks/useAuth";
+import { AppRole, getUserRoles } from "@/lib/roles";
+
+export const useRoles = () => {
+  const { user } = useAuth();
+  const { data: roles = [], isLoading } = useQuery({
+    queryKey: ["roles", user?.id],
+    queryFn: () => getUserRoles(user.id),
+    enabled: !!user,
+  });
+
+  return {
+    roles,
+    isLoading: !!user && isLoading,
+    hasRole: (role: AppRole) => roles.includes(role),
+  };
+};
@@ -0,0 +1,4 @@
+import { useSyncExternalStore } from "react";
+import { getUploadsSnapshot, subscribeToUploads } from "@/lib/upload-manager";
+
+export const useUploads = () => useSyncExternalStore(subscribeToUploads, getUploadsSnapshot);
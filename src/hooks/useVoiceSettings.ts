@@ -0,0 +1,38 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/useAuth";
+import { DEFAULT_VOICE_SETTINGS, VoiceSettings } from "@/lib/speech";
+
+const SAVE_DELAY_MS = 800;
+
+// Voice, rate and pitch for spoken questions, persisted in the user's metadata
+export const useVoiceSettings = () => {
+  const { user } = useAuth();
+  const [settings, setSettings] = useState<VoiceSettings>(() => ({
+    ...DEFAULT_VOICE_SETTINGS,
+    ...(user?.user_metadata?.voice_settings as Partial<VoiceSettings> | undefined),
+  }));
+  const dirtyRef = useRef(false);
+
+  const updateSettings = useCallback((patch: Partial<VoiceSettings>) => {
+    dirtyRef.current = true;
+    setSettings((prev) => ({ ...prev, ...patch }));
+  }, []);
+
+  // Debounced so dragging a slider doesn't write on every step
+  useEffect(() => {
+    if (!dirtyRef.current || !user) return;
+
+    const timer = setTimeout(async () => {
+      dirtyRef.current = false;
+      const { error } = await supabase.auth.updateUser({ data: { voice_settings: settings } });
+      if (error) {
+        console.error("Error saving voice settings:", error);
+      }
+    }, SAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [settings, user]);
+
+  return { settings, updateSettings };
+};
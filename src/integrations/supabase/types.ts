@@ -14,15 +14,124 @@ export type Database = {
   }
   public: {
     Tables: {
+      categories: {
+        Row: {
+          color: string
+          created_at: string
+          description: string | null
+          enabled: boolean
+          icon: string
+          name: string
+          prompt_context: string | null
+          slug: string
+          sort_order: number
+          updated_at: string
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          icon?: string
+          name: string
+          prompt_context?: string | null
+          slug: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          description?: string | null
+          enabled?: boolean
+          icon?: string
+          name?: string
+          prompt_context?: string | null
+          slug?: string
+          sort_order?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      interview_invites: {
+        Row: {
+          attempts_used: number
+          category: string
+          created_at: string
+          created_by: string | null
+          expires_at: string | null
+          id: string
+          label: string
+          locale: string
+          max_attempts: number
+          organization_id: string
+          questions: string[]
+          token: string
+        }
+        Insert: {
+          attempts_used?: number
+          category: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          label: string
+          locale?: string
+          max_attempts?: number
+          organization_id: string
+          questions?: string[]
+          token?: string
+        }
+        Update: {
+          attempts_used?: number
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          expires_at?: string | null
+          id?: string
+          label?: string
+          locale?: string
+          max_attempts?: number
+          organization_id?: string
+          questions?: string[]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "interview_invites_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+          {
+            foreignKeyName: "interview_invites_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       interviews: {
         Row: {
           analysis: string | null
+          analysis_details: Json | null
           candidate_name: string
           category: string
           completed_at: string | null
           created_at: string
+          finished_at: string | null
           id: string
+          imported_at: string | null
+          integrity_events: Json
+          invite_id: string | null
+          locale: string
+          organization_id: string | null
+          photo_paths: Json | null
           questions: Json | null
+          recommendation: string | null
+          recommendation_rank: number | null
           responses: Json | null
           score: number | null
           status: string
@@ -31,12 +140,22 @@ export type Database = {
         }
         Insert: {
           analysis?: string | null
+          analysis_details?: Json | null
           candidate_name: string
           category: string
           completed_at?: string | null
           created_at?: string
+          finished_at?: string | null
           id?: string
+          imported_at?: string | null
+          integrity_events?: Json
+          invite_id?: string | null
+          locale?: string
+          organization_id?: string | null
+          photo_paths?: Json | null
           questions?: Json | null
+          recommendation?: string | null
+          recommendation_rank?: never
           responses?: Json | null
           score?: number | null
           status?: string
@@ -45,29 +164,445 @@ export type Database = {
         }
         Update: {
           analysis?: string | null
+          analysis_details?: Json | null
           candidate_name?: string
           category?: string
           completed_at?: string | null
           created_at?: string
+          finished_at?: string | null
           id?: string
+          imported_at?: string | null
+          integrity_events?: Json
+          invite_id?: string | null
+          locale?: string
+          organization_id?: string | null
+          photo_paths?: Json | null
           questions?: Json | null
+          recommendation?: string | null
+          recommendation_rank?: never
           responses?: Json | null
           score?: number | null
           status?: string
           user_id?: string | null
           video_url?: string | null
         }
+        Relationships: [
+          {
+            foreignKeyName: "interviews_invite_id_fkey"
+            columns: ["invite_id"]
+            isOneToOne: false
+            referencedRelation: "interview_invites"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "interviews_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+        }
         Relationships: []
       }
+      question_bank: {
+        Row: {
+          active: boolean
+          category: string
+          created_at: string
+          created_by: string | null
+          difficulty: string
+          id: string
+          locale: string
+          reference_answer: string | null
+          tags: string[]
+          text: string
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          category: string
+          created_at?: string
+          created_by?: string | null
+          difficulty: string
+          id?: string
+          locale?: string
+          reference_answer?: string | null
+          tags?: string[]
+          text: string
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          category?: string
+          created_at?: string
+          created_by?: string | null
+          difficulty?: string
+          id?: string
+          locale?: string
+          reference_answer?: string | null
+          tags?: string[]
+          text?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "question_bank_category_fkey"
+            columns: ["category"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["slug"]
+          },
+        ]
+      }
+      reviews: {
+        Row: {
+          created_at: string
+          decision: string | null
+          interview_id: string
+          notes: string
+          question_ratings: Json
+          reviewer_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          decision?: string | null
+          interview_id: string
+          notes?: string
+          question_ratings?: Json
+          reviewer_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          decision?: string | null
+          interview_id?: string
+          notes?: string
+          question_ratings?: Json
+          reviewer_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reviews_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: true
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      share_links: {
+        Row: {
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          include_media: boolean
+          interview_id: string
+          revoked_at: string | null
+          token: string
+        }
+        Insert: {
+          created_at?: string
+          created_by: string
+          expires_at: string
+          id?: string
+          include_media?: boolean
+          interview_id: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          include_media?: boolean
+          interview_id?: string
+          revoked_at?: string | null
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "share_links_interview_id_fkey"
+            columns: ["interview_id"]
+            isOneToOne: false
+            referencedRelation: "interviews"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          id: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          event: string
+          id: string
+          last_error: string | null
+          last_status_code: number | null
+          next_attempt_at: string | null
+          payload: Json
+          status: string
+          webhook_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event: string
+          id?: string
+          last_error?: string | null
+          last_status_code?: number | null
+          next_attempt_at?: string | null
+          payload: Json
+          status?: string
+          webhook_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          event?: string
+          id?: string
+          last_error?: string | null
+          last_status_code?: number | null
+          next_attempt_at?: string | null
+          payload?: Json
+          status?: string
+          webhook_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_webhook_id_fkey"
+            columns: ["webhook_id"]
+            isOneToOne: false
+            referencedRelation: "webhooks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhooks: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          enabled: boolean
+          events: string[]
+          id: string
+          organization_id: string
+          secret: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          events: string[]
+          id?: string
+          organization_id: string
+          secret?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          enabled?: boolean
+          events?: string[]
+          id?: string
+          organization_id?: string
+          secret?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhooks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      append_integrity_events: {
+        Args: {
+          _events: Json
+          _interview_id: string
+        }
+        Returns: undefined
+      }
+      can_review_interview: {
+        Args: {
+          _interview_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      can_share_interview: {
+        Args: {
+          _interview_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      claim_webhook_deliveries: {
+        Args: {
+          _limit: number
+        }
+        Returns: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          event: string
+          id: string
+          last_error: string | null
+          last_status_code: number | null
+          next_attempt_at: string | null
+          payload: Json
+          status: string
+          webhook_id: string
+        }[]
+      }
+      enqueue_webhook_event: {
+        Args: {
+          _data: Json
+          _event: string
+          _organization_id: string
+        }
+        Returns: undefined
+      }
+      finish_interview: {
+        Args: {
+          _interview_id: string
+        }
+        Returns: undefined
+      }
+      get_invite: {
+        Args: {
+          _token: string
+        }
+        Returns: {
+          attempts_used: number
+          category: string
+          expires_at: string
+          locale: string
+          max_attempts: number
+          organization_name: string
+          question_count: number
+        }[]
+      }
+      has_role: {
+        Args: {
+          _role: Database["public"]["Enums"]["app_role"]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_org_member: {
+        Args: {
+          _organization_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      is_org_recruiter: {
+        Args: {
+          _organization_id: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      mark_interview_in_progress: {
+        Args: {
+          _interview_id: string
+        }
+        Returns: undefined
+      }
+      revoke_share_link: {
+        Args: {
+          _id: string
+        }
+        Returns: undefined
+      }
+      start_invited_interview: {
+        Args: {
+          _candidate_name: string
+          _token: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "recruiter"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -194,6 +729,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "recruiter"],
+    },
   },
 } as const
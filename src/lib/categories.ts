@@ -0,0 +1,101 @@
+import {
+  Brain,
+  Cloud,
+  Code,
+  Cpu,
+  Database,
+  GitBranch,
+  Globe,
+  Layers,
+  LucideIcon,
+  Server,
+  Shield,
+  Smartphone,
+  Terminal,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Category = Tables<"categories">;
+
+// Icons an admin can pick for a category, stored by name
+export const categoryIcons: Record<string, LucideIcon> = {
+  code: Code,
+  terminal: Terminal,
+  globe: Globe,
+  server: Server,
+  smartphone: Smartphone,
+  database: Database,
+  cloud: Cloud,
+  cpu: Cpu,
+  brain: Brain,
+  shield: Shield,
+  "git-branch": GitBranch,
+  layers: Layers,
+};
+
+// Gradient presets for the category tiles
+export const categoryColors = [
+  "from-orange-500 to-red-500",
+  "from-blue-500 to-cyan-500",
+  "from-violet-500 to-purple-500",
+  "from-indigo-500 to-blue-500",
+  "from-cyan-500 to-teal-500",
+  "from-emerald-500 to-green-500",
+  "from-pink-500 to-rose-500",
+  "from-amber-500 to-yellow-500",
+];
+
+export const getCategoryIcon = (icon: string) => categoryIcons[icon] ?? Code;
+
+export const isValidSlug = (slug: string) => /^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug) && slug.length <= 50;
+
+export interface CategoryInput {
+  slug: string;
+  name: string;
+  description: string;
+  icon: string;
+  color: string;
+  promptContext: string;
+  enabled: boolean;
+}
+
+const toRow = (input: CategoryInput) => ({
+  name: input.name.trim(),
+  description: input.description.trim() || null,
+  icon: input.icon,
+  color: input.color,
+  prompt_context: input.promptContext.trim() || null,
+  enabled: input.enabled,
+});
+
+// RLS hides disabled categories from everyone but admins
+export const listCategories = async () => {
+  const { data, error } = await supabase
+    .from("categories")
+    .select("*")
+    .order("sort_order")
+    .order("name");
+
+  if (error) throw error;
+  return data;
+};
+
+// New categories go to the end of the list
+export const createCategory = async (input: CategoryInput, sortOrder: number) => {
+  const { error } = await supabase
+    .from("categories")
+    .insert({ ...toRow(input), slug: input.slug, sort_order: sortOrder });
+
+  if (error) throw error;
+};
+
+// The slug is never changed: interviews and bank questions refer to it
+export const updateCategory = async (slug: string, input: CategoryInput) => {
+  const { error } = await supabase
+    .from("categories")
+    .update({ ...toRow(input), updated_at: new Date().toISOString() })
+    .eq("slug", slug);
+
+  if (error) throw error;
+};
@@ -0,0 +1,107 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { InterviewFilters } from "@/lib/interviews";
+
+export type DashboardSortKey = "created_at" | "score" | "recommendation_rank" | "status";
+
+export interface DashboardSort {
+  key: DashboardSortKey;
+  ascending: boolean;
+}
+
+export interface DashboardFilters extends InterviewFilters {
+  minScore?: number;
+  // ISO timestamp; only interviews started after it
+  since?: string;
+}
+
+export interface DashboardInterview {
+  id: string;
+  candidate_name: string;
+  category: string;
+  created_at: string;
+  score: number | null;
+  recommendation: string | null;
+  status: string;
+}
+
+export interface ScoreBucket {
+  range: string;
+  count: number;
+}
+
+// Rows the dashboard's charts are computed from; enough for any single hiring round
+const STATS_LIMIT = 1000;
+
+// Interviews taken for an organization; RLS limits recruiters to their own organizations
+export const listCandidateInterviews = async ({
+  page,
+  pageSize,
+  filters,
+  sort,
+}: {
+  page: number;
+  pageSize: number;
+  filters: DashboardFilters;
+  sort: DashboardSort;
+}) => {
+  let query = supabase
+    .from("interviews")
+    .select("id, candidate_name, category, created_at, score, recommendation, status", { count: "exact" })
+    .not("organization_id", "is", null)
+    .order(sort.key, { ascending: sort.ascending, nullsFirst: false })
+    .order("created_at", { ascending: false })
+    .range(page * pageSize, page * pageSize + pageSize - 1);
+
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.category) query = query.eq("category", filters.category);
+  if (filters.recommendation) query = query.eq("recommendation", filters.recommendation);
+  if (filters.minScore !== undefined) query = query.gte("score", filters.minScore);
+  if (filters.since) query = query.gte("created_at", filters.since);
+
+  const { data, error, count } = await query;
+
+  if (error) throw error;
+  return { interviews: data, total: count ?? 0 };
+};
+
+export const getDashboardStats = async (filters: DashboardFilters) => {
+  let query = supabase
+    .from("interviews")
+    .select("score, recommendation")
+    .not("organization_id", "is", null)
+    .order("created_at", { ascending: false })
+    .limit(STATS_LIMIT);
+
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.category) query = query.eq("category", filters.category);
+  if (filters.recommendation) query = query.eq("recommendation", filters.recommendation);
+  if (filters.minScore !== undefined) query = query.gte("score", filters.minScore);
+  if (filters.since) query = query.gte("created_at", filters.since);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+
+  const scores = data.flatMap((row) => (row.score !== null ? [row.score] : []));
+  return {
+    total: data.length,
+    averageScore: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : null,
+    hireCount: data.filter((row) => row.recommendation === "hire").length,
+    buckets: bucketScores(scores),
+  };
+};
+
+// Ten-point buckets, with 100 counted in the top one
+export const bucketScores = (scores: number[]): ScoreBucket[] =>
+  Array.from({ length: 10 }, (_, i) => ({
+    range: `${i * 10}–${i === 9 ? 100 : i * 10 + 9}`,
+    count: scores.filter((score) => Math.min(9, Math.floor(score / 10)) === i).length,
+  }));
+
+const escapeCsv = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: (string | number | null)[][]) =>
+  [header, ...rows].map((row) => row.map(escapeCsv).join(",")).join("\n");
@@ -0,0 +1,43 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { InterviewResponse } from "@/lib/interviews";
+
+export type FollowUpDecision = { action: "follow_up"; question: string } | { action: "move_on" };
+
+const DEFAULT_FOLLOW_UP_MAX_DEPTH = 2;
+
+// VITE_FOLLOW_UP_MAX_DEPTH caps how many follow-ups are asked per main question; 0 turns them off
+export const getFollowUpMaxDepth = (configured: string | undefined = import.meta.env.VITE_FOLLOW_UP_MAX_DEPTH) => {
+  const depth = Number.parseInt(configured ?? "", 10);
+  return Number.isNaN(depth) || depth < 0 ? DEFAULT_FOLLOW_UP_MAX_DEPTH : depth;
+};
+
+// The main question behind `index` followed by its follow-ups, up to and including `index`
+export const getFollowUpThread = (responses: InterviewResponse[], index: number) => {
+  const rootIndex = responses[index]?.followUpOf ?? index;
+  return responses
+    .slice(rootIndex, index + 1)
+    .filter((response, offset) => offset === 0 || response.followUpOf === rootIndex);
+};
+
+// A follow-up is stored in the interview's questions at `insertAt` before it is returned
+export const requestFollowUp = async ({
+  interviewId,
+  insertAt,
+  conversation,
+}: {
+  interviewId: string;
+  insertAt: number;
+  conversation: InterviewResponse[];
+}) => {
+  const { data, error } = await supabase.functions.invoke("interview-ai", {
+    body: {
+      action: "follow_up",
+      interviewId,
+      insertAt,
+      conversation: conversation.map(({ question, answer }) => ({ question, answer })),
+    },
+  });
+
+  if (error) throw error;
+  return data.result as FollowUpDecision;
+};
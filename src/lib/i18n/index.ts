@@ -0,0 +1,27 @@
+import type { Locale as DateLocale } from "date-fns";
+import { de as deDate, enUS, es as esDate, hi as hiDate } from "date-fns/locale";
+import { de } from "@/lib/i18n/messages/de";
+import { en, MessageKey, Messages } from "@/lib/i18n/messages/en";
+import { es } from "@/lib/i18n/messages/es";
+import { hi } from "@/lib/i18n/messages/hi";
+import type { Locale } from "@/lib/i18n/locales";
+
+export type { MessageKey } from "@/lib/i18n/messages/en";
+export * from "@/lib/i18n/locales";
+
+export type TranslateValues = Record<string, string | number>;
+
+const messages: Record<Locale, Messages> = { en, es, de, hi };
+
+export const dateLocales: Record<Locale, DateLocale> = {
+  en: enUS,
+  es: esDate,
+  de: deDate,
+  hi: hiDate,
+};
+
+export const translate = (locale: Locale, key: MessageKey, values?: TranslateValues) => {
+  const template = messages[locale]?.[key] ?? en[key];
+  if (!values) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match));
+};
@@ -0,0 +1,24 @@
+export type Locale = "en" | "es" | "de" | "hi";
+
+export interface LocaleOption {
+  id: Locale;
+  // Shown in the language picker in the language itself
+  name: string;
+  // BCP 47 tag used for speech recognition and synthesis
+  speechLang: string;
+}
+
+export const DEFAULT_LOCALE: Locale = "en";
+
+export const locales: LocaleOption[] = [
+  { id: "en", name: "English", speechLang: "en-US" },
+  { id: "es", name: "Español", speechLang: "es-ES" },
+  { id: "de", name: "Deutsch", speechLang: "de-DE" },
+  { id: "hi", name: "हिन्दी", speechLang: "hi-IN" },
+];
+
+export const isLocale = (value: unknown): value is Locale =>
+  locales.some((locale) => locale.id === value);
+
+export const getSpeechLang = (locale: Locale) =>
+  locales.find((option) => option.id === locale)?.speechLang ?? "en-US";
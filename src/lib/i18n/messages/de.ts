@@ -0,0 +1,444 @@
+import type { Messages } from "@/lib/i18n/messages/en";
+
+export const de: Messages = {
+  // Shared
+  "common.back": "Zurück",
+  "common.language": "Sprache",
+  "common.interviewTitle": "{category}-Interview",
+  "common.cancel": "Abbrechen",
+  "common.save": "Speichern",
+  "common.edit": "Bearbeiten",
+  "common.delete": "Löschen",
+
+  // Welcome
+  "welcome.titleAccent": "KI-Interview",
+  "welcome.titleRest": "Assistent",
+  "welcome.subtitle": "Erleben Sie die Zukunft technischer Interviews mit unserer KI-gestützten Plattform",
+  "welcome.namePlaceholder": "Vollständigen Namen eingeben",
+  "welcome.start": "Interview starten",
+  "welcome.featureVoice": "Sprachbasiert",
+  "welcome.featureAi": "KI-gestützt",
+  "welcome.featureRealtime": "Echtzeit-Analyse",
+
+  // Auth
+  "auth.brand": "KI-Interviewer",
+  "auth.signInPrompt": "Willkommen zurück! Melden Sie sich an, um fortzufahren.",
+  "auth.signUpPrompt": "Erstellen Sie ein Konto, um loszulegen.",
+  "auth.fullName": "Vollständiger Name",
+  "auth.fullNamePlaceholder": "Max Mustermann",
+  "auth.email": "E-Mail",
+  "auth.password": "Passwort",
+  "auth.signIn": "Anmelden",
+  "auth.createAccount": "Konto erstellen",
+  "auth.noAccount": "Noch kein Konto?",
+  "auth.signUpLink": "Registrieren",
+  "auth.haveAccount": "Bereits ein Konto?",
+  "auth.signInLink": "Anmelden",
+  "auth.invalidEmail": "Bitte geben Sie eine gültige E-Mail-Adresse ein",
+  "auth.passwordTooShort": "Das Passwort muss mindestens 6 Zeichen lang sein",
+  "auth.fullNameRequired": "Bitte geben Sie Ihren vollständigen Namen ein",
+  "auth.invalidCredentials": "Ungültige E-Mail oder ungültiges Passwort. Bitte versuchen Sie es erneut.",
+  "auth.emailNotConfirmed": "Bitte bestätigen Sie Ihre E-Mail-Adresse, bevor Sie sich anmelden.",
+  "auth.welcomeBack": "Willkommen zurück!",
+  "auth.alreadyRegistered": "Diese E-Mail ist bereits registriert. Bitte melden Sie sich an.",
+  "auth.accountCreated": "Konto erstellt! Bitte prüfen Sie Ihre E-Mails, um Ihr Konto zu bestätigen.",
+  "auth.unexpectedError": "Ein unerwarteter Fehler ist aufgetreten. Bitte versuchen Sie es erneut.",
+
+  // Home
+  "index.history": "Interview-Verlauf",
+  "index.signOut": "Abmelden",
+  "index.savingRecordings": "Aufnahmen werden gespeichert",
+  "index.startFailed": "Das Interview konnte nicht gestartet werden. Bitte versuchen Sie es erneut.",
+  "index.questionBank": "Fragenkatalog",
+  "index.categories": "Kategorien",
+  "index.dashboard": "Interviews der Kandidaten",
+
+  // Category selection
+  "category.greeting": "Hallo,",
+  "category.subtitle": "Wählen Sie die Technologie, zu der Sie interviewt werden möchten",
+  "category.language": "Interviewsprache",
+  "category.loadFailed": "Die Kategorien konnten nicht geladen werden.",
+  "category.empty": "Es sind noch keine Kategorien verfügbar.",
+
+  // Interview room
+  "room.preparing": "Ihr Interview wird vorbereitet...",
+  "room.savingTitle": "Ihr Interview wird gespeichert",
+  "room.savingDescription": "Bitte lassen Sie diesen Tab geöffnet. Unterbrochene Uploads werden automatisch fortgesetzt.",
+  "room.enableCameraTitle": "Kamera aktivieren",
+  "room.enableCameraDescription":
+    "Bitte aktivieren Sie Kamera und Mikrofon, um das Interview zu starten. Die Sitzung wird aufgezeichnet und wir nehmen einige Fotos auf.",
+  "room.integrityNotice":
+    "Das Interview läuft im Vollbildmodus. Tabwechsel, das Verlassen des Fensters oder des Vollbildmodus, Kopieren oder Einfügen sowie lange Pausen werden für den Recruiter protokolliert.",
+  "room.enableCameraButton": "Kamera & Mikrofon aktivieren",
+  "room.questionProgress": "Frage {current} von {total}",
+  "room.inProgress": "Läuft",
+  "room.loadingQuestion": "Frage wird geladen...",
+  "room.loadQuestionsFailed": "Fragen konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+  "room.questionsDegraded": "Der KI-Dienst ist nicht verfügbar, daher werden Standardfragen verwendet.",
+  "room.mediaDenied": "Zugriff auf Kamera und Mikrofon verweigert. Bitte prüfen Sie die Browser-Berechtigungen.",
+  "room.mediaRequired": "Bitte erlauben Sie den Zugriff auf Kamera und Mikrofon, um fortzufahren.",
+  "room.maxPhotos": "Es wurden bereits maximal 3 Fotos aufgenommen",
+  "room.photoCaptured": "Foto {count} aufgenommen!",
+  "room.speakFailed": "Die Frage konnte nicht abgespielt werden. Bitte lesen Sie sie auf dem Bildschirm.",
+  "room.voicePreview": "Hallo, ich bin heute Ihr Interviewer.",
+  "room.sttUnsupported": "Ihr Browser unterstützt keine Spracherkennung.",
+  "room.transcriptionFailed": "Ihre Antwort konnte nicht transkribiert werden.",
+  "room.saveAnswerFailed": "Ihre Antwort konnte nicht gespeichert werden.",
+  "room.authRequired": "Zum Hochladen der Aufnahme ist eine Anmeldung erforderlich",
+  "room.uploadsFailed":
+    "Einige Dateien konnten nicht gespeichert werden. Beim nächsten Öffnen der App wird es erneut versucht.",
+  "room.recordingFailed": "Die Aufnahme konnte nicht gespeichert werden.",
+  "room.recordingLabel": "Interviewaufnahme",
+  "room.photoLabel": "Foto {number}",
+
+  // Question panel
+  "question.aiSpeaking": "Die KI spricht...",
+  "question.typeAnswer": "Geben Sie Ihre Antwort ein:",
+  "question.editTranscript": "Ihre Antwort (Sie können die Transkription korrigieren):",
+  "question.answerPlaceholder": "Schreiben Sie hier Ihre Antwort...",
+  "question.yourAnswer": "Ihre Antwort:",
+  "question.listening": "Hört zu... Sprechen Sie Ihre Antwort",
+  "question.transcribing": "Ihre Antwort wird transkribiert...",
+  "question.thinking": "Nachfrage wird geprüft...",
+  "question.followUp": "Nachfrage",
+  "question.speakMode": "Sprechen",
+  "question.typeMode": "Tippen",
+  "question.speakModeLabel": "Mündlich antworten",
+  "question.typeModeLabel": "Schriftlich antworten",
+  "question.listen": "Frage anhören",
+  "question.startSpeaking": "Sprechen beginnen",
+  "question.stopRecording": "Aufnahme beenden",
+  "question.next": "Weiter",
+  "question.finish": "Abschließen",
+
+  // Voice settings
+  "voice.settings": "Spracheinstellungen",
+  "voice.interviewerVoice": "Stimme des Interviewers",
+  "voice.defaultVoice": "Standardstimme",
+  "voice.speed": "Geschwindigkeit",
+  "voice.pitch": "Tonhöhe",
+  "voice.preview": "Vorhören",
+
+  // Results
+  "results.analyzingTitle": "Ihr Interview wird analysiert",
+  "results.analyzingDescription": "Unsere KI prüft Ihre Antworten...",
+  "results.analyzeFailed": "Das Interview konnte nicht analysiert werden.",
+  "results.completeTitle": "Interview abgeschlossen!",
+  "results.completeSubtitle": "Hier ist Ihre Leistungsanalyse,",
+  "results.startNew": "Neues Interview starten",
+  "results.degradedTitle": "Ihr Interview konnte nicht analysiert werden",
+  "results.degradedDescription":
+    "Der KI-Dienst hat keine gültige Analyse geliefert, daher wurde keine Punktzahl vergeben. Ihre Antworten und die Aufnahme sind gespeichert; bitte versuchen Sie es gleich noch einmal.",
+  "results.retryAnalysis": "Erneut versuchen",
+
+  // Report
+  "report.overallScore": "Gesamtpunktzahl",
+  "report.analysis": "Leistungsanalyse",
+  "report.strengths": "Stärken",
+  "report.improvements": "Verbesserungspotenzial",
+  "report.summary": "Interview-Zusammenfassung",
+  "report.typed": "Getippt",
+  "report.spoken": "Gesprochen",
+  "report.spokenEdited": "Gesprochen · bearbeitet",
+  "report.noResponse": "(Keine Antwort)",
+  "report.followUp": "Nachfrage zu F{number}",
+  "report.download": "Bericht herunterladen",
+  "report.downloadFailed": "Der Bericht konnte nicht erstellt werden.",
+  "report.pdfTitle": "Interviewbericht",
+  "report.photos": "Aufgenommene Fotos",
+  "report.pageOf": "Seite {page} von {total}",
+  "rubric.score": "Punktzahl",
+  "rubric.correctness": "Korrektheit",
+  "rubric.depth": "Tiefe",
+  "rubric.communication": "Kommunikation",
+  "rubric.modelAnswer": "Eine starke Antwort würde abdecken",
+  "rubric.missedPoints": "Fehlende Kernpunkte",
+  "recommendation.hire": "Zur Einstellung empfohlen",
+  "recommendation.consider": "Für die Stelle in Betracht ziehen",
+  "recommendation.notRecommended": "Verbesserung nötig",
+  "status.pending": "Ausstehend",
+  "status.inProgress": "Läuft",
+  "status.completed": "Abgeschlossen",
+
+  // Recording player
+  "recording.title": "Interviewaufnahme",
+  "recording.unavailable": "Die Aufnahme ist nicht verfügbar.",
+  "recording.chapters": "Kapitel",
+  "recording.download": "Aufnahme herunterladen",
+  "recording.downloadFailed": "Die Aufnahme konnte nicht heruntergeladen werden.",
+
+  // Uploads
+  "upload.queued": "Wartet",
+  "upload.uploading": "Wird hochgeladen",
+  "upload.retrying": "Verbindung unterbrochen, neuer Versuch",
+  "upload.completed": "Gespeichert",
+  "upload.failed": "Fehlgeschlagen",
+  "upload.retry": "Erneut versuchen",
+
+  // History
+  "history.title": "Interview-Verlauf",
+  "history.subtitle": "Sehen Sie sich frühere Sitzungen und deren Analyse an",
+  "history.category": "Kategorie",
+  "history.allCategories": "Alle Kategorien",
+  "history.status": "Status",
+  "history.allStatuses": "Alle Status",
+  "history.recommendation": "Empfehlung",
+  "history.allRecommendations": "Alle Empfehlungen",
+  "history.date": "Datum",
+  "history.score": "Punktzahl",
+  "history.loadFailed": "Ihre Interviews konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+  "history.empty": "Keine Interviews gefunden.",
+  "history.page": "Seite {page} von {total}",
+  "history.previous": "Zurück",
+  "history.next": "Weiter",
+
+  // Interview detail
+  "detail.loadFailed": "Dieses Interview konnte nicht geladen werden.",
+  "detail.notFound": "Interview nicht gefunden.",
+  "detail.backToHistory": "Zurück zum Verlauf",
+  "detail.notAnalyzed": "Diese Sitzung wurde noch nicht analysiert.",
+  "detail.imported": "Am {date} aus einer Datei importiert. Die Ergebnisse stammen nicht aus dieser App, daher kann es nicht geteilt werden.",
+
+  // Question bank
+  "bank.title": "Fragenkatalog",
+  "bank.subtitle": "Geprüfte Fragen, die vor KI-generierten Fragen in Interviews übernommen werden",
+  "bank.add": "Frage hinzufügen",
+  "bank.edit": "Frage bearbeiten",
+  "bank.question": "Frage",
+  "bank.referenceAnswer": "Musterantwort",
+  "bank.referenceAnswerPlaceholder": "Was eine starke Antwort abdeckt; wird der KI bei der Analyse des Interviews mitgegeben",
+  "bank.category": "Kategorie",
+  "bank.allCategories": "Alle Kategorien",
+  "bank.difficulty": "Schwierigkeit",
+  "bank.easy": "Leicht",
+  "bank.medium": "Mittel",
+  "bank.hard": "Schwer",
+  "bank.tags": "Schlagwörter",
+  "bank.tagsPlaceholder": "Collections, Generics",
+  "bank.active": "In Interviews verwenden",
+  "bank.inactive": "Inaktiv",
+  "bank.textRequired": "Bitte geben Sie die Frage ein",
+  "bank.empty": "Der Fragenkatalog ist noch leer.",
+  "bank.loadFailed": "Der Fragenkatalog konnte nicht geladen werden.",
+  "bank.saved": "Frage gespeichert",
+  "bank.saveFailed": "Die Frage konnte nicht gespeichert werden.",
+  "bank.deleted": "Frage gelöscht",
+  "bank.deleteFailed": "Die Frage konnte nicht gelöscht werden.",
+  "bank.deleteTitle": "Diese Frage löschen?",
+  "bank.deleteDescription": "Sie wird in neuen Interviews nicht mehr gestellt. Frühere Interviews behalten ihre Fragen.",
+
+  // Categories
+  "categories.title": "Kategorien",
+  "categories.subtitle": "Die Technologien, die Kandidaten wählen können, und der Kontext, den die KI dazu erhält",
+  "categories.add": "Kategorie hinzufügen",
+  "categories.edit": "Kategorie bearbeiten",
+  "categories.slug": "Kennung",
+  "categories.slugHint": "Kleinbuchstaben, Ziffern und Bindestriche. Kann später nicht geändert werden.",
+  "categories.slugInvalid": "Nur Kleinbuchstaben, Ziffern und einzelne Bindestriche verwenden",
+  "categories.slugTaken": "Eine Kategorie mit dieser Kennung existiert bereits",
+  "categories.name": "Name",
+  "categories.nameRequired": "Bitte geben Sie einen Namen ein",
+  "categories.description": "Beschreibung",
+  "categories.icon": "Symbol",
+  "categories.color": "Farbe",
+  "categories.promptContext": "Kontext für die KI",
+  "categories.promptContextPlaceholder": "Zusätzliche Hinweise für die KI, z. B. die Versionen oder Frameworks, auf die sie sich konzentrieren soll",
+  "categories.enabled": "Für Kandidaten verfügbar",
+  "categories.disabled": "Deaktiviert",
+  "categories.empty": "Noch keine Kategorien.",
+  "categories.loadFailed": "Die Kategorien konnten nicht geladen werden.",
+  "categories.saved": "Kategorie gespeichert",
+  "categories.saveFailed": "Die Kategorie konnte nicht gespeichert werden.",
+
+  // Recruiter dashboard
+  "dashboard.title": "Interviews der Kandidaten",
+  "dashboard.subtitle": "Interviews, die Kandidaten Ihrer Organisation geführt haben",
+  "dashboard.candidate": "Kandidat",
+  "dashboard.link": "Link",
+  "dashboard.hireOnly": "Nur Einstellen",
+  "dashboard.minScore": "Punktzahl ≥ {score}",
+  "dashboard.lastDays": "Letzte {days} Tage",
+  "dashboard.interviews": "Interviews",
+  "dashboard.averageScore": "Durchschnittliche Punktzahl",
+  "dashboard.hireRate": "Zur Einstellung empfohlen",
+  "dashboard.scoreDistribution": "Verteilung der Punktzahlen",
+  "dashboard.selected": "{count} ausgewählt",
+  "dashboard.selectAll": "Alle auf dieser Seite auswählen",
+  "dashboard.selectRow": "{name} auswählen",
+  "dashboard.exportCsv": "CSV exportieren",
+  "dashboard.copyLinks": "Links kopieren",
+  "dashboard.linksCopied": "Links kopiert",
+  "dashboard.copyFailed": "Die Links konnten nicht kopiert werden.",
+  "dashboard.clearSelection": "Auswahl aufheben",
+  "dashboard.empty": "Keine Interviews entsprechen diesen Filtern.",
+  "dashboard.loadFailed": "Die Interviews konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+  "dashboard.invites": "Einladungen",
+  "dashboard.webhooks": "Webhooks",
+
+  // Invites
+  "invites.title": "Einladungen",
+  "invites.subtitle": "Links, die ein vorkonfiguriertes Interview für einen Kandidaten starten",
+  "invites.add": "Neue Einladung",
+  "invites.label": "Bezeichnung",
+  "invites.labelPlaceholder": "Backend-Stelle – Max Mustermann",
+  "invites.labelRequired": "Bitte geben Sie eine Bezeichnung ein",
+  "invites.organization": "Organisation",
+  "invites.organizationRequired": "Bitte wählen Sie eine Organisation",
+  "invites.noOrganizations": "Sie sind noch kein Mitglied einer Organisation.",
+  "invites.questions": "Fragen",
+  "invites.questionsPlaceholder": "Eine Frage pro Zeile. Leer lassen, um den Fragenkatalog und generierte Fragen zu verwenden.",
+  "invites.tooManyQuestions": "Eine Einladung kann höchstens {max} Fragen haben",
+  "invites.generated": "Generiert",
+  "invites.deadline": "Frist",
+  "invites.noDeadline": "Keine Frist",
+  "invites.maxAttempts": "Maximale Versuche",
+  "invites.attempts": "Versuche",
+  "invites.expired": "Abgelaufen",
+  "invites.copyLink": "Link kopieren",
+  "invites.linkCopied": "Einladungslink kopiert",
+  "invites.copyFailed": "Der Link konnte nicht kopiert werden.",
+  "invites.empty": "Noch keine Einladungen.",
+  "invites.loadFailed": "Die Einladungen konnten nicht geladen werden.",
+  "invites.saved": "Einladung erstellt",
+  "invites.saveFailed": "Die Einladung konnte nicht erstellt werden.",
+  "invites.deleted": "Einladung gelöscht",
+  "invites.deleteFailed": "Die Einladung konnte nicht gelöscht werden.",
+  "invites.deleteTitle": "Diese Einladung löschen?",
+  "invites.deleteDescription": "Der Link funktioniert dann nicht mehr. Bereits damit gestartete Interviews bleiben erhalten.",
+
+  // Invite landing
+  "invite.title": "Sie sind zu einem Interview eingeladen",
+  "invite.from": "{organization} hat Sie zu einem {category}-Interview eingeladen.",
+  "invite.questions": "Fragen",
+  "invite.questionCount": "{count} vom Recruiter festgelegt",
+  "invite.generatedQuestions": "Auf die Stelle zugeschnitten",
+  "invite.deadline": "Frist",
+  "invite.noDeadline": "Keine",
+  "invite.attemptsLeft": "Verbleibende Versuche",
+  "invite.start": "Interview starten",
+  "invite.notFound": "Dieser Einladungslink ist ungültig.",
+  "invite.expired": "Diese Einladung ist abgelaufen.",
+  "invite.usedUp": "Alle Versuche für diese Einladung wurden bereits genutzt.",
+  "invite.startFailed": "Das Interview konnte nicht gestartet werden. Bitte versuchen Sie es erneut.",
+  "invite.loadFailed": "Die Einladung konnte nicht geladen werden. Bitte versuchen Sie es erneut.",
+
+  // Review
+  "review.title": "Bewertung durch Prüfer",
+  "review.subtitle": "Ihr eigenes Urteil neben der KI-Analyse. Nur Ihr Recruiting-Team sieht es.",
+  "review.aiVerdict": "KI-Urteil",
+  "review.yourDecision": "Ihre Entscheidung",
+  "review.noDecision": "Noch keine Entscheidung",
+  "review.notAnalyzed": "Noch nicht analysiert",
+  "review.decisionDiffers": "Ihre Entscheidung weicht von der Empfehlung der KI ab.",
+  "review.questions": "Bewertung pro Frage",
+  "review.aiScore": "KI",
+  "review.yourRating": "Ihre Bewertung",
+  "review.differs": "Weicht von der KI ab",
+  "review.notePlaceholder": "Notiz zu dieser Antwort (optional)",
+  "review.notes": "Notizen",
+  "review.notesPlaceholder": "Was das Recruiting-Team wissen sollte",
+  "review.lastSaved": "Zuletzt gespeichert {date}",
+  "review.saved": "Bewertung gespeichert.",
+  "review.saveFailed": "Die Bewertung konnte nicht gespeichert werden.",
+  "review.loadFailed": "Die Bewertung konnte nicht geladen werden.",
+
+  // Share links
+  "share.button": "Teilen",
+  "share.title": "Ergebnisse teilen",
+  "share.description": "Jeder mit dem Link kann diese Ergebnisse ohne Konto ansehen, bis er abläuft oder Sie ihn widerrufen.",
+  "share.expiresIn": "Läuft ab nach",
+  "share.oneDay": "1 Tag",
+  "share.days": "{count} Tagen",
+  "share.includeMedia": "Aufnahme und Fotos einschließen",
+  "share.create": "Link erstellen",
+  "share.created": "Link erstellt und in die Zwischenablage kopiert.",
+  "share.yourLinks": "Ihre Links",
+  "share.empty": "Sie haben dieses Interview noch nicht geteilt.",
+  "share.loadFailed": "Ihre Links konnten nicht geladen werden.",
+  "share.statusActive": "Aktiv bis {date}",
+  "share.statusExpired": "Abgelaufen",
+  "share.statusRevoked": "Widerrufen",
+  "share.withMedia": "Mit Aufnahme und Fotos",
+  "share.copy": "Link kopieren",
+  "share.linkCopied": "Link in die Zwischenablage kopiert.",
+  "share.copyFailed": "Der Link konnte nicht kopiert werden.",
+  "share.createFailed": "Der Link konnte nicht erstellt werden.",
+  "share.revoke": "Widerrufen",
+  "share.revoked": "Link widerrufen.",
+  "share.revokeFailed": "Der Link konnte nicht widerrufen werden.",
+
+  // Shared results
+  "shared.readOnly": "Nur-Lese-Ansicht · Link läuft am {date} ab",
+  "shared.notFound": "Dieser Link ist ungültig.",
+  "shared.unavailable": "Dieser Link ist abgelaufen oder wurde widerrufen.",
+  "shared.loadFailed": "Die geteilten Ergebnisse konnten nicht geladen werden. Bitte versuchen Sie es erneut.",
+
+  // Export and import
+  "transfer.export": "Exportieren",
+  "transfer.exportJson": "JSON (alle Daten, importierbar)",
+  "transfer.exportCsv": "CSV (eine Zeile pro Antwort)",
+  "transfer.exportFailed": "Die Interviews konnten nicht exportiert werden.",
+  "transfer.nothingToExport": "Es gibt keine Interviews zum Exportieren.",
+  "transfer.import": "Importieren",
+  "transfer.imported": "{imported} Interviews importiert, {skipped} bereits vorhandene übersprungen.",
+  "transfer.importFailed": "Die Interviews konnten nicht importiert werden.",
+  "transfer.invalidFile": "Diese Datei ist kein gültiger Interview-Export.",
+  "transfer.unsupportedVersion": "Dieser Export wurde mit einer neueren Version der App erstellt.",
+  "transfer.tooLarge": "Diese Datei enthält zu viele Interviews für einen einzelnen Import.",
+
+  // Webhooks
+  "webhooks.title": "Webhooks",
+  "webhooks.subtitle": "Benachrichtigen Sie Ihr ATS, wenn Interviews erstellt, abgeschlossen, analysiert oder bewertet werden",
+  "webhooks.add": "Neuer Webhook",
+  "webhooks.edit": "Webhook bearbeiten",
+  "webhooks.url": "Endpunkt-URL",
+  "webhooks.urlInvalid": "Bitte geben Sie eine http(s)-URL ein",
+  "webhooks.events": "Ereignisse",
+  "webhooks.eventsRequired": "Bitte wählen Sie mindestens ein Ereignis",
+  "webhooks.enabled": "Aktiviert",
+  "webhooks.disabled": "Deaktiviert",
+  "webhooks.sendTest": "Testereignis senden",
+  "webhooks.testSucceeded": "Testereignis zugestellt (HTTP {status})",
+  "webhooks.testFailed": "Testereignis fehlgeschlagen: {error}",
+  "webhooks.testError": "Das Testereignis konnte nicht gesendet werden.",
+  "webhooks.copySecret": "Signaturgeheimnis kopieren",
+  "webhooks.secretCopied": "Signaturgeheimnis kopiert",
+  "webhooks.empty": "Noch keine Webhooks.",
+  "webhooks.loadFailed": "Die Webhooks konnten nicht geladen werden.",
+  "webhooks.saved": "Webhook gespeichert",
+  "webhooks.saveFailed": "Der Webhook konnte nicht gespeichert werden.",
+  "webhooks.deleted": "Webhook gelöscht",
+  "webhooks.deleteFailed": "Der Webhook konnte nicht gelöscht werden.",
+  "webhooks.deleteTitle": "Diesen Webhook löschen?",
+  "webhooks.deleteDescription": "An diese URL werden keine Ereignisse mehr gesendet und ihr Zustellprotokoll wird entfernt.",
+  "webhooks.deliveries": "Zustellprotokoll",
+  "webhooks.deliveriesHint": "Fehlgeschlagene Zustellungen werden etwa zwei Stunden lang mit wachsenden Abständen wiederholt.",
+  "webhooks.deliveriesEmpty": "Noch keine Zustellungen.",
+  "webhooks.deliveriesLoadFailed": "Das Zustellprotokoll konnte nicht geladen werden.",
+  "webhooks.event": "Ereignis",
+  "webhooks.status": "Status",
+  "webhooks.attempts": "Versuche",
+  "webhooks.response": "Antwort",
+  "webhooks.createdAt": "Erstellt",
+  "webhooks.succeeded": "Zugestellt",
+  "webhooks.pending": "Ausstehend",
+  "webhooks.failed": "Fehlgeschlagen",
+  "webhooks.nextAttempt": "Nächster Versuch um {date}",
+
+  // Integrity
+  "integrity.title": "Integrität",
+  "integrity.summary": "Während des Interviews wurden {count} Signale protokolliert. Sie verdienen einen Blick, sind aber kein Beweis für Betrug.",
+  "integrity.none": "Es wurden keine Integritätssignale protokolliert.",
+  "integrity.tabHidden": "Tab gewechselt",
+  "integrity.focusLost": "Fenster verlassen",
+  "integrity.fullscreenExit": "Vollbild beendet",
+  "integrity.copy": "Text kopiert",
+  "integrity.paste": "Text eingefügt",
+  "integrity.longSilence": "Lange Pause",
+  "integrity.duration": "{seconds} s",
+  "integrity.chars": "{count} Zeichen",
+
+  // 404
+  "notFound.message": "Hoppla! Seite nicht gefunden",
+  "notFound.home": "Zur Startseite",
+};
@@ -0,0 +1,446 @@
+// Source strings; every other locale must provide the same keys.
+// Placeholders in braces are filled in by t(key, values).
+export const en = {
+  // Shared
+  "common.back": "Back",
+  "common.language": "Language",
+  "common.interviewTitle": "{category} Interview",
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.edit": "Edit",
+  "common.delete": "Delete",
+
+  // Welcome
+  "welcome.titleAccent": "AI Interview",
+  "welcome.titleRest": "Assistant",
+  "welcome.subtitle": "Experience the future of technical interviews with our AI-powered platform",
+  "welcome.namePlaceholder": "Enter your full name",
+  "welcome.start": "Start Interview",
+  "welcome.featureVoice": "Voice-Based",
+  "welcome.featureAi": "AI-Powered",
+  "welcome.featureRealtime": "Real-Time Analysis",
+
+  // Auth
+  "auth.brand": "AI Interviewer",
+  "auth.signInPrompt": "Welcome back! Sign in to continue.",
+  "auth.signUpPrompt": "Create an account to get started.",
+  "auth.fullName": "Full Name",
+  "auth.fullNamePlaceholder": "John Doe",
+  "auth.email": "Email",
+  "auth.password": "Password",
+  "auth.signIn": "Sign In",
+  "auth.createAccount": "Create Account",
+  "auth.noAccount": "Don't have an account?",
+  "auth.signUpLink": "Sign up",
+  "auth.haveAccount": "Already have an account?",
+  "auth.signInLink": "Sign in",
+  "auth.invalidEmail": "Please enter a valid email address",
+  "auth.passwordTooShort": "Password must be at least 6 characters",
+  "auth.fullNameRequired": "Please enter your full name",
+  "auth.invalidCredentials": "Invalid email or password. Please try again.",
+  "auth.emailNotConfirmed": "Please verify your email before logging in.",
+  "auth.welcomeBack": "Welcome back!",
+  "auth.alreadyRegistered": "This email is already registered. Please log in instead.",
+  "auth.accountCreated": "Account created! Please check your email to verify your account.",
+  "auth.unexpectedError": "An unexpected error occurred. Please try again.",
+
+  // Home
+  "index.history": "Interview history",
+  "index.signOut": "Sign out",
+  "index.savingRecordings": "Saving recordings",
+  "index.startFailed": "Failed to start the interview. Please try again.",
+  "index.questionBank": "Question bank",
+  "index.categories": "Categories",
+  "index.dashboard": "Candidate interviews",
+
+  // Category selection
+  "category.greeting": "Hello,",
+  "category.subtitle": "Select the technology you'd like to be interviewed on",
+  "category.language": "Interview language",
+  "category.loadFailed": "Failed to load the categories.",
+  "category.empty": "No categories are available yet.",
+
+  // Interview room
+  "room.preparing": "Preparing your interview...",
+  "room.savingTitle": "Saving Your Interview",
+  "room.savingDescription": "Please keep this tab open. Interrupted uploads resume automatically.",
+  "room.enableCameraTitle": "Enable Camera",
+  "room.enableCameraDescription":
+    "Please enable your camera and microphone to start the interview. The session will be recorded and we'll capture a few photos.",
+  "room.integrityNotice":
+    "The interview runs in fullscreen. Switching tabs, leaving the window or fullscreen, copying or pasting, and long silences are recorded for the recruiter.",
+  "room.enableCameraButton": "Enable Camera & Microphone",
+  "room.questionProgress": "Question {current} of {total}",
+  "room.inProgress": "In Progress",
+  "room.loadingQuestion": "Loading question...",
+  "room.loadQuestionsFailed": "Failed to load questions. Please try again.",
+  "room.questionsDegraded": "The AI service is unavailable, so a standard set of questions is being used.",
+  "room.mediaDenied": "Camera and microphone access denied. Please check browser permissions.",
+  "room.mediaRequired": "Please allow camera and microphone access to continue.",
+  "room.maxPhotos": "Maximum 3 photos already captured",
+  "room.photoCaptured": "Photo {count} captured!",
+  "room.speakFailed": "Couldn't play the question audio. Please read it on screen.",
+  "room.voicePreview": "Hello, I'll be your interviewer today.",
+  "room.sttUnsupported": "Speech recognition is not supported in your browser.",
+  "room.transcriptionFailed": "Failed to transcribe your answer.",
+  "room.saveAnswerFailed": "Failed to save your answer.",
+  "room.authRequired": "Authentication required to upload your recording",
+  "room.uploadsFailed": "Some files could not be saved. They will be retried the next time you open the app.",
+  "room.recordingFailed": "Failed to save the recording.",
+  "room.recordingLabel": "Interview recording",
+  "room.photoLabel": "Photo {number}",
+
+  // Question panel
+  "question.aiSpeaking": "AI is speaking...",
+  "question.typeAnswer": "Type your answer:",
+  "question.editTranscript": "Your Answer (you can correct the transcript):",
+  "question.answerPlaceholder": "Write your answer here...",
+  "question.yourAnswer": "Your Answer:",
+  "question.listening": "Listening... Speak your answer",
+  "question.transcribing": "Transcribing your answer...",
+  "question.thinking": "Considering a follow-up...",
+  "question.followUp": "Follow-up question",
+  "question.speakMode": "Speak",
+  "question.typeMode": "Type",
+  "question.speakModeLabel": "Answer by speaking",
+  "question.typeModeLabel": "Answer by typing",
+  "question.listen": "Listen to Question",
+  "question.startSpeaking": "Start Speaking",
+  "question.stopRecording": "Stop Recording",
+  "question.next": "Next",
+  "question.finish": "Finish",
+
+  // Voice settings
+  "voice.settings": "Voice settings",
+  "voice.interviewerVoice": "Interviewer voice",
+  "voice.defaultVoice": "Default voice",
+  "voice.speed": "Speed",
+  "voice.pitch": "Pitch",
+  "voice.preview": "Preview",
+
+  // Results
+  "results.analyzingTitle": "Analyzing Your Interview",
+  "results.analyzingDescription": "Our AI is reviewing your responses...",
+  "results.analyzeFailed": "Failed to analyze interview.",
+  "results.completeTitle": "Interview Complete!",
+  "results.completeSubtitle": "Here's your performance analysis,",
+  "results.startNew": "Start New Interview",
+  "results.degradedTitle": "We couldn't analyze your interview",
+  "results.degradedDescription":
+    "The AI service didn't return a valid analysis, so no score was given. Your answers and recording are saved; please try again in a moment.",
+  "results.retryAnalysis": "Try Again",
+
+  // Report
+  "report.overallScore": "Overall Score",
+  "report.analysis": "Performance Analysis",
+  "report.strengths": "Key Strengths",
+  "report.improvements": "Areas for Improvement",
+  "report.summary": "Interview Summary",
+  "report.typed": "Typed",
+  "report.spoken": "Spoken",
+  "report.spokenEdited": "Spoken · edited",
+  "report.noResponse": "(No response provided)",
+  "report.followUp": "Follow-up to Q{number}",
+  "report.download": "Download report",
+  "report.downloadFailed": "Failed to create the report.",
+  "report.pdfTitle": "Interview report",
+  "report.photos": "Captured photos",
+  "report.pageOf": "Page {page} of {total}",
+  "rubric.score": "Score",
+  "rubric.correctness": "Correctness",
+  "rubric.depth": "Depth",
+  "rubric.communication": "Communication",
+  "rubric.modelAnswer": "A strong answer would cover",
+  "rubric.missedPoints": "Missed key points",
+  "recommendation.hire": "Recommended to Hire",
+  "recommendation.consider": "Consider for Role",
+  "recommendation.notRecommended": "Needs Improvement",
+  "status.pending": "Pending",
+  "status.inProgress": "In Progress",
+  "status.completed": "Completed",
+
+  // Recording player
+  "recording.title": "Interview Recording",
+  "recording.unavailable": "The recording is not available.",
+  "recording.chapters": "Chapters",
+  "recording.download": "Download Recording",
+  "recording.downloadFailed": "Failed to download the recording.",
+
+  // Uploads
+  "upload.queued": "Waiting",
+  "upload.uploading": "Uploading",
+  "upload.retrying": "Connection lost, retrying",
+  "upload.completed": "Saved",
+  "upload.failed": "Failed",
+  "upload.retry": "Retry",
+
+  // History
+  "history.title": "Interview History",
+  "history.subtitle": "Revisit your past sessions and their analysis",
+  "history.category": "Category",
+  "history.allCategories": "All categories",
+  "history.status": "Status",
+  "history.allStatuses": "All statuses",
+  "history.recommendation": "Recommendation",
+  "history.allRecommendations": "All recommendations",
+  "history.date": "Date",
+  "history.score": "Score",
+  "history.loadFailed": "Failed to load your interviews. Please try again.",
+  "history.empty": "No interviews found.",
+  "history.page": "Page {page} of {total}",
+  "history.previous": "Previous",
+  "history.next": "Next",
+
+  // Interview detail
+  "detail.loadFailed": "Failed to load this interview.",
+  "detail.notFound": "Interview not found.",
+  "detail.backToHistory": "Back to History",
+  "detail.notAnalyzed": "This session has not been analyzed yet.",
+  "detail.imported": "Imported from a file on {date}. Its results weren't produced by this app, so it can't be shared.",
+
+  // Question bank
+  "bank.title": "Question Bank",
+  "bank.subtitle": "Vetted questions drawn into interviews before AI-generated ones top them up",
+  "bank.add": "Add Question",
+  "bank.edit": "Edit Question",
+  "bank.question": "Question",
+  "bank.referenceAnswer": "Reference answer",
+  "bank.referenceAnswerPlaceholder": "What a strong answer covers; given to the AI when it analyzes the interview",
+  "bank.category": "Category",
+  "bank.allCategories": "All categories",
+  "bank.difficulty": "Difficulty",
+  "bank.easy": "Easy",
+  "bank.medium": "Medium",
+  "bank.hard": "Hard",
+  "bank.tags": "Tags",
+  "bank.tagsPlaceholder": "collections, generics",
+  "bank.active": "Use in interviews",
+  "bank.inactive": "Inactive",
+  "bank.textRequired": "Please enter the question",
+  "bank.empty": "No questions in the bank yet.",
+  "bank.loadFailed": "Failed to load the question bank.",
+  "bank.saved": "Question saved",
+  "bank.saveFailed": "Failed to save the question.",
+  "bank.deleted": "Question deleted",
+  "bank.deleteFailed": "Failed to delete the question.",
+  "bank.deleteTitle": "Delete this question?",
+  "bank.deleteDescription": "It will no longer be asked in new interviews. Past interviews keep their questions.",
+
+  // Categories
+  "categories.title": "Categories",
+  "categories.subtitle": "The technologies candidates can pick, and the context the AI gets for each",
+  "categories.add": "Add Category",
+  "categories.edit": "Edit Category",
+  "categories.slug": "Slug",
+  "categories.slugHint": "Lowercase letters, digits and hyphens. It can't be changed later.",
+  "categories.slugInvalid": "Use lowercase letters, digits and single hyphens",
+  "categories.slugTaken": "A category with this slug already exists",
+  "categories.name": "Name",
+  "categories.nameRequired": "Please enter a name",
+  "categories.description": "Description",
+  "categories.icon": "Icon",
+  "categories.color": "Color",
+  "categories.promptContext": "Prompt context",
+  "categories.promptContextPlaceholder": "Extra guidance for the AI, e.g. the versions or frameworks to focus on",
+  "categories.enabled": "Available to candidates",
+  "categories.disabled": "Disabled",
+  "categories.empty": "No categories yet.",
+  "categories.loadFailed": "Failed to load the categories.",
+  "categories.saved": "Category saved",
+  "categories.saveFailed": "Failed to save the category.",
+
+  // Recruiter dashboard
+  "dashboard.title": "Candidate Interviews",
+  "dashboard.subtitle": "Interviews taken by candidates in your organization",
+  "dashboard.candidate": "Candidate",
+  "dashboard.link": "Link",
+  "dashboard.hireOnly": "Hire only",
+  "dashboard.minScore": "Score ≥ {score}",
+  "dashboard.lastDays": "Last {days} days",
+  "dashboard.interviews": "Interviews",
+  "dashboard.averageScore": "Average score",
+  "dashboard.hireRate": "Recommended to hire",
+  "dashboard.scoreDistribution": "Score distribution",
+  "dashboard.selected": "{count} selected",
+  "dashboard.selectAll": "Select all on this page",
+  "dashboard.selectRow": "Select {name}",
+  "dashboard.exportCsv": "Export CSV",
+  "dashboard.copyLinks": "Copy links",
+  "dashboard.linksCopied": "Links copied",
+  "dashboard.copyFailed": "Failed to copy the links.",
+  "dashboard.clearSelection": "Clear selection",
+  "dashboard.empty": "No interviews match these filters.",
+  "dashboard.loadFailed": "Failed to load the interviews. Please try again.",
+  "dashboard.invites": "Invites",
+  "dashboard.webhooks": "Webhooks",
+
+  // Invites
+  "invites.title": "Invites",
+  "invites.subtitle": "Links that start a pre-configured interview for a candidate",
+  "invites.add": "New Invite",
+  "invites.label": "Label",
+  "invites.labelPlaceholder": "Backend role – Jane Doe",
+  "invites.labelRequired": "Please enter a label",
+  "invites.organization": "Organization",
+  "invites.organizationRequired": "Please choose an organization",
+  "invites.noOrganizations": "You're not a member of any organization yet.",
+  "invites.questions": "Questions",
+  "invites.questionsPlaceholder": "One question per line. Leave empty to use the question bank and generated questions.",
+  "invites.tooManyQuestions": "An invite can have at most {max} questions",
+  "invites.generated": "Generated",
+  "invites.deadline": "Deadline",
+  "invites.noDeadline": "No deadline",
+  "invites.maxAttempts": "Max attempts",
+  "invites.attempts": "Attempts",
+  "invites.expired": "Expired",
+  "invites.copyLink": "Copy link",
+  "invites.linkCopied": "Invite link copied",
+  "invites.copyFailed": "Failed to copy the link.",
+  "invites.empty": "No invites yet.",
+  "invites.loadFailed": "Failed to load the invites.",
+  "invites.saved": "Invite created",
+  "invites.saveFailed": "Failed to create the invite.",
+  "invites.deleted": "Invite deleted",
+  "invites.deleteFailed": "Failed to delete the invite.",
+  "invites.deleteTitle": "Delete this invite?",
+  "invites.deleteDescription": "The link stops working. Interviews already started from it are kept.",
+
+  // Invite landing
+  "invite.title": "You're invited to an interview",
+  "invite.from": "{organization} invited you to a {category} interview.",
+  "invite.questions": "Questions",
+  "invite.questionCount": "{count} set by the recruiter",
+  "invite.generatedQuestions": "Tailored to the role",
+  "invite.deadline": "Deadline",
+  "invite.noDeadline": "None",
+  "invite.attemptsLeft": "Attempts left",
+  "invite.start": "Start interview",
+  "invite.notFound": "This invite link is not valid.",
+  "invite.expired": "This invite has expired.",
+  "invite.usedUp": "All attempts for this invite have been used.",
+  "invite.startFailed": "Failed to start the interview. Please try again.",
+  "invite.loadFailed": "Failed to load the invite. Please try again.",
+
+  // Review
+  "review.title": "Reviewer assessment",
+  "review.subtitle": "Your own verdict, kept next to the AI analysis. Only your hiring team sees it.",
+  "review.aiVerdict": "AI verdict",
+  "review.yourDecision": "Your decision",
+  "review.noDecision": "No decision yet",
+  "review.notAnalyzed": "Not analyzed yet",
+  "review.decisionDiffers": "Your decision differs from the AI's recommendation.",
+  "review.questions": "Per-question ratings",
+  "review.aiScore": "AI",
+  "review.yourRating": "Your rating",
+  "review.differs": "Differs from the AI",
+  "review.notePlaceholder": "Note on this answer (optional)",
+  "review.notes": "Notes",
+  "review.notesPlaceholder": "Anything the hiring team should know",
+  "review.lastSaved": "Last saved {date}",
+  "review.saved": "Review saved.",
+  "review.saveFailed": "Failed to save the review.",
+  "review.loadFailed": "Failed to load the review.",
+
+  // Share links
+  "share.button": "Share",
+  "share.title": "Share results",
+  "share.description": "Anyone with the link can view these results without an account, until it expires or you revoke it.",
+  "share.expiresIn": "Expires after",
+  "share.oneDay": "1 day",
+  "share.days": "{count} days",
+  "share.includeMedia": "Include recording and photos",
+  "share.create": "Create link",
+  "share.created": "Link created and copied to the clipboard.",
+  "share.yourLinks": "Your links",
+  "share.empty": "You haven't shared this interview yet.",
+  "share.loadFailed": "Failed to load your share links.",
+  "share.statusActive": "Active until {date}",
+  "share.statusExpired": "Expired",
+  "share.statusRevoked": "Revoked",
+  "share.withMedia": "With recording and photos",
+  "share.copy": "Copy link",
+  "share.linkCopied": "Link copied to the clipboard.",
+  "share.copyFailed": "Failed to copy the link.",
+  "share.createFailed": "Failed to create the share link.",
+  "share.revoke": "Revoke",
+  "share.revoked": "Link revoked.",
+  "share.revokeFailed": "Failed to revoke the link.",
+
+  // Shared results
+  "shared.readOnly": "Read-only view · link expires {date}",
+  "shared.notFound": "This share link is not valid.",
+  "shared.unavailable": "This share link has expired or was revoked.",
+  "shared.loadFailed": "Failed to load the shared results. Please try again.",
+
+  // Export and import
+  "transfer.export": "Export",
+  "transfer.exportJson": "JSON (full data, can be imported)",
+  "transfer.exportCsv": "CSV (one row per answer)",
+  "transfer.exportFailed": "Failed to export interviews.",
+  "transfer.nothingToExport": "There are no interviews to export.",
+  "transfer.import": "Import",
+  "transfer.imported": "Imported {imported} interviews, skipped {skipped} already present.",
+  "transfer.importFailed": "Failed to import interviews.",
+  "transfer.invalidFile": "This file isn't a valid interview export.",
+  "transfer.unsupportedVersion": "This export was made by a newer version of the app.",
+  "transfer.tooLarge": "This file has too many interviews to import at once.",
+
+  // Webhooks
+  "webhooks.title": "Webhooks",
+  "webhooks.subtitle": "Notify your ATS when interviews are created, completed, analyzed or reviewed",
+  "webhooks.add": "New Webhook",
+  "webhooks.edit": "Edit webhook",
+  "webhooks.url": "Endpoint URL",
+  "webhooks.urlInvalid": "Please enter an http(s) URL",
+  "webhooks.events": "Events",
+  "webhooks.eventsRequired": "Please choose at least one event",
+  "webhooks.enabled": "Enabled",
+  "webhooks.disabled": "Disabled",
+  "webhooks.sendTest": "Send test event",
+  "webhooks.testSucceeded": "Test event delivered (HTTP {status})",
+  "webhooks.testFailed": "Test event failed: {error}",
+  "webhooks.testError": "Failed to send the test event.",
+  "webhooks.copySecret": "Copy signing secret",
+  "webhooks.secretCopied": "Signing secret copied",
+  "webhooks.empty": "No webhooks yet.",
+  "webhooks.loadFailed": "Failed to load the webhooks.",
+  "webhooks.saved": "Webhook saved",
+  "webhooks.saveFailed": "Failed to save the webhook.",
+  "webhooks.deleted": "Webhook deleted",
+  "webhooks.deleteFailed": "Failed to delete the webhook.",
+  "webhooks.deleteTitle": "Delete this webhook?",
+  "webhooks.deleteDescription": "No more events are sent to this URL and its delivery log is removed.",
+  "webhooks.deliveries": "Delivery log",
+  "webhooks.deliveriesHint": "Failed deliveries are retried with increasing delays for about two hours.",
+  "webhooks.deliveriesEmpty": "No deliveries yet.",
+  "webhooks.deliveriesLoadFailed": "Failed to load the delivery log.",
+  "webhooks.event": "Event",
+  "webhooks.status": "Status",
+  "webhooks.attempts": "Attempts",
+  "webhooks.response": "Response",
+  "webhooks.createdAt": "Created",
+  "webhooks.succeeded": "Delivered",
+  "webhooks.pending": "Pending",
+  "webhooks.failed": "Failed",
+  "webhooks.nextAttempt": "Next attempt at {date}",
+
+  // Integrity
+  "integrity.title": "Integrity",
+  "integrity.summary": "{count} signals recorded during the interview. They are worth a look, not proof of cheating.",
+  "integrity.none": "No integrity signals were recorded.",
+  "integrity.tabHidden": "Tab switched",
+  "integrity.focusLost": "Window left",
+  "integrity.fullscreenExit": "Fullscreen exited",
+  "integrity.copy": "Copied text",
+  "integrity.paste": "Pasted text",
+  "integrity.longSilence": "Long silence",
+  "integrity.duration": "{seconds}s",
+  "integrity.chars": "{count} characters",
+
+  // 404
+  "notFound.message": "Oops! Page not found",
+  "notFound.home": "Return to Home",
+};
+
+export type MessageKey = keyof typeof en;
+export type Messages = Record<MessageKey, string>;
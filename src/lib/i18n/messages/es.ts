@@ -0,0 +1,443 @@
+import type { Messages } from "@/lib/i18n/messages/en";
+
+export const es: Messages = {
+  // Shared
+  "common.back": "Volver",
+  "common.language": "Idioma",
+  "common.interviewTitle": "Entrevista de {category}",
+  "common.cancel": "Cancelar",
+  "common.save": "Guardar",
+  "common.edit": "Editar",
+  "common.delete": "Eliminar",
+
+  // Welcome
+  "welcome.titleAccent": "Asistente de",
+  "welcome.titleRest": "entrevistas con IA",
+  "welcome.subtitle": "Descubre el futuro de las entrevistas técnicas con nuestra plataforma impulsada por IA",
+  "welcome.namePlaceholder": "Introduce tu nombre completo",
+  "welcome.start": "Comenzar entrevista",
+  "welcome.featureVoice": "Por voz",
+  "welcome.featureAi": "Con IA",
+  "welcome.featureRealtime": "Análisis en tiempo real",
+
+  // Auth
+  "auth.brand": "Entrevistador IA",
+  "auth.signInPrompt": "¡Bienvenido de nuevo! Inicia sesión para continuar.",
+  "auth.signUpPrompt": "Crea una cuenta para empezar.",
+  "auth.fullName": "Nombre completo",
+  "auth.fullNamePlaceholder": "Juan Pérez",
+  "auth.email": "Correo electrónico",
+  "auth.password": "Contraseña",
+  "auth.signIn": "Iniciar sesión",
+  "auth.createAccount": "Crear cuenta",
+  "auth.noAccount": "¿No tienes una cuenta?",
+  "auth.signUpLink": "Regístrate",
+  "auth.haveAccount": "¿Ya tienes una cuenta?",
+  "auth.signInLink": "Inicia sesión",
+  "auth.invalidEmail": "Introduce un correo electrónico válido",
+  "auth.passwordTooShort": "La contraseña debe tener al menos 6 caracteres",
+  "auth.fullNameRequired": "Introduce tu nombre completo",
+  "auth.invalidCredentials": "Correo o contraseña incorrectos. Inténtalo de nuevo.",
+  "auth.emailNotConfirmed": "Verifica tu correo electrónico antes de iniciar sesión.",
+  "auth.welcomeBack": "¡Bienvenido de nuevo!",
+  "auth.alreadyRegistered": "Este correo ya está registrado. Inicia sesión.",
+  "auth.accountCreated": "¡Cuenta creada! Revisa tu correo para verificar tu cuenta.",
+  "auth.unexpectedError": "Se produjo un error inesperado. Inténtalo de nuevo.",
+
+  // Home
+  "index.history": "Historial de entrevistas",
+  "index.signOut": "Cerrar sesión",
+  "index.savingRecordings": "Guardando grabaciones",
+  "index.startFailed": "No se pudo iniciar la entrevista. Inténtalo de nuevo.",
+  "index.questionBank": "Banco de preguntas",
+  "index.categories": "Categorías",
+  "index.dashboard": "Entrevistas de candidatos",
+
+  // Category selection
+  "category.greeting": "Hola,",
+  "category.subtitle": "Selecciona la tecnología sobre la que quieres ser entrevistado",
+  "category.language": "Idioma de la entrevista",
+  "category.loadFailed": "No se pudieron cargar las categorías.",
+  "category.empty": "Aún no hay categorías disponibles.",
+
+  // Interview room
+  "room.preparing": "Preparando tu entrevista...",
+  "room.savingTitle": "Guardando tu entrevista",
+  "room.savingDescription": "Mantén esta pestaña abierta. Las subidas interrumpidas se reanudan automáticamente.",
+  "room.enableCameraTitle": "Activa la cámara",
+  "room.enableCameraDescription":
+    "Activa la cámara y el micrófono para comenzar la entrevista. La sesión se grabará y tomaremos algunas fotos.",
+  "room.integrityNotice":
+    "La entrevista se realiza en pantalla completa. Se registran para el reclutador los cambios de pestaña, salir de la ventana o de la pantalla completa, copiar o pegar y los silencios largos.",
+  "room.enableCameraButton": "Activar cámara y micrófono",
+  "room.questionProgress": "Pregunta {current} de {total}",
+  "room.inProgress": "En curso",
+  "room.loadingQuestion": "Cargando pregunta...",
+  "room.loadQuestionsFailed": "No se pudieron cargar las preguntas. Inténtalo de nuevo.",
+  "room.questionsDegraded": "El servicio de IA no está disponible, así que se usa un conjunto de preguntas estándar.",
+  "room.mediaDenied": "Acceso a la cámara y al micrófono denegado. Revisa los permisos del navegador.",
+  "room.mediaRequired": "Permite el acceso a la cámara y al micrófono para continuar.",
+  "room.maxPhotos": "Ya se han tomado las 3 fotos máximas",
+  "room.photoCaptured": "¡Foto {count} tomada!",
+  "room.speakFailed": "No se pudo reproducir el audio de la pregunta. Léela en pantalla.",
+  "room.voicePreview": "Hola, hoy seré tu entrevistador.",
+  "room.sttUnsupported": "Tu navegador no admite el reconocimiento de voz.",
+  "room.transcriptionFailed": "No se pudo transcribir tu respuesta.",
+  "room.saveAnswerFailed": "No se pudo guardar tu respuesta.",
+  "room.authRequired": "Debes iniciar sesión para subir tu grabación",
+  "room.uploadsFailed": "Algunos archivos no se pudieron guardar. Se reintentará la próxima vez que abras la aplicación.",
+  "room.recordingFailed": "No se pudo guardar la grabación.",
+  "room.recordingLabel": "Grabación de la entrevista",
+  "room.photoLabel": "Foto {number}",
+
+  // Question panel
+  "question.aiSpeaking": "La IA está hablando...",
+  "question.typeAnswer": "Escribe tu respuesta:",
+  "question.editTranscript": "Tu respuesta (puedes corregir la transcripción):",
+  "question.answerPlaceholder": "Escribe aquí tu respuesta...",
+  "question.yourAnswer": "Tu respuesta:",
+  "question.listening": "Escuchando... Di tu respuesta",
+  "question.transcribing": "Transcribiendo tu respuesta...",
+  "question.thinking": "Valorando una pregunta de seguimiento...",
+  "question.followUp": "Pregunta de seguimiento",
+  "question.speakMode": "Hablar",
+  "question.typeMode": "Escribir",
+  "question.speakModeLabel": "Responder hablando",
+  "question.typeModeLabel": "Responder escribiendo",
+  "question.listen": "Escuchar pregunta",
+  "question.startSpeaking": "Empezar a hablar",
+  "question.stopRecording": "Detener grabación",
+  "question.next": "Siguiente",
+  "question.finish": "Finalizar",
+
+  // Voice settings
+  "voice.settings": "Ajustes de voz",
+  "voice.interviewerVoice": "Voz del entrevistador",
+  "voice.defaultVoice": "Voz predeterminada",
+  "voice.speed": "Velocidad",
+  "voice.pitch": "Tono",
+  "voice.preview": "Escuchar",
+
+  // Results
+  "results.analyzingTitle": "Analizando tu entrevista",
+  "results.analyzingDescription": "Nuestra IA está revisando tus respuestas...",
+  "results.analyzeFailed": "No se pudo analizar la entrevista.",
+  "results.completeTitle": "¡Entrevista completada!",
+  "results.completeSubtitle": "Este es el análisis de tu desempeño,",
+  "results.startNew": "Nueva entrevista",
+  "results.degradedTitle": "No pudimos analizar tu entrevista",
+  "results.degradedDescription":
+    "El servicio de IA no devolvió un análisis válido, por lo que no se asignó ninguna puntuación. Tus respuestas y la grabación están guardadas; inténtalo de nuevo en un momento.",
+  "results.retryAnalysis": "Reintentar",
+
+  // Report
+  "report.overallScore": "Puntuación global",
+  "report.analysis": "Análisis del desempeño",
+  "report.strengths": "Puntos fuertes",
+  "report.improvements": "Áreas de mejora",
+  "report.summary": "Resumen de la entrevista",
+  "report.typed": "Escrita",
+  "report.spoken": "Hablada",
+  "report.spokenEdited": "Hablada · editada",
+  "report.noResponse": "(Sin respuesta)",
+  "report.followUp": "Seguimiento de P{number}",
+  "report.download": "Descargar informe",
+  "report.downloadFailed": "No se pudo crear el informe.",
+  "report.pdfTitle": "Informe de entrevista",
+  "report.photos": "Fotos capturadas",
+  "report.pageOf": "Página {page} de {total}",
+  "rubric.score": "Puntuación",
+  "rubric.correctness": "Corrección",
+  "rubric.depth": "Profundidad",
+  "rubric.communication": "Comunicación",
+  "rubric.modelAnswer": "Una buena respuesta incluiría",
+  "rubric.missedPoints": "Puntos clave omitidos",
+  "recommendation.hire": "Recomendado para contratar",
+  "recommendation.consider": "A considerar para el puesto",
+  "recommendation.notRecommended": "Necesita mejorar",
+  "status.pending": "Pendiente",
+  "status.inProgress": "En curso",
+  "status.completed": "Completada",
+
+  // Recording player
+  "recording.title": "Grabación de la entrevista",
+  "recording.unavailable": "La grabación no está disponible.",
+  "recording.chapters": "Capítulos",
+  "recording.download": "Descargar grabación",
+  "recording.downloadFailed": "No se pudo descargar la grabación.",
+
+  // Uploads
+  "upload.queued": "En espera",
+  "upload.uploading": "Subiendo",
+  "upload.retrying": "Conexión perdida, reintentando",
+  "upload.completed": "Guardado",
+  "upload.failed": "Error",
+  "upload.retry": "Reintentar",
+
+  // History
+  "history.title": "Historial de entrevistas",
+  "history.subtitle": "Revisa tus sesiones anteriores y su análisis",
+  "history.category": "Categoría",
+  "history.allCategories": "Todas las categorías",
+  "history.status": "Estado",
+  "history.allStatuses": "Todos los estados",
+  "history.recommendation": "Recomendación",
+  "history.allRecommendations": "Todas las recomendaciones",
+  "history.date": "Fecha",
+  "history.score": "Puntuación",
+  "history.loadFailed": "No se pudieron cargar tus entrevistas. Inténtalo de nuevo.",
+  "history.empty": "No se encontraron entrevistas.",
+  "history.page": "Página {page} de {total}",
+  "history.previous": "Anterior",
+  "history.next": "Siguiente",
+
+  // Interview detail
+  "detail.loadFailed": "No se pudo cargar esta entrevista.",
+  "detail.notFound": "Entrevista no encontrada.",
+  "detail.backToHistory": "Volver al historial",
+  "detail.notAnalyzed": "Esta sesión aún no se ha analizado.",
+  "detail.imported": "Importada desde un archivo el {date}. Sus resultados no los generó esta aplicación, por lo que no se puede compartir.",
+
+  // Question bank
+  "bank.title": "Banco de preguntas",
+  "bank.subtitle": "Preguntas revisadas que se incluyen en las entrevistas antes de completarlas con preguntas generadas por IA",
+  "bank.add": "Añadir pregunta",
+  "bank.edit": "Editar pregunta",
+  "bank.question": "Pregunta",
+  "bank.referenceAnswer": "Respuesta de referencia",
+  "bank.referenceAnswerPlaceholder": "Lo que cubre una buena respuesta; se entrega a la IA al analizar la entrevista",
+  "bank.category": "Categoría",
+  "bank.allCategories": "Todas las categorías",
+  "bank.difficulty": "Dificultad",
+  "bank.easy": "Fácil",
+  "bank.medium": "Media",
+  "bank.hard": "Difícil",
+  "bank.tags": "Etiquetas",
+  "bank.tagsPlaceholder": "colecciones, genéricos",
+  "bank.active": "Usar en entrevistas",
+  "bank.inactive": "Inactiva",
+  "bank.textRequired": "Introduce la pregunta",
+  "bank.empty": "Todavía no hay preguntas en el banco.",
+  "bank.loadFailed": "No se pudo cargar el banco de preguntas.",
+  "bank.saved": "Pregunta guardada",
+  "bank.saveFailed": "No se pudo guardar la pregunta.",
+  "bank.deleted": "Pregunta eliminada",
+  "bank.deleteFailed": "No se pudo eliminar la pregunta.",
+  "bank.deleteTitle": "¿Eliminar esta pregunta?",
+  "bank.deleteDescription": "Ya no se hará en nuevas entrevistas. Las entrevistas anteriores conservan sus preguntas.",
+
+  // Categories
+  "categories.title": "Categorías",
+  "categories.subtitle": "Las tecnologías que pueden elegir los candidatos y el contexto que recibe la IA para cada una",
+  "categories.add": "Añadir categoría",
+  "categories.edit": "Editar categoría",
+  "categories.slug": "Identificador",
+  "categories.slugHint": "Minúsculas, dígitos y guiones. No se puede cambiar después.",
+  "categories.slugInvalid": "Usa minúsculas, dígitos y guiones simples",
+  "categories.slugTaken": "Ya existe una categoría con este identificador",
+  "categories.name": "Nombre",
+  "categories.nameRequired": "Introduce un nombre",
+  "categories.description": "Descripción",
+  "categories.icon": "Icono",
+  "categories.color": "Color",
+  "categories.promptContext": "Contexto para la IA",
+  "categories.promptContextPlaceholder": "Indicaciones adicionales para la IA, p. ej. las versiones o frameworks en los que centrarse",
+  "categories.enabled": "Disponible para los candidatos",
+  "categories.disabled": "Desactivada",
+  "categories.empty": "Todavía no hay categorías.",
+  "categories.loadFailed": "No se pudieron cargar las categorías.",
+  "categories.saved": "Categoría guardada",
+  "categories.saveFailed": "No se pudo guardar la categoría.",
+
+  // Recruiter dashboard
+  "dashboard.title": "Entrevistas de candidatos",
+  "dashboard.subtitle": "Entrevistas realizadas por los candidatos de tu organización",
+  "dashboard.candidate": "Candidato",
+  "dashboard.link": "Enlace",
+  "dashboard.hireOnly": "Solo contratar",
+  "dashboard.minScore": "Puntuación ≥ {score}",
+  "dashboard.lastDays": "Últimos {days} días",
+  "dashboard.interviews": "Entrevistas",
+  "dashboard.averageScore": "Puntuación media",
+  "dashboard.hireRate": "Recomendados para contratar",
+  "dashboard.scoreDistribution": "Distribución de puntuaciones",
+  "dashboard.selected": "{count} seleccionadas",
+  "dashboard.selectAll": "Seleccionar todas en esta página",
+  "dashboard.selectRow": "Seleccionar {name}",
+  "dashboard.exportCsv": "Exportar CSV",
+  "dashboard.copyLinks": "Copiar enlaces",
+  "dashboard.linksCopied": "Enlaces copiados",
+  "dashboard.copyFailed": "No se pudieron copiar los enlaces.",
+  "dashboard.clearSelection": "Borrar selección",
+  "dashboard.empty": "Ninguna entrevista coincide con estos filtros.",
+  "dashboard.loadFailed": "No se pudieron cargar las entrevistas. Inténtalo de nuevo.",
+  "dashboard.invites": "Invitaciones",
+  "dashboard.webhooks": "Webhooks",
+
+  // Invites
+  "invites.title": "Invitaciones",
+  "invites.subtitle": "Enlaces que inician una entrevista preconfigurada para un candidato",
+  "invites.add": "Nueva invitación",
+  "invites.label": "Etiqueta",
+  "invites.labelPlaceholder": "Puesto backend – Ana García",
+  "invites.labelRequired": "Introduce una etiqueta",
+  "invites.organization": "Organización",
+  "invites.organizationRequired": "Elige una organización",
+  "invites.noOrganizations": "Todavía no perteneces a ninguna organización.",
+  "invites.questions": "Preguntas",
+  "invites.questionsPlaceholder": "Una pregunta por línea. Déjalo vacío para usar el banco de preguntas y preguntas generadas.",
+  "invites.tooManyQuestions": "Una invitación puede tener como máximo {max} preguntas",
+  "invites.generated": "Generadas",
+  "invites.deadline": "Fecha límite",
+  "invites.noDeadline": "Sin fecha límite",
+  "invites.maxAttempts": "Intentos máximos",
+  "invites.attempts": "Intentos",
+  "invites.expired": "Caducada",
+  "invites.copyLink": "Copiar enlace",
+  "invites.linkCopied": "Enlace de invitación copiado",
+  "invites.copyFailed": "No se pudo copiar el enlace.",
+  "invites.empty": "Todavía no hay invitaciones.",
+  "invites.loadFailed": "No se pudieron cargar las invitaciones.",
+  "invites.saved": "Invitación creada",
+  "invites.saveFailed": "No se pudo crear la invitación.",
+  "invites.deleted": "Invitación eliminada",
+  "invites.deleteFailed": "No se pudo eliminar la invitación.",
+  "invites.deleteTitle": "¿Eliminar esta invitación?",
+  "invites.deleteDescription": "El enlace dejará de funcionar. Las entrevistas ya iniciadas con él se conservan.",
+
+  // Invite landing
+  "invite.title": "Te han invitado a una entrevista",
+  "invite.from": "{organization} te ha invitado a una entrevista de {category}.",
+  "invite.questions": "Preguntas",
+  "invite.questionCount": "{count} elegidas por el reclutador",
+  "invite.generatedQuestions": "Adaptadas al puesto",
+  "invite.deadline": "Fecha límite",
+  "invite.noDeadline": "Ninguna",
+  "invite.attemptsLeft": "Intentos restantes",
+  "invite.start": "Comenzar entrevista",
+  "invite.notFound": "Este enlace de invitación no es válido.",
+  "invite.expired": "Esta invitación ha caducado.",
+  "invite.usedUp": "Ya se han usado todos los intentos de esta invitación.",
+  "invite.startFailed": "No se pudo iniciar la entrevista. Inténtalo de nuevo.",
+  "invite.loadFailed": "No se pudo cargar la invitación. Inténtalo de nuevo.",
+
+  // Review
+  "review.title": "Evaluación del revisor",
+  "review.subtitle": "Tu propio veredicto, junto al análisis de la IA. Solo lo ve tu equipo de contratación.",
+  "review.aiVerdict": "Veredicto de la IA",
+  "review.yourDecision": "Tu decisión",
+  "review.noDecision": "Aún sin decisión",
+  "review.notAnalyzed": "Aún sin analizar",
+  "review.decisionDiffers": "Tu decisión difiere de la recomendación de la IA.",
+  "review.questions": "Valoración por pregunta",
+  "review.aiScore": "IA",
+  "review.yourRating": "Tu valoración",
+  "review.differs": "Difiere de la IA",
+  "review.notePlaceholder": "Nota sobre esta respuesta (opcional)",
+  "review.notes": "Notas",
+  "review.notesPlaceholder": "Lo que el equipo de contratación debería saber",
+  "review.lastSaved": "Guardado por última vez {date}",
+  "review.saved": "Revisión guardada.",
+  "review.saveFailed": "No se pudo guardar la revisión.",
+  "review.loadFailed": "No se pudo cargar la revisión.",
+
+  // Share links
+  "share.button": "Compartir",
+  "share.title": "Compartir resultados",
+  "share.description": "Cualquiera con el enlace puede ver estos resultados sin cuenta, hasta que caduque o lo revoques.",
+  "share.expiresIn": "Caduca tras",
+  "share.oneDay": "1 día",
+  "share.days": "{count} días",
+  "share.includeMedia": "Incluir grabación y fotos",
+  "share.create": "Crear enlace",
+  "share.created": "Enlace creado y copiado al portapapeles.",
+  "share.yourLinks": "Tus enlaces",
+  "share.empty": "Aún no has compartido esta entrevista.",
+  "share.loadFailed": "No se pudieron cargar tus enlaces.",
+  "share.statusActive": "Activo hasta {date}",
+  "share.statusExpired": "Caducado",
+  "share.statusRevoked": "Revocado",
+  "share.withMedia": "Con grabación y fotos",
+  "share.copy": "Copiar enlace",
+  "share.linkCopied": "Enlace copiado al portapapeles.",
+  "share.copyFailed": "No se pudo copiar el enlace.",
+  "share.createFailed": "No se pudo crear el enlace.",
+  "share.revoke": "Revocar",
+  "share.revoked": "Enlace revocado.",
+  "share.revokeFailed": "No se pudo revocar el enlace.",
+
+  // Shared results
+  "shared.readOnly": "Vista de solo lectura · el enlace caduca el {date}",
+  "shared.notFound": "Este enlace no es válido.",
+  "shared.unavailable": "Este enlace ha caducado o fue revocado.",
+  "shared.loadFailed": "No se pudieron cargar los resultados compartidos. Inténtalo de nuevo.",
+
+  // Export and import
+  "transfer.export": "Exportar",
+  "transfer.exportJson": "JSON (datos completos, se puede importar)",
+  "transfer.exportCsv": "CSV (una fila por respuesta)",
+  "transfer.exportFailed": "No se pudieron exportar las entrevistas.",
+  "transfer.nothingToExport": "No hay entrevistas para exportar.",
+  "transfer.import": "Importar",
+  "transfer.imported": "Se importaron {imported} entrevistas; se omitieron {skipped} que ya existían.",
+  "transfer.importFailed": "No se pudieron importar las entrevistas.",
+  "transfer.invalidFile": "Este archivo no es una exportación de entrevistas válida.",
+  "transfer.unsupportedVersion": "Esta exportación se hizo con una versión más reciente de la aplicación.",
+  "transfer.tooLarge": "Este archivo tiene demasiadas entrevistas para importarlas de una vez.",
+
+  // Webhooks
+  "webhooks.title": "Webhooks",
+  "webhooks.subtitle": "Avisa a tu ATS cuando las entrevistas se crean, completan, analizan o revisan",
+  "webhooks.add": "Nuevo webhook",
+  "webhooks.edit": "Editar webhook",
+  "webhooks.url": "URL del endpoint",
+  "webhooks.urlInvalid": "Introduce una URL http(s)",
+  "webhooks.events": "Eventos",
+  "webhooks.eventsRequired": "Elige al menos un evento",
+  "webhooks.enabled": "Activado",
+  "webhooks.disabled": "Desactivado",
+  "webhooks.sendTest": "Enviar evento de prueba",
+  "webhooks.testSucceeded": "Evento de prueba entregado (HTTP {status})",
+  "webhooks.testFailed": "El evento de prueba falló: {error}",
+  "webhooks.testError": "No se pudo enviar el evento de prueba.",
+  "webhooks.copySecret": "Copiar secreto de firma",
+  "webhooks.secretCopied": "Secreto de firma copiado",
+  "webhooks.empty": "Aún no hay webhooks.",
+  "webhooks.loadFailed": "No se pudieron cargar los webhooks.",
+  "webhooks.saved": "Webhook guardado",
+  "webhooks.saveFailed": "No se pudo guardar el webhook.",
+  "webhooks.deleted": "Webhook eliminado",
+  "webhooks.deleteFailed": "No se pudo eliminar el webhook.",
+  "webhooks.deleteTitle": "¿Eliminar este webhook?",
+  "webhooks.deleteDescription": "No se enviarán más eventos a esta URL y se borrará su registro de entregas.",
+  "webhooks.deliveries": "Registro de entregas",
+  "webhooks.deliveriesHint": "Las entregas fallidas se reintentan con esperas crecientes durante unas dos horas.",
+  "webhooks.deliveriesEmpty": "Aún no hay entregas.",
+  "webhooks.deliveriesLoadFailed": "No se pudo cargar el registro de entregas.",
+  "webhooks.event": "Evento",
+  "webhooks.status": "Estado",
+  "webhooks.attempts": "Intentos",
+  "webhooks.response": "Respuesta",
+  "webhooks.createdAt": "Creado",
+  "webhooks.succeeded": "Entregado",
+  "webhooks.pending": "Pendiente",
+  "webhooks.failed": "Fallido",
+  "webhooks.nextAttempt": "Próximo intento a las {date}",
+
+  // Integrity
+  "integrity.title": "Integridad",
+  "integrity.summary": "Se registraron {count} señales durante la entrevista. Merecen una revisión, pero no prueban que hubo trampa.",
+  "integrity.none": "No se registró ninguna señal de integridad.",
+  "integrity.tabHidden": "Cambio de pestaña",
+  "integrity.focusLost": "Salida de la ventana",
+  "integrity.fullscreenExit": "Salida de pantalla completa",
+  "integrity.copy": "Texto copiado",
+  "integrity.paste": "Texto pegado",
+  "integrity.longSilence": "Silencio largo",
+  "integrity.duration": "{seconds} s",
+  "integrity.chars": "{count} caracteres",
+
+  // 404
+  "notFound.message": "¡Vaya! Página no encontrada",
+  "notFound.home": "Volver al inicio",
+};
@@ -0,0 +1,443 @@
+import type { Messages } from "@/lib/i18n/messages/en";
+
+export const hi: Messages = {
+  // Shared
+  "common.back": "वापस",
+  "common.language": "भाषा",
+  "common.interviewTitle": "{category} इंटरव्यू",
+  "common.cancel": "रद्द करें",
+  "common.save": "सहेजें",
+  "common.edit": "संपादित करें",
+  "common.delete": "हटाएँ",
+
+  // Welcome
+  "welcome.titleAccent": "AI इंटरव्यू",
+  "welcome.titleRest": "सहायक",
+  "welcome.subtitle": "हमारे AI-संचालित प्लेटफ़ॉर्म के साथ तकनीकी इंटरव्यू के भविष्य का अनुभव करें",
+  "welcome.namePlaceholder": "अपना पूरा नाम दर्ज करें",
+  "welcome.start": "इंटरव्यू शुरू करें",
+  "welcome.featureVoice": "आवाज़-आधारित",
+  "welcome.featureAi": "AI-संचालित",
+  "welcome.featureRealtime": "रीयल-टाइम विश्लेषण",
+
+  // Auth
+  "auth.brand": "AI इंटरव्यूअर",
+  "auth.signInPrompt": "फिर से स्वागत है! जारी रखने के लिए साइन इन करें।",
+  "auth.signUpPrompt": "शुरू करने के लिए एक खाता बनाएँ।",
+  "auth.fullName": "पूरा नाम",
+  "auth.fullNamePlaceholder": "राहुल शर्मा",
+  "auth.email": "ईमेल",
+  "auth.password": "पासवर्ड",
+  "auth.signIn": "साइन इन करें",
+  "auth.createAccount": "खाता बनाएँ",
+  "auth.noAccount": "खाता नहीं है?",
+  "auth.signUpLink": "साइन अप करें",
+  "auth.haveAccount": "पहले से खाता है?",
+  "auth.signInLink": "साइन इन करें",
+  "auth.invalidEmail": "कृपया एक मान्य ईमेल पता दर्ज करें",
+  "auth.passwordTooShort": "पासवर्ड कम से कम 6 अक्षरों का होना चाहिए",
+  "auth.fullNameRequired": "कृपया अपना पूरा नाम दर्ज करें",
+  "auth.invalidCredentials": "ईमेल या पासवर्ड गलत है। कृपया फिर से प्रयास करें।",
+  "auth.emailNotConfirmed": "लॉग इन करने से पहले कृपया अपना ईमेल सत्यापित करें।",
+  "auth.welcomeBack": "फिर से स्वागत है!",
+  "auth.alreadyRegistered": "यह ईमेल पहले से पंजीकृत है। कृपया लॉग इन करें।",
+  "auth.accountCreated": "खाता बन गया! अपना खाता सत्यापित करने के लिए कृपया अपना ईमेल देखें।",
+  "auth.unexpectedError": "एक अनपेक्षित त्रुटि हुई। कृपया फिर से प्रयास करें।",
+
+  // Home
+  "index.history": "इंटरव्यू इतिहास",
+  "index.signOut": "साइन आउट",
+  "index.savingRecordings": "रिकॉर्डिंग सहेजी जा रही हैं",
+  "index.startFailed": "इंटरव्यू शुरू नहीं हो सका। कृपया फिर से प्रयास करें।",
+  "index.questionBank": "प्रश्न बैंक",
+  "index.categories": "श्रेणियाँ",
+  "index.dashboard": "उम्मीदवारों के इंटरव्यू",
+
+  // Category selection
+  "category.greeting": "नमस्ते,",
+  "category.subtitle": "वह तकनीक चुनें जिस पर आप इंटरव्यू देना चाहते हैं",
+  "category.language": "इंटरव्यू की भाषा",
+  "category.loadFailed": "श्रेणियाँ लोड नहीं हो सकीं।",
+  "category.empty": "अभी कोई श्रेणी उपलब्ध नहीं है।",
+
+  // Interview room
+  "room.preparing": "आपका इंटरव्यू तैयार किया जा रहा है...",
+  "room.savingTitle": "आपका इंटरव्यू सहेजा जा रहा है",
+  "room.savingDescription": "कृपया यह टैब खुला रखें। बाधित अपलोड अपने आप फिर से शुरू होंगे।",
+  "room.enableCameraTitle": "कैमरा चालू करें",
+  "room.enableCameraDescription":
+    "इंटरव्यू शुरू करने के लिए कृपया अपना कैमरा और माइक्रोफ़ोन चालू करें। सत्र रिकॉर्ड किया जाएगा और हम कुछ फ़ोटो लेंगे।",
+  "room.integrityNotice":
+    "इंटरव्यू फ़ुलस्क्रीन में चलता है। टैब बदलना, विंडो या फ़ुलस्क्रीन छोड़ना, कॉपी या पेस्ट करना और लंबी चुप्पी रिक्रूटर के लिए दर्ज की जाती है।",
+  "room.enableCameraButton": "कैमरा और माइक्रोफ़ोन चालू करें",
+  "room.questionProgress": "प्रश्न {current} / {total}",
+  "room.inProgress": "जारी है",
+  "room.loadingQuestion": "प्रश्न लोड हो रहा है...",
+  "room.loadQuestionsFailed": "प्रश्न लोड नहीं हो सके। कृपया फिर से प्रयास करें।",
+  "room.questionsDegraded": "AI सेवा उपलब्ध नहीं है, इसलिए मानक प्रश्नों का उपयोग किया जा रहा है।",
+  "room.mediaDenied": "कैमरा और माइक्रोफ़ोन की अनुमति नहीं मिली। कृपया ब्राउज़र अनुमतियाँ जाँचें।",
+  "room.mediaRequired": "जारी रखने के लिए कृपया कैमरा और माइक्रोफ़ोन की अनुमति दें।",
+  "room.maxPhotos": "अधिकतम 3 फ़ोटो पहले ही ली जा चुकी हैं",
+  "room.photoCaptured": "फ़ोटो {count} ली गई!",
+  "room.speakFailed": "प्रश्न का ऑडियो नहीं चल सका। कृपया इसे स्क्रीन पर पढ़ें।",
+  "room.voicePreview": "नमस्ते, आज मैं आपका इंटरव्यू लूँगा।",
+  "room.sttUnsupported": "आपका ब्राउज़र वाक् पहचान का समर्थन नहीं करता।",
+  "room.transcriptionFailed": "आपके उत्तर का ट्रांसक्रिप्शन नहीं हो सका।",
+  "room.saveAnswerFailed": "आपका उत्तर सहेजा नहीं जा सका।",
+  "room.authRequired": "रिकॉर्डिंग अपलोड करने के लिए लॉग इन आवश्यक है",
+  "room.uploadsFailed": "कुछ फ़ाइलें सहेजी नहीं जा सकीं। अगली बार ऐप खोलने पर फिर से प्रयास किया जाएगा।",
+  "room.recordingFailed": "रिकॉर्डिंग सहेजी नहीं जा सकी।",
+  "room.recordingLabel": "इंटरव्यू रिकॉर्डिंग",
+  "room.photoLabel": "फ़ोटो {number}",
+
+  // Question panel
+  "question.aiSpeaking": "AI बोल रहा है...",
+  "question.typeAnswer": "अपना उत्तर लिखें:",
+  "question.editTranscript": "आपका उत्तर (आप ट्रांसक्रिप्ट सुधार सकते हैं):",
+  "question.answerPlaceholder": "अपना उत्तर यहाँ लिखें...",
+  "question.yourAnswer": "आपका उत्तर:",
+  "question.listening": "सुन रहे हैं... अपना उत्तर बोलें",
+  "question.transcribing": "आपके उत्तर का ट्रांसक्रिप्शन हो रहा है...",
+  "question.thinking": "अनुवर्ती प्रश्न पर विचार हो रहा है...",
+  "question.followUp": "अनुवर्ती प्रश्न",
+  "question.speakMode": "बोलें",
+  "question.typeMode": "लिखें",
+  "question.speakModeLabel": "बोलकर उत्तर दें",
+  "question.typeModeLabel": "लिखकर उत्तर दें",
+  "question.listen": "प्रश्न सुनें",
+  "question.startSpeaking": "बोलना शुरू करें",
+  "question.stopRecording": "रिकॉर्डिंग रोकें",
+  "question.next": "अगला",
+  "question.finish": "समाप्त करें",
+
+  // Voice settings
+  "voice.settings": "आवाज़ सेटिंग्स",
+  "voice.interviewerVoice": "इंटरव्यूअर की आवाज़",
+  "voice.defaultVoice": "डिफ़ॉल्ट आवाज़",
+  "voice.speed": "गति",
+  "voice.pitch": "पिच",
+  "voice.preview": "सुनकर देखें",
+
+  // Results
+  "results.analyzingTitle": "आपके इंटरव्यू का विश्लेषण हो रहा है",
+  "results.analyzingDescription": "हमारा AI आपके उत्तरों की समीक्षा कर रहा है...",
+  "results.analyzeFailed": "इंटरव्यू का विश्लेषण नहीं हो सका।",
+  "results.completeTitle": "इंटरव्यू पूरा हुआ!",
+  "results.completeSubtitle": "यह रहा आपके प्रदर्शन का विश्लेषण,",
+  "results.startNew": "नया इंटरव्यू शुरू करें",
+  "results.degradedTitle": "हम आपके इंटरव्यू का विश्लेषण नहीं कर सके",
+  "results.degradedDescription":
+    "AI सेवा ने मान्य विश्लेषण नहीं लौटाया, इसलिए कोई स्कोर नहीं दिया गया। आपके उत्तर और रिकॉर्डिंग सहेजे गए हैं; कृपया थोड़ी देर बाद फिर से प्रयास करें।",
+  "results.retryAnalysis": "फिर से प्रयास करें",
+
+  // Report
+  "report.overallScore": "कुल स्कोर",
+  "report.analysis": "प्रदर्शन विश्लेषण",
+  "report.strengths": "मुख्य ताकतें",
+  "report.improvements": "सुधार के क्षेत्र",
+  "report.summary": "इंटरव्यू सारांश",
+  "report.typed": "लिखा गया",
+  "report.spoken": "बोला गया",
+  "report.spokenEdited": "बोला गया · संपादित",
+  "report.noResponse": "(कोई उत्तर नहीं दिया गया)",
+  "report.followUp": "प्र{number} का अनुवर्ती",
+  "report.download": "रिपोर्ट डाउनलोड करें",
+  "report.downloadFailed": "रिपोर्ट नहीं बनाई जा सकी।",
+  "report.pdfTitle": "इंटरव्यू रिपोर्ट",
+  "report.photos": "ली गई तस्वीरें",
+  "report.pageOf": "पृष्ठ {page} / {total}",
+  "rubric.score": "स्कोर",
+  "rubric.correctness": "सटीकता",
+  "rubric.depth": "गहराई",
+  "rubric.communication": "संप्रेषण",
+  "rubric.modelAnswer": "एक अच्छे उत्तर में शामिल होता",
+  "rubric.missedPoints": "छूटे हुए मुख्य बिंदु",
+  "recommendation.hire": "नियुक्ति के लिए अनुशंसित",
+  "recommendation.consider": "पद के लिए विचार करें",
+  "recommendation.notRecommended": "सुधार की आवश्यकता",
+  "status.pending": "लंबित",
+  "status.inProgress": "जारी है",
+  "status.completed": "पूर्ण",
+
+  // Recording player
+  "recording.title": "इंटरव्यू रिकॉर्डिंग",
+  "recording.unavailable": "रिकॉर्डिंग उपलब्ध नहीं है।",
+  "recording.chapters": "अध्याय",
+  "recording.download": "रिकॉर्डिंग डाउनलोड करें",
+  "recording.downloadFailed": "रिकॉर्डिंग डाउनलोड नहीं हो सकी।",
+
+  // Uploads
+  "upload.queued": "प्रतीक्षा में",
+  "upload.uploading": "अपलोड हो रहा है",
+  "upload.retrying": "कनेक्शन टूट गया, फिर से प्रयास हो रहा है",
+  "upload.completed": "सहेजा गया",
+  "upload.failed": "विफल",
+  "upload.retry": "फिर से प्रयास करें",
+
+  // History
+  "history.title": "इंटरव्यू इतिहास",
+  "history.subtitle": "अपने पिछले सत्र और उनका विश्लेषण देखें",
+  "history.category": "श्रेणी",
+  "history.allCategories": "सभी श्रेणियाँ",
+  "history.status": "स्थिति",
+  "history.allStatuses": "सभी स्थितियाँ",
+  "history.recommendation": "अनुशंसा",
+  "history.allRecommendations": "सभी अनुशंसाएँ",
+  "history.date": "तारीख",
+  "history.score": "स्कोर",
+  "history.loadFailed": "आपके इंटरव्यू लोड नहीं हो सके। कृपया फिर से प्रयास करें।",
+  "history.empty": "कोई इंटरव्यू नहीं मिला।",
+  "history.page": "पृष्ठ {page} / {total}",
+  "history.previous": "पिछला",
+  "history.next": "अगला",
+
+  // Interview detail
+  "detail.loadFailed": "यह इंटरव्यू लोड नहीं हो सका।",
+  "detail.notFound": "इंटरव्यू नहीं मिला।",
+  "detail.backToHistory": "इतिहास पर वापस जाएँ",
+  "detail.notAnalyzed": "इस सत्र का अभी विश्लेषण नहीं हुआ है।",
+  "detail.imported": "{date} को फ़ाइल से इम्पोर्ट किया गया। इसके परिणाम इस ऐप ने नहीं बनाए, इसलिए इसे शेयर नहीं किया जा सकता।",
+
+  // Question bank
+  "bank.title": "प्रश्न बैंक",
+  "bank.subtitle": "जाँचे हुए प्रश्न जो AI-जनित प्रश्नों से पहले इंटरव्यू में शामिल किए जाते हैं",
+  "bank.add": "प्रश्न जोड़ें",
+  "bank.edit": "प्रश्न संपादित करें",
+  "bank.question": "प्रश्न",
+  "bank.referenceAnswer": "संदर्भ उत्तर",
+  "bank.referenceAnswerPlaceholder": "एक अच्छे उत्तर में क्या शामिल हो; इंटरव्यू के विश्लेषण के समय AI को दिया जाता है",
+  "bank.category": "श्रेणी",
+  "bank.allCategories": "सभी श्रेणियाँ",
+  "bank.difficulty": "कठिनाई",
+  "bank.easy": "आसान",
+  "bank.medium": "मध्यम",
+  "bank.hard": "कठिन",
+  "bank.tags": "टैग",
+  "bank.tagsPlaceholder": "collections, generics",
+  "bank.active": "इंटरव्यू में उपयोग करें",
+  "bank.inactive": "निष्क्रिय",
+  "bank.textRequired": "कृपया प्रश्न दर्ज करें",
+  "bank.empty": "बैंक में अभी कोई प्रश्न नहीं है।",
+  "bank.loadFailed": "प्रश्न बैंक लोड नहीं हो सका।",
+  "bank.saved": "प्रश्न सहेजा गया",
+  "bank.saveFailed": "प्रश्न सहेजा नहीं जा सका।",
+  "bank.deleted": "प्रश्न हटाया गया",
+  "bank.deleteFailed": "प्रश्न हटाया नहीं जा सका।",
+  "bank.deleteTitle": "यह प्रश्न हटाएँ?",
+  "bank.deleteDescription": "यह नए इंटरव्यू में नहीं पूछा जाएगा। पिछले इंटरव्यू में उनके प्रश्न बने रहेंगे।",
+
+  // Categories
+  "categories.title": "श्रेणियाँ",
+  "categories.subtitle": "वे तकनीकें जिन्हें उम्मीदवार चुन सकते हैं, और हर एक के लिए AI को मिलने वाला संदर्भ",
+  "categories.add": "श्रेणी जोड़ें",
+  "categories.edit": "श्रेणी संपादित करें",
+  "categories.slug": "स्लग",
+  "categories.slugHint": "छोटे अक्षर, अंक और हाइफ़न। बाद में बदला नहीं जा सकता।",
+  "categories.slugInvalid": "छोटे अक्षर, अंक और एकल हाइफ़न का उपयोग करें",
+  "categories.slugTaken": "इस स्लग वाली श्रेणी पहले से मौजूद है",
+  "categories.name": "नाम",
+  "categories.nameRequired": "कृपया नाम दर्ज करें",
+  "categories.description": "विवरण",
+  "categories.icon": "आइकन",
+  "categories.color": "रंग",
+  "categories.promptContext": "AI के लिए संदर्भ",
+  "categories.promptContextPlaceholder": "AI के लिए अतिरिक्त निर्देश, जैसे किन संस्करणों या फ़्रेमवर्क पर ध्यान देना है",
+  "categories.enabled": "उम्मीदवारों के लिए उपलब्ध",
+  "categories.disabled": "निष्क्रिय",
+  "categories.empty": "अभी कोई श्रेणी नहीं है।",
+  "categories.loadFailed": "श्रेणियाँ लोड नहीं हो सकीं।",
+  "categories.saved": "श्रेणी सहेजी गई",
+  "categories.saveFailed": "श्रेणी सहेजी नहीं जा सकी।",
+
+  // Recruiter dashboard
+  "dashboard.title": "उम्मीदवारों के इंटरव्यू",
+  "dashboard.subtitle": "आपके संगठन के उम्मीदवारों द्वारा दिए गए इंटरव्यू",
+  "dashboard.candidate": "उम्मीदवार",
+  "dashboard.link": "लिंक",
+  "dashboard.hireOnly": "केवल नियुक्ति योग्य",
+  "dashboard.minScore": "स्कोर ≥ {score}",
+  "dashboard.lastDays": "पिछले {days} दिन",
+  "dashboard.interviews": "इंटरव्यू",
+  "dashboard.averageScore": "औसत स्कोर",
+  "dashboard.hireRate": "नियुक्ति के लिए अनुशंसित",
+  "dashboard.scoreDistribution": "स्कोर वितरण",
+  "dashboard.selected": "{count} चयनित",
+  "dashboard.selectAll": "इस पेज पर सभी चुनें",
+  "dashboard.selectRow": "{name} चुनें",
+  "dashboard.exportCsv": "CSV निर्यात करें",
+  "dashboard.copyLinks": "लिंक कॉपी करें",
+  "dashboard.linksCopied": "लिंक कॉपी हो गए",
+  "dashboard.copyFailed": "लिंक कॉपी नहीं हो सके।",
+  "dashboard.clearSelection": "चयन हटाएँ",
+  "dashboard.empty": "इन फ़िल्टर से कोई इंटरव्यू मेल नहीं खाता।",
+  "dashboard.loadFailed": "इंटरव्यू लोड नहीं हो सके। कृपया फिर से प्रयास करें।",
+  "dashboard.invites": "आमंत्रण",
+  "dashboard.webhooks": "वेबहुक",
+
+  // Invites
+  "invites.title": "आमंत्रण",
+  "invites.subtitle": "ऐसे लिंक जो किसी उम्मीदवार के लिए पहले से तय इंटरव्यू शुरू करते हैं",
+  "invites.add": "नया आमंत्रण",
+  "invites.label": "लेबल",
+  "invites.labelPlaceholder": "बैकएंड भूमिका – प्रिया शर्मा",
+  "invites.labelRequired": "कृपया लेबल दर्ज करें",
+  "invites.organization": "संगठन",
+  "invites.organizationRequired": "कृपया एक संगठन चुनें",
+  "invites.noOrganizations": "आप अभी किसी संगठन के सदस्य नहीं हैं।",
+  "invites.questions": "प्रश्न",
+  "invites.questionsPlaceholder": "हर पंक्ति में एक प्रश्न। प्रश्न बैंक और तैयार किए गए प्रश्नों के लिए खाली छोड़ें।",
+  "invites.tooManyQuestions": "एक आमंत्रण में अधिकतम {max} प्रश्न हो सकते हैं",
+  "invites.generated": "स्वचालित",
+  "invites.deadline": "समय सीमा",
+  "invites.noDeadline": "कोई समय सीमा नहीं",
+  "invites.maxAttempts": "अधिकतम प्रयास",
+  "invites.attempts": "प्रयास",
+  "invites.expired": "समाप्त",
+  "invites.copyLink": "लिंक कॉपी करें",
+  "invites.linkCopied": "आमंत्रण लिंक कॉपी हो गया",
+  "invites.copyFailed": "लिंक कॉपी नहीं हो सका।",
+  "invites.empty": "अभी कोई आमंत्रण नहीं है।",
+  "invites.loadFailed": "आमंत्रण लोड नहीं हो सके।",
+  "invites.saved": "आमंत्रण बनाया गया",
+  "invites.saveFailed": "आमंत्रण नहीं बनाया जा सका।",
+  "invites.deleted": "आमंत्रण हटाया गया",
+  "invites.deleteFailed": "आमंत्रण हटाया नहीं जा सका।",
+  "invites.deleteTitle": "यह आमंत्रण हटाएँ?",
+  "invites.deleteDescription": "लिंक काम करना बंद कर देगा। इससे पहले से शुरू हुए इंटरव्यू बने रहेंगे।",
+
+  // Invite landing
+  "invite.title": "आपको एक इंटरव्यू के लिए आमंत्रित किया गया है",
+  "invite.from": "{organization} ने आपको {category} इंटरव्यू के लिए आमंत्रित किया है।",
+  "invite.questions": "प्रश्न",
+  "invite.questionCount": "रिक्रूटर द्वारा तय किए गए {count}",
+  "invite.generatedQuestions": "भूमिका के अनुसार तैयार",
+  "invite.deadline": "समय सीमा",
+  "invite.noDeadline": "कोई नहीं",
+  "invite.attemptsLeft": "शेष प्रयास",
+  "invite.start": "इंटरव्यू शुरू करें",
+  "invite.notFound": "यह आमंत्रण लिंक मान्य नहीं है।",
+  "invite.expired": "यह आमंत्रण समाप्त हो चुका है।",
+  "invite.usedUp": "इस आमंत्रण के सभी प्रयास उपयोग हो चुके हैं।",
+  "invite.startFailed": "इंटरव्यू शुरू नहीं हो सका। कृपया फिर से प्रयास करें।",
+  "invite.loadFailed": "आमंत्रण लोड नहीं हो सका। कृपया फिर से प्रयास करें।",
+
+  // Review
+  "review.title": "समीक्षक का आकलन",
+  "review.subtitle": "आपका अपना निर्णय, AI विश्लेषण के साथ। इसे केवल आपकी भर्ती टीम देखती है।",
+  "review.aiVerdict": "AI का निर्णय",
+  "review.yourDecision": "आपका निर्णय",
+  "review.noDecision": "अभी कोई निर्णय नहीं",
+  "review.notAnalyzed": "अभी विश्लेषण नहीं हुआ",
+  "review.decisionDiffers": "आपका निर्णय AI की अनुशंसा से अलग है।",
+  "review.questions": "प्रति प्रश्न रेटिंग",
+  "review.aiScore": "AI",
+  "review.yourRating": "आपकी रेटिंग",
+  "review.differs": "AI से अलग",
+  "review.notePlaceholder": "इस उत्तर पर नोट (वैकल्पिक)",
+  "review.notes": "नोट्स",
+  "review.notesPlaceholder": "भर्ती टीम को क्या जानना चाहिए",
+  "review.lastSaved": "अंतिम बार सहेजा गया {date}",
+  "review.saved": "समीक्षा सहेजी गई।",
+  "review.saveFailed": "समीक्षा सहेजी नहीं जा सकी।",
+  "review.loadFailed": "समीक्षा लोड नहीं हो सकी।",
+
+  // Share links
+  "share.button": "साझा करें",
+  "share.title": "परिणाम साझा करें",
+  "share.description": "लिंक वाला कोई भी व्यक्ति बिना खाते के ये परिणाम देख सकता है, जब तक लिंक की अवधि समाप्त न हो या आप इसे रद्द न करें।",
+  "share.expiresIn": "इसके बाद समाप्त",
+  "share.oneDay": "1 दिन",
+  "share.days": "{count} दिन",
+  "share.includeMedia": "रिकॉर्डिंग और तस्वीरें शामिल करें",
+  "share.create": "लिंक बनाएँ",
+  "share.created": "लिंक बनाया गया और क्लिपबोर्ड पर कॉपी किया गया।",
+  "share.yourLinks": "आपके लिंक",
+  "share.empty": "आपने अभी तक यह इंटरव्यू साझा नहीं किया है।",
+  "share.loadFailed": "आपके लिंक लोड नहीं हो सके।",
+  "share.statusActive": "{date} तक सक्रिय",
+  "share.statusExpired": "समाप्त",
+  "share.statusRevoked": "रद्द",
+  "share.withMedia": "रिकॉर्डिंग और तस्वीरों के साथ",
+  "share.copy": "लिंक कॉपी करें",
+  "share.linkCopied": "लिंक क्लिपबोर्ड पर कॉपी किया गया।",
+  "share.copyFailed": "लिंक कॉपी नहीं हो सका।",
+  "share.createFailed": "लिंक नहीं बनाया जा सका।",
+  "share.revoke": "रद्द करें",
+  "share.revoked": "लिंक रद्द किया गया।",
+  "share.revokeFailed": "लिंक रद्द नहीं हो सका।",
+
+  // Shared results
+  "shared.readOnly": "केवल देखने के लिए · लिंक {date} को समाप्त होगा",
+  "shared.notFound": "यह लिंक मान्य नहीं है।",
+  "shared.unavailable": "इस लिंक की अवधि समाप्त हो गई है या इसे रद्द कर दिया गया है।",
+  "shared.loadFailed": "साझा किए गए परिणाम लोड नहीं हो सके। कृपया फिर से प्रयास करें।",
+
+  // Export and import
+  "transfer.export": "निर्यात करें",
+  "transfer.exportJson": "JSON (पूरा डेटा, आयात किया जा सकता है)",
+  "transfer.exportCsv": "CSV (प्रति उत्तर एक पंक्ति)",
+  "transfer.exportFailed": "इंटरव्यू निर्यात नहीं हो सके।",
+  "transfer.nothingToExport": "निर्यात करने के लिए कोई इंटरव्यू नहीं है।",
+  "transfer.import": "आयात करें",
+  "transfer.imported": "{imported} इंटरव्यू आयात किए गए, पहले से मौजूद {skipped} छोड़े गए।",
+  "transfer.importFailed": "इंटरव्यू आयात नहीं हो सके।",
+  "transfer.invalidFile": "यह फ़ाइल मान्य इंटरव्यू निर्यात नहीं है।",
+  "transfer.unsupportedVersion": "यह निर्यात ऐप के नए संस्करण से बनाया गया है।",
+  "transfer.tooLarge": "इस फ़ाइल में एक साथ आयात करने के लिए बहुत अधिक इंटरव्यू हैं।",
+
+  // Webhooks
+  "webhooks.title": "वेबहुक",
+  "webhooks.subtitle": "इंटरव्यू बनने, पूरे होने, विश्लेषित होने या समीक्षा होने पर अपने ATS को सूचित करें",
+  "webhooks.add": "नया वेबहुक",
+  "webhooks.edit": "वेबहुक संपादित करें",
+  "webhooks.url": "एंडपॉइंट URL",
+  "webhooks.urlInvalid": "कृपया http(s) URL दर्ज करें",
+  "webhooks.events": "इवेंट",
+  "webhooks.eventsRequired": "कृपया कम से कम एक इवेंट चुनें",
+  "webhooks.enabled": "सक्षम",
+  "webhooks.disabled": "अक्षम",
+  "webhooks.sendTest": "टेस्ट इवेंट भेजें",
+  "webhooks.testSucceeded": "टेस्ट इवेंट पहुँचा दिया गया (HTTP {status})",
+  "webhooks.testFailed": "टेस्ट इवेंट विफल: {error}",
+  "webhooks.testError": "टेस्ट इवेंट नहीं भेजा जा सका।",
+  "webhooks.copySecret": "साइनिंग सीक्रेट कॉपी करें",
+  "webhooks.secretCopied": "साइनिंग सीक्रेट कॉपी किया गया",
+  "webhooks.empty": "अभी तक कोई वेबहुक नहीं।",
+  "webhooks.loadFailed": "वेबहुक लोड नहीं हो सके।",
+  "webhooks.saved": "वेबहुक सहेजा गया",
+  "webhooks.saveFailed": "वेबहुक सहेजा नहीं जा सका।",
+  "webhooks.deleted": "वेबहुक हटाया गया",
+  "webhooks.deleteFailed": "वेबहुक हटाया नहीं जा सका।",
+  "webhooks.deleteTitle": "यह वेबहुक हटाएँ?",
+  "webhooks.deleteDescription": "इस URL पर अब कोई इवेंट नहीं भेजे जाएँगे और इसका डिलीवरी लॉग हटा दिया जाएगा।",
+  "webhooks.deliveries": "डिलीवरी लॉग",
+  "webhooks.deliveriesHint": "विफल डिलीवरी लगभग दो घंटे तक बढ़ते अंतराल पर दोबारा भेजी जाती हैं।",
+  "webhooks.deliveriesEmpty": "अभी तक कोई डिलीवरी नहीं।",
+  "webhooks.deliveriesLoadFailed": "डिलीवरी लॉग लोड नहीं हो सका।",
+  "webhooks.event": "इवेंट",
+  "webhooks.status": "स्थिति",
+  "webhooks.attempts": "प्रयास",
+  "webhooks.response": "प्रतिक्रिया",
+  "webhooks.createdAt": "बनाया गया",
+  "webhooks.succeeded": "पहुँचाया गया",
+  "webhooks.pending": "लंबित",
+  "webhooks.failed": "विफल",
+  "webhooks.nextAttempt": "अगला प्रयास {date} पर",
+
+  // Integrity
+  "integrity.title": "सत्यनिष्ठा",
+  "integrity.summary": "इंटरव्यू के दौरान {count} संकेत दर्ज किए गए। ये देखने लायक हैं, नकल का प्रमाण नहीं।",
+  "integrity.none": "कोई सत्यनिष्ठा संकेत दर्ज नहीं किया गया।",
+  "integrity.tabHidden": "टैब बदला",
+  "integrity.focusLost": "विंडो छोड़ी",
+  "integrity.fullscreenExit": "फ़ुलस्क्रीन से बाहर निकले",
+  "integrity.copy": "टेक्स्ट कॉपी किया",
+  "integrity.paste": "टेक्स्ट पेस्ट किया",
+  "integrity.longSilence": "लंबी चुप्पी",
+  "integrity.duration": "{seconds} से.",
+  "integrity.chars": "{count} अक्षर",
+
+  // 404
+  "notFound.message": "ओह! पृष्ठ नहीं मिला",
+  "notFound.home": "होम पर लौटें",
+};
@@ -0,0 +1,88 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { MessageKey } from "@/lib/i18n";
+import type { InterviewResponse, InterviewRow } from "@/lib/interviews";
+
+// Signals a proctor would note; none of them is proof of cheating on its own
+export type IntegrityEventType = "tab_hidden" | "focus_lost" | "fullscreen_exit" | "copy" | "paste" | "long_silence";
+
+export const integrityEventTypes: IntegrityEventType[] = [
+  "tab_hidden",
+  "focus_lost",
+  "fullscreen_exit",
+  "copy",
+  "paste",
+  "long_silence",
+];
+
+export const integrityEventLabels: Record<IntegrityEventType, MessageKey> = {
+  tab_hidden: "integrity.tabHidden",
+  focus_lost: "integrity.focusLost",
+  fullscreen_exit: "integrity.fullscreenExit",
+  copy: "integrity.copy",
+  paste: "integrity.paste",
+  long_silence: "integrity.longSilence",
+};
+
+export interface IntegrityEvent {
+  type: IntegrityEventType;
+  // Offset in milliseconds from the start of the session recording, like QuestionTiming
+  at: number;
+  // How long the tab was hidden, focus was away or the candidate was silent
+  duration?: number;
+  // Length of the copied or pasted text
+  chars?: number;
+}
+
+// Silence while answering that is long enough to be recorded
+export const LONG_SILENCE_MS = 15000;
+
+// Microphone level (RMS of the 0-1 waveform) below which the candidate counts as silent
+export const SILENCE_LEVEL = 0.02;
+
+export const countIntegrityEvents = (events: IntegrityEvent[]) => {
+  const counts = Object.fromEntries(integrityEventTypes.map((type) => [type, 0])) as Record<IntegrityEventType, number>;
+  for (const event of events) {
+    counts[event.type]++;
+  }
+  return counts;
+};
+
+// Index of the question on screen when the event happened, or null before the first one
+export const getQuestionIndexAt = (responses: InterviewResponse[], at: number) => {
+  let index: number | null = null;
+  for (let i = 0; i < responses.length; i++) {
+    const start = responses[i].timing?.questionStartedAt ?? responses[i].timing?.answerStartedAt;
+    if (start !== undefined && start <= at) index = i;
+  }
+  return index;
+};
+
+const isOptionalNumber = (value: unknown) => value === undefined || typeof value === "number";
+
+// Same check as is_valid_integrity_event in the migrations
+const isIntegrityEvent = (value: unknown): value is IntegrityEvent => {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  const event = value as Record<string, unknown>;
+  return (
+    integrityEventTypes.includes(event.type as IntegrityEventType) &&
+    typeof event.at === "number" &&
+    event.at >= 0 &&
+    isOptionalNumber(event.duration) &&
+    isOptionalNumber(event.chars)
+  );
+};
+
+// Events written before they were checked may not be valid and are left out
+export const getStoredIntegrityEvents = (row: InterviewRow): IntegrityEvent[] =>
+  Array.isArray(row.integrity_events) ? (row.integrity_events as unknown[]).filter(isIntegrityEvent) : [];
+
+// Recorded events can't be changed or removed, not even by the candidate who recorded them
+export const appendIntegrityEvents = async (interviewId: string, events: IntegrityEvent[]) => {
+  const { error } = await supabase.rpc("append_integrity_events", {
+    _interview_id: interviewId,
+    _events: events as unknown as Json,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,271 @@
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { isLocale, MessageKey } from "@/lib/i18n";
+import { toCsv } from "@/lib/dashboard";
+import type { AnalysisResult, InterviewFilters, InterviewResponse, InterviewRow } from "@/lib/interviews";
+
+// Identifies our export files; bump the version whenever the shape of an exported interview changes
+export const EXPORT_FORMAT = "ai-interview-export";
+export const EXPORT_VERSION = 1;
+
+// Most interviews written to, or restored from, a single file
+export const EXPORT_LIMIT = 500;
+
+export interface ExportedInterview {
+  id: string;
+  candidateName: string;
+  category: string;
+  locale: string;
+  status: string;
+  createdAt: string;
+  completedAt: string | null;
+  score: number | null;
+  recommendation: string | null;
+  questions: string[];
+  // Answers with per-question timing, follow-ups in interview order
+  responses: InterviewResponse[];
+  analysis: AnalysisResult | null;
+}
+
+export interface InterviewExport {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  exportedAt: string;
+  interviews: ExportedInterview[];
+}
+
+export const toExportedInterview = (row: InterviewRow): ExportedInterview => ({
+  id: row.id,
+  candidateName: row.candidate_name,
+  category: row.category,
+  locale: row.locale,
+  status: row.status,
+  createdAt: row.created_at,
+  completedAt: row.completed_at,
+  score: row.score,
+  recommendation: row.recommendation,
+  questions: Array.isArray(row.questions) ? (row.questions as string[]) : [],
+  responses: Array.isArray(row.responses) ? (row.responses as unknown as InterviewResponse[]) : [],
+  analysis: row.analysis_details ? (row.analysis_details as unknown as AnalysisResult) : null,
+});
+
+export const buildJsonExport = (rows: InterviewRow[], exportedAt = new Date()) => {
+  const data: InterviewExport = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    interviews: rows.map(toExportedInterview),
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+export const CSV_COLUMNS = [
+  "interview_id",
+  "candidate_name",
+  "category",
+  "locale",
+  "status",
+  "created_at",
+  "completed_at",
+  "score",
+  "recommendation",
+  "question_number",
+  "follow_up_of",
+  "question",
+  "answer",
+  "input_mode",
+  "question_score",
+  "question_started_ms",
+  "answer_started_ms",
+  "answer_ended_ms",
+  "question_ended_ms",
+];
+
+// One line per answer, with the interview's columns repeated, so it can be pivoted in a spreadsheet.
+// Interviews without answers get a single line with empty question columns.
+export const buildCsvExport = (rows: InterviewRow[]) =>
+  toCsv(
+    CSV_COLUMNS,
+    rows.map(toExportedInterview).flatMap((interview) => {
+      const columns = [
+        interview.id,
+        interview.candidateName,
+        interview.category,
+        interview.locale,
+        interview.status,
+        interview.createdAt,
+        interview.completedAt,
+        interview.score,
+        interview.recommendation,
+      ];
+      if (interview.responses.length === 0) {
+        return [[...columns, ...Array<null>(CSV_COLUMNS.length - columns.length).fill(null)]];
+      }
+
+      const scores = new Map(interview.analysis?.questions?.map((assessment) => [assessment.question, assessment.score]));
+      return interview.responses.map((response, i) => [
+        ...columns,
+        i + 1,
+        response.followUpOf !== undefined ? response.followUpOf + 1 : null,
+        response.question,
+        response.answer,
+        response.inputMode ?? null,
+        scores.get(i + 1) ?? null,
+        response.timing?.questionStartedAt ?? null,
+        response.timing?.answerStartedAt ?? null,
+        response.timing?.answerEndedAt ?? null,
+        response.timing?.questionEndedAt ?? null,
+      ]);
+    })
+  );
+
+// The user's own interviews matching the History filters, newest first
+export const listInterviewsForExport = async (userId: string, filters: InterviewFilters) => {
+  let query = supabase
+    .from("interviews")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .limit(EXPORT_LIMIT);
+
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.category) query = query.eq("category", filters.category);
+  if (filters.recommendation) query = query.eq("recommendation", filters.recommendation);
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data;
+};
+
+const timingSchema = z.object({
+  questionStartedAt: z.number().nonnegative().optional(),
+  answerStartedAt: z.number().nonnegative().optional(),
+  answerEndedAt: z.number().nonnegative().optional(),
+  questionEndedAt: z.number().nonnegative().optional(),
+});
+
+const responseSchema = z.object({
+  question: z.string(),
+  answer: z.string(),
+  timing: timingSchema.optional(),
+  inputMode: z.enum(["spoken", "typed"]).optional(),
+  edited: z.boolean().optional(),
+  followUpOf: z.number().int().nonnegative().optional(),
+});
+
+const recommendationSchema = z.enum(["hire", "consider", "not_recommended"]);
+
+const analysisSchema = z.object({
+  score: z.number().min(0).max(100),
+  analysis: z.string(),
+  strengths: z.array(z.string()),
+  improvements: z.array(z.string()),
+  recommendation: recommendationSchema,
+  questions: z
+    .array(
+      z.object({
+        question: z.number().int().positive(),
+        score: z.number().min(0).max(100),
+        correctness: z.number().int().min(1).max(5),
+        depth: z.number().int().min(1).max(5),
+        communication: z.number().int().min(1).max(5),
+        modelAnswer: z.string(),
+        missedPoints: z.array(z.string()),
+      })
+    )
+    .optional(),
+});
+
+const interviewSchema = z.object({
+  id: z.string().uuid(),
+  candidateName: z.string().trim().min(1).max(200),
+  category: z.string().min(1),
+  locale: z.string().refine(isLocale),
+  status: z.enum(["pending", "in_progress", "completed"]),
+  createdAt: z.string().datetime({ offset: true }),
+  completedAt: z.string().datetime({ offset: true }).nullable(),
+  score: z.number().int().min(0).max(100).nullable(),
+  recommendation: recommendationSchema.nullable(),
+  questions: z.array(z.string()),
+  responses: z.array(responseSchema),
+  analysis: analysisSchema.nullable(),
+});
+
+const exportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.number().int().positive(),
+  interviews: z.array(z.unknown()),
+});
+
+// Reasons an import file is refused, thrown as the error message
+const importErrors: Record<string, MessageKey> = {
+  import_invalid_file: "transfer.invalidFile",
+  import_unsupported_version: "transfer.unsupportedVersion",
+  import_too_large: "transfer.tooLarge",
+};
+
+export const getImportErrorKey = (error: unknown): MessageKey => {
+  const message = (error as { message?: string } | null)?.message ?? "";
+  return importErrors[message] ?? "transfer.importFailed";
+};
+
+// Reads a JSON export; CSV exports are for spreadsheets and can't be imported
+export const parseInterviewExport = (text: string): ExportedInterview[] => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error("import_invalid_file");
+  }
+
+  const file = exportSchema.safeParse(json);
+  if (!file.success) throw new Error("import_invalid_file");
+  if (file.data.version > EXPORT_VERSION) throw new Error("import_unsupported_version");
+  if (file.data.interviews.length > EXPORT_LIMIT) throw new Error("import_too_large");
+
+  const interviews = z.array(interviewSchema).safeParse(file.data.interviews);
+  if (!interviews.success) throw new Error("import_invalid_file");
+  return interviews.data as ExportedInterview[];
+};
+
+// The row an exported interview is restored as. `imported_at` marks results that came from a
+// file rather than from interview-ai; such interviews can't be shared.
+export const toImportedRow = (userId: string, interview: ExportedInterview, importedAt = new Date()) => ({
+  id: interview.id,
+  user_id: userId,
+  candidate_name: interview.candidateName.trim(),
+  category: interview.category,
+  locale: interview.locale,
+  status: interview.status,
+  created_at: interview.createdAt,
+  // Exports don't carry when the candidate finished; a completed interview was finished by then
+  finished_at: interview.status === "completed" ? interview.completedAt : null,
+  completed_at: interview.completedAt,
+  imported_at: importedAt.toISOString(),
+  score: interview.score,
+  recommendation: interview.recommendation,
+  analysis: interview.analysis?.analysis ?? null,
+  analysis_details: interview.analysis as unknown as Json,
+  questions: interview.questions as Json,
+  responses: interview.responses as unknown as Json,
+});
+
+// Restores interviews under the current user, keeping their ids so importing the same file
+// twice skips the ones already there. Recordings and photos aren't part of an export.
+export const importInterviews = async (userId: string, interviews: ExportedInterview[]) => {
+  if (interviews.length === 0) return { imported: 0, skipped: 0 };
+
+  const importedAt = new Date();
+  const { data, error } = await supabase
+    .from("interviews")
+    .upsert(
+      interviews.map((interview) => toImportedRow(userId, interview, importedAt)),
+      { onConflict: "id", ignoreDuplicates: true }
+    )
+    .select("id");
+
+  if (error) throw error;
+  return { imported: data.length, skipped: interviews.length - data.length };
+};
@@ -0,0 +1,220 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import type { Locale, MessageKey } from "@/lib/i18n";
+
+export type InterviewRow = Tables<"interviews">;
+
+export type InterviewStatus = "pending" | "in_progress" | "completed";
+
+export const statusLabels: Record<InterviewStatus, MessageKey> = {
+  pending: "status.pending",
+  in_progress: "status.inProgress",
+  completed: "status.completed",
+};
+
+// Offsets in milliseconds from the start of the session recording
+export interface QuestionTiming {
+  questionStartedAt?: number;
+  answerStartedAt?: number;
+  answerEndedAt?: number;
+  questionEndedAt?: number;
+}
+
+// How the candidate answered: spoken answers are transcribed, typed ones entered directly
+export type AnswerInputMode = "spoken" | "typed";
+
+export interface InterviewResponse {
+  question: string;
+  answer: string;
+  timing?: QuestionTiming;
+  inputMode?: AnswerInputMode;
+  // Spoken answer whose transcript was corrected by the candidate
+  edited?: boolean;
+  // Index of the main question this follow-up probes
+  followUpOf?: number;
+}
+
+export interface Chapter {
+  index: number;
+  label: string;
+  start: number;
+  end: number | null;
+}
+
+// Rubric for a single answer; correctness, depth and communication are rated 1-5
+export interface QuestionAssessment {
+  // 1-based position of the question in the interview
+  question: number;
+  score: number;
+  correctness: number;
+  depth: number;
+  communication: number;
+  modelAnswer: string;
+  missedPoints: string[];
+}
+
+export interface AnalysisResult {
+  score: number;
+  analysis: string;
+  strengths: string[];
+  improvements: string[];
+  recommendation: string;
+  // Missing from analyses stored before the rubric was introduced
+  questions?: QuestionAssessment[];
+}
+
+export const getScoreColor = (score: number) => {
+  if (score >= 80) return "text-emerald-400";
+  if (score >= 60) return "text-yellow-400";
+  return "text-red-400";
+};
+
+export const getRecommendationBadge = (rec: string): { color: string; labelKey: MessageKey } => {
+  switch (rec) {
+    case "hire":
+      return { color: "bg-emerald-500/20 text-emerald-400 border-emerald-500/30", labelKey: "recommendation.hire" };
+    case "consider":
+      return { color: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30", labelKey: "recommendation.consider" };
+    default:
+      return { color: "bg-red-500/20 text-red-400 border-red-500/30", labelKey: "recommendation.notRecommended" };
+  }
+};
+
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const minutes = Math.floor(total / 60);
+  return `${minutes}:${String(total % 60).padStart(2, "0")}`;
+};
+
+// One chapter per question that has timing data, in seconds for the video element
+export const getChapters = (responses: InterviewResponse[]): Chapter[] =>
+  responses.flatMap((response, index) => {
+    const start = response.timing?.questionStartedAt ?? response.timing?.answerStartedAt;
+    if (start === undefined) return [];
+
+    const end = response.timing?.questionEndedAt ?? response.timing?.answerEndedAt;
+    return [{
+      index,
+      label: response.question,
+      start: start / 1000,
+      end: end !== undefined ? end / 1000 : null,
+    }];
+  });
+
+// Create the session row as soon as a category is picked
+export const createInterview = async ({
+  userId,
+  candidateName,
+  category,
+  locale,
+}: {
+  userId: string;
+  candidateName: string;
+  category: string;
+  locale: Locale;
+}) => {
+  const { data, error } = await supabase
+    .from("interviews")
+    .insert({
+      user_id: userId,
+      candidate_name: candidateName,
+      category,
+      locale,
+      status: "pending",
+    })
+    .select("id")
+    .single();
+
+  if (error) throw error;
+  return data.id;
+};
+
+// Camera and microphone are live, the candidate is now answering. Any other status change,
+// like the questions and the analysis, is stored by interview-ai.
+export const markInterviewInProgress = async (interviewId: string) => {
+  const { error } = await supabase.rpc("mark_interview_in_progress", { _interview_id: interviewId });
+
+  if (error) throw error;
+};
+
+// The candidate answered the last question; tells webhooks the interview is complete
+export const markInterviewFinished = async (interviewId: string) => {
+  const { error } = await supabase.rpc("finish_interview", { _interview_id: interviewId });
+
+  if (error) throw error;
+};
+
+export const saveResponses = async (interviewId: string, responses: InterviewResponse[]) => {
+  const { error } = await supabase
+    .from("interviews")
+    .update({ responses: responses as unknown as Json })
+    .eq("id", interviewId);
+
+  if (error) throw error;
+};
+
+export const saveRecording = async (
+  interviewId: string,
+  { videoPath, photoPaths }: { videoPath: string | null; photoPaths: string[] },
+) => {
+  const { error } = await supabase
+    .from("interviews")
+    .update({ video_url: videoPath, photo_paths: photoPaths })
+    .eq("id", interviewId);
+
+  if (error) throw error;
+};
+
+export interface InterviewFilters {
+  status?: InterviewStatus;
+  category?: string;
+  recommendation?: string;
+}
+
+// List the user's own sessions, newest first. RLS also lets recruiters and admins read other
+// people's interviews, so the owner is filtered explicitly.
+export const listInterviews = async ({
+  userId,
+  page,
+  pageSize,
+  filters,
+}: {
+  userId: string;
+  page: number;
+  pageSize: number;
+  filters: InterviewFilters;
+}) => {
+  let query = supabase
+    .from("interviews")
+    .select("id, category, created_at, completed_at, score, recommendation, status", { count: "exact" })
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false })
+    .range(page * pageSize, page * pageSize + pageSize - 1);
+
+  if (filters.status) query = query.eq("status", filters.status);
+  if (filters.category) query = query.eq("category", filters.category);
+  if (filters.recommendation) query = query.eq("recommendation", filters.recommendation);
+
+  const { data, error, count } = await query;
+
+  if (error) throw error;
+  return { interviews: data, total: count ?? 0 };
+};
+
+export const getInterview = async (interviewId: string) => {
+  const { data, error } = await supabase
+    .from("interviews")
+    .select("*")
+    .eq("id", interviewId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Stored JSON columns back into the shapes the results screen renders
+export const getStoredResponses = (row: InterviewRow): InterviewResponse[] =>
+  Array.isArray(row.responses) ? (row.responses as unknown as InterviewResponse[]) : [];
+
+export const getStoredAnalysis = (row: InterviewRow): AnalysisResult | null =>
+  row.analysis_details ? (row.analysis_details as unknown as AnalysisResult) : null;
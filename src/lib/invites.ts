@@ -0,0 +1,101 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Locale, MessageKey } from "@/lib/i18n";
+
+export type Invite = Tables<"interview_invites">;
+
+export interface InviteInput {
+  organizationId: string;
+  label: string;
+  category: string;
+  locale: Locale;
+  questions: string[];
+  expiresAt: string | null;
+  maxAttempts: number;
+}
+
+// Invites can fix the interview to at most this many questions
+export const MAX_INVITE_QUESTIONS = 20;
+
+// Reasons start_invited_interview refuses to start, raised as the error message
+const inviteErrors: Record<string, MessageKey> = {
+  invite_not_found: "invite.notFound",
+  invite_expired: "invite.expired",
+  invite_used_up: "invite.usedUp",
+};
+
+export const getInviteErrorKey = (error: unknown): MessageKey => {
+  const message = (error as { message?: string } | null)?.message ?? "";
+  return inviteErrors[message] ?? "invite.startFailed";
+};
+
+export const getInviteLink = (token: string) => `${window.location.origin}/invite/${token}`;
+
+// One question per line
+export const parseQuestions = (value: string) =>
+  value
+    .split("\n")
+    .map((question) => question.trim())
+    .filter(Boolean);
+
+// Invites with how many interviews have been started from each
+export const listInvites = async () => {
+  const { data, error } = await supabase
+    .from("interview_invites")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data.map(({ attempts_used, ...invite }) => ({
+    ...invite,
+    attemptsUsed: attempts_used,
+  }));
+};
+
+export const createInvite = async (userId: string, input: InviteInput) => {
+  const { error } = await supabase.from("interview_invites").insert({
+    organization_id: input.organizationId,
+    label: input.label.trim(),
+    category: input.category,
+    locale: input.locale,
+    questions: input.questions,
+    expires_at: input.expiresAt,
+    max_attempts: input.maxAttempts,
+    created_by: userId,
+  });
+
+  if (error) throw error;
+};
+
+export const deleteInvite = async (id: string) => {
+  const { error } = await supabase.from("interview_invites").delete().eq("id", id);
+
+  if (error) throw error;
+};
+
+// What the candidate sees before starting, or null for an unknown token
+export const getInviteDetails = async (token: string) => {
+  const { data, error } = await supabase.rpc("get_invite", { _token: token });
+
+  if (error) throw error;
+  return data[0] ?? null;
+};
+
+// Uses up one attempt and returns the new interview's id
+export const startInvitedInterview = async (token: string, candidateName: string) => {
+  const { data, error } = await supabase.rpc("start_invited_interview", {
+    _token: token,
+    _candidate_name: candidateName,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+// Handed from the invite page to the home screen, which opens the interview room with it
+export interface InvitedInterview {
+  interviewId: string;
+  category: string;
+  locale: Locale;
+  questions: string[];
+}
@@ -0,0 +1,12 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Organization = Tables<"organizations">;
+
+// Organizations the signed-in user is a member of; admins see all of them
+export const listOrganizations = async () => {
+  const { data, error } = await supabase.from("organizations").select("*").order("name");
+
+  if (error) throw error;
+  return data;
+};
@@ -0,0 +1,4 @@
+import { QueryClient } from "@tanstack/react-query";
+
+// One cache for the whole app, kept in its own module so tests can clear it between renders
+export const queryClient = new QueryClient();
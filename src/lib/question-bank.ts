@@ -0,0 +1,72 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { Locale, MessageKey } from "@/lib/i18n";
+
+export type BankQuestion = Tables<"question_bank">;
+
+export type Difficulty = "easy" | "medium" | "hard";
+
+export const difficultyLabels: Record<Difficulty, MessageKey> = {
+  easy: "bank.easy",
+  medium: "bank.medium",
+  hard: "bank.hard",
+};
+
+export interface BankQuestionInput {
+  category: string;
+  locale: Locale;
+  difficulty: Difficulty;
+  tags: string[];
+  text: string;
+  referenceAnswer: string;
+  active: boolean;
+}
+
+// "Arrays, big-o ,, arrays" -> ["arrays", "big-o"]
+export const parseTags = (value: string) =>
+  [...new Set(value.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+
+const toRow = (input: BankQuestionInput) => ({
+  category: input.category,
+  locale: input.locale,
+  difficulty: input.difficulty,
+  tags: input.tags,
+  text: input.text.trim(),
+  reference_answer: input.referenceAnswer.trim() || null,
+  active: input.active,
+});
+
+export const listBankQuestions = async ({ category }: { category?: string }) => {
+  let query = supabase
+    .from("question_bank")
+    .select("*")
+    .order("category")
+    .order("created_at", { ascending: false });
+
+  if (category) query = query.eq("category", category);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data;
+};
+
+export const createBankQuestion = async (userId: string, input: BankQuestionInput) => {
+  const { error } = await supabase.from("question_bank").insert({ ...toRow(input), created_by: userId });
+
+  if (error) throw error;
+};
+
+export const updateBankQuestion = async (id: string, input: BankQuestionInput) => {
+  const { error } = await supabase
+    .from("question_bank")
+    .update({ ...toRow(input), updated_at: new Date().toISOString() })
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+export const deleteBankQuestion = async (id: string) => {
+  const { error } = await supabase.from("question_bank").delete().eq("id", id);
+
+  if (error) throw error;
+};
@@ -0,0 +1,75 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export const RECORDINGS_BUCKET = "interview-recordings";
+
+// Emit a chunk every few seconds so a crash never loses the whole session
+export const RECORDING_TIMESLICE_MS = 5000;
+
+// ~7.5 MB per minute keeps a typical session well under the bucket limit
+export const RECORDING_VIDEO_BITS_PER_SECOND = 1_000_000;
+
+// Safari only records MP4
+const PREFERRED_MIME_TYPES = [
+  "video/webm;codecs=vp9,opus",
+  "video/webm;codecs=vp8,opus",
+  "video/webm",
+  "video/mp4",
+];
+
+// The file extension for each type the bucket accepts for recordings
+const RECORDING_EXTENSIONS: Record<string, string> = {
+  "video/webm": "webm",
+  "video/mp4": "mp4",
+};
+
+export const getRecordingMimeType = () => {
+  if (typeof MediaRecorder === "undefined") return null;
+  return PREFERRED_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+};
+
+// Recorders report their codecs too ("video/webm;codecs=vp9,opus"), which the bucket's allowed types don't list
+export const getBaseMimeType = (mimeType: string) => mimeType.split(";")[0].trim().toLowerCase();
+
+export const getRecordingPath = (userId: string, interviewId: string, mimeType: string) =>
+  `${userId}/${interviewId}/recording.${RECORDING_EXTENSIONS[getBaseMimeType(mimeType)] ?? "webm"}`;
+
+// The same data under its base type, which is what the upload sends as the content type
+export const toRecordingUpload = (recording: Blob) =>
+  new Blob([recording], { type: getBaseMimeType(recording.type) });
+
+export const getPhotoPath = (userId: string, interviewId: string, index: number) =>
+  `${userId}/${interviewId}/photo-${index + 1}.jpg`;
+
+export const dataUrlToBlob = (dataUrl: string) => {
+  const [header, base64Data] = dataUrl.split(",");
+  const contentType = header.match(/data:(.*?);/)?.[1] ?? "application/octet-stream";
+  const byteCharacters = atob(base64Data);
+  const byteArray = new Uint8Array(byteCharacters.length);
+  for (let i = 0; i < byteCharacters.length; i++) {
+    byteArray[i] = byteCharacters.charCodeAt(i);
+  }
+  return new Blob([byteArray], { type: contentType });
+};
+
+// The bucket is private, so stored paths are turned into short-lived URLs on demand
+export const createRecordingUrl = async (path: string, options?: { download?: boolean }) => {
+  const { data, error } = await supabase.storage
+    .from(RECORDINGS_BUCKET)
+    .createSignedUrl(path, 3600, options?.download ? { download: true } : undefined);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// Photos are embedded in generated reports, which need the image data itself
+export const downloadPhoto = async (path: string) => {
+  const { data, error } = await supabase.storage.from(RECORDINGS_BUCKET).download(path);
+
+  if (error) throw error;
+  return new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(data);
+  });
+};
@@ -0,0 +1,215 @@
+import type { jsPDF } from "jspdf";
+import { format } from "date-fns";
+import type { Locale as DateLocale } from "date-fns";
+import type { MessageKey, TranslateValues } from "@/lib/i18n";
+import { AnalysisResult, getRecommendationBadge, InterviewResponse } from "@/lib/interviews";
+
+export interface ReportData {
+  candidateName: string;
+  categoryName: string;
+  date: Date;
+  analysis: AnalysisResult | null;
+  responses: InterviewResponse[];
+  // JPEG data URLs of the photos taken during the interview
+  photos: string[];
+}
+
+export interface ReportText {
+  t: (key: MessageKey, values?: TranslateValues) => string;
+  dateLocale: DateLocale;
+}
+
+type Rgb = [number, number, number];
+
+// The app's dark background and primary/secondary accents, as RGB
+const BRAND_DARK: Rgb = [8, 13, 23];
+const BRAND_PRIMARY: Rgb = [0, 200, 200];
+const BRAND_SECONDARY: Rgb = [98, 71, 210];
+const TEXT: Rgb = [30, 35, 45];
+const MUTED: Rgb = [110, 115, 125];
+
+const recommendationColors: Record<string, Rgb> = {
+  hire: [16, 185, 129],
+  consider: [202, 138, 4],
+  not_recommended: [220, 38, 38],
+};
+
+const MARGIN = 48;
+const LINE_HEIGHT = 1.4;
+const PHOTO_WIDTH = 150;
+
+// "Jane Doe", 2026-10-19 -> "interview-report-jane-doe-2026-10-19.pdf"
+export const getReportFilename = (candidateName: string, date: Date) => {
+  const slug = candidateName
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return `interview-report-${slug || "candidate"}-${format(date, "yyyy-MM-dd")}.pdf`;
+};
+
+const addPageNumbers = (doc: jsPDF, t: ReportText["t"]) => {
+  const total = doc.getNumberOfPages();
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page);
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(8);
+    doc.setTextColor(...MUTED);
+    doc.text(t("report.pageOf", { page, total }), pageWidth - MARGIN, pageHeight - 24, { align: "right" });
+  }
+};
+
+// Laid out with jsPDF's own renderer rather than the browser's print engine, so the
+// file looks the same everywhere. jsPDF is loaded on demand to keep it out of the main bundle.
+export const buildReportPdf = async (data: ReportData, { t, dateLocale }: ReportText): Promise<Blob> => {
+  const { jsPDF } = await import("jspdf");
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height <= pageHeight - MARGIN) return;
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  const paragraph = (text: string, { size = 10, color = TEXT, bold = false, indent = 0 } = {}) => {
+    doc.setFont("helvetica", bold ? "bold" : "normal");
+    doc.setFontSize(size);
+    doc.setTextColor(...color);
+    const lineHeight = size * LINE_HEIGHT;
+    for (const line of doc.splitTextToSize(text, contentWidth - indent) as string[]) {
+      ensureSpace(lineHeight);
+      doc.text(line, MARGIN + indent, y + size);
+      y += lineHeight;
+    }
+  };
+
+  const heading = (text: string) => {
+    y += 14;
+    ensureSpace(40);
+    paragraph(text, { size: 13, bold: true });
+    doc.setDrawColor(...BRAND_PRIMARY);
+    doc.setLineWidth(1.5);
+    doc.line(MARGIN, y + 2, MARGIN + 32, y + 2);
+    y += 10;
+  };
+
+  const bullets = (items: string[], color: Rgb) => {
+    for (const item of items) {
+      ensureSpace(14);
+      doc.setFillColor(...color);
+      doc.circle(MARGIN + 4, y + 7, 2, "F");
+      paragraph(item, { indent: 14 });
+      y += 3;
+    }
+  };
+
+  // Header band
+  doc.setFillColor(...BRAND_DARK);
+  doc.rect(0, 0, pageWidth, 64, "F");
+  doc.setFillColor(...BRAND_SECONDARY);
+  doc.rect(0, 64, pageWidth, 3, "F");
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(15);
+  doc.setTextColor(...BRAND_PRIMARY);
+  doc.text(t("welcome.titleAccent"), MARGIN, 38);
+  const accentWidth = doc.getTextWidth(`${t("welcome.titleAccent")} `);
+  doc.setTextColor(255, 255, 255);
+  doc.text(t("welcome.titleRest"), MARGIN + accentWidth, 38);
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(t("report.pdfTitle"), pageWidth - MARGIN, 38, { align: "right" });
+  y = 96;
+
+  // Candidate and score
+  paragraph(data.candidateName, { size: 22, bold: true });
+  paragraph(
+    `${t("common.interviewTitle", { category: data.categoryName })} · ${format(data.date, "PPP p", { locale: dateLocale })}`,
+    { color: MUTED }
+  );
+
+  if (data.analysis) {
+    y += 16;
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    doc.setTextColor(...MUTED);
+    doc.text(t("report.overallScore"), MARGIN, y + 10);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(32);
+    doc.setTextColor(...TEXT);
+    doc.text(String(data.analysis.score), MARGIN, y + 46);
+    const scoreWidth = doc.getTextWidth(String(data.analysis.score));
+    doc.setFontSize(14);
+    doc.setTextColor(...MUTED);
+    doc.text("/100", MARGIN + scoreWidth + 4, y + 46);
+
+    const badge = t(getRecommendationBadge(data.analysis.recommendation).labelKey);
+    const badgeColor = recommendationColors[data.analysis.recommendation] ?? recommendationColors.not_recommended;
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(10);
+    const badgeWidth = doc.getTextWidth(badge) + 24;
+    doc.setFillColor(...badgeColor);
+    doc.roundedRect(MARGIN + 120, y + 26, badgeWidth, 24, 12, 12, "F");
+    doc.setTextColor(255, 255, 255);
+    doc.text(badge, MARGIN + 132, y + 42);
+    y += 60;
+
+    heading(t("report.analysis"));
+    paragraph(data.analysis.analysis);
+
+    heading(t("report.strengths"));
+    bullets(data.analysis.strengths, recommendationColors.hire);
+
+    heading(t("report.improvements"));
+    bullets(data.analysis.improvements, recommendationColors.consider);
+  }
+
+  // Transcript
+  const assessments = new Map(data.analysis?.questions?.map((assessment) => [assessment.question, assessment]));
+  heading(t("report.summary"));
+  data.responses.forEach((response, i) => {
+    const indent = response.followUpOf !== undefined ? 16 : 0;
+    const prefix = response.followUpOf !== undefined
+      ? `${t("report.followUp", { number: response.followUpOf + 1 })} · `
+      : "";
+    ensureSpace(40);
+    paragraph(`${prefix}Q${i + 1}: ${response.question}`, { bold: true, indent });
+    y += 2;
+    paragraph(response.answer || t("report.noResponse"), { color: response.answer ? TEXT : MUTED, indent });
+    const assessment = assessments.get(i + 1);
+    if (assessment) {
+      y += 2;
+      paragraph(`${t("rubric.score")}: ${assessment.score}/100`, { size: 9, color: MUTED, indent });
+    }
+    y += 10;
+  });
+
+  // Photos, in rows that fit the page width
+  if (data.photos.length > 0) {
+    heading(t("report.photos"));
+    const perRow = Math.max(1, Math.floor((contentWidth + 12) / (PHOTO_WIDTH + 12)));
+    let rowHeight = 0;
+    data.photos.forEach((photo, i) => {
+      const { width, height } = doc.getImageProperties(photo);
+      const photoHeight = (height / width) * PHOTO_WIDTH;
+      const column = i % perRow;
+      if (column === 0) {
+        y += rowHeight;
+        ensureSpace(photoHeight);
+        rowHeight = 0;
+      }
+      doc.addImage(photo, "JPEG", MARGIN + column * (PHOTO_WIDTH + 12), y, PHOTO_WIDTH, photoHeight);
+      rowHeight = Math.max(rowHeight, photoHeight + 12);
+    });
+    y += rowHeight;
+  }
+
+  addPageNumbers(doc, t);
+  return doc.output("blob");
+};
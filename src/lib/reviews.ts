@@ -0,0 +1,95 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { AnalysisResult } from "@/lib/interviews";
+
+export type ReviewDecision = "hire" | "consider" | "not_recommended";
+
+export const reviewDecisions: ReviewDecision[] = ["hire", "consider", "not_recommended"];
+
+export const RATING_MAX = 5;
+
+// A reviewer's 1-5 rating of a single answer; 0 while not rated yet
+export interface QuestionRating {
+  // 1-based position of the question in the interview, as in the AI rubric
+  question: number;
+  rating: number;
+  note: string;
+}
+
+export interface Review {
+  decision: ReviewDecision | null;
+  notes: string;
+  questionRatings: QuestionRating[];
+  reviewerId: string | null;
+  updatedAt: string | null;
+}
+
+export interface Disagreements {
+  decision: boolean;
+  // Questions whose rating is at least two points away from the AI's score
+  questions: Set<number>;
+}
+
+// AI answer scores are 0-100; 0-19 reads as a 1, 80-100 as a 5
+export const scoreToRating = (score: number) => Math.min(RATING_MAX, Math.floor(score / 20) + 1);
+
+export const getDisagreements = (
+  review: Pick<Review, "decision" | "questionRatings"> | null,
+  analysis: AnalysisResult | null
+): Disagreements => {
+  const disagreements: Disagreements = { decision: false, questions: new Set() };
+  if (!review || !analysis) return disagreements;
+
+  disagreements.decision = !!review.decision && review.decision !== analysis.recommendation;
+
+  const aiScores = new Map(analysis.questions?.map((assessment) => [assessment.question, assessment.score]));
+  for (const { question, rating } of review.questionRatings) {
+    const score = aiScores.get(question);
+    if (rating > 0 && score !== undefined && Math.abs(rating - scoreToRating(score)) >= 2) {
+      disagreements.questions.add(question);
+    }
+  }
+  return disagreements;
+};
+
+export const getReview = async (interviewId: string): Promise<Review | null> => {
+  const { data, error } = await supabase
+    .from("reviews")
+    .select("*")
+    .eq("interview_id", interviewId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+  return {
+    decision: data.decision as ReviewDecision | null,
+    notes: data.notes,
+    questionRatings: Array.isArray(data.question_ratings)
+      ? (data.question_ratings as unknown as QuestionRating[])
+      : [],
+    reviewerId: data.reviewer_id,
+    updatedAt: data.updated_at,
+  };
+};
+
+export const saveReview = async (
+  userId: string,
+  interviewId: string,
+  review: Pick<Review, "decision" | "notes" | "questionRatings">
+) => {
+  const { error } = await supabase.from("reviews").upsert(
+    {
+      interview_id: interviewId,
+      reviewer_id: userId,
+      decision: review.decision,
+      notes: review.notes.trim(),
+      question_ratings: review.questionRatings
+        .filter((rating) => rating.rating > 0 || rating.note.trim())
+        .map((rating) => ({ ...rating, note: rating.note.trim() })) as unknown as Json,
+      updated_at: new Date().toISOString(),
+    },
+    { onConflict: "interview_id" }
+  );
+
+  if (error) throw error;
+};
@@ -0,0 +1,12 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Enums } from "@/integrations/supabase/types";
+
+export type AppRole = Enums<"app_role">;
+
+// Roles are granted in the user_roles table; users can only read their own
+export const getUserRoles = async (userId: string) => {
+  const { data, error } = await supabase.from("user_roles").select("role").eq("user_id", userId);
+
+  if (error) throw error;
+  return data.map((row) => row.role);
+};
@@ -0,0 +1,85 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { MessageKey } from "@/lib/i18n";
+import type { AnalysisResult, InterviewResponse } from "@/lib/interviews";
+
+export type ShareLink = Tables<"share_links">;
+
+// How long a new link stays valid, in days; the database caps links at the longest, 30 days
+export const shareExpiryOptions = [1, 7, 30];
+
+export interface ShareLinkInput {
+  interviewId: string;
+  expiresInDays: number;
+  includeMedia: boolean;
+}
+
+// The read-only copy of an interview returned by the shared-results edge function
+export interface SharedResults {
+  candidateName: string;
+  categoryName: string;
+  locale: string;
+  status: string;
+  createdAt: string;
+  responses: InterviewResponse[];
+  analysis: AnalysisResult | null;
+  // Signed URLs, only when the link includes media
+  videoUrl: string | null;
+  photoUrls: string[];
+  expiresAt: string;
+}
+
+export const getShareUrl = (token: string) => `${window.location.origin}/shared/${token}`;
+
+export const isShareLinkActive = (link: Pick<ShareLink, "expires_at" | "revoked_at">, now = new Date()) =>
+  !link.revoked_at && new Date(link.expires_at) > now;
+
+// shared-results answers 404 for unknown tokens and 410 for expired or revoked links
+export const getShareErrorKey = (error: unknown): MessageKey => {
+  const status = (error as { context?: { status?: number } } | null)?.context?.status;
+  if (status === 404) return "shared.notFound";
+  if (status === 410) return "shared.unavailable";
+  return "shared.loadFailed";
+};
+
+// Only the links the current user created; RLS hides everyone else's
+export const listShareLinks = async (interviewId: string) => {
+  const { data, error } = await supabase
+    .from("share_links")
+    .select("*")
+    .eq("interview_id", interviewId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export const createShareLink = async (userId: string, input: ShareLinkInput) => {
+  const { data, error } = await supabase
+    .from("share_links")
+    .insert({
+      interview_id: input.interviewId,
+      created_by: userId,
+      include_media: input.includeMedia,
+      expires_at: new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000).toISOString(),
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Links can't be edited; revoking is the only change, and it can't be undone
+export const revokeShareLink = async (id: string) => {
+  const { error } = await supabase.rpc("revoke_share_link", { _id: id });
+
+  if (error) throw error;
+};
+
+export const getSharedResults = async (token: string) => {
+  const { data, error } = await supabase.functions.invoke("shared-results", { body: { token } });
+
+  if (error) throw error;
+  return data.result as SharedResults;
+};
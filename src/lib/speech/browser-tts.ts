@@ -0,0 +1,49 @@
+import type { TextToSpeechProvider } from "@/lib/speech/types";
+
+// Headless and some Linux browsers accept utterances but never fire `end`;
+// give up after a generous estimate of the speaking time
+const estimateDurationMs = (text: string, rate: number) =>
+  ((text.split(/\s+/).length / 2.5) * 1000) / Math.max(rate, 0.1) + 5000;
+
+export const getBrowserVoices = () =>
+  typeof speechSynthesis === "undefined" ? [] : speechSynthesis.getVoices();
+
+export const browserSpeechProvider: TextToSpeechProvider = {
+  backend: "browser",
+
+  isSupported: () => typeof speechSynthesis !== "undefined" && typeof SpeechSynthesisUtterance !== "undefined",
+
+  speak: (text, { settings, lang, onStart }) =>
+    new Promise<void>((resolve) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = lang;
+      utterance.rate = settings.rate;
+      utterance.pitch = settings.pitch;
+
+      // A saved voice for another language would read the question with the wrong accent
+      const language = lang.split("-")[0].toLowerCase();
+      const voices = getBrowserVoices().filter((v) => v.lang.toLowerCase().startsWith(language));
+      const voice = voices.find((v) => v.voiceURI === settings.voice) ?? voices.find((v) => v.lang === lang);
+      if (voice) utterance.voice = voice;
+
+      const timeout = setTimeout(resolve, estimateDurationMs(text, settings.rate));
+      const finish = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+
+      utterance.onstart = () => onStart();
+      utterance.onend = finish;
+      utterance.onerror = (event) => {
+        console.error("Speech synthesis error:", event.error);
+        finish();
+      };
+
+      speechSynthesis.cancel();
+      speechSynthesis.speak(utterance);
+    }),
+
+  cancel: () => {
+    if (typeof speechSynthesis !== "undefined") speechSynthesis.cancel();
+  },
+};
@@ -0,0 +1,65 @@
+import { browserSpeechProvider } from "@/lib/speech/browser-tts";
+import { serverTranscriptionProvider } from "@/lib/speech/server-stt";
+import { serverSpeechProvider } from "@/lib/speech/server-tts";
+import { webSpeechProvider } from "@/lib/speech/web-speech-stt";
+import type {
+  SpeechToTextBackend,
+  SpeechToTextProvider,
+  TextToSpeechBackend,
+  TextToSpeechProvider,
+  VoiceSettings,
+} from "@/lib/speech/types";
+
+export type {
+  SpeechToTextProvider,
+  SpeechToTextSession,
+  TextToSpeechProvider,
+  VoiceSettings,
+} from "@/lib/speech/types";
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  voice: null,
+  rate: 0.9,
+  pitch: 1,
+};
+
+const sttProviders: Record<SpeechToTextBackend, SpeechToTextProvider> = {
+  "web-speech": webSpeechProvider,
+  server: serverTranscriptionProvider,
+};
+
+const ttsProviders: Record<TextToSpeechBackend, TextToSpeechProvider> = {
+  browser: browserSpeechProvider,
+  server: serverSpeechProvider,
+};
+
+// VITE_STT_PROVIDER selects the backend per deployment: "web-speech", "server",
+// or "auto" (default) which uses the browser engine when available
+export const getSpeechToTextProvider = (): SpeechToTextProvider | null => {
+  const configured = import.meta.env.VITE_STT_PROVIDER as SpeechToTextBackend | "auto" | undefined;
+
+  if (configured && configured !== "auto") {
+    const provider = sttProviders[configured];
+    if (provider?.isSupported()) return provider;
+    console.warn(`Speech-to-text backend "${configured}" is unavailable; falling back`);
+  }
+
+  if (webSpeechProvider.isSupported()) return webSpeechProvider;
+  if (serverTranscriptionProvider.isSupported()) return serverTranscriptionProvider;
+  return null;
+};
+
+// VITE_TTS_PROVIDER works the same way: "browser", "server" or "auto" (default)
+export const getTextToSpeechProvider = (): TextToSpeechProvider | null => {
+  const configured = import.meta.env.VITE_TTS_PROVIDER as TextToSpeechBackend | "auto" | undefined;
+
+  if (configured && configured !== "auto") {
+    const provider = ttsProviders[configured];
+    if (provider?.isSupported()) return provider;
+    console.warn(`Text-to-speech backend "${configured}" is unavailable; falling back`);
+  }
+
+  if (browserSpeechProvider.isSupported()) return browserSpeechProvider;
+  if (serverSpeechProvider.isSupported()) return serverSpeechProvider;
+  return null;
+};
@@ -0,0 +1,85 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { SpeechToTextProvider } from "@/lib/speech/types";
+
+const AUDIO_MIME_TYPES = ["audio/webm;codecs=opus", "audio/ogg;codecs=opus", "audio/webm", "audio/mp4"];
+
+const getAudioMimeType = () =>
+  AUDIO_MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? "";
+
+const blobToBase64 = (blob: Blob) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const transcribeAudio = async (audio: Blob, lang: string) => {
+  const { data, error } = await supabase.functions.invoke("interview-ai", {
+    body: {
+      action: "transcribe_audio",
+      audio: await blobToBase64(audio),
+      mimeType: audio.type,
+      language: lang,
+    },
+  });
+
+  if (error) throw error;
+  return (data.result as { text: string }).text;
+};
+
+// Records the answer locally and sends it to the interview-ai function, which
+// forwards it to an OpenAI-compatible /audio/transcriptions endpoint
+export const serverTranscriptionProvider: SpeechToTextProvider = {
+  backend: "server",
+
+  isSupported: () => typeof MediaRecorder !== "undefined",
+
+  start: ({ stream, lang, onStart, onTranscript, onError, onEnd }) => {
+    const audioTracks = stream?.getAudioTracks() ?? [];
+    if (audioTracks.length === 0) {
+      onError("No microphone available");
+      onEnd();
+      return { stop: async () => "" };
+    }
+
+    const mimeType = getAudioMimeType();
+    const recorder = new MediaRecorder(new MediaStream(audioTracks), mimeType ? { mimeType } : undefined);
+    const chunks: Blob[] = [];
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstart = () => onStart();
+    recorder.start(1000);
+
+    return {
+      stop: () =>
+        new Promise<string>((resolve) => {
+          recorder.addEventListener(
+            "stop",
+            async () => {
+              onEnd();
+              try {
+                const audio = new Blob(chunks, { type: recorder.mimeType || "audio/webm" });
+                const text = audio.size > 0 ? (await transcribeAudio(audio, lang)).trim() : "";
+                onTranscript(text);
+                resolve(text);
+              } catch (error) {
+                console.error("Transcription error:", error);
+                onError("transcription-failed");
+                resolve("");
+              }
+            },
+            { once: true },
+          );
+
+          if (recorder.state === "inactive") {
+            recorder.dispatchEvent(new Event("stop"));
+          } else {
+            recorder.stop();
+          }
+        }),
+    };
+  },
+};
@@ -0,0 +1,73 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { TextToSpeechProvider, VoiceSettings } from "@/lib/speech/types";
+
+// Voices offered by OpenAI-compatible /audio/speech endpoints
+export const SERVER_VOICES = ["alloy", "echo", "fable", "onyx", "nova", "shimmer"];
+
+// Rendered audio per voice/rate/text, so replaying a question plays the local copy
+const audioCache = new Map<string, Promise<string>>();
+
+let currentAudio: HTMLAudioElement | null = null;
+
+const fetchSpeechUrl = async (text: string, settings: VoiceSettings) => {
+  const { data, error } = await supabase.functions.invoke("interview-ai", {
+    body: {
+      action: "synthesize_speech",
+      text,
+      voice: settings.voice ?? undefined,
+      speed: settings.rate,
+    },
+  });
+
+  if (error) throw error;
+
+  const response = await fetch((data.result as { url: string }).url);
+  if (!response.ok) throw new Error(`Failed to download speech audio: ${response.status}`);
+  return URL.createObjectURL(await response.blob());
+};
+
+const getSpeechUrl = (text: string, settings: VoiceSettings) => {
+  const key = `${settings.voice ?? "default"}|${settings.rate}|${text}`;
+  let cached = audioCache.get(key);
+  if (!cached) {
+    cached = fetchSpeechUrl(text, settings);
+    // Don't keep failures around; the next attempt should hit the server again
+    cached.catch(() => audioCache.delete(key));
+    audioCache.set(key, cached);
+  }
+  return cached;
+};
+
+export const serverSpeechProvider: TextToSpeechProvider = {
+  backend: "server",
+
+  isSupported: () => typeof Audio !== "undefined",
+
+  speak: async (text, { settings, onStart }) => {
+    const url = await getSpeechUrl(text, settings);
+
+    await new Promise<void>((resolve) => {
+      serverSpeechProvider.cancel();
+      const audio = new Audio(url);
+      currentAudio = audio;
+
+      audio.onplay = () => onStart();
+      audio.onended = () => resolve();
+      audio.onpause = () => resolve();
+      audio.onerror = () => {
+        console.error("Speech audio playback error:", audio.error);
+        resolve();
+      };
+
+      audio.play().catch((error) => {
+        console.error("Speech audio playback error:", error);
+        resolve();
+      });
+    });
+  },
+
+  cancel: () => {
+    currentAudio?.pause();
+    currentAudio = null;
+  },
+};
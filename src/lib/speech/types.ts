@@ -0,0 +1,45 @@
+export type SpeechToTextBackend = "web-speech" | "server";
+
+export interface SpeechToTextOptions {
+  stream: MediaStream | null;
+  lang: string;
+  onStart: () => void;
+  // Called with the full transcript so far (final + interim text)
+  onTranscript: (transcript: string) => void;
+  onError: (message: string) => void;
+  onEnd: () => void;
+}
+
+export interface SpeechToTextSession {
+  // Stops capturing and resolves with the final transcript
+  stop: () => Promise<string>;
+}
+
+export interface SpeechToTextProvider {
+  backend: SpeechToTextBackend;
+  isSupported: () => boolean;
+  start: (options: SpeechToTextOptions) => SpeechToTextSession;
+}
+
+export type TextToSpeechBackend = "browser" | "server";
+
+export interface VoiceSettings {
+  // Browser voiceURI, or a server voice name, depending on the active backend
+  voice: string | null;
+  rate: number;
+  pitch: number;
+}
+
+export interface SpeakOptions {
+  settings: VoiceSettings;
+  lang: string;
+  onStart: () => void;
+}
+
+export interface TextToSpeechProvider {
+  backend: TextToSpeechBackend;
+  isSupported: () => boolean;
+  // Resolves once playback has finished (or failed)
+  speak: (text: string, options: SpeakOptions) => Promise<void>;
+  cancel: () => void;
+}
@@ -0,0 +1,63 @@
+import type { SpeechToTextProvider } from "@/lib/speech/types";
+
+// Browsers sometimes never fire `end` after stop(); don't hang the interview on it
+const STOP_TIMEOUT_MS = 1500;
+
+const getRecognitionClass = () =>
+  typeof window === "undefined" ? undefined : window.SpeechRecognition || window.webkitSpeechRecognition;
+
+export const webSpeechProvider: SpeechToTextProvider = {
+  backend: "web-speech",
+
+  isSupported: () => !!getRecognitionClass(),
+
+  start: ({ lang, onStart, onTranscript, onError, onEnd }) => {
+    const SpeechRecognitionClass = getRecognitionClass();
+    const recognition = new SpeechRecognitionClass();
+
+    recognition.continuous = true;
+    recognition.interimResults = true;
+    recognition.lang = lang;
+
+    let finalTranscript = "";
+    let latestTranscript = "";
+    let resolveStop: ((transcript: string) => void) | null = null;
+
+    recognition.onstart = () => onStart();
+
+    recognition.onresult = (event) => {
+      let interimTranscript = "";
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const transcript = event.results[i][0].transcript;
+        if (event.results[i].isFinal) {
+          finalTranscript += transcript + " ";
+        } else {
+          interimTranscript += transcript;
+        }
+      }
+      latestTranscript = finalTranscript + interimTranscript;
+      onTranscript(latestTranscript);
+    };
+
+    recognition.onerror = (event) => {
+      console.error("Speech recognition error:", event.error);
+      onError(event.error);
+    };
+
+    recognition.onend = () => {
+      onEnd();
+      resolveStop?.(latestTranscript);
+    };
+
+    recognition.start();
+
+    return {
+      stop: () =>
+        new Promise<string>((resolve) => {
+          resolveStop = resolve;
+          setTimeout(() => resolve(latestTranscript), STOP_TIMEOUT_MS);
+          recognition.stop();
+        }),
+    };
+  },
+};
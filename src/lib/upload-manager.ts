@@ -0,0 +1,331 @@
+import { supabase } from "@/integrations/supabase/client";
+import { RECORDINGS_BUCKET } from "@/lib/recording";
+import {
+  deleteUpload,
+  getChunk,
+  isUploadStoreAvailable,
+  listUploads,
+  saveUpload,
+  StoredUpload,
+  updateUpload,
+} from "@/lib/upload-store";
+
+// Supabase's resumable (TUS) endpoint only accepts 6MB chunks
+export const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+export const MAX_UPLOAD_ATTEMPTS = 6;
+
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+const RESUMABLE_ENDPOINT = `${import.meta.env.VITE_SUPABASE_URL}/storage/v1/upload/resumable`;
+
+export type UploadStatus = "queued" | "uploading" | "retrying" | "completed" | "failed";
+
+export interface UploadState {
+  id: string;
+  path: string;
+  label: string;
+  size: number;
+  uploadedBytes: number;
+  status: UploadStatus;
+  error: string | null;
+}
+
+class UploadError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+export const splitIntoChunks = (blob: Blob, chunkSize = UPLOAD_CHUNK_SIZE) => {
+  const chunks: Blob[] = [];
+  for (let offset = 0; offset < blob.size; offset += chunkSize) {
+    chunks.push(blob.slice(offset, offset + chunkSize));
+  }
+  return chunks.length > 0 ? chunks : [blob];
+};
+
+// Exponential backoff: 1s, 2s, 4s, ... capped at 30s
+export const getRetryDelay = (attempt: number) =>
+  Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt);
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// --- Observable state -------------------------------------------------------
+
+let uploads: UploadState[] = [];
+const listeners = new Set<() => void>();
+const waiters = new Map<string, ((state: UploadState) => void)[]>();
+const records = new Map<string, StoredUpload>();
+const memoryChunks = new Map<string, Blob[]>();
+
+const setUploadState = (id: string, patch: Partial<UploadState>) => {
+  uploads = uploads.map((upload) => (upload.id === id ? { ...upload, ...patch } : upload));
+  listeners.forEach((listener) => listener());
+
+  const state = uploads.find((upload) => upload.id === id);
+  if (state && (state.status === "completed" || state.status === "failed")) {
+    waiters.get(id)?.forEach((resolve) => resolve(state));
+    waiters.delete(id);
+  }
+};
+
+const addUploadState = (state: UploadState) => {
+  uploads = [...uploads.filter((upload) => upload.id !== state.id), state];
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeToUploads = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getUploadsSnapshot = () => uploads;
+
+// --- Persistence --------------------------------------------------------------
+
+const persist = async (operation: () => Promise<unknown>) => {
+  if (!isUploadStoreAvailable()) return;
+  try {
+    await operation();
+  } catch (error) {
+    console.error("Failed to persist upload state:", error);
+  }
+};
+
+const readChunk = async (upload: StoredUpload, index: number) => {
+  const inMemory = memoryChunks.get(upload.id)?.[index];
+  if (inMemory) return inMemory;
+  return isUploadStoreAvailable() ? getChunk(upload.id, index) : undefined;
+};
+
+// --- TUS protocol -------------------------------------------------------------
+
+const getHeaders = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) {
+    throw new UploadError("Authentication required to upload", false);
+  }
+  return {
+    Authorization: `Bearer ${session.access_token}`,
+    apikey: import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY,
+    "Tus-Resumable": "1.0.0",
+  };
+};
+
+const checkResponse = async (response: Response, action: string) => {
+  if (response.ok) return;
+  // Server errors, throttling and offset conflicts are worth another attempt
+  const retryable = response.status >= 500 || [408, 409, 429].includes(response.status);
+  const detail = await response.text().catch(() => "");
+  throw new UploadError(`${action} failed (${response.status})${detail ? `: ${detail}` : ""}`, retryable);
+};
+
+const encodeMetadata = (metadata: Record<string, string>) =>
+  Object.entries(metadata)
+    .map(([key, value]) => `${key} ${btoa(value)}`)
+    .join(",");
+
+const createUploadSession = async (upload: StoredUpload) => {
+  const response = await fetch(RESUMABLE_ENDPOINT, {
+    method: "POST",
+    headers: {
+      ...(await getHeaders()),
+      "Upload-Length": String(upload.size),
+      "Upload-Metadata": encodeMetadata({
+        bucketName: upload.bucket,
+        objectName: upload.path,
+        contentType: upload.contentType,
+      }),
+      "x-upsert": "true",
+    },
+  });
+  await checkResponse(response, "Starting upload");
+
+  const location = response.headers.get("Location");
+  if (!location) {
+    throw new UploadError("Upload server did not return a location", true);
+  }
+  return new URL(location, RESUMABLE_ENDPOINT).toString();
+};
+
+// Returns null when the server no longer knows the upload (expired session)
+const getServerOffset = async (uploadUrl: string) => {
+  const response = await fetch(uploadUrl, { method: "HEAD", headers: await getHeaders() });
+  if (response.status === 404 || response.status === 410) return null;
+  await checkResponse(response, "Checking upload");
+  return Number(response.headers.get("Upload-Offset") ?? 0);
+};
+
+const sendChunk = async (uploadUrl: string, offset: number, body: Blob) => {
+  const response = await fetch(uploadUrl, {
+    method: "PATCH",
+    headers: {
+      ...(await getHeaders()),
+      "Upload-Offset": String(offset),
+      "Content-Type": "application/offset+octet-stream",
+    },
+    body,
+  });
+  await checkResponse(response, "Uploading chunk");
+  return Number(response.headers.get("Upload-Offset") ?? offset + body.size);
+};
+
+// --- Queue --------------------------------------------------------------------
+
+const uploadRemainingChunks = async (upload: StoredUpload) => {
+  if (!upload.uploadUrl) {
+    upload.uploadUrl = await createUploadSession(upload);
+    await persist(() => updateUpload(upload));
+  }
+
+  let offset = await getServerOffset(upload.uploadUrl);
+  if (offset === null) {
+    upload.uploadUrl = await createUploadSession(upload);
+    await persist(() => updateUpload(upload));
+    offset = 0;
+  }
+
+  while (offset < upload.size) {
+    const index = Math.floor(offset / upload.chunkSize);
+    const chunk = await readChunk(upload, index);
+    if (!chunk) {
+      throw new UploadError("Upload data is no longer available on this device", false);
+    }
+
+    const body = chunk.slice(offset - index * upload.chunkSize);
+    offset = await sendChunk(upload.uploadUrl, offset, body);
+    setUploadState(upload.id, { uploadedBytes: offset, status: "uploading", error: null });
+  }
+};
+
+const processUpload = async (upload: StoredUpload) => {
+  let attempt = 0;
+
+  while (true) {
+    try {
+      setUploadState(upload.id, { status: "uploading", error: null });
+      await uploadRemainingChunks(upload);
+
+      await persist(() => deleteUpload(upload));
+      memoryChunks.delete(upload.id);
+      records.delete(upload.id);
+      setUploadState(upload.id, { status: "completed", uploadedBytes: upload.size });
+      return;
+    } catch (error) {
+      // Network failures surface as TypeError from fetch and are retryable
+      const retryable = !(error instanceof UploadError) || error.retryable;
+      const message = error instanceof Error ? error.message : "Upload failed";
+      attempt++;
+
+      if (!retryable || attempt >= MAX_UPLOAD_ATTEMPTS) {
+        console.error(`Upload of ${upload.path} failed:`, error);
+        setUploadState(upload.id, { status: "failed", error: message });
+        return;
+      }
+
+      setUploadState(upload.id, { status: "retrying", error: message });
+      await sleep(getRetryDelay(attempt - 1));
+    }
+  }
+};
+
+// Uploads run one at a time so a large recording doesn't starve the photos of bandwidth
+let queue = Promise.resolve();
+
+const schedule = (upload: StoredUpload) => {
+  records.set(upload.id, upload);
+  queue = queue.then(() => processUpload(upload));
+};
+
+export const enqueueUpload = async ({ path, blob, label }: { path: string; blob: Blob; label: string }) => {
+  const chunks = splitIntoChunks(blob);
+  const upload: StoredUpload = {
+    id: path,
+    bucket: RECORDINGS_BUCKET,
+    path,
+    label,
+    contentType: blob.type || "application/octet-stream",
+    size: blob.size,
+    chunkSize: UPLOAD_CHUNK_SIZE,
+    chunkCount: chunks.length,
+    uploadUrl: null,
+    createdAt: Date.now(),
+  };
+
+  memoryChunks.set(upload.id, chunks);
+  addUploadState({
+    id: upload.id,
+    path,
+    label,
+    size: upload.size,
+    uploadedBytes: 0,
+    status: "queued",
+    error: null,
+  });
+
+  await persist(() => saveUpload(upload, chunks));
+  schedule(upload);
+  return upload.id;
+};
+
+export const waitForUpload = (id: string) => {
+  const state = uploads.find((upload) => upload.id === id);
+  if (!state || state.status === "completed" || state.status === "failed") {
+    return Promise.resolve(state);
+  }
+  return new Promise<UploadState>((resolve) => {
+    waiters.set(id, [...(waiters.get(id) ?? []), resolve]);
+  });
+};
+
+// Pick up uploads interrupted by a reload; only the owner's files can be resumed
+export const resumePendingUploads = async (userId: string) => {
+  if (!isUploadStoreAvailable()) return;
+
+  let stored: StoredUpload[] = [];
+  try {
+    stored = await listUploads();
+  } catch (error) {
+    console.error("Failed to read pending uploads:", error);
+    return;
+  }
+
+  stored
+    .filter((upload) => upload.path.startsWith(`${userId}/`))
+    .filter((upload) => !uploads.some((state) => state.id === upload.id))
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .forEach((upload) => {
+      addUploadState({
+        id: upload.id,
+        path: upload.path,
+        label: upload.label,
+        size: upload.size,
+        uploadedBytes: 0,
+        status: "queued",
+        error: null,
+      });
+      schedule(upload);
+    });
+};
+
+export const retryUpload = (id: string) => {
+  const upload = records.get(id);
+  if (!upload) return;
+  setUploadState(id, { status: "queued", error: null });
+  schedule(upload);
+};
+
+export const dismissUpload = async (id: string) => {
+  const upload = records.get(id);
+  if (upload) {
+    await persist(() => deleteUpload(upload));
+    records.delete(id);
+    memoryChunks.delete(id);
+  }
+  uploads = uploads.filter((state) => state.id !== id);
+  listeners.forEach((listener) => listener());
+};
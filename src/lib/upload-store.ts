@@ -0,0 +1,93 @@
+// IndexedDB persistence for pending uploads so they survive a page reload
+
+const DB_NAME = "interview-uploads";
+const DB_VERSION = 1;
+const UPLOADS_STORE = "uploads";
+const CHUNKS_STORE = "chunks";
+
+export interface StoredUpload {
+  id: string;
+  bucket: string;
+  path: string;
+  label: string;
+  contentType: string;
+  size: number;
+  chunkSize: number;
+  chunkCount: number;
+  uploadUrl: string | null;
+  createdAt: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(UPLOADS_STORE)) {
+          db.createObjectStore(UPLOADS_STORE, { keyPath: "id" });
+        }
+        if (!db.objectStoreNames.contains(CHUNKS_STORE)) {
+          db.createObjectStore(CHUNKS_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const run = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  operation: (tx: IDBTransaction) => IDBRequest<T> | void,
+) => {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    const request = operation(tx);
+    tx.oncomplete = () => resolve(request ? request.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const chunkKey = (uploadId: string, index: number) => `${uploadId}:${index}`;
+
+export const isUploadStoreAvailable = () => typeof indexedDB !== "undefined";
+
+// Store the upload record together with every chunk of its blob
+export const saveUpload = (upload: StoredUpload, chunks: Blob[]) =>
+  run([UPLOADS_STORE, CHUNKS_STORE], "readwrite", (tx) => {
+    tx.objectStore(UPLOADS_STORE).put(upload);
+    const chunkStore = tx.objectStore(CHUNKS_STORE);
+    chunks.forEach((chunk, index) => chunkStore.put(chunk, chunkKey(upload.id, index)));
+  });
+
+export const updateUpload = (upload: StoredUpload) =>
+  run([UPLOADS_STORE], "readwrite", (tx) => {
+    tx.objectStore(UPLOADS_STORE).put(upload);
+  });
+
+export const listUploads = () =>
+  run<StoredUpload[]>([UPLOADS_STORE], "readonly", (tx) => tx.objectStore(UPLOADS_STORE).getAll());
+
+export const getChunk = (uploadId: string, index: number) =>
+  run<Blob | undefined>([CHUNKS_STORE], "readonly", (tx) =>
+    tx.objectStore(CHUNKS_STORE).get(chunkKey(uploadId, index)),
+  );
+
+export const deleteUpload = (upload: StoredUpload) =>
+  run([UPLOADS_STORE, CHUNKS_STORE], "readwrite", (tx) => {
+    tx.objectStore(UPLOADS_STORE).delete(upload.id);
+    const chunkStore = tx.objectStore(CHUNKS_STORE);
+    for (let index = 0; index < upload.chunkCount; index++) {
+      chunkStore.delete(chunkKey(upload.id, index));
+    }
+  });
@@ -0,0 +1,106 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+export type Webhook = Tables<"webhooks">;
+export type WebhookDelivery = Tables<"webhook_deliveries">;
+
+// Events a webhook can subscribe to; the migration's check constraint lists the same ones
+export const WEBHOOK_EVENTS = [
+  "interview.created",
+  "interview.completed",
+  "interview.analyzed",
+  "review.submitted",
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+export interface WebhookInput {
+  organizationId: string;
+  url: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+}
+
+// What the webhook-dispatcher edge function reports for a test event
+export interface WebhookTestResult {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+}
+
+// Deliveries shown in the log
+const DELIVERY_LOG_LIMIT = 50;
+
+export const isValidWebhookUrl = (value: string) => {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "https:" || url.protocol === "http:";
+  } catch {
+    return false;
+  }
+};
+
+// Webhooks of the organizations the user recruits for; admins see all of them
+export const listWebhooks = async () => {
+  const { data, error } = await supabase
+    .from("webhooks")
+    .select("*")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data;
+};
+
+export const createWebhook = async (userId: string, input: WebhookInput) => {
+  const { error } = await supabase.from("webhooks").insert({
+    organization_id: input.organizationId,
+    url: input.url.trim(),
+    events: input.events,
+    enabled: input.enabled,
+    created_by: userId,
+  });
+
+  if (error) throw error;
+};
+
+export const updateWebhook = async (id: string, input: WebhookInput) => {
+  const { error } = await supabase
+    .from("webhooks")
+    .update({
+      organization_id: input.organizationId,
+      url: input.url.trim(),
+      events: input.events,
+      enabled: input.enabled,
+    })
+    .eq("id", id);
+
+  if (error) throw error;
+};
+
+export const deleteWebhook = async (id: string) => {
+  const { error } = await supabase.from("webhooks").delete().eq("id", id);
+
+  if (error) throw error;
+};
+
+// Most recent deliveries across the user's webhooks, with the URL each went to
+export const listDeliveries = async () => {
+  const { data, error } = await supabase
+    .from("webhook_deliveries")
+    .select("*, webhooks(url)")
+    .order("created_at", { ascending: false })
+    .limit(DELIVERY_LOG_LIMIT);
+
+  if (error) throw error;
+  return data.map(({ webhooks, ...delivery }) => ({ ...delivery, url: webhooks?.url ?? null }));
+};
+
+// Sends a webhook.test event right away; it shows up in the delivery log like any other
+export const sendTestEvent = async (webhookId: string) => {
+  const { data, error } = await supabase.functions.invoke("webhook-dispatcher", {
+    body: { action: "test", webhookId },
+  });
+
+  if (error) throw error;
+  return data.result as WebhookTestResult;
+};
@@ -4,56 +4,61 @@ import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { LanguageSelect } from "@/components/LanguageSelect";
+import { useLocale } from "@/hooks/useLocale";
 import { toast } from "sonner";
-import { useNavigate } from "react-router-dom";
+import { useLocation, useNavigate } from "react-router-dom";
 import { Loader2, Mail, Lock, User, Sparkles } from "lucide-react";
 import { z } from "zod";
 
-const emailSchema = z.string().email("Please enter a valid email address");
-const passwordSchema = z.string().min(6, "Password must be at least 6 characters");
+const emailSchema = z.string().email();
+const passwordSchema = z.string().min(6);
 
 const Auth = () => {
+  const { t } = useLocale();
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
   const [fullName, setFullName] = useState("");
   const [loading, setLoading] = useState(false);
   const navigate = useNavigate();
+  const location = useLocation();
+  const from = (location.state as { from?: string } | null)?.from ?? "/";
 
   useEffect(() => {
     // Check if user is already logged in
     const { data: { subscription } } = supabase.auth.onAuthStateChange((event, session) => {
       if (session?.user) {
-        navigate("/");
+        navigate(from, { replace: true });
       }
     });
 
     supabase.auth.getSession().then(({ data: { session } }) => {
       if (session?.user) {
-        navigate("/");
+        navigate(from, { replace: true });
       }
     });
 
     return () => subscription.unsubscribe();
-  }, [navigate]);
+  }, [navigate, from]);
 
   const validateInputs = () => {
     try {
       emailSchema.parse(email);
     } catch {
-      toast.error("Please enter a valid email address");
+      toast.error(t("auth.invalidEmail"));
       return false;
     }
 
     try {
       passwordSchema.parse(password);
     } catch {
-      toast.error("Password must be at least 6 characters");
+      toast.error(t("auth.passwordTooShort"));
       return false;
     }
 
     if (!isLogin && !fullName.trim()) {
-      toast.error("Please enter your full name");
+      toast.error(t("auth.fullNameRequired"));
       return false;
     }
 
@@ -76,19 +81,19 @@ const Auth = () => {
 
         if (error) {
           if (error.message.includes("Invalid login credentials")) {
-            toast.error("Invalid email or password. Please try again.");
+            toast.error(t("auth.invalidCredentials"));
           } else if (error.message.includes("Email not confirmed")) {
-            toast.error("Please verify your email before logging in.");
+            toast.error(t("auth.emailNotConfirmed"));
           } else {
             toast.error(error.message);
           }
           return;
         }
 
-        toast.success("Welcome back!");
-        navigate("/");
+        toast.success(t("auth.welcomeBack"));
+        navigate(from, { replace: true });
       } else {
-        const redirectUrl = `${window.location.origin}/`;
+        const redirectUrl = `${window.location.origin}${from}`;
 
         const { error } = await supabase.auth.signUp({
           email,
@@ -103,19 +108,19 @@ const Auth = () => {
 
         if (error) {
           if (error.message.includes("already registered")) {
-            toast.error("This email is already registered. Please log in instead.");
+            toast.error(t("auth.alreadyRegistered"));
           } else {
             toast.error(error.message);
           }
           return;
         }
 
-        toast.success("Account created! Please check your email to verify your account.");
+        toast.success(t("auth.accountCreated"));
         setIsLogin(true);
       }
     } catch (error) {
       console.error("Auth error:", error);
-      toast.error("An unexpected error occurred. Please try again.");
+      toast.error(t("auth.unexpectedError"));
     } finally {
       setLoading(false);
     }
@@ -137,6 +142,11 @@ const Auth = () => {
         />
       </div>
 
+      {/* Language */}
+      <div className="absolute top-4 right-4 z-10">
+        <LanguageSelect className="w-40" />
+      </div>
+
       <motion.div
         initial={{ opacity: 0, y: 20 }}
         animate={{ opacity: 1, y: 0 }}
@@ -154,10 +164,10 @@ const Auth = () => {
             <Sparkles className="w-10 h-10 text-primary" />
           </div>
           <h1 className="text-3xl font-display font-bold gradient-text">
-            AI Interviewer
+            {t("auth.brand")}
           </h1>
           <p className="text-muted-foreground mt-2">
-            {isLogin ? "Welcome back! Sign in to continue." : "Create an account to get started."}
+            {isLogin ? t("auth.signInPrompt") : t("auth.signUpPrompt")}
           </p>
         </motion.div>
 
@@ -176,13 +186,13 @@ const Auth = () => {
                 exit={{ opacity: 0, height: 0 }}
                 className="space-y-2"
               >
-                <Label htmlFor="fullName">Full Name</Label>
+                <Label htmlFor="fullName">{t("auth.fullName")}</Label>
                 <div className="relative">
                   <User className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
                   <Input
                     id="fullName"
                     type="text"
-                    placeholder="John Doe"
+                    placeholder={t("auth.fullNamePlaceholder")}
                     value={fullName}
                     onChange={(e) => setFullName(e.target.value)}
                     className="pl-10 h-12 bg-background/50"
@@ -192,7 +202,7 @@ const Auth = () => {
             )}
 
             <div className="space-y-2">
-              <Label htmlFor="email">Email</Label>
+              <Label htmlFor="email">{t("auth.email")}</Label>
               <div className="relative">
                 <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
                 <Input
@@ -208,7 +218,7 @@ const Auth = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <Label htmlFor="password">{t("auth.password")}</Label>
               <div className="relative">
                 <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
                 <Input
@@ -231,9 +241,9 @@ const Auth = () => {
               {loading ? (
                 <Loader2 className="w-5 h-5 animate-spin" />
               ) : isLogin ? (
-                "Sign In"
+                t("auth.signIn")
               ) : (
-                "Create Account"
+                t("auth.createAccount")
               )}
             </Button>
           </form>
@@ -246,13 +256,13 @@ const Auth = () => {
             >
               {isLogin ? (
                 <>
-                  Don't have an account?{" "}
-                  <span className="text-primary font-medium">Sign up</span>
+                  {t("auth.noAccount")}{" "}
+                  <span className="text-primary font-medium">{t("auth.signUpLink")}</span>
                 </>
               ) : (
                 <>
-                  Already have an account?{" "}
-                  <span className="text-primary font-medium">Sign in</span>
+                  {t("auth.haveAccount")}{" "}
+                  <span className="text-primary font-medium">{t("auth.signInLink")}</span>
                 </>
               )}
             </button>
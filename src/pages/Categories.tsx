@@ -0,0 +1,175 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, LayoutGrid, Loader2, Pencil, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { CategoryDialog } from "@/components/admin/CategoryDialog";
+import { useCategories } from "@/hooks/useCategories";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  Category,
+  CategoryInput,
+  createCategory,
+  getCategoryIcon,
+  updateCategory,
+} from "@/lib/categories";
+import { toast } from "sonner";
+
+const Categories = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { categories, isLoading, isError } = useCategories();
+  const { t } = useLocale();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Category | null>(null);
+
+  const saveMutation = useMutation({
+    mutationFn: (input: CategoryInput) => {
+      if (editing) return updateCategory(editing.slug, input);
+      const lastOrder = Math.max(0, ...categories.map((category) => category.sort_order));
+      return createCategory(input, lastOrder + 1);
+    },
+    onSuccess: () => {
+      toast.success(t("categories.saved"));
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["categories"] });
+    },
+    onError: (error) => {
+      console.error("Error saving category:", error);
+      toast.error(t("categories.saveFailed"));
+    },
+  });
+
+  const openDialog = (category: Category | null) => {
+    setEditing(category);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen py-12 px-6">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="mb-6 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {t("common.back")}
+          </Button>
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl md:text-4xl font-display font-bold mb-2 flex items-center gap-3">
+                <LayoutGrid className="w-8 h-8 text-primary" />
+                {t("categories.title")}
+              </h1>
+              <p className="text-muted-foreground">{t("categories.subtitle")}</p>
+            </div>
+            <Button onClick={() => openDialog(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              {t("categories.add")}
+            </Button>
+          </div>
+        </motion.div>
+
+        {/* Categories */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="glass rounded-2xl p-6"
+        >
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : isError ? (
+            <p className="text-center text-muted-foreground py-12">{t("categories.loadFailed")}</p>
+          ) : categories.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">{t("categories.empty")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("categories.name")}</TableHead>
+                  <TableHead>{t("categories.slug")}</TableHead>
+                  <TableHead>{t("categories.promptContext")}</TableHead>
+                  <TableHead className="w-16" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {categories.map((category) => {
+                  const Icon = getCategoryIcon(category.icon);
+                  return (
+                    <TableRow key={category.slug} className={category.enabled ? "" : "opacity-50"}>
+                      <TableCell>
+                        <div className="flex items-center gap-3">
+                          <div
+                            className={`w-9 h-9 shrink-0 rounded-lg bg-gradient-to-br ${category.color} flex items-center justify-center`}
+                          >
+                            <Icon className="w-4 h-4 text-white" />
+                          </div>
+                          <div>
+                            <p className="font-medium flex items-center gap-2">
+                              {category.name}
+                              {!category.enabled && <Badge variant="outline">{t("categories.disabled")}</Badge>}
+                            </p>
+                            {category.description && (
+                              <p className="text-sm text-muted-foreground">{category.description}</p>
+                            )}
+                          </div>
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground font-mono text-sm">{category.slug}</TableCell>
+                      <TableCell className="text-muted-foreground text-sm max-w-xs truncate">
+                        {category.prompt_context ?? "—"}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => openDialog(category)}
+                            title={t("common.edit")}
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </motion.div>
+      </div>
+
+      <CategoryDialog
+        open={dialogOpen}
+        category={editing}
+        existingSlugs={categories.map((category) => category.slug)}
+        isSaving={saveMutation.isPending}
+        onOpenChange={setDialogOpen}
+        onSave={(input) => saveMutation.mutate(input)}
+      />
+    </div>
+  );
+};
+
+export default Categories;
@@ -0,0 +1,304 @@
+import { useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, History as HistoryIcon, Loader2, Upload } from "lucide-react";
+import { ExportMenu } from "@/components/ExportMenu";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useCategories } from "@/hooks/useCategories";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import {
+  getRecommendationBadge,
+  getScoreColor,
+  InterviewFilters,
+  InterviewStatus,
+  listInterviews,
+  statusLabels,
+} from "@/lib/interviews";
+import { getImportErrorKey, importInterviews, listInterviewsForExport, parseInterviewExport } from "@/lib/interview-export";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 10;
+const ALL = "all";
+
+const History = () => {
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { t, dateLocale } = useLocale();
+  const { categories, getCategoryName } = useCategories();
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<InterviewFilters>({});
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["interviews", page, filters],
+    queryFn: () => listInterviews({ userId: user.id, page, pageSize: PAGE_SIZE, filters }),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => importInterviews(user.id, parseInterviewExport(await file.text())),
+    onSuccess: ({ imported, skipped }) => {
+      toast.success(t("transfer.imported", { imported, skipped }));
+      queryClient.invalidateQueries({ queryKey: ["interviews"] });
+    },
+    onError: (error) => {
+      console.error("Error importing interviews:", error);
+      toast.error(t(getImportErrorKey(error)));
+    },
+  });
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after a failed import
+    e.target.value = "";
+    if (file) importMutation.mutate(file);
+  };
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+
+  const updateFilter = (key: keyof InterviewFilters, value: string) => {
+    setFilters((prev) => ({ ...prev, [key]: value === ALL ? undefined : value }));
+    setPage(0);
+  };
+
+  return (
+    <div className="min-h-screen py-12 px-6">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="mb-6 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {t("common.back")}
+          </Button>
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl md:text-4xl font-display font-bold mb-2 flex items-center gap-3">
+                <HistoryIcon className="w-8 h-8 text-primary" />
+                {t("history.title")}
+              </h1>
+              <p className="text-muted-foreground">{t("history.subtitle")}</p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              <ExportMenu loadRows={() => listInterviewsForExport(user.id, filters)} filename="interviews" />
+              <Button
+                variant="outline"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={importMutation.isPending}
+              >
+                {importMutation.isPending ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="w-4 h-4 mr-2" />
+                )}
+                {t("transfer.import")}
+              </Button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={handleImportFile}
+              />
+            </div>
+          </div>
+        </motion.div>
+
+        {/* Filters */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="grid sm:grid-cols-3 gap-3 mb-6"
+        >
+          <Select value={filters.category ?? ALL} onValueChange={(v) => updateFilter("category", v)}>
+            <SelectTrigger>
+              <SelectValue placeholder={t("history.category")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t("history.allCategories")}</SelectItem>
+              {categories.map((c) => (
+                <SelectItem key={c.slug} value={c.slug}>
+                  {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select value={filters.status ?? ALL} onValueChange={(v) => updateFilter("status", v)}>
+            <SelectTrigger>
+              <SelectValue placeholder={t("history.status")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t("history.allStatuses")}</SelectItem>
+              {(Object.keys(statusLabels) as InterviewStatus[]).map((status) => (
+                <SelectItem key={status} value={status}>
+                  {t(statusLabels[status])}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.recommendation ?? ALL}
+            onValueChange={(v) => updateFilter("recommendation", v)}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder={t("history.recommendation")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t("history.allRecommendations")}</SelectItem>
+              {["hire", "consider", "not_recommended"].map((rec) => (
+                <SelectItem key={rec} value={rec}>
+                  {t(getRecommendationBadge(rec).labelKey)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </motion.div>
+
+        {/* Sessions */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="glass rounded-2xl p-6 mb-6"
+        >
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : isError ? (
+            <p className="text-center text-muted-foreground py-12">
+              {t("history.loadFailed")}
+            </p>
+          ) : data.interviews.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">{t("history.empty")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("history.category")}</TableHead>
+                  <TableHead>{t("history.date")}</TableHead>
+                  <TableHead>{t("history.score")}</TableHead>
+                  <TableHead>{t("history.recommendation")}</TableHead>
+                  <TableHead>{t("history.status")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.interviews.map((interview) => (
+                  <TableRow
+                    key={interview.id}
+                    onClick={() => navigate(`/interviews/${interview.id}`)}
+                    className="cursor-pointer"
+                  >
+                    <TableCell className="font-medium">{getCategoryName(interview.category)}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(interview.created_at), "PP p", { locale: dateLocale })}
+                    </TableCell>
+                    <TableCell>
+                      {interview.score !== null ? (
+                        <span className={`font-semibold ${getScoreColor(interview.score)}`}>
+                          {interview.score}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {interview.recommendation ? (
+                        <span
+                          className={`inline-flex px-3 py-1 rounded-full text-xs font-medium border ${getRecommendationBadge(interview.recommendation).color}`}
+                        >
+                          {t(getRecommendationBadge(interview.recommendation).labelKey)}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {interview.status in statusLabels
+                        ? t(statusLabels[interview.status as InterviewStatus])
+                        : interview.status}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </motion.div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage((p) => Math.max(0, p - 1));
+                  }}
+                  className={page === 0 ? "pointer-events-none opacity-50" : ""}
+                >
+                  {t("history.previous")}
+                </PaginationPrevious>
+              </PaginationItem>
+              <PaginationItem>
+                <span className="px-4 text-sm text-muted-foreground">
+                  {t("history.page", { page: page + 1, total: totalPages })}
+                </span>
+              </PaginationItem>
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage((p) => Math.min(totalPages - 1, p + 1));
+                  }}
+                  className={page >= totalPages - 1 ? "pointer-events-none opacity-50" : ""}
+                >
+                  {t("history.next")}
+                </PaginationNext>
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default History;
@@ -1,59 +1,124 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { AnimatePresence, motion } from "framer-motion";
 import { useAuth } from "@/hooks/useAuth";
+import { useLocale } from "@/hooks/useLocale";
+import { useRoles } from "@/hooks/useRoles";
 import { CategorySelection } from "@/components/CategorySelection";
 import { InterviewRoom } from "@/components/InterviewRoom";
 import { ResultsScreen } from "@/components/ResultsScreen";
 import { Button } from "@/components/ui/button";
-import { LogOut } from "lucide-react";
+import { UploadProgress } from "@/components/UploadProgress";
+import { createInterview, InterviewResponse } from "@/lib/interviews";
+import type { IntegrityEvent } from "@/lib/integrity";
+import type { InvitedInterview } from "@/lib/invites";
+import { DEFAULT_LOCALE, Locale } from "@/lib/i18n";
+import { resumePendingUploads } from "@/lib/upload-manager";
+import { useUploads } from "@/hooks/useUploads";
+import { toast } from "sonner";
+import { useLocation, useNavigate } from "react-router-dom";
+import { BookOpen, History, LayoutGrid, LogOut, Users } from "lucide-react";
 
 type Step = "category" | "interview" | "results";
 
 interface InterviewData {
+  interviewId: string | null;
   candidateName: string;
   category: string;
+  locale: Locale;
   questions: string[];
-  responses: { question: string; answer: string }[];
-  videoUrl: string | null;
+  responses: InterviewResponse[];
+  videoPath: string | null;
+  photos: string[];
+  integrityEvents: IntegrityEvent[];
+  presetQuestions?: string[];
 }
 
 const Index = () => {
   const { user, signOut } = useAuth();
-  const [step, setStep] = useState<Step>("category");
+  const { t } = useLocale();
+  const { hasRole } = useRoles();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const uploads = useUploads();
+  // Set by the invite page, which has already created the interview
+  const invited = (location.state as { invitedInterview?: InvitedInterview } | null)?.invitedInterview;
+  const [step, setStep] = useState<Step>(invited ? "interview" : "category");
   const [interviewData, setInterviewData] = useState<InterviewData>({
+    interviewId: invited?.interviewId ?? null,
     candidateName: user?.user_metadata?.full_name || user?.email?.split("@")[0] || "Candidate",
-    category: "",
+    category: invited?.category ?? "",
+    locale: invited?.locale ?? DEFAULT_LOCALE,
     questions: [],
     responses: [],
-    videoUrl: null,
+    videoPath: null,
+    photos: [],
+    integrityEvents: [],
+    presetQuestions: invited?.questions,
   });
 
-  const handleCategorySelect = (category: string) => {
-    setInterviewData((prev) => ({ ...prev, category }));
-    setStep("interview");
+  // Don't reopen the invited interview on reload
+  useEffect(() => {
+    if (invited) {
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [invited, navigate, location.pathname]);
+
+  // Finish any recording uploads that were interrupted by a reload
+  useEffect(() => {
+    if (user) {
+      resumePendingUploads(user.id);
+    }
+  }, [user]);
+
+  const pendingUploads = uploads.filter((upload) => upload.status !== "completed");
+
+  const handleCategorySelect = async (category: string, locale: Locale) => {
+    if (!user) return;
+
+    try {
+      const interviewId = await createInterview({
+        userId: user.id,
+        candidateName: interviewData.candidateName,
+        category,
+        locale,
+      });
+      setInterviewData((prev) => ({ ...prev, interviewId, category, locale }));
+      setStep("interview");
+    } catch (error) {
+      console.error("Error creating interview:", error);
+      toast.error(t("index.startFailed"));
+    }
   };
 
   const handleInterviewComplete = (data: {
     questions: string[];
-    responses: { question: string; answer: string }[];
-    videoUrl: string | null;
+    responses: InterviewResponse[];
+    videoPath: string | null;
+    photos: string[];
+    integrityEvents: IntegrityEvent[];
   }) => {
     setInterviewData((prev) => ({
       ...prev,
       questions: data.questions,
       responses: data.responses,
-      videoUrl: data.videoUrl,
+      videoPath: data.videoPath,
+      photos: data.photos,
+      integrityEvents: data.integrityEvents,
     }));
     setStep("results");
   };
 
   const handleRestart = () => {
     setInterviewData({
+      interviewId: null,
       candidateName: user?.user_metadata?.full_name || user?.email?.split("@")[0] || "Candidate",
       category: "",
+      locale: DEFAULT_LOCALE,
       questions: [],
       responses: [],
-      videoUrl: null,
+      videoPath: null,
+      photos: [],
+      integrityEvents: [],
     });
     setStep("category");
   };
@@ -69,11 +134,54 @@ const Index = () => {
         <span className="text-sm text-muted-foreground">
           {user?.email}
         </span>
+        {(hasRole("recruiter") || hasRole("admin")) && (
+          <Button
+            variant="ghost"
+            size="icon"
+            onClick={() => navigate("/recruiter")}
+            className="rounded-full"
+            title={t("index.dashboard")}
+          >
+            <Users className="w-4 h-4" />
+          </Button>
+        )}
+        {hasRole("admin") && (
+          <>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate("/admin/categories")}
+              className="rounded-full"
+              title={t("index.categories")}
+            >
+              <LayoutGrid className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => navigate("/admin/questions")}
+              className="rounded-full"
+              title={t("index.questionBank")}
+            >
+              <BookOpen className="w-4 h-4" />
+            </Button>
+          </>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => navigate("/history")}
+          className="rounded-full"
+          title={t("index.history")}
+        >
+          <History className="w-4 h-4" />
+        </Button>
         <Button
           variant="ghost"
           size="icon"
           onClick={signOut}
           className="rounded-full"
+          title={t("index.signOut")}
         >
           <LogOut className="w-4 h-4" />
         </Button>
@@ -97,23 +205,37 @@ const Index = () => {
           
           {step === "interview" && (
             <InterviewRoom
+              interviewId={interviewData.interviewId}
               candidateName={interviewData.candidateName}
               category={interviewData.category}
+              locale={interviewData.locale}
+              presetQuestions={interviewData.presetQuestions}
               onComplete={handleInterviewComplete}
             />
           )}
           
           {step === "results" && (
             <ResultsScreen
+              interviewId={interviewData.interviewId}
               candidateName={interviewData.candidateName}
               category={interviewData.category}
               responses={interviewData.responses}
-              videoUrl={interviewData.videoUrl}
+              videoPath={interviewData.videoPath}
+              photos={interviewData.photos}
+              integrityEvents={interviewData.integrityEvents}
               onRestart={handleRestart}
             />
           )}
         </motion.div>
       </AnimatePresence>
+
+      {/* Background uploads (the interview room shows its own progress) */}
+      {step !== "interview" && pendingUploads.length > 0 && (
+        <div className="fixed bottom-4 right-4 z-50 w-80 glass-strong rounded-2xl p-4">
+          <p className="text-sm font-semibold mb-3">{t("index.savingRecordings")}</p>
+          <UploadProgress uploads={pendingUploads} />
+        </div>
+      )}
     </div>
   );
 };
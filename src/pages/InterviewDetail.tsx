@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Loader2, Share2 } from "lucide-react";
+import { ExportMenu } from "@/components/ExportMenu";
+import { Button } from "@/components/ui/button";
+import { IntegrityTimeline } from "@/components/results/IntegrityTimeline";
+import { InterviewReport } from "@/components/results/InterviewReport";
+import { ReportDownloadButton } from "@/components/results/ReportDownloadButton";
+import { ReviewPanel } from "@/components/results/ReviewPanel";
+import { ShareDialog } from "@/components/results/ShareDialog";
+import { useCategories } from "@/hooks/useCategories";
+import { useLocale } from "@/hooks/useLocale";
+import { useRoles } from "@/hooks/useRoles";
+import {
+  getInterview,
+  getStoredAnalysis,
+  getStoredResponses,
+  InterviewStatus,
+  statusLabels,
+} from "@/lib/interviews";
+import { getStoredIntegrityEvents } from "@/lib/integrity";
+import { downloadPhoto } from "@/lib/recording";
+import type { ReportData } from "@/lib/report";
+
+const InterviewDetail = () => {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { t, dateLocale } = useLocale();
+  const { getCategoryName } = useCategories();
+  const { hasRole } = useRoles();
+  const [shareOpen, setShareOpen] = useState(false);
+
+  const { data: interview, isLoading, isError } = useQuery({
+    queryKey: ["interview", id],
+    queryFn: () => getInterview(id),
+    enabled: !!id,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError || !interview) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-6">
+        <p className="text-muted-foreground">
+          {isError ? t("detail.loadFailed") : t("detail.notFound")}
+        </p>
+        <Button variant="outline" onClick={() => navigate("/history")}>
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          {t("detail.backToHistory")}
+        </Button>
+      </div>
+    );
+  }
+
+  const categoryName = getCategoryName(interview.category);
+  const analysis = getStoredAnalysis(interview);
+  const loadReportData = async (): Promise<ReportData> => {
+    const photoPaths = Array.isArray(interview.photo_paths) ? (interview.photo_paths as string[]) : [];
+    // Leave out photos that failed to upload rather than failing the whole report
+    const photos = await Promise.allSettled(photoPaths.map(downloadPhoto));
+    return {
+      candidateName: interview.candidate_name,
+      categoryName,
+      date: new Date(interview.created_at),
+      analysis,
+      responses: getStoredResponses(interview),
+      photos: photos.flatMap((photo) => (photo.status === "fulfilled" ? [photo.value] : [])),
+    };
+  };
+
+  // Mirrors can_review_interview; the reviews table's RLS has the final say
+  const canReview = hasRole("admin") || (hasRole("recruiter") && !!interview.organization_id);
+
+  return (
+    <div className="min-h-screen py-12 px-6">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/history")}
+            className="mb-6 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {t("detail.backToHistory")}
+          </Button>
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl md:text-4xl font-display font-bold mb-2">
+                {t("common.interviewTitle", { category: categoryName })}
+              </h1>
+              <p className="text-muted-foreground">
+                {interview.candidate_name} · {format(new Date(interview.created_at), "PPP p", { locale: dateLocale })} ·{" "}
+                {interview.status in statusLabels
+                  ? t(statusLabels[interview.status as InterviewStatus])
+                  : interview.status}
+              </p>
+            </div>
+            <div className="flex flex-wrap gap-2">
+              {!interview.imported_at && (
+                <Button variant="outline" onClick={() => setShareOpen(true)}>
+                  <Share2 className="w-4 h-4 mr-2" />
+                  {t("share.button")}
+                </Button>
+              )}
+              <ExportMenu loadRows={async () => [interview]} filename={`interview-${interview.id.slice(0, 8)}`} />
+              <ReportDownloadButton loadData={loadReportData} />
+            </div>
+          </div>
+        </motion.div>
+
+        {interview.imported_at && (
+          <div className="glass rounded-2xl p-6 mb-6 text-muted-foreground">
+            {t("detail.imported", { date: format(new Date(interview.imported_at), "PPP", { locale: dateLocale }) })}
+          </div>
+        )}
+
+        {!analysis && (
+          <div className="glass rounded-2xl p-6 mb-6 text-muted-foreground">
+            {t("detail.notAnalyzed")}
+          </div>
+        )}
+
+        {canReview && (
+          <ReviewPanel interviewId={interview.id} analysis={analysis} responses={getStoredResponses(interview)} />
+        )}
+
+        <InterviewReport
+          analysis={analysis}
+          responses={getStoredResponses(interview)}
+          videoPath={interview.video_url}
+        />
+
+        <IntegrityTimeline events={getStoredIntegrityEvents(interview)} responses={getStoredResponses(interview)} />
+      </div>
+
+      <ShareDialog interviewId={interview.id} open={shareOpen} onOpenChange={setShareOpen} />
+    </div>
+  );
+};
+
+export default InterviewDetail;
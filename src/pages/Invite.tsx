@@ -0,0 +1,135 @@
+import { motion } from "framer-motion";
+import { useNavigate, useParams } from "react-router-dom";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Loader2, Mail, Play } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAuth } from "@/hooks/useAuth";
+import { useCategories } from "@/hooks/useCategories";
+import { useLocale } from "@/hooks/useLocale";
+import { getInterview } from "@/lib/interviews";
+import { getInviteDetails, getInviteErrorKey, InvitedInterview, startInvitedInterview } from "@/lib/invites";
+import { isLocale, locales } from "@/lib/i18n";
+import { toast } from "sonner";
+
+const Invite = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const { user } = useAuth();
+  const { t, dateLocale, setLocale } = useLocale();
+  const { getCategoryName } = useCategories();
+  const candidateName = user?.user_metadata?.full_name || user?.email?.split("@")[0] || "Candidate";
+
+  const { data: invite, isLoading, isError } = useQuery({
+    queryKey: ["invite", token],
+    queryFn: () => getInviteDetails(token),
+    enabled: !!token,
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async (): Promise<InvitedInterview> => {
+      const interviewId = await startInvitedInterview(token, candidateName);
+      const interview = await getInterview(interviewId);
+      return {
+        interviewId,
+        category: interview.category,
+        locale: isLocale(interview.locale) ? interview.locale : "en",
+        questions: Array.isArray(interview.questions) ? (interview.questions as string[]) : [],
+      };
+    },
+    onSuccess: (invitedInterview) => {
+      // The interview is held in the invite's language
+      setLocale(invitedInterview.locale);
+      navigate("/", { replace: true, state: { invitedInterview } });
+    },
+    onError: (error) => {
+      console.error("Error starting invited interview:", error);
+      toast.error(t(getInviteErrorKey(error)));
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError || !invite) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-6">
+        <p className="text-muted-foreground">{isError ? t("invite.loadFailed") : t("invite.notFound")}</p>
+        <Button variant="outline" onClick={() => navigate("/")}>
+          {t("notFound.home")}
+        </Button>
+      </div>
+    );
+  }
+
+  const attemptsLeft = Math.max(0, invite.max_attempts - invite.attempts_used);
+  const expired = !!invite.expires_at && new Date(invite.expires_at) <= new Date();
+  const unavailable = expired ? t("invite.expired") : attemptsLeft === 0 ? t("invite.usedUp") : null;
+  const language = locales.find((option) => option.id === invite.locale)?.name ?? invite.locale;
+
+  const details = [
+    {
+      label: t("invite.questions"),
+      value: invite.question_count > 0
+        ? t("invite.questionCount", { count: invite.question_count })
+        : t("invite.generatedQuestions"),
+    },
+    { label: t("common.language"), value: language },
+    {
+      label: t("invite.deadline"),
+      value: invite.expires_at ? format(new Date(invite.expires_at), "PPp", { locale: dateLocale }) : t("invite.noDeadline"),
+    },
+    { label: t("invite.attemptsLeft"), value: `${attemptsLeft} / ${invite.max_attempts}` },
+  ];
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-6">
+      <motion.div
+        initial={{ opacity: 0, y: 20 }}
+        animate={{ opacity: 1, y: 0 }}
+        className="glass rounded-2xl p-8 w-full max-w-lg"
+      >
+        <div className="w-12 h-12 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center mb-6">
+          <Mail className="w-6 h-6 text-white" />
+        </div>
+        <h1 className="text-2xl md:text-3xl font-display font-bold mb-2">{t("invite.title")}</h1>
+        <p className="text-muted-foreground mb-6">
+          {t("invite.from", { organization: invite.organization_name, category: getCategoryName(invite.category) })}
+        </p>
+
+        <dl className="space-y-3 mb-8">
+          {details.map((detail) => (
+            <div key={detail.label} className="flex justify-between gap-4 text-sm">
+              <dt className="text-muted-foreground">{detail.label}</dt>
+              <dd className="font-medium text-right">{detail.value}</dd>
+            </div>
+          ))}
+        </dl>
+
+        {unavailable ? (
+          <p className="text-center text-destructive">{unavailable}</p>
+        ) : (
+          <Button
+            onClick={() => startMutation.mutate()}
+            disabled={startMutation.isPending}
+            className="w-full h-12 bg-gradient-to-r from-primary to-secondary hover:opacity-90 text-lg font-medium"
+          >
+            {startMutation.isPending ? (
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+            ) : (
+              <Play className="w-5 h-5 mr-2" />
+            )}
+            {t("invite.start")}
+          </Button>
+        )}
+      </motion.div>
+    </div>
+  );
+};
+
+export default Invite;
@@ -0,0 +1,235 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, Copy, Loader2, Mail, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { InviteDialog } from "@/components/dashboard/InviteDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useCategories } from "@/hooks/useCategories";
+import { useLocale } from "@/hooks/useLocale";
+import { createInvite, deleteInvite, getInviteLink, InviteInput, listInvites } from "@/lib/invites";
+import { listOrganizations } from "@/lib/organizations";
+import { toast } from "sonner";
+
+const Invites = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { t, dateLocale } = useLocale();
+  const { getCategoryName } = useCategories();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const { data: invites, isLoading, isError } = useQuery({
+    queryKey: ["invites"],
+    queryFn: listInvites,
+  });
+
+  const { data: organizations } = useQuery({
+    queryKey: ["organizations"],
+    queryFn: listOrganizations,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (input: InviteInput) => createInvite(user.id, input),
+    onSuccess: () => {
+      toast.success(t("invites.saved"));
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["invites"] });
+    },
+    onError: (error) => {
+      console.error("Error creating invite:", error);
+      toast.error(t("invites.saveFailed"));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteInvite(id),
+    onSuccess: () => {
+      toast.success(t("invites.deleted"));
+      queryClient.invalidateQueries({ queryKey: ["invites"] });
+    },
+    onError: (error) => {
+      console.error("Error deleting invite:", error);
+      toast.error(t("invites.deleteFailed"));
+    },
+    onSettled: () => setDeletingId(null),
+  });
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(getInviteLink(token));
+      toast.success(t("invites.linkCopied"));
+    } catch (error) {
+      console.error("Error copying invite link:", error);
+      toast.error(t("invites.copyFailed"));
+    }
+  };
+
+  const hasOrganizations = !!organizations && organizations.length > 0;
+
+  return (
+    <div className="min-h-screen py-12 px-6">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/recruiter")}
+            className="mb-6 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {t("common.back")}
+          </Button>
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl md:text-4xl font-display font-bold mb-2 flex items-center gap-3">
+                <Mail className="w-8 h-8 text-primary" />
+                {t("invites.title")}
+              </h1>
+              <p className="text-muted-foreground">{t("invites.subtitle")}</p>
+            </div>
+            <Button onClick={() => setDialogOpen(true)} disabled={!hasOrganizations}>
+              <Plus className="w-4 h-4 mr-2" />
+              {t("invites.add")}
+            </Button>
+          </div>
+          {organizations && !hasOrganizations && (
+            <p className="text-sm text-muted-foreground mt-4">{t("invites.noOrganizations")}</p>
+          )}
+        </motion.div>
+
+        {/* Invites */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="glass rounded-2xl p-6"
+        >
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : isError ? (
+            <p className="text-center text-muted-foreground py-12">{t("invites.loadFailed")}</p>
+          ) : invites.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">{t("invites.empty")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("invites.label")}</TableHead>
+                  <TableHead>{t("history.category")}</TableHead>
+                  <TableHead>{t("invites.questions")}</TableHead>
+                  <TableHead>{t("invites.deadline")}</TableHead>
+                  <TableHead>{t("invites.attempts")}</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {invites.map((invite) => {
+                  const expired = !!invite.expires_at && new Date(invite.expires_at) <= new Date();
+                  return (
+                    <TableRow key={invite.id} className={expired ? "opacity-50" : ""}>
+                      <TableCell className="font-medium">{invite.label}</TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {getCategoryName(invite.category)}
+                        <span className="uppercase ml-2 text-xs">{invite.locale}</span>
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {invite.questions.length > 0 ? invite.questions.length : t("invites.generated")}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {invite.expires_at
+                          ? format(new Date(invite.expires_at), "PP p", { locale: dateLocale })
+                          : t("invites.noDeadline")}
+                        {expired && (
+                          <Badge variant="outline" className="ml-2">
+                            {t("invites.expired")}
+                          </Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-muted-foreground">
+                        {invite.attemptsUsed} / {invite.max_attempts}
+                      </TableCell>
+                      <TableCell>
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => copyLink(invite.token)}
+                            title={t("invites.copyLink")}
+                          >
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => setDeletingId(invite.id)}
+                            title={t("common.delete")}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </motion.div>
+      </div>
+
+      <InviteDialog
+        open={dialogOpen}
+        organizations={organizations ?? []}
+        isSaving={saveMutation.isPending}
+        onOpenChange={setDialogOpen}
+        onSave={(input) => saveMutation.mutate(input)}
+      />
+
+      <AlertDialog open={!!deletingId} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("invites.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>{t("invites.deleteDescription")}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingId && deleteMutation.mutate(deletingId)}>
+              {t("common.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Invites;
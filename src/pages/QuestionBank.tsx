@@ -0,0 +1,251 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, BookOpen, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { BankQuestionDialog } from "@/components/admin/BankQuestionDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useCategories } from "@/hooks/useCategories";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  BankQuestion,
+  BankQuestionInput,
+  createBankQuestion,
+  deleteBankQuestion,
+  Difficulty,
+  difficultyLabels,
+  listBankQuestions,
+  updateBankQuestion,
+} from "@/lib/question-bank";
+import { toast } from "sonner";
+
+const ALL = "all";
+
+const QuestionBank = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { categories, getCategoryName } = useCategories();
+  const { t } = useLocale();
+  const [category, setCategory] = useState<string>(ALL);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<BankQuestion | null>(null);
+  const [deleting, setDeleting] = useState<BankQuestion | null>(null);
+
+  const { data: questions, isLoading, isError } = useQuery({
+    queryKey: ["question-bank", category],
+    queryFn: () => listBankQuestions({ category: category === ALL ? undefined : category }),
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (input: BankQuestionInput) =>
+      editing ? updateBankQuestion(editing.id, input) : createBankQuestion(user.id, input),
+    onSuccess: () => {
+      toast.success(t("bank.saved"));
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["question-bank"] });
+    },
+    onError: (error) => {
+      console.error("Error saving bank question:", error);
+      toast.error(t("bank.saveFailed"));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteBankQuestion(id),
+    onSuccess: () => {
+      toast.success(t("bank.deleted"));
+      queryClient.invalidateQueries({ queryKey: ["question-bank"] });
+    },
+    onError: (error) => {
+      console.error("Error deleting bank question:", error);
+      toast.error(t("bank.deleteFailed"));
+    },
+    onSettled: () => setDeleting(null),
+  });
+
+  const openDialog = (question: BankQuestion | null) => {
+    setEditing(question);
+    setDialogOpen(true);
+  };
+
+  return (
+    <div className="min-h-screen py-12 px-6">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="mb-6 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {t("common.back")}
+          </Button>
+          <h1 className="text-3xl md:text-4xl font-display font-bold mb-2 flex items-center gap-3">
+            <BookOpen className="w-8 h-8 text-primary" />
+            {t("bank.title")}
+          </h1>
+          <p className="text-muted-foreground">{t("bank.subtitle")}</p>
+        </motion.div>
+
+        {/* Toolbar */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="flex flex-col sm:flex-row gap-3 justify-between mb-6"
+        >
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="sm:w-60">
+              <SelectValue placeholder={t("bank.category")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>{t("bank.allCategories")}</SelectItem>
+              {categories.map((c) => (
+                <SelectItem key={c.slug} value={c.slug}>
+                  {c.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            {t("bank.add")}
+          </Button>
+        </motion.div>
+
+        {/* Questions */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="glass rounded-2xl p-6"
+        >
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : isError ? (
+            <p className="text-center text-muted-foreground py-12">{t("bank.loadFailed")}</p>
+          ) : questions.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">{t("bank.empty")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("bank.question")}</TableHead>
+                  <TableHead>{t("bank.category")}</TableHead>
+                  <TableHead>{t("bank.difficulty")}</TableHead>
+                  <TableHead>{t("common.language")}</TableHead>
+                  <TableHead className="w-24" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {questions.map((question) => (
+                  <TableRow key={question.id} className={question.active ? "" : "opacity-50"}>
+                    <TableCell>
+                      <p className="font-medium">{question.text}</p>
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {!question.active && <Badge variant="outline">{t("bank.inactive")}</Badge>}
+                        {question.tags.map((tag) => (
+                          <Badge key={tag} variant="secondary">
+                            {tag}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{getCategoryName(question.category)}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {question.difficulty in difficultyLabels
+                        ? t(difficultyLabels[question.difficulty as Difficulty])
+                        : question.difficulty}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground uppercase">{question.locale}</TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openDialog(question)}
+                          title={t("common.edit")}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeleting(question)}
+                          title={t("common.delete")}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </motion.div>
+      </div>
+
+      <BankQuestionDialog
+        open={dialogOpen}
+        question={editing}
+        isSaving={saveMutation.isPending}
+        onOpenChange={setDialogOpen}
+        onSave={(input) => saveMutation.mutate(input)}
+      />
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("bank.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>{t("bank.deleteDescription")}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deleting && deleteMutation.mutate(deleting.id)}>
+              {t("common.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default QuestionBank;
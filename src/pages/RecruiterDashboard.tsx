@@ -0,0 +1,492 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format, startOfDay, subDays } from "date-fns";
+import {
+  ArrowDown,
+  ArrowLeft,
+  ArrowUp,
+  ArrowUpDown,
+  Copy,
+  Download,
+  Loader2,
+  Mail,
+  Users,
+  Webhook,
+  X,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Toggle } from "@/components/ui/toggle";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationItem,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { ScoreDistributionChart } from "@/components/dashboard/ScoreDistributionChart";
+import { useCategories } from "@/hooks/useCategories";
+import { useLocale } from "@/hooks/useLocale";
+import {
+  DashboardFilters,
+  DashboardInterview,
+  DashboardSort,
+  DashboardSortKey,
+  getDashboardStats,
+  listCandidateInterviews,
+  toCsv,
+} from "@/lib/dashboard";
+import { downloadFile } from "@/lib/download";
+import {
+  getRecommendationBadge,
+  getScoreColor,
+  InterviewStatus,
+  statusLabels,
+} from "@/lib/interviews";
+import type { MessageKey } from "@/lib/i18n";
+import { toast } from "sonner";
+
+const PAGE_SIZE = 20;
+const ALL = "all";
+const HIGH_SCORE = 80;
+const RECENT_DAYS = 30;
+
+const columns: { key: DashboardSortKey; labelKey: MessageKey }[] = [
+  { key: "created_at", labelKey: "history.date" },
+  { key: "score", labelKey: "history.score" },
+  { key: "recommendation_rank", labelKey: "history.recommendation" },
+  { key: "status", labelKey: "history.status" },
+];
+
+const getInterviewLink = (id: string) => `${window.location.origin}/interviews/${id}`;
+
+const RecruiterDashboard = () => {
+  const navigate = useNavigate();
+  const { t, dateLocale } = useLocale();
+  const { categories, getCategoryName } = useCategories();
+  const [page, setPage] = useState(0);
+  const [filters, setFilters] = useState<DashboardFilters>({ status: "completed" });
+  const [sort, setSort] = useState<DashboardSort>({ key: "created_at", ascending: false });
+  // Kept across pages so a shortlist can be built from several of them
+  const [selected, setSelected] = useState<Map<string, DashboardInterview>>(new Map());
+
+  const { data, isLoading, isError } = useQuery({
+    queryKey: ["dashboard-interviews", page, filters, sort],
+    queryFn: () => listCandidateInterviews({ page, pageSize: PAGE_SIZE, filters, sort }),
+  });
+
+  const { data: stats } = useQuery({
+    queryKey: ["dashboard-stats", filters],
+    queryFn: () => getDashboardStats(filters),
+  });
+
+  const totalPages = Math.max(1, Math.ceil((data?.total ?? 0) / PAGE_SIZE));
+  const pageRows = data?.interviews ?? [];
+  const allOnPageSelected = pageRows.length > 0 && pageRows.every((row) => selected.has(row.id));
+
+  const updateFilters = (patch: Partial<DashboardFilters>) => {
+    setFilters((prev) => ({ ...prev, ...patch }));
+    setPage(0);
+  };
+
+  const toggleSort = (key: DashboardSortKey) => {
+    setSort((prev) => ({ key, ascending: prev.key === key ? !prev.ascending : false }));
+    setPage(0);
+  };
+
+  const toggleRow = (row: DashboardInterview, checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      if (checked) next.set(row.id, row);
+      else next.delete(row.id);
+      return next;
+    });
+  };
+
+  const togglePage = (checked: boolean) => {
+    setSelected((prev) => {
+      const next = new Map(prev);
+      pageRows.forEach((row) => (checked ? next.set(row.id, row) : next.delete(row.id)));
+      return next;
+    });
+  };
+
+  const exportSelected = () => {
+    const rows = [...selected.values()].map((row) => [
+      row.candidate_name,
+      getCategoryName(row.category),
+      row.created_at,
+      row.status,
+      row.score,
+      row.recommendation,
+      getInterviewLink(row.id),
+    ]);
+    const csv = toCsv(
+      [
+        t("dashboard.candidate"),
+        t("history.category"),
+        t("history.date"),
+        t("history.status"),
+        t("history.score"),
+        t("history.recommendation"),
+        t("dashboard.link"),
+      ],
+      rows,
+    );
+    downloadFile(`candidate-interviews-${format(new Date(), "yyyy-MM-dd")}.csv`, csv, "text/csv");
+  };
+
+  const copyLinks = async () => {
+    try {
+      const lines = [...selected.values()].map(
+        (row) => `${row.candidate_name} (${getCategoryName(row.category)}): ${getInterviewLink(row.id)}`,
+      );
+      await navigator.clipboard.writeText(lines.join("\n"));
+      toast.success(t("dashboard.linksCopied"));
+    } catch (error) {
+      console.error("Error copying interview links:", error);
+      toast.error(t("dashboard.copyFailed"));
+    }
+  };
+
+  const sortIcon = (column: DashboardSortKey) => {
+    if (sort.key !== column) return <ArrowUpDown className="w-3 h-3 opacity-50" />;
+    return sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />;
+  };
+
+  return (
+    <div className="min-h-screen py-12 px-6">
+      <div className="max-w-6xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/")}
+            className="mb-6 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {t("common.back")}
+          </Button>
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl md:text-4xl font-display font-bold mb-2 flex items-center gap-3">
+                <Users className="w-8 h-8 text-primary" />
+                {t("dashboard.title")}
+              </h1>
+              <p className="text-muted-foreground">{t("dashboard.subtitle")}</p>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => navigate("/recruiter/webhooks")}>
+                <Webhook className="w-4 h-4 mr-2" />
+                {t("dashboard.webhooks")}
+              </Button>
+              <Button variant="outline" onClick={() => navigate("/recruiter/invites")}>
+                <Mail className="w-4 h-4 mr-2" />
+                {t("dashboard.invites")}
+              </Button>
+            </div>
+          </div>
+        </motion.div>
+
+        {/* Summary */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="grid md:grid-cols-[1fr_2fr] gap-4 mb-6"
+        >
+          <div className="glass rounded-2xl p-6 grid grid-cols-3 md:grid-cols-1 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">{t("dashboard.interviews")}</p>
+              <p className="text-2xl font-bold">{stats?.total ?? "—"}</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">{t("dashboard.averageScore")}</p>
+              <p className={`text-2xl font-bold ${stats?.averageScore != null ? getScoreColor(stats.averageScore) : ""}`}>
+                {stats?.averageScore ?? "—"}
+              </p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">{t("dashboard.hireRate")}</p>
+              <p className="text-2xl font-bold">
+                {stats && stats.total > 0 ? `${Math.round((stats.hireCount / stats.total) * 100)}%` : "—"}
+              </p>
+            </div>
+          </div>
+          <div className="glass rounded-2xl p-6">
+            <p className="text-sm text-muted-foreground mb-2">{t("dashboard.scoreDistribution")}</p>
+            <ScoreDistributionChart buckets={stats?.buckets ?? []} />
+          </div>
+        </motion.div>
+
+        {/* Filters */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="space-y-3 mb-6"
+        >
+          <div className="grid sm:grid-cols-3 gap-3">
+            <Select
+              value={filters.category ?? ALL}
+              onValueChange={(v) => updateFilters({ category: v === ALL ? undefined : v })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={t("history.category")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t("history.allCategories")}</SelectItem>
+                {categories.map((c) => (
+                  <SelectItem key={c.slug} value={c.slug}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={filters.status ?? ALL}
+              onValueChange={(v) => updateFilters({ status: v === ALL ? undefined : (v as InterviewStatus) })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={t("history.status")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t("history.allStatuses")}</SelectItem>
+                {(Object.keys(statusLabels) as InterviewStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {t(statusLabels[status])}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={filters.recommendation ?? ALL}
+              onValueChange={(v) => updateFilters({ recommendation: v === ALL ? undefined : v })}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder={t("history.recommendation")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t("history.allRecommendations")}</SelectItem>
+                {["hire", "consider", "not_recommended"].map((rec) => (
+                  <SelectItem key={rec} value={rec}>
+                    {t(getRecommendationBadge(rec).labelKey)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {/* Quick filters */}
+          <div className="flex flex-wrap gap-2">
+            <Toggle
+              variant="outline"
+              size="sm"
+              pressed={filters.recommendation === "hire"}
+              onPressedChange={(pressed) => updateFilters({ recommendation: pressed ? "hire" : undefined })}
+            >
+              {t("dashboard.hireOnly")}
+            </Toggle>
+            <Toggle
+              variant="outline"
+              size="sm"
+              pressed={filters.minScore === HIGH_SCORE}
+              onPressedChange={(pressed) => updateFilters({ minScore: pressed ? HIGH_SCORE : undefined })}
+            >
+              {t("dashboard.minScore", { score: HIGH_SCORE })}
+            </Toggle>
+            <Toggle
+              variant="outline"
+              size="sm"
+              pressed={!!filters.since}
+              onPressedChange={(pressed) =>
+                updateFilters({
+                  since: pressed ? startOfDay(subDays(new Date(), RECENT_DAYS)).toISOString() : undefined,
+                })
+              }
+            >
+              {t("dashboard.lastDays", { days: RECENT_DAYS })}
+            </Toggle>
+          </div>
+        </motion.div>
+
+        {/* Bulk actions */}
+        {selected.size > 0 && (
+          <div className="glass rounded-xl px-4 py-3 mb-4 flex flex-wrap items-center gap-3">
+            <span className="text-sm font-medium">{t("dashboard.selected", { count: selected.size })}</span>
+            <div className="flex flex-wrap gap-2 ml-auto">
+              <Button variant="outline" size="sm" onClick={exportSelected}>
+                <Download className="w-4 h-4 mr-2" />
+                {t("dashboard.exportCsv")}
+              </Button>
+              <Button variant="outline" size="sm" onClick={copyLinks}>
+                <Copy className="w-4 h-4 mr-2" />
+                {t("dashboard.copyLinks")}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={() => setSelected(new Map())}>
+                <X className="w-4 h-4 mr-2" />
+                {t("dashboard.clearSelection")}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Interviews */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="glass rounded-2xl p-6 mb-6"
+        >
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : isError ? (
+            <p className="text-center text-muted-foreground py-12">{t("dashboard.loadFailed")}</p>
+          ) : pageRows.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">{t("dashboard.empty")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allOnPageSelected}
+                      onCheckedChange={(checked) => togglePage(checked === true)}
+                      aria-label={t("dashboard.selectAll")}
+                    />
+                  </TableHead>
+                  <TableHead>{t("dashboard.candidate")}</TableHead>
+                  <TableHead>{t("history.category")}</TableHead>
+                  {columns.map((column) => (
+                    <TableHead key={column.key}>
+                      <button
+                        type="button"
+                        onClick={() => toggleSort(column.key)}
+                        className="inline-flex items-center gap-1 hover:text-foreground transition-colors"
+                      >
+                        {t(column.labelKey)}
+                        {sortIcon(column.key)}
+                      </button>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pageRows.map((interview) => (
+                  <TableRow
+                    key={interview.id}
+                    onClick={() => navigate(`/interviews/${interview.id}`)}
+                    data-state={selected.has(interview.id) ? "selected" : undefined}
+                    className="cursor-pointer"
+                  >
+                    <TableCell onClick={(e) => e.stopPropagation()}>
+                      <Checkbox
+                        checked={selected.has(interview.id)}
+                        onCheckedChange={(checked) => toggleRow(interview, checked === true)}
+                        aria-label={t("dashboard.selectRow", { name: interview.candidate_name })}
+                      />
+                    </TableCell>
+                    <TableCell className="font-medium">{interview.candidate_name}</TableCell>
+                    <TableCell className="text-muted-foreground">{getCategoryName(interview.category)}</TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {format(new Date(interview.created_at), "PP p", { locale: dateLocale })}
+                    </TableCell>
+                    <TableCell>
+                      {interview.score !== null ? (
+                        <span className={`font-semibold ${getScoreColor(interview.score)}`}>
+                          {interview.score}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {interview.recommendation ? (
+                        <span
+                          className={`inline-flex px-3 py-1 rounded-full text-xs font-medium border ${getRecommendationBadge(interview.recommendation).color}`}
+                        >
+                          {t(getRecommendationBadge(interview.recommendation).labelKey)}
+                        </span>
+                      ) : (
+                        <span className="text-muted-foreground">—</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {interview.status in statusLabels
+                        ? t(statusLabels[interview.status as InterviewStatus])
+                        : interview.status}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </motion.div>
+
+        {/* Pagination */}
+        {totalPages > 1 && (
+          <Pagination>
+            <PaginationContent>
+              <PaginationItem>
+                <PaginationPrevious
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage((p) => Math.max(0, p - 1));
+                  }}
+                  className={page === 0 ? "pointer-events-none opacity-50" : ""}
+                >
+                  {t("history.previous")}
+                </PaginationPrevious>
+              </PaginationItem>
+              <PaginationItem>
+                <span className="px-4 text-sm text-muted-foreground">
+                  {t("history.page", { page: page + 1, total: totalPages })}
+                </span>
+              </PaginationItem>
+              <PaginationItem>
+                <PaginationNext
+                  href="#"
+                  onClick={(e) => {
+                    e.preventDefault();
+                    setPage((p) => Math.min(totalPages - 1, p + 1));
+                  }}
+                  className={page >= totalPages - 1 ? "pointer-events-none opacity-50" : ""}
+                >
+                  {t("history.next")}
+                </PaginationNext>
+              </PaginationItem>
+            </PaginationContent>
+          </Pagination>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RecruiterDashboard;
@@ -0,0 +1,101 @@
+import { motion } from "framer-motion";
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Camera, Eye, Loader2, Trophy } from "lucide-react";
+import { InterviewReport } from "@/components/results/InterviewReport";
+import { useLocale } from "@/hooks/useLocale";
+import { getShareErrorKey, getSharedResults } from "@/lib/share-links";
+
+// Public, read-only results page for a share link; visitors don't need an account
+const SharedResults = () => {
+  const { token } = useParams<{ token: string }>();
+  const { t, dateLocale } = useLocale();
+
+  const { data: shared, isLoading, error } = useQuery({
+    queryKey: ["shared-results", token],
+    queryFn: () => getSharedResults(token),
+    enabled: !!token,
+    // Unknown and expired links won't start working on a retry
+    retry: false,
+  });
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-primary animate-spin" />
+      </div>
+    );
+  }
+
+  if (error || !shared) {
+    return (
+      <div className="min-h-screen flex items-center justify-center p-6">
+        <p className="text-muted-foreground text-center">{t(getShareErrorKey(error))}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen py-12 px-6">
+      <div className="max-w-4xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="text-center mb-12"
+        >
+          <div className="w-20 h-20 mx-auto mb-6 rounded-full glass flex items-center justify-center glow-primary">
+            <Trophy className="w-10 h-10 text-primary" />
+          </div>
+          <h1 className="text-3xl md:text-4xl font-display font-bold mb-2">{shared.candidateName}</h1>
+          <p className="text-muted-foreground mb-4">
+            {t("common.interviewTitle", { category: shared.categoryName })} ·{" "}
+            {format(new Date(shared.createdAt), "PPP", { locale: dateLocale })}
+          </p>
+          <p className="inline-flex items-center gap-2 text-xs text-muted-foreground glass rounded-full px-3 py-1">
+            <Eye className="w-3.5 h-3.5" />
+            {t("shared.readOnly", { date: format(new Date(shared.expiresAt), "PPp", { locale: dateLocale }) })}
+          </p>
+        </motion.div>
+
+        {!shared.analysis && (
+          <div className="glass rounded-2xl p-6 mb-6 text-muted-foreground">{t("detail.notAnalyzed")}</div>
+        )}
+
+        <InterviewReport
+          analysis={shared.analysis}
+          responses={shared.responses}
+          videoPath={null}
+          videoUrl={shared.videoUrl}
+        />
+
+        {shared.photoUrls.length > 0 && (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.7 }}
+            className="glass rounded-2xl p-6 mb-6"
+          >
+            <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <Camera className="w-5 h-5 text-primary" />
+              {t("report.photos")}
+            </h3>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {shared.photoUrls.map((url, i) => (
+                <img
+                  key={url}
+                  src={url}
+                  alt={t("room.photoLabel", { number: i + 1 })}
+                  className="w-full rounded-xl bg-black"
+                />
+              ))}
+            </div>
+          </motion.div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SharedResults;
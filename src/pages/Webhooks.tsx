@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ArrowLeft, KeyRound, Loader2, Pencil, Plus, Send, Trash2, Webhook as WebhookIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { WebhookDialog } from "@/components/dashboard/WebhookDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { useLocale } from "@/hooks/useLocale";
+import type { MessageKey } from "@/lib/i18n";
+import { listOrganizations } from "@/lib/organizations";
+import {
+  createWebhook,
+  deleteWebhook,
+  listDeliveries,
+  listWebhooks,
+  sendTestEvent,
+  updateWebhook,
+  Webhook,
+  WebhookInput,
+} from "@/lib/webhooks";
+import { toast } from "sonner";
+
+const deliveryStatuses: Record<string, { label: MessageKey; variant: "default" | "secondary" | "destructive" }> = {
+  succeeded: { label: "webhooks.succeeded", variant: "default" },
+  pending: { label: "webhooks.pending", variant: "secondary" },
+  failed: { label: "webhooks.failed", variant: "destructive" },
+};
+
+const Webhooks = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const { t, dateLocale } = useLocale();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Webhook | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const { data: webhooks, isLoading, isError } = useQuery({
+    queryKey: ["webhooks"],
+    queryFn: listWebhooks,
+  });
+
+  const { data: deliveries, isLoading: deliveriesLoading, isError: deliveriesError } = useQuery({
+    queryKey: ["webhook-deliveries"],
+    queryFn: listDeliveries,
+    // Retries are sent in the background, so keep the log current while it's open
+    refetchInterval: 30_000,
+  });
+
+  const { data: organizations } = useQuery({
+    queryKey: ["organizations"],
+    queryFn: listOrganizations,
+  });
+
+  const organizationNames = new Map(organizations?.map((organization) => [organization.id, organization.name]));
+
+  const openDialog = (webhook: Webhook | null) => {
+    setEditing(webhook);
+    setDialogOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: (input: WebhookInput) => (editing ? updateWebhook(editing.id, input) : createWebhook(user.id, input)),
+    onSuccess: () => {
+      toast.success(t("webhooks.saved"));
+      setDialogOpen(false);
+      queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+    },
+    onError: (error) => {
+      console.error("Error saving webhook:", error);
+      toast.error(t("webhooks.saveFailed"));
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => deleteWebhook(id),
+    onSuccess: () => {
+      toast.success(t("webhooks.deleted"));
+      queryClient.invalidateQueries({ queryKey: ["webhooks"] });
+      queryClient.invalidateQueries({ queryKey: ["webhook-deliveries"] });
+    },
+    onError: (error) => {
+      console.error("Error deleting webhook:", error);
+      toast.error(t("webhooks.deleteFailed"));
+    },
+    onSettled: () => setDeletingId(null),
+  });
+
+  const testMutation = useMutation({
+    mutationFn: (id: string) => sendTestEvent(id),
+    onSuccess: (result) => {
+      if (result.ok) {
+        toast.success(t("webhooks.testSucceeded", { status: result.statusCode }));
+      } else {
+        toast.error(t("webhooks.testFailed", { error: result.error ?? String(result.statusCode) }));
+      }
+      queryClient.invalidateQueries({ queryKey: ["webhook-deliveries"] });
+    },
+    onError: (error) => {
+      console.error("Error sending test event:", error);
+      toast.error(t("webhooks.testError"));
+    },
+  });
+
+  const copySecret = async (secret: string) => {
+    try {
+      await navigator.clipboard.writeText(secret);
+      toast.success(t("webhooks.secretCopied"));
+    } catch (error) {
+      console.error("Error copying webhook secret:", error);
+      toast.error(t("invites.copyFailed"));
+    }
+  };
+
+  const hasOrganizations = !!organizations && organizations.length > 0;
+
+  return (
+    <div className="min-h-screen py-12 px-6">
+      <div className="max-w-5xl mx-auto">
+        {/* Header */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="mb-8"
+        >
+          <Button
+            variant="ghost"
+            onClick={() => navigate("/recruiter")}
+            className="mb-6 text-muted-foreground hover:text-foreground"
+          >
+            <ArrowLeft className="w-4 h-4 mr-2" />
+            {t("common.back")}
+          </Button>
+          <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+            <div>
+              <h1 className="text-3xl md:text-4xl font-display font-bold mb-2 flex items-center gap-3">
+                <WebhookIcon className="w-8 h-8 text-primary" />
+                {t("webhooks.title")}
+              </h1>
+              <p className="text-muted-foreground">{t("webhooks.subtitle")}</p>
+            </div>
+            <Button onClick={() => openDialog(null)} disabled={!hasOrganizations}>
+              <Plus className="w-4 h-4 mr-2" />
+              {t("webhooks.add")}
+            </Button>
+          </div>
+          {organizations && !hasOrganizations && (
+            <p className="text-sm text-muted-foreground mt-4">{t("invites.noOrganizations")}</p>
+          )}
+        </motion.div>
+
+        {/* Webhooks */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.1 }}
+          className="glass rounded-2xl p-6 mb-6"
+        >
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : isError ? (
+            <p className="text-center text-muted-foreground py-12">{t("webhooks.loadFailed")}</p>
+          ) : webhooks.length === 0 ? (
+            <p className="text-center text-muted-foreground py-12">{t("webhooks.empty")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("webhooks.url")}</TableHead>
+                  <TableHead>{t("invites.organization")}</TableHead>
+                  <TableHead>{t("webhooks.events")}</TableHead>
+                  <TableHead className="w-40" />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {webhooks.map((webhook) => (
+                  <TableRow key={webhook.id} className={webhook.enabled ? "" : "opacity-50"}>
+                    <TableCell className="font-medium max-w-[16rem]">
+                      <p className="truncate" title={webhook.url}>
+                        {webhook.url}
+                      </p>
+                      {!webhook.enabled && (
+                        <Badge variant="outline" className="mt-1">
+                          {t("webhooks.disabled")}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">
+                      {organizationNames.get(webhook.organization_id) ?? "—"}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {webhook.events.map((event) => (
+                          <Badge key={event} variant="secondary" className="font-mono text-xs">
+                            {event}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => testMutation.mutate(webhook.id)}
+                          disabled={testMutation.isPending}
+                          title={t("webhooks.sendTest")}
+                        >
+                          {testMutation.isPending && testMutation.variables === webhook.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Send className="w-4 h-4" />
+                          )}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => copySecret(webhook.secret)}
+                          title={t("webhooks.copySecret")}
+                        >
+                          <KeyRound className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => openDialog(webhook)}
+                          title={t("webhooks.edit")}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => setDeletingId(webhook.id)}
+                          title={t("common.delete")}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </motion.div>
+
+        {/* Delivery log */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.2 }}
+          className="glass rounded-2xl p-6"
+        >
+          <h3 className="text-lg font-semibold mb-1">{t("webhooks.deliveries")}</h3>
+          <p className="text-sm text-muted-foreground mb-4">{t("webhooks.deliveriesHint")}</p>
+          {deliveriesLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 text-primary animate-spin" />
+            </div>
+          ) : deliveriesError ? (
+            <p className="text-center text-muted-foreground py-8">{t("webhooks.deliveriesLoadFailed")}</p>
+          ) : deliveries.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">{t("webhooks.deliveriesEmpty")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("webhooks.event")}</TableHead>
+                  <TableHead>{t("webhooks.url")}</TableHead>
+                  <TableHead>{t("webhooks.status")}</TableHead>
+                  <TableHead>{t("webhooks.attempts")}</TableHead>
+                  <TableHead>{t("webhooks.response")}</TableHead>
+                  <TableHead>{t("webhooks.createdAt")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {deliveries.map((delivery) => (
+                  <TableRow key={delivery.id}>
+                    <TableCell className="font-mono text-xs">{delivery.event}</TableCell>
+                    <TableCell className="text-muted-foreground max-w-[12rem]">
+                      <p className="truncate" title={delivery.url ?? undefined}>
+                        {delivery.url ?? "—"}
+                      </p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={deliveryStatuses[delivery.status]?.variant ?? "secondary"}>
+                        {deliveryStatuses[delivery.status] ? t(deliveryStatuses[delivery.status].label) : delivery.status}
+                      </Badge>
+                      {delivery.status === "pending" && delivery.next_attempt_at && delivery.attempts > 0 && (
+                        <p className="text-xs text-muted-foreground mt-1">
+                          {t("webhooks.nextAttempt", {
+                            date: format(new Date(delivery.next_attempt_at), "p", { locale: dateLocale }),
+                          })}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-muted-foreground">{delivery.attempts}</TableCell>
+                    <TableCell className="text-muted-foreground max-w-[12rem]">
+                      <p className="truncate" title={delivery.last_error ?? undefined}>
+                        {delivery.last_status_code ?? delivery.last_error ?? "—"}
+                      </p>
+                    </TableCell>
+                    <TableCell className="text-muted-foreground whitespace-nowrap">
+                      {format(new Date(delivery.created_at), "PP p", { locale: dateLocale })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </motion.div>
+      </div>
+
+      <WebhookDialog
+        open={dialogOpen}
+        webhook={editing}
+        organizations={organizations ?? []}
+        isSaving={saveMutation.isPending}
+        onOpenChange={setDialogOpen}
+        onSave={(input) => saveMutation.mutate(input)}
+      />
+
+      <AlertDialog open={!!deletingId} onOpenChange={(open) => !open && setDeletingId(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("webhooks.deleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>{t("webhooks.deleteDescription")}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction onClick={() => deletingId && deleteMutation.mutate(deletingId)}>
+              {t("common.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default Webhooks;
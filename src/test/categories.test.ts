@@ -0,0 +1,21 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { isValidSlug } from "@/lib/categories";
+
+describe("isValidSlug", () => {
+  it("accepts lowercase words joined by single hyphens", () => {
+    expect(isValidSlug("java")).toBe(true);
+    expect(isValidSlug("react-native")).toBe(true);
+    expect(isValidSlug("es2015")).toBe(true);
+  });
+
+  it("rejects anything the table check would", () => {
+    expect(isValidSlug("")).toBe(false);
+    expect(isValidSlug("React")).toBe(false);
+    expect(isValidSlug("react--native")).toBe(false);
+    expect(isValidSlug("-java")).toBe(false);
+    expect(isValidSlug("a".repeat(51))).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { bucketScores, toCsv } from "@/lib/dashboard";
+
+describe("bucketScores", () => {
+  it("counts scores in ten-point buckets with 100 in the top one", () => {
+    const buckets = bucketScores([0, 9, 10, 85, 99, 100]);
+    expect(buckets).toHaveLength(10);
+    expect(buckets[0]).toEqual({ range: "0–9", count: 2 });
+    expect(buckets[1].count).toBe(1);
+    expect(buckets[8].count).toBe(1);
+    expect(buckets[9]).toEqual({ range: "90–100", count: 2 });
+  });
+});
+
+describe("toCsv", () => {
+  it("quotes values with commas, quotes or line breaks and leaves nulls empty", () => {
+    expect(toCsv(["Name", "Score"], [["Doe, Jane", 82], ['Say "hi"', null]])).toBe(
+      'Name,Score\n"Doe, Jane",82\n"Say ""hi""",',
+    );
+  });
+});
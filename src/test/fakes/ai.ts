@@ -0,0 +1,111 @@
+import type { AnalysisResult } from "@/lib/interviews";
+import {
+  getActionConflict,
+  getAnalysisUpdate,
+  getAnalyzedResponses,
+  getFallbackResult,
+  getStoredQuestions,
+  insertFollowUp,
+  isValidInsertAt,
+  type InterviewAction,
+  type StoredInterview,
+} from "../../../supabase/functions/interview-ai/interview-state.ts";
+
+// Stand-in for the interview-ai function, answering in its { result, degraded } shape. Model
+// replies are canned, with the same rules as scripts/stub-ai-server.mjs; what the function
+// does with the stored interview (conflicts, follow-up placement, the stored analysis) goes
+// through its own interview-state helpers.
+
+export const STUB_SCORE = 82;
+
+export interface StubAiOptions {
+  // Reply to analyze_responses as if the model never produced a valid analysis
+  degradedAnalysis?: boolean;
+}
+
+// A non-2xx answer from the function, with its status
+export class StubAiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+type InterviewAiBody = {
+  action: InterviewAction;
+  insertAt?: number;
+  conversation?: { question: string; answer: string }[];
+};
+
+const stubQuestions = (category: unknown) => Array.from({ length: 5 }, (_, i) => `Stub ${category} question ${i + 1}?`);
+
+// One follow-up for a short first answer, otherwise move on
+const stubFollowUp = (conversation: { answer: string }[]) => {
+  const latest = conversation[conversation.length - 1]?.answer ?? "";
+  return conversation.length === 1 && latest.trim().split(/\s+/).length < 5
+    ? { action: "follow_up", question: "Could you expand on that with an example?" }
+    : { action: "move_on" };
+};
+
+const stubAnalysis = (answerCount: number): AnalysisResult => ({
+  score: STUB_SCORE,
+  analysis: `Stub analysis of ${answerCount} answers.`,
+  strengths: ["Clear explanations"],
+  improvements: ["More concrete examples"],
+  recommendation: "hire",
+  questions: Array.from({ length: answerCount }, (_, i) => ({
+    question: i + 1,
+    score: 80,
+    correctness: 4,
+    depth: 4,
+    communication: 4,
+    modelAnswer: `A strong answer to question ${i + 1} covers the fundamentals.`,
+    missedPoints: [],
+  })),
+});
+
+export const handleInterviewAi = (
+  body: InterviewAiBody,
+  interview: StoredInterview & Record<string, unknown>,
+  options: StubAiOptions = {},
+) => {
+  const conflict = getActionConflict(body.action, interview);
+  if (conflict) throw new StubAiError(409, conflict);
+
+  const questions = getStoredQuestions(interview);
+
+  switch (body.action) {
+    case "generate_questions":
+      if (questions.length === 0) {
+        interview.questions = stubQuestions(interview.category);
+      }
+      return { result: interview.questions, degraded: false };
+
+    case "follow_up": {
+      if (!isValidInsertAt(body.insertAt, questions)) throw new StubAiError(400, "Invalid insertAt parameter");
+
+      let result = stubFollowUp(body.conversation ?? []);
+      if (result.question) {
+        const updated = insertFollowUp(questions, body.insertAt, result.question);
+        if (updated) {
+          interview.questions = updated;
+        } else {
+          result = { action: "move_on" };
+        }
+      }
+      return { result, degraded: false };
+    }
+
+    case "analyze_responses": {
+      if (options.degradedAnalysis) {
+        return { result: getFallbackResult(body.action, String(interview.category), 0), degraded: true };
+      }
+
+      const result = stubAnalysis(getAnalyzedResponses(questions, interview.responses).length);
+      Object.assign(interview, getAnalysisUpdate(result));
+      return { result, degraded: false };
+    }
+
+    default:
+      throw new Error(`Unsupported interview-ai action: ${body.action}`);
+  }
+};
@@ -0,0 +1,92 @@
+import { vi } from "vitest";
+
+// Fake camera, microphone and speech engines for jsdom, which has none of them.
+// Recognition "hears" whatever was last passed to setSpokenAnswer; synthesis
+// finishes speaking right away. Radix controls such as Switch also need a ResizeObserver.
+
+let spokenAnswer = "";
+
+export const setSpokenAnswer = (answer: string) => {
+  spokenAnswer = answer;
+};
+
+const createTrack = (kind: "audio" | "video") => ({ kind, enabled: true, stop: vi.fn() });
+
+const createMediaStream = () => {
+  const tracks = [createTrack("video"), createTrack("audio")];
+  return {
+    getTracks: () => tracks,
+    getVideoTracks: () => tracks.filter((track) => track.kind === "video"),
+    getAudioTracks: () => tracks.filter((track) => track.kind === "audio"),
+  };
+};
+
+class FakeSpeechRecognition {
+  continuous = false;
+  interimResults = false;
+  lang = "";
+  onstart: (() => void) | null = null;
+  onresult: ((event: unknown) => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+  onend: (() => void) | null = null;
+
+  start() {
+    setTimeout(() => {
+      this.onstart?.();
+      const result = Object.assign([{ transcript: spokenAnswer, confidence: 1 }], { isFinal: true });
+      this.onresult?.({ resultIndex: 0, results: [result] });
+    }, 0);
+  }
+
+  stop() {
+    setTimeout(() => this.onend?.(), 0);
+  }
+
+  abort() {
+    this.stop();
+  }
+}
+
+class FakeSpeechSynthesisUtterance {
+  lang = "";
+  rate = 1;
+  pitch = 1;
+  voice: unknown = null;
+  onstart: (() => void) | null = null;
+  onend: (() => void) | null = null;
+  onerror: ((event: unknown) => void) | null = null;
+
+  constructor(public text: string) {}
+}
+
+const fakeSpeechSynthesis = {
+  getVoices: () => [],
+  cancel: vi.fn(),
+  addEventListener: vi.fn(),
+  removeEventListener: vi.fn(),
+  speak: (utterance: FakeSpeechSynthesisUtterance) => {
+    setTimeout(() => {
+      utterance.onstart?.();
+      utterance.onend?.();
+    }, 0);
+  },
+};
+
+class FakeResizeObserver {
+  observe() {}
+  unobserve() {}
+  disconnect() {}
+}
+
+export const installBrowserShims = () => {
+  spokenAnswer = "";
+  vi.stubGlobal("SpeechRecognition", FakeSpeechRecognition);
+  vi.stubGlobal("SpeechSynthesisUtterance", FakeSpeechSynthesisUtterance);
+  vi.stubGlobal("speechSynthesis", fakeSpeechSynthesis);
+  vi.stubGlobal("ResizeObserver", FakeResizeObserver);
+  Object.defineProperty(navigator, "mediaDevices", {
+    configurable: true,
+    value: { getUserMedia: vi.fn(async () => createMediaStream()) },
+  });
+  vi.spyOn(HTMLMediaElement.prototype, "play").mockResolvedValue(undefined);
+};
@@ -0,0 +1,271 @@
+import { handleInterviewAi, StubAiError, StubAiOptions } from "@/test/fakes/ai";
+
+// In-memory stand-in for the Supabase client: a signed-in user, tables that record
+// every write, database functions the app calls, and functions.invoke answered by the
+// interview-ai stub. Only the query builder methods the app uses are implemented.
+
+type Row = Record<string, unknown>;
+
+export const TEST_USER = {
+  id: "00000000-0000-4000-8000-000000000001",
+  email: "candidate@example.com",
+  user_metadata: { full_name: "Test Candidate" },
+};
+
+const session = { access_token: "test-token", user: TEST_USER };
+
+// Rows every test starts with
+const seedTables = (): Record<string, Row[]> => ({
+  categories: [
+    { slug: "java", name: "Java", icon: "code", color: "from-orange-500 to-red-500", enabled: true, sort_order: 1 },
+    { slug: "python", name: "Python", icon: "terminal", color: "from-blue-500 to-cyan-500", enabled: true, sort_order: 2 },
+  ],
+});
+
+// Columns the candidate may update, as granted in the migrations
+const updatableColumns: Record<string, string[]> = {
+  interviews: ["responses", "video_url", "photo_paths"],
+};
+
+// Triggers that reject an update, as in the migrations
+const updateChecks: Record<string, (row: Row, values: Row) => string | null> = {
+  interviews: (row, values) =>
+    "responses" in values && (row.finished_at || row.status === "completed")
+      ? "The answers of a finished interview cannot be changed"
+      : null,
+};
+
+type Result = { data: unknown; error: Error | null };
+
+class FakeQuery implements PromiseLike<Result> {
+  private operation: "select" | "insert" | "update" = "select";
+  private values: Row | Row[] = {};
+  private filters: [string, unknown][] = [];
+  private count: number | undefined;
+
+  constructor(private table: string, private rows: Row[]) {}
+
+  select() {
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = "insert";
+    this.values = values;
+    return this;
+  }
+
+  update(values: Row) {
+    this.operation = "update";
+    this.values = values;
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push([column, value]);
+    return this;
+  }
+
+  // Rows come back in insertion order, which the seeded tables already follow
+  order() {
+    return this;
+  }
+
+  limit(count: number) {
+    this.count = count;
+    return this;
+  }
+
+  single() {
+    return this.execute().then(({ data, error }) => ({ data: error ? null : (data as Row[])[0] ?? null, error }));
+  }
+
+  maybeSingle() {
+    return this.single();
+  }
+
+  then<TResult1, TResult2 = never>(
+    onfulfilled?: (value: Result) => TResult1 | PromiseLike<TResult1>,
+    onrejected?: (reason: unknown) => TResult2 | PromiseLike<TResult2>,
+  ) {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  private matches(row: Row) {
+    return this.filters.every(([column, value]) => row[column] === value);
+  }
+
+  private async execute(): Promise<Result> {
+    const allowed = updatableColumns[this.table];
+    const denied = this.operation === "update" && allowed
+      ? Object.keys(this.values).find((column) => !allowed.includes(column))
+      : undefined;
+    if (denied) {
+      return { data: null, error: new Error(`permission denied for column ${denied}`) };
+    }
+
+    if (this.operation === "insert") {
+      const inserted = (Array.isArray(this.values) ? this.values : [this.values]).map((values) => ({
+        id: crypto.randomUUID(),
+        created_at: new Date().toISOString(),
+        ...values,
+      }));
+      this.rows.push(...inserted);
+      return { data: inserted, error: null };
+    }
+
+    const matched = this.rows.filter((row) => this.matches(row));
+    if (this.operation === "update") {
+      const rejected = matched.map((row) => updateChecks[this.table]?.(row, this.values as Row)).find(Boolean);
+      if (rejected) return { data: null, error: new Error(rejected) };
+
+      matched.forEach((row) => Object.assign(row, this.values));
+    }
+    return { data: matched.slice(0, this.count), error: null };
+  }
+}
+
+const createFakeSupabase = () => {
+  const tables: Record<string, Row[]> = seedTables();
+  const invocations: { name: string; body: Record<string, unknown> }[] = [];
+  let aiOptions: StubAiOptions = {};
+
+  const client = {
+    auth: {
+      getSession: async () => ({ data: { session }, error: null }),
+      getUser: async () => ({ data: { user: TEST_USER }, error: null }),
+      onAuthStateChange: (callback: (event: string, value: typeof session) => void) => {
+        setTimeout(() => callback("SIGNED_IN", session), 0);
+        return { data: { subscription: { unsubscribe: () => {} } } };
+      },
+      updateUser: async () => ({ data: { user: TEST_USER }, error: null }),
+      signOut: async () => ({ error: null }),
+    },
+
+    from: (table: string) => new FakeQuery(table, (tables[table] ??= [])),
+
+    // Same effect as the SQL functions for the signed-in user
+    rpc: async (name: string, args: Record<string, unknown>) => {
+      switch (name) {
+        case "mark_interview_in_progress":
+          (tables.interviews ?? [])
+            .filter((row) => row.id === args._interview_id && row.user_id === TEST_USER.id && row.status === "pending")
+            .forEach((row) => {
+              row.status = "in_progress";
+            });
+          return { data: null, error: null };
+
+        case "finish_interview":
+          (tables.interviews ?? [])
+            .filter((row) => row.id === args._interview_id && row.user_id === TEST_USER.id && !row.finished_at)
+            .forEach((row) => {
+              row.finished_at = new Date().toISOString();
+            });
+          return { data: null, error: null };
+
+        case "append_integrity_events":
+          (tables.interviews ?? [])
+            .filter((row) => row.id === args._interview_id && row.user_id === TEST_USER.id)
+            .forEach((row) => {
+              row.integrity_events = [...((row.integrity_events as unknown[]) ?? []), ...(args._events as unknown[])];
+            });
+          return { data: null, error: null };
+
+        case "get_invite": {
+          const invite = (tables.interview_invites ?? []).find((row) => row.token === args._token);
+          if (!invite) return { data: [], error: null };
+          const organization = (tables.organizations ?? []).find((row) => row.id === invite.organization_id);
+          return {
+            data: [{
+              organization_name: organization?.name,
+              category: invite.category,
+              locale: invite.locale,
+              question_count: (invite.questions as string[]).length,
+              expires_at: invite.expires_at,
+              max_attempts: invite.max_attempts,
+              attempts_used: invite.attempts_used,
+            }],
+            error: null,
+          };
+        }
+
+        case "start_invited_interview": {
+          const invite = (tables.interview_invites ?? []).find((row) => row.token === args._token);
+          if (!invite) return { data: null, error: new Error("invite_not_found") };
+          if (invite.expires_at && new Date(invite.expires_at as string) <= new Date()) {
+            return { data: null, error: new Error("invite_expired") };
+          }
+          if ((invite.attempts_used as number) >= (invite.max_attempts as number)) {
+            return { data: null, error: new Error("invite_used_up") };
+          }
+
+          invite.attempts_used = (invite.attempts_used as number) + 1;
+          const questions = invite.questions as string[];
+          const interview = {
+            id: crypto.randomUUID(),
+            created_at: new Date().toISOString(),
+            user_id: TEST_USER.id,
+            candidate_name: args._candidate_name,
+            category: invite.category,
+            locale: invite.locale,
+            status: "pending",
+            organization_id: invite.organization_id,
+            invite_id: invite.id,
+            questions: questions.length > 0 ? [...questions] : null,
+          };
+          (tables.interviews ??= []).push(interview);
+          return { data: interview.id, error: null };
+        }
+
+        default:
+          return { data: null, error: new Error(`Unknown function: ${name}`) };
+      }
+    },
+
+    functions: {
+      invoke: async (name: string, { body }: { body: Record<string, unknown> }) => {
+        invocations.push({ name, body });
+        if (name !== "interview-ai") {
+          return { data: null, error: new Error(`Unknown function: ${name}`) };
+        }
+        const interview = (tables.interviews ?? []).find((row) => row.id === body.interviewId);
+        if (!interview || interview.user_id !== TEST_USER.id) {
+          return { data: null, error: new Error("Interview not found") };
+        }
+        try {
+          return {
+            data: handleInterviewAi(body as Parameters<typeof handleInterviewAi>[0], interview, aiOptions),
+            error: null,
+          };
+        } catch (error) {
+          if (!(error instanceof StubAiError)) throw error;
+          // supabase-js puts the response of a non-2xx answer in `context`
+          return { data: null, error: Object.assign(new Error(error.message), { context: { status: error.status } }) };
+        }
+      },
+    },
+
+    storage: {
+      from: () => ({
+        createSignedUrl: async () => ({ data: null, error: new Error("Storage is not available in tests") }),
+      }),
+    },
+  };
+
+  return {
+    client,
+    tables,
+    invocations,
+    setAiOptions: (options: StubAiOptions) => {
+      aiOptions = options;
+    },
+    reset: () => {
+      Object.keys(tables).forEach((table) => delete tables[table]);
+      Object.assign(tables, seedTables());
+      invocations.length = 0;
+      aiOptions = {};
+    },
+  };
+};
+
+export const fakeSupabase = createFakeSupabase();
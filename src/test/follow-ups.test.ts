@@ -0,0 +1,34 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { getFollowUpMaxDepth, getFollowUpThread } from "@/lib/follow-ups";
+import type { InterviewResponse } from "@/lib/interviews";
+
+const responses: InterviewResponse[] = [
+  { question: "Q1", answer: "a1" },
+  { question: "Q2", answer: "a2" },
+  { question: "Q2 follow-up", answer: "a2.1", followUpOf: 1 },
+  { question: "Q2 second follow-up", answer: "a2.2", followUpOf: 1 },
+  { question: "Q3", answer: "" },
+];
+
+describe("getFollowUpThread", () => {
+  it("returns just the question when it has no follow-ups yet", () => {
+    expect(getFollowUpThread(responses, 0).map((r) => r.question)).toEqual(["Q1"]);
+  });
+
+  it("collects the main question and its follow-ups up to the index", () => {
+    expect(getFollowUpThread(responses, 2).map((r) => r.question)).toEqual(["Q2", "Q2 follow-up"]);
+    expect(getFollowUpThread(responses, 3)).toHaveLength(3);
+  });
+});
+
+describe("getFollowUpMaxDepth", () => {
+  it("reads the configured depth and falls back to the default", () => {
+    expect(getFollowUpMaxDepth("0")).toBe(0);
+    expect(getFollowUpMaxDepth("3")).toBe(3);
+    expect(getFollowUpMaxDepth(undefined)).toBe(2);
+    expect(getFollowUpMaxDepth("-1")).toBe(2);
+  });
+});
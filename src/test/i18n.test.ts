@@ -0,0 +1,25 @@
+import { describe, it, expect } from "vitest";
+import { getSpeechLang, isLocale, translate } from "@/lib/i18n";
+
+describe("translate", () => {
+  it("returns the string for the requested locale", () => {
+    expect(translate("en", "question.next")).toBe("Next");
+    expect(translate("de", "question.next")).toBe("Weiter");
+  });
+
+  it("fills in placeholders", () => {
+    expect(translate("en", "room.questionProgress", { current: 2, total: 5 })).toBe("Question 2 of 5");
+    expect(translate("es", "history.page", { page: 1, total: 3 })).toBe("Página 1 de 3");
+  });
+
+  it("leaves unknown placeholders untouched", () => {
+    expect(translate("en", "common.interviewTitle")).toBe("{category} Interview");
+  });
+});
+
+describe("locales", () => {
+  it("maps locales to speech languages", () => {
+    expect(getSpeechLang("hi")).toBe("hi-IN");
+    expect(isLocale("fr")).toBe(false);
+  });
+});
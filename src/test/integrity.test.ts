@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import { act, renderHook } from "@testing-library/react";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { useIntegrityMonitor } from "@/hooks/useIntegrityMonitor";
+import { countIntegrityEvents, getQuestionIndexAt, getStoredIntegrityEvents, IntegrityEvent } from "@/lib/integrity";
+import type { InterviewResponse, InterviewRow } from "@/lib/interviews";
+
+describe("countIntegrityEvents", () => {
+  it("counts every kind, including the ones that never happened", () => {
+    const events: IntegrityEvent[] = [
+      { type: "tab_hidden", at: 1000, duration: 5000 },
+      { type: "paste", at: 9000, chars: 120 },
+      { type: "tab_hidden", at: 20000, duration: 2000 },
+    ];
+    expect(countIntegrityEvents(events)).toEqual({
+      tab_hidden: 2,
+      focus_lost: 0,
+      fullscreen_exit: 0,
+      copy: 0,
+      paste: 1,
+      long_silence: 0,
+    });
+  });
+});
+
+describe("getStoredIntegrityEvents", () => {
+  it("leaves out events of unknown kinds or with a bad offset or details", () => {
+    const valid: IntegrityEvent[] = [
+      { type: "tab_hidden", at: 0, duration: 5000 },
+      { type: "copy", at: 9000, chars: 12 },
+    ];
+    const row = {
+      integrity_events: [
+        valid[0],
+        { type: "devtools_open", at: 1000 },
+        { type: "paste", at: -1 },
+        { type: "paste", at: "2000" },
+        { type: "focus_lost", at: 3000, duration: "long" },
+        { type: "copy", at: 4000, chars: null },
+        "tab_hidden",
+        null,
+        valid[1],
+      ],
+    } as unknown as InterviewRow;
+
+    expect(getStoredIntegrityEvents(row)).toEqual(valid);
+    expect(getStoredIntegrityEvents({ integrity_events: null } as unknown as InterviewRow)).toEqual([]);
+  });
+});
+
+describe("getQuestionIndexAt", () => {
+  const responses: InterviewResponse[] = [
+    { question: "Q1", answer: "", timing: { questionStartedAt: 1000 } },
+    { question: "Q2", answer: "", timing: { answerStartedAt: 30000 } },
+    { question: "Q3", answer: "" },
+  ];
+
+  it("finds the question on screen at the time", () => {
+    expect(getQuestionIndexAt(responses, 500)).toBeNull();
+    expect(getQuestionIndexAt(responses, 1000)).toBe(0);
+    expect(getQuestionIndexAt(responses, 29999)).toBe(0);
+    expect(getQuestionIndexAt(responses, 45000)).toBe(1);
+  });
+});
+
+describe("useIntegrityMonitor", () => {
+  const setHidden = (hidden: boolean) => {
+    Object.defineProperty(document, "hidden", { configurable: true, get: () => hidden });
+    document.dispatchEvent(new Event("visibilitychange"));
+  };
+
+  afterEach(() => {
+    setHidden(false);
+    vi.useRealTimers();
+  });
+
+  it("records tab switches with their duration and pastes, relative to the session start", () => {
+    vi.useFakeTimers({ now: 10000 });
+    const onEvent = vi.fn();
+    const { result } = renderHook(() => useIntegrityMonitor({ listening: false, onEvent }));
+
+    act(() => result.current.start(4000, {} as MediaStream));
+
+    vi.setSystemTime(12000);
+    act(() => setHidden(true));
+    vi.setSystemTime(15000);
+    act(() => setHidden(false));
+    act(() => {
+      document.dispatchEvent(new Event("paste"));
+    });
+
+    let events: IntegrityEvent[] = [];
+    act(() => {
+      events = result.current.stop();
+    });
+
+    expect(events).toEqual([
+      { type: "tab_hidden", at: 8000, duration: 3000 },
+      { type: "paste", at: 11000, chars: 0 },
+    ]);
+    // Each event is reported once, when it is over
+    expect(onEvent.mock.calls.map(([event]) => event)).toEqual(events);
+
+    // Nothing is recorded once stopped
+    act(() => setHidden(true));
+    expect(onEvent).toHaveBeenCalledTimes(2);
+  });
+});
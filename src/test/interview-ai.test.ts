@@ -0,0 +1,219 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import {
+  getActionConflict,
+  getAnalysisUpdate,
+  getAnalyzedResponses,
+  getFallbackResult,
+  insertFollowUp,
+  isValidInsertAt,
+  MAX_ANALYZED_RESPONSES,
+} from "../../supabase/functions/interview-ai/interview-state.ts";
+import {
+  AIProviderError,
+  createChatCompletion,
+  getChatProviders,
+  shouldFailOver,
+} from "../../supabase/functions/interview-ai/providers.ts";
+import {
+  extractJson,
+  generateValidated,
+  MAX_REPAIR_ATTEMPTS,
+  type ParsedResult,
+} from "../../supabase/functions/interview-ai/replies.ts";
+
+// Stands in for a zod schema: two non-empty question strings
+const parseQuestions = (content: string): ParsedResult<string[]> => {
+  let value: unknown;
+  try {
+    value = extractJson(content);
+  } catch {
+    return { success: false, error: "the reply is not valid JSON" };
+  }
+  return Array.isArray(value) && value.length === 2 && value.every((item) => typeof item === "string" && item)
+    ? { success: true, data: value }
+    : { success: false, error: "(root): expected 2 questions" };
+};
+
+const envOf = (values: Record<string, string>) => (name: string) => values[name];
+
+// A reply from a chat completions endpoint, or a failure with the given status
+const chatReply = (status: number, content = "") => ({
+  ok: status < 300,
+  status,
+  text: async () => `status ${status}`,
+  json: async () => ({ choices: [{ message: { content } }] }),
+});
+
+describe("interview-ai providers", () => {
+  const messages = [{ role: "user" as const, content: "Hi" }];
+  const providers = getChatProviders(envOf({
+    AI_API_URL: "http://localhost:11434/v1/",
+    AI_MODEL: "llama3",
+    AI_FALLBACK_API_URL: "https://fallback.example/v1",
+    AI_FALLBACK_API_KEY: "fallback-key",
+  }));
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("picks a model per action, falling back to the shared model and the primary's models", () => {
+    const [primary, fallback] = getChatProviders(envOf({
+      AI_API_URL: "http://localhost:11434/v1/",
+      AI_MODEL: "llama3",
+      AI_MODEL_ANALYZE_RESPONSES: "llama3:70b",
+      AI_FALLBACK_API_URL: "https://fallback.example/v1",
+      AI_FALLBACK_MODEL_FOLLOW_UP: "small",
+    }));
+
+    expect(primary).toMatchObject({ name: "primary", url: "http://localhost:11434/v1", apiKey: undefined });
+    expect(primary.models).toEqual({
+      generate_questions: "llama3",
+      follow_up: "llama3",
+      analyze_responses: "llama3:70b",
+    });
+    expect(fallback.models).toEqual({
+      generate_questions: "llama3",
+      follow_up: "small",
+      analyze_responses: "llama3:70b",
+    });
+
+    expect(getChatProviders(envOf({ LOVABLE_API_KEY: "key" }))).toEqual([
+      expect.objectContaining({ name: "primary", url: "https://ai.gateway.lovable.dev/v1", apiKey: "key" }),
+    ]);
+    expect(getChatProviders(envOf({}))).toEqual([]);
+  });
+
+  it("fails over on rate limits and server errors only", () => {
+    expect(shouldFailOver(429)).toBe(true);
+    expect(shouldFailOver(500)).toBe(true);
+    expect(shouldFailOver(503)).toBe(true);
+    expect(shouldFailOver(400)).toBe(false);
+    expect(shouldFailOver(402)).toBe(false);
+  });
+
+  it.each([503, 429])("answers from the fallback when the primary returns %i", async (status) => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetch = vi.fn().mockResolvedValueOnce(chatReply(status)).mockResolvedValueOnce(chatReply(200, "Hello"));
+    vi.stubGlobal("fetch", fetch);
+
+    expect(await createChatCompletion(providers, "follow_up", messages)).toBe("Hello");
+    expect(fetch.mock.calls.map(([url]) => url)).toEqual([
+      "http://localhost:11434/v1/chat/completions",
+      "https://fallback.example/v1/chat/completions",
+    ]);
+    expect(fetch.mock.calls[1][1].headers.Authorization).toBe("Bearer fallback-key");
+    expect(JSON.parse(fetch.mock.calls[1][1].body)).toEqual({ model: "llama3", messages });
+  });
+
+  it("keeps the provider's status on the error it throws", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const fetch = vi.fn().mockResolvedValue(chatReply(402));
+    vi.stubGlobal("fetch", fetch);
+
+    const error = await createChatCompletion(providers, "analyze_responses", messages).catch((e) => e);
+    expect(error).toBeInstanceOf(AIProviderError);
+    expect(error.status).toBe(402);
+    expect(fetch).toHaveBeenCalledTimes(1);
+
+    fetch.mockResolvedValue(chatReply(429));
+    const exhausted = await createChatCompletion(providers, "analyze_responses", messages).catch((e) => e);
+    expect(exhausted).toMatchObject({ status: 429 });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe("interview-ai replies", () => {
+  it("finds JSON inside markdown fences and surrounding prose", () => {
+    expect(extractJson('```json\n["Q1?", "Q2?"]\n```')).toEqual(["Q1?", "Q2?"]);
+    expect(extractJson('Here you go:\n```\n{"action": "move_on"}\n```\nGood luck!')).toEqual({ action: "move_on" });
+    expect(extractJson('Sure! {"action": "move_on"} Hope that helps.')).toEqual({ action: "move_on" });
+    expect(() => extractJson("I can't help with that.")).toThrow("no JSON value found");
+  });
+
+  it("sends an invalid reply back with the error and accepts the repaired one", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const complete = vi
+      .fn()
+      .mockResolvedValueOnce('["Only one?"]')
+      .mockResolvedValueOnce('```json\n["Q1?", "Q2?"]\n```');
+
+    expect(await generateValidated(complete, parseQuestions, "system", "user")).toEqual(["Q1?", "Q2?"]);
+    expect(complete).toHaveBeenCalledTimes(2);
+    expect(complete.mock.calls[1][0]).toEqual([
+      { role: "system", content: "system" },
+      { role: "user", content: "user" },
+      { role: "assistant", content: '["Only one?"]' },
+      {
+        role: "user",
+        content: "Your previous reply was invalid: (root): expected 2 questions. Reply again with only the corrected JSON, in exactly the requested format.",
+      },
+    ]);
+  });
+
+  it("gives up after the repair attempts, leaving the degraded fallback", async () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    const complete = vi.fn().mockResolvedValue("not JSON");
+
+    expect(await generateValidated(complete, parseQuestions, "system", "user")).toBeNull();
+    expect(complete).toHaveBeenCalledTimes(MAX_REPAIR_ATTEMPTS + 1);
+    expect(getFallbackResult("generate_questions", "Java", 2)).toHaveLength(2);
+  });
+});
+
+describe("interview-ai stored interview", () => {
+  const running = { status: "in_progress", finished_at: null };
+  const finished = { status: "in_progress", finished_at: "2026-10-19T10:18:00Z" };
+  const analyzed = { status: "completed", finished_at: "2026-10-19T10:18:00Z" };
+
+  it("stops follow-ups once the candidate finished and analyzes only once", () => {
+    expect(getActionConflict("follow_up", running)).toBeNull();
+    expect(getActionConflict("follow_up", finished)).toBe("Interview already finished");
+    expect(getActionConflict("analyze_responses", finished)).toBeNull();
+    expect(getActionConflict("analyze_responses", analyzed)).toBe("Interview already analyzed");
+    expect(getActionConflict("generate_questions", analyzed)).toBeNull();
+  });
+
+  it("puts a follow-up right after the answer it probes", () => {
+    const questions = ["Q1?", "Q2?", "Q3?"];
+    expect(isValidInsertAt(1, questions)).toBe(true);
+    expect(isValidInsertAt(3, questions)).toBe(true);
+    [0, 4, 1.5, "1", undefined].forEach((insertAt) => expect(isValidInsertAt(insertAt, questions), String(insertAt)).toBe(false));
+
+    expect(insertFollowUp(questions, 1, "Why?")).toEqual(["Q1?", "Why?", "Q2?", "Q3?"]);
+    expect(insertFollowUp(Array(MAX_ANALYZED_RESPONSES).fill("Q?"), 1, "Why?")).toBeNull();
+  });
+
+  it("pairs stored answers with stored questions, follow-ups included", () => {
+    const responses = [{ answer: "A1", inputMode: "typed" }, { answer: "A2", followUpOf: 0 }];
+    expect(getAnalyzedResponses(["Q1?", "Why?", "Q2?"], responses)).toEqual([
+      { question: "Q1?", answer: "A1", inputMode: "typed" },
+      { question: "Why?", answer: "A2", followUpOf: 0 },
+      { question: "Q2?" },
+    ]);
+    expect(getAnalyzedResponses(Array(40).fill("Q?"), null)).toHaveLength(MAX_ANALYZED_RESPONSES);
+  });
+
+  it("stores the analysis as completed", () => {
+    const analysis = { score: 70, analysis: "Solid.", recommendation: "consider" };
+    expect(getAnalysisUpdate(analysis, new Date("2026-10-19T10:20:00Z"))).toEqual({
+      status: "completed",
+      score: 70,
+      analysis: "Solid.",
+      recommendation: "consider",
+      analysis_details: analysis,
+      completed_at: "2026-10-19T10:20:00.000Z",
+    });
+  });
+
+  it("falls back to generic questions and no follow-up, but never makes up an analysis", () => {
+    expect(getFallbackResult("generate_questions", "Java", 2)).toEqual([
+      "What are the core concepts of Java?",
+      "Explain a challenging Java problem you've solved.",
+    ]);
+    expect(getFallbackResult("follow_up", "Java", 0)).toEqual({ action: "move_on" });
+    expect(getFallbackResult("analyze_responses", "Java", 0)).toBeNull();
+  });
+});
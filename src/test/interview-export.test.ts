@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import type { InterviewRow } from "@/lib/interviews";
+import {
+  buildCsvExport,
+  buildJsonExport,
+  EXPORT_VERSION,
+  getImportErrorKey,
+  parseInterviewExport,
+  toImportedRow,
+} from "@/lib/interview-export";
+
+const row = {
+  id: "6f1c2d3e-4a5b-4c6d-8e7f-9a0b1c2d3e4f",
+  user_id: "user-1",
+  candidate_name: "Jane Doe",
+  category: "java",
+  locale: "en",
+  status: "completed",
+  created_at: "2026-10-19T10:00:00+00:00",
+  completed_at: "2026-10-19T10:20:00+00:00",
+  finished_at: "2026-10-19T10:18:00+00:00",
+  imported_at: null,
+  score: 82,
+  recommendation: "hire",
+  analysis: "Solid.",
+  questions: ["What is a JVM?"],
+  responses: [
+    { question: "What is a JVM?", answer: "A virtual machine, \"mostly\"", inputMode: "typed", timing: { questionStartedAt: 0, answerEndedAt: 9000 } },
+    { question: "Which one?", answer: "HotSpot", followUpOf: 0 },
+  ],
+  analysis_details: {
+    score: 82,
+    analysis: "Solid.",
+    strengths: ["Clear"],
+    improvements: [],
+    recommendation: "hire",
+    questions: [{ question: 1, score: 90, correctness: 5, depth: 4, communication: 4, modelAnswer: "", missedPoints: [] }],
+  },
+  video_url: "user-1/x/recording.webm",
+  photo_paths: [],
+  integrity_events: [],
+  organization_id: null,
+  invite_id: null,
+  recommendation_rank: 3,
+} as InterviewRow;
+
+describe("JSON export", () => {
+  it("round-trips through the import parser", () => {
+    const interviews = parseInterviewExport(buildJsonExport([row]));
+    expect(interviews).toHaveLength(1);
+    expect(interviews[0]).toMatchObject({
+      id: row.id,
+      candidateName: "Jane Doe",
+      score: 82,
+      questions: ["What is a JVM?"],
+    });
+    expect(interviews[0].responses[1].followUpOf).toBe(0);
+    expect(interviews[0].analysis?.questions?.[0].score).toBe(90);
+  });
+
+  it("refuses files that aren't exports or come from a newer version", () => {
+    const refusal = (text: string) => {
+      try {
+        parseInterviewExport(text);
+      } catch (error) {
+        return getImportErrorKey(error);
+      }
+    };
+    expect(refusal("not json")).toBe("transfer.invalidFile");
+    expect(refusal(JSON.stringify({ interviews: [] }))).toBe("transfer.invalidFile");
+
+    const newer = JSON.parse(buildJsonExport([row]));
+    newer.version = EXPORT_VERSION + 1;
+    expect(refusal(JSON.stringify(newer))).toBe("transfer.unsupportedVersion");
+
+    const broken = JSON.parse(buildJsonExport([row]));
+    broken.interviews[0].score = 140;
+    expect(refusal(JSON.stringify(broken))).toBe("transfer.invalidFile");
+  });
+});
+
+describe("JSON import", () => {
+  it("marks restored interviews as imported and finished", () => {
+    const [interview] = parseInterviewExport(buildJsonExport([row]));
+    const restored = toImportedRow("user-2", interview, new Date("2026-10-20T08:00:00Z"));
+
+    expect(restored).toMatchObject({
+      id: row.id,
+      user_id: "user-2",
+      status: "completed",
+      imported_at: "2026-10-20T08:00:00.000Z",
+      finished_at: "2026-10-19T10:20:00+00:00",
+      score: 82,
+    });
+    expect(toImportedRow("user-2", { ...interview, status: "in_progress", completedAt: null }).finished_at).toBeNull();
+  });
+});
+
+describe("CSV export", () => {
+  it("writes one line per answer with timing and per-question scores", () => {
+    const lines = buildCsvExport([row]).split("\n");
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toBe(
+      `${row.id},Jane Doe,java,en,completed,2026-10-19T10:00:00+00:00,2026-10-19T10:20:00+00:00,82,hire,` +
+        '1,,What is a JVM?,"A virtual machine, ""mostly""",typed,90,0,,9000,',
+    );
+    expect(lines[2]).toContain(",2,1,Which one?,HotSpot,,,,,,");
+  });
+});
@@ -0,0 +1,320 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { cleanup, fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { MotionGlobalConfig } from "framer-motion";
+
+vi.mock("@/integrations/supabase/client", async () => {
+  const { fakeSupabase } = await import("@/test/fakes/supabase");
+  return { supabase: fakeSupabase.client };
+});
+
+import App from "@/App";
+import { queryClient } from "@/lib/query-client";
+import { fakeSupabase, TEST_USER } from "@/test/fakes/supabase";
+import { installBrowserShims, setSpokenAnswer } from "@/test/fakes/browser";
+import { STUB_SCORE } from "@/test/fakes/ai";
+import { saveResponses } from "@/lib/interviews";
+
+const FULL_ANSWER = "I would start with the fundamentals and explain each step in order.";
+
+const click = async (name: RegExp) => fireEvent.click(await screen.findByRole("button", { name }));
+
+// Listen to the question, speak the answer, then move on with `next`
+const answerQuestion = async (answer: string, next: RegExp) => {
+  await click(/listen to question/i);
+  setSpokenAnswer(answer);
+  await click(/start speaking/i);
+  await click(/stop recording/i);
+  await screen.findByDisplayValue(answer);
+  await click(next);
+};
+
+const startInterview = async () => {
+  render(<App />);
+  await click(/java/i);
+  await click(/enable camera & microphone/i);
+  await screen.findByText("Stub java question 1?");
+};
+
+const INVITE_TOKEN = "3f1c9a7e5b2d4c6e8a0f1b3d5c7e9a2b";
+const PRESET_QUESTIONS = ["Preset python question 1?", "Preset python question 2?"];
+
+// An invite from "Acme" with the recruiter's own questions; `overrides` changes its deadline or attempts
+const seedInvite = (overrides: Record<string, unknown> = {}) => {
+  const invite = {
+    id: "invite-1",
+    token: INVITE_TOKEN,
+    organization_id: "org-1",
+    category: "python",
+    locale: "en",
+    questions: PRESET_QUESTIONS,
+    expires_at: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+    max_attempts: 1,
+    attempts_used: 0,
+    ...overrides,
+  };
+  fakeSupabase.tables.organizations = [{ id: "org-1", name: "Acme" }];
+  fakeSupabase.tables.interview_invites = [invite];
+  return invite;
+};
+
+const openInvite = async () => {
+  window.history.pushState({}, "", `/invite/${INVITE_TOKEN}`);
+  render(<App />);
+  await screen.findByText("You're invited to an interview");
+};
+
+const getInterviewRow = () => {
+  const rows = fakeSupabase.tables.interviews ?? [];
+  expect(rows).toHaveLength(1);
+  return rows[0];
+};
+
+// Every test starts signed in on the home page with empty tables and storage
+beforeEach(() => {
+  MotionGlobalConfig.skipAnimations = true;
+  localStorage.clear();
+  queryClient.clear();
+  window.history.pushState({}, "", "/");
+  fakeSupabase.reset();
+  installBrowserShims();
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("interview flow", () => {
+  it("runs category → interview → results and stores every step", async () => {
+    await startInterview();
+
+    const row = getInterviewRow();
+    expect(row).toMatchObject({
+      user_id: TEST_USER.id,
+      candidate_name: "Test Candidate",
+      category: "java",
+      locale: "en",
+      status: "in_progress",
+    });
+
+    // A short answer to the first question earns one follow-up
+    await answerQuestion("Use a HashMap.", /next/i);
+    expect(await screen.findByText("Could you expand on that with an example?")).toBeInTheDocument();
+    expect(screen.getByText(/follow-up question/i)).toBeInTheDocument();
+    await answerQuestion(FULL_ANSWER, /next/i);
+
+    for (let i = 2; i <= 5; i++) {
+      await screen.findByText(`Stub java question ${i}?`);
+      await answerQuestion(FULL_ANSWER, i === 5 ? /finish/i : /next/i);
+    }
+
+    expect(await screen.findByText("Interview Complete!")).toBeInTheDocument();
+    expect(row.finished_at).toEqual(expect.any(String));
+    expect(await screen.findByText("Stub analysis of 6 answers.")).toBeInTheDocument();
+    expect(screen.getByText("Recommended to Hire")).toBeInTheDocument();
+
+    await waitFor(() => expect(row.status).toBe("completed"));
+    expect(row).toMatchObject({
+      score: STUB_SCORE,
+      recommendation: "hire",
+      analysis: "Stub analysis of 6 answers.",
+    });
+    expect(row.questions).toEqual([
+      "Stub java question 1?",
+      "Could you expand on that with an example?",
+      "Stub java question 2?",
+      "Stub java question 3?",
+      "Stub java question 4?",
+      "Stub java question 5?",
+    ]);
+
+    const responses = row.responses as { answer: string; inputMode: string; followUpOf?: number }[];
+    expect(responses).toHaveLength(6);
+    // Web Speech final results end with a space
+    expect(responses.map((response) => response.answer.trim())).toEqual(["Use a HashMap.", ...Array(5).fill(FULL_ANSWER)]);
+    expect(responses[0].inputMode).toBe("spoken");
+    expect(responses[1].followUpOf).toBe(0);
+
+    const actions = fakeSupabase.invocations.map((invocation) => invocation.body.action);
+    expect(actions[0]).toBe("generate_questions");
+    expect(actions.filter((action) => action === "follow_up")).toHaveLength(6);
+    expect(actions[actions.length - 1]).toBe("analyze_responses");
+  }, 30000);
+
+  it("appends integrity signals to the interview once they are over", async () => {
+    await startInterview();
+    const row = getInterviewRow();
+
+    document.dispatchEvent(new Event("paste"));
+    await waitFor(() => expect(row.integrity_events).toEqual([{ type: "paste", chars: 0, at: expect.any(Number) }]));
+
+    // A tab switch is only stored when the candidate comes back, with how long they were away
+    let hidden = true;
+    vi.spyOn(document, "hidden", "get").mockImplementation(() => hidden);
+    document.dispatchEvent(new Event("visibilitychange"));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(row.integrity_events).toHaveLength(1);
+
+    hidden = false;
+    document.dispatchEvent(new Event("visibilitychange"));
+    await waitFor(() => expect(row.integrity_events).toHaveLength(2));
+    expect((row.integrity_events as unknown[])[1]).toMatchObject({ type: "tab_hidden", duration: expect.any(Number) });
+  });
+
+  it("only offers enabled categories", async () => {
+    fakeSupabase.tables.categories.find((category) => category.slug === "python").enabled = false;
+    render(<App />);
+
+    expect(await screen.findByRole("button", { name: /java/i })).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /python/i })).not.toBeInTheDocument();
+  });
+
+  it("won't re-score an interview after the analysis is shown", async () => {
+    await startInterview();
+    for (let i = 1; i <= 5; i++) {
+      await screen.findByText(`Stub java question ${i}?`);
+      await answerQuestion(FULL_ANSWER, i === 5 ? /finish/i : /next/i);
+    }
+    expect(await screen.findByText("Stub analysis of 5 answers.")).toBeInTheDocument();
+    const row = getInterviewRow();
+    const analysis = row.analysis_details;
+
+    // Copy the model answers into the answers and ask for another analysis
+    const rewritten = (row.responses as { answer: string }[]).map((response, i) => ({
+      ...response,
+      answer: `A strong answer to question ${i + 1} covers the fundamentals.`,
+    }));
+    await expect(saveResponses(row.id as string, rewritten as never)).rejects.toThrow(/cannot be changed/);
+
+    const reanalysis = await fakeSupabase.client.functions.invoke("interview-ai", {
+      body: { action: "analyze_responses", interviewId: row.id },
+    });
+    expect(reanalysis.error).toMatchObject({ context: { status: 409 } });
+
+    const followUp = await fakeSupabase.client.functions.invoke("interview-ai", {
+      body: { action: "follow_up", interviewId: row.id, insertAt: 1, conversation: [{ question: "Q?", answer: "Short." }] },
+    });
+    expect(followUp.error).toMatchObject({ context: { status: 409 } });
+
+    expect(row.analysis_details).toBe(analysis);
+    expect(row.questions).toHaveLength(5);
+    expect((row.responses as { answer: string }[])[0].answer.trim()).toBe(FULL_ANSWER);
+  }, 30000);
+
+  it("offers a retry instead of a score when the analysis is degraded", async () => {
+    fakeSupabase.setAiOptions({ degradedAnalysis: true });
+    await startInterview();
+
+    for (let i = 1; i <= 5; i++) {
+      await screen.findByText(`Stub java question ${i}?`);
+      await answerQuestion(FULL_ANSWER, i === 5 ? /finish/i : /next/i);
+    }
+
+    expect(await screen.findByText("We couldn't analyze your interview")).toBeInTheDocument();
+    expect(screen.queryByText("Overall Score")).not.toBeInTheDocument();
+    const row = getInterviewRow();
+    expect(row.status).toBe("in_progress");
+    expect(row.score).toBeUndefined();
+
+    fakeSupabase.setAiOptions({});
+    await click(/try again/i);
+
+    expect(await screen.findByText("Stub analysis of 5 answers.")).toBeInTheDocument();
+    await waitFor(() => expect(row.status).toBe("completed"));
+    expect(row.score).toBe(STUB_SCORE);
+  }, 30000);
+});
+
+describe("invited interview", () => {
+  it("uses up an attempt and asks the recruiter's questions", async () => {
+    const invite = seedInvite();
+    await openInvite();
+    expect(screen.getByText("1 / 1")).toBeInTheDocument();
+
+    await click(/^start interview$/i);
+    await click(/enable camera & microphone/i);
+    expect(await screen.findByText(PRESET_QUESTIONS[0])).toBeInTheDocument();
+
+    expect(invite.attempts_used).toBe(1);
+    const row = getInterviewRow();
+    expect(row).toMatchObject({
+      invite_id: invite.id,
+      organization_id: "org-1",
+      category: "python",
+      status: "in_progress",
+      questions: PRESET_QUESTIONS,
+    });
+
+    await answerQuestion(FULL_ANSWER, /next/i);
+    await screen.findByText(PRESET_QUESTIONS[1]);
+    await answerQuestion(FULL_ANSWER, /finish/i);
+
+    expect(await screen.findByText("Stub analysis of 2 answers.")).toBeInTheDocument();
+    await waitFor(() => expect(row.status).toBe("completed"));
+    expect(row.questions).toEqual(PRESET_QUESTIONS);
+    const actions = fakeSupabase.invocations.map((invocation) => invocation.body.action);
+    expect(actions).not.toContain("generate_questions");
+  }, 30000);
+
+  it.each([
+    ["past its deadline", { expires_at: "2026-01-01T00:00:00Z" }, "This invite has expired."],
+    ["out of attempts", { attempts_used: 1 }, "All attempts for this invite have been used."],
+  ])("can't be started once it is %s", async (_, overrides, message) => {
+    seedInvite(overrides);
+    await openInvite();
+
+    expect(await screen.findByText(message)).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /^start interview$/i })).not.toBeInTheDocument();
+  });
+
+  it.each([
+    ["expires", { expires_at: "2026-01-01T00:00:00Z" }, "This invite has expired."],
+    ["runs out of attempts", { attempts_used: 1 }, "All attempts for this invite have been used."],
+  ])("is refused by the server when it %s after the page loaded", async (_, overrides, message) => {
+    const invite = seedInvite();
+    await openInvite();
+    await screen.findByRole("button", { name: /^start interview$/i });
+
+    // e.g. another tab used the last attempt
+    Object.assign(invite, overrides);
+    await click(/^start interview$/i);
+
+    expect(await screen.findByText(message)).toBeInTheDocument();
+    expect(fakeSupabase.tables.interviews ?? []).toHaveLength(0);
+    expect(window.location.pathname).toBe(`/invite/${INVITE_TOKEN}`);
+  });
+});
+
+describe("question bank", () => {
+  beforeEach(() => {
+    fakeSupabase.tables.user_roles = [{ user_id: TEST_USER.id, role: "admin" }];
+    window.history.pushState({}, "", "/admin/questions");
+  });
+
+  it("lets an admin add a question with a reference answer and tags", async () => {
+    render(<App />);
+    expect(await screen.findByText("No questions in the bank yet.")).toBeInTheDocument();
+
+    await click(/add question/i);
+    fireEvent.change(await screen.findByLabelText("Question"), { target: { value: " What is a HashMap? " } });
+    fireEvent.change(screen.getByLabelText("Reference answer"), { target: { value: "Buckets of key-value pairs." } });
+    fireEvent.change(screen.getByLabelText("Tags"), { target: { value: "Collections, generics ,, collections" } });
+    await click(/^save$/i);
+
+    // The list is reloaded after saving
+    await waitFor(() => expect(screen.getByText("What is a HashMap?")).toBeInTheDocument());
+    expect(fakeSupabase.tables.question_bank).toEqual([
+      expect.objectContaining({
+        category: "java",
+        locale: "en",
+        difficulty: "medium",
+        tags: ["collections", "generics"],
+        text: "What is a HashMap?",
+        reference_answer: "Buckets of key-value pairs.",
+        active: true,
+        created_by: TEST_USER.id,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,23 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { getInviteErrorKey, parseQuestions } from "@/lib/invites";
+
+describe("parseQuestions", () => {
+  it("takes one question per non-empty line", () => {
+    expect(parseQuestions(" What is a closure?\n\nExplain the event loop. \n")).toEqual([
+      "What is a closure?",
+      "Explain the event loop.",
+    ]);
+    expect(parseQuestions("")).toEqual([]);
+  });
+});
+
+describe("getInviteErrorKey", () => {
+  it("maps the reasons start_invited_interview raises", () => {
+    expect(getInviteErrorKey({ message: "invite_expired" })).toBe("invite.expired");
+    expect(getInviteErrorKey({ message: "invite_used_up" })).toBe("invite.usedUp");
+    expect(getInviteErrorKey(new Error("network down"))).toBe("invite.startFailed");
+  });
+});
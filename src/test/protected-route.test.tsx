@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes } from "react-router-dom";
+
+const auth = vi.hoisted(() => ({ user: { id: "user-1" } as { id: string } | null, loading: false }));
+const roles = vi.hoisted(() => ({ current: [] as string[] }));
+
+vi.mock("@/hooks/useAuth", () => ({ useAuth: () => auth }));
+vi.mock("@/hooks/useRoles", () => ({
+  useRoles: () => ({
+    roles: roles.current,
+    isLoading: false,
+    hasRole: (role: string) => roles.current.includes(role),
+  }),
+}));
+
+import { ProtectedRoute } from "@/components/ProtectedRoute";
+import type { AppRole } from "@/lib/roles";
+
+const renderRoute = (requiredRole?: AppRole) =>
+  render(
+    <MemoryRouter initialEntries={["/private"]}>
+      <Routes>
+        <Route path="/" element={<p>Home</p>} />
+        <Route path="/auth" element={<p>Sign in</p>} />
+        <Route
+          path="/private"
+          element={
+            <ProtectedRoute requiredRole={requiredRole}>
+              <p>Private</p>
+            </ProtectedRoute>
+          }
+        />
+      </Routes>
+    </MemoryRouter>,
+  );
+
+describe("ProtectedRoute", () => {
+  beforeEach(() => {
+    auth.user = { id: "user-1" };
+    roles.current = [];
+  });
+
+  it("sends signed-out users to the sign-in page", () => {
+    auth.user = null;
+    renderRoute();
+    expect(screen.getByText("Sign in")).toBeInTheDocument();
+  });
+
+  it("sends users without the required role home", () => {
+    renderRoute("recruiter");
+    expect(screen.getByText("Home")).toBeInTheDocument();
+  });
+
+  it("lets users with the required role, and admins, through", () => {
+    roles.current = ["recruiter"];
+    const { unmount } = renderRoute("recruiter");
+    expect(screen.getByText("Private")).toBeInTheDocument();
+    unmount();
+
+    roles.current = ["admin"];
+    renderRoute("recruiter");
+    expect(screen.getByText("Private")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { parseTags } from "@/lib/question-bank";
+import { fakeSupabase } from "@/test/fakes/supabase";
+import { drawBankQuestions, parseBankMix } from "../../supabase/functions/interview-ai/question-bank.ts";
+
+describe("parseTags", () => {
+  it("splits on commas, trims and lower-cases", () => {
+    expect(parseTags(" Collections, Generics ")).toEqual(["collections", "generics"]);
+  });
+
+  it("drops empty entries and duplicates", () => {
+    expect(parseTags("arrays,, big-o , ARRAYS,")).toEqual(["arrays", "big-o"]);
+    expect(parseTags("")).toEqual([]);
+  });
+});
+
+describe("parseBankMix", () => {
+  it("reads a count per difficulty and defaults to one of each", () => {
+    expect(parseBankMix("easy:1, medium:2 ,hard:0")).toEqual({ easy: 1, medium: 2, hard: 0 });
+    expect(parseBankMix("hard:3")).toEqual({ easy: 0, medium: 0, hard: 3 });
+    expect(parseBankMix(undefined)).toEqual({ easy: 1, medium: 1, hard: 1 });
+  });
+
+  it("turns the bank off with none", () => {
+    expect(parseBankMix(" none ")).toEqual({ easy: 0, medium: 0, hard: 0 });
+  });
+
+  it("ignores invalid entries", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(parseBankMix("easy:2,expert:1,medium:-1,hard:many,medium")).toEqual({ easy: 2, medium: 0, hard: 0 });
+    expect(console.warn).toHaveBeenCalledTimes(4);
+  });
+});
+
+describe("drawBankQuestions", () => {
+  const admin = fakeSupabase.client as unknown as Parameters<typeof drawBankQuestions>[0];
+  const bankRow = (text: string, difficulty: string, extra = {}) => ({
+    text,
+    difficulty,
+    category: "java",
+    locale: "en",
+    active: true,
+    ...extra,
+  });
+
+  beforeEach(() => {
+    fakeSupabase.reset();
+    fakeSupabase.tables.question_bank = [
+      bankRow("Easy 1?", "easy"),
+      bankRow("Easy 2?", "easy"),
+      bankRow("Medium 1?", "medium"),
+      bankRow("Hard 1?", "hard"),
+      bankRow("Retired?", "easy", { active: false }),
+      bankRow("German?", "easy", { locale: "de" }),
+    ];
+  });
+
+  it("draws active questions of the interview's category and locale, easiest first", async () => {
+    const drawn = await drawBankQuestions(admin, {
+      category: "java",
+      locale: "en",
+      mix: { easy: 2, medium: 1, hard: 1 },
+      limit: 5,
+    });
+    expect(drawn.slice(0, 2).sort()).toEqual(["Easy 1?", "Easy 2?"]);
+    expect(drawn.slice(2)).toEqual(["Medium 1?", "Hard 1?"]);
+  });
+
+  it("never draws more than the limit", async () => {
+    const drawn = await drawBankQuestions(admin, {
+      category: "java",
+      locale: "en",
+      mix: { easy: 2, medium: 1, hard: 1 },
+      limit: 3,
+    });
+    expect(drawn).toHaveLength(3);
+    expect(drawn).not.toContain("Hard 1?");
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { getChapters } from "@/lib/interviews";
+import { getBaseMimeType, getRecordingPath, toRecordingUpload } from "@/lib/recording";
+
+describe("recording types", () => {
+  it("drops codec parameters", () => {
+    expect(getBaseMimeType("video/webm;codecs=vp9,opus")).toBe("video/webm");
+    expect(getBaseMimeType("Video/MP4; codecs=avc1")).toBe("video/mp4");
+    expect(getBaseMimeType("video/webm")).toBe("video/webm");
+  });
+
+  it("names the file after the recorded type", () => {
+    expect(getRecordingPath("user-1", "interview-1", "video/webm;codecs=vp8,opus")).toBe(
+      "user-1/interview-1/recording.webm",
+    );
+    expect(getRecordingPath("user-1", "interview-1", "video/mp4")).toBe("user-1/interview-1/recording.mp4");
+  });
+
+  it("uploads the recording under its base type", () => {
+    const upload = toRecordingUpload(new Blob([new Uint8Array(16)], { type: "video/webm;codecs=vp9,opus" }));
+    expect(upload.type).toBe("video/webm");
+    expect(upload.size).toBe(16);
+  });
+});
+
+describe("getChapters", () => {
+  it("starts a chapter when the question is asked, or at the answer when that wasn't recorded", () => {
+    const chapters = getChapters([
+      {
+        question: "Q1?",
+        answer: "A1",
+        timing: { questionStartedAt: 2000, answerStartedAt: 5000, answerEndedAt: 30000, questionEndedAt: 31500 },
+      },
+      { question: "Q2?", answer: "A2", timing: { answerStartedAt: 40000, answerEndedAt: 52000 } },
+    ]);
+    expect(chapters).toEqual([
+      { index: 0, label: "Q1?", start: 2, end: 31.5 },
+      { index: 1, label: "Q2?", start: 40, end: 52 },
+    ]);
+  });
+
+  it("leaves the end open when the question never ended", () => {
+    expect(getChapters([{ question: "Q1?", answer: "", timing: { questionStartedAt: 1000 } }])).toEqual([
+      { index: 0, label: "Q1?", start: 1, end: null },
+    ]);
+  });
+
+  it("skips answers without timing and keeps the question's index", () => {
+    const chapters = getChapters([
+      { question: "Q1?", answer: "A1" },
+      { question: "Q2?", answer: "A2", timing: {} },
+      { question: "Q3?", answer: "A3", timing: { questionStartedAt: 0, questionEndedAt: 9000 } },
+    ]);
+    expect(chapters).toEqual([{ index: 2, label: "Q3?", start: 0, end: 9 }]);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from "vitest";
+import { enUS } from "date-fns/locale";
+import { translate } from "@/lib/i18n";
+import { buildReportPdf, getReportFilename } from "@/lib/report";
+
+describe("getReportFilename", () => {
+  it("builds a file name from the candidate's name and the interview date", () => {
+    expect(getReportFilename("José Núñez", new Date(2026, 9, 19))).toBe("interview-report-jose-nunez-2026-10-19.pdf");
+    expect(getReportFilename("  ", new Date(2026, 9, 19))).toBe("interview-report-candidate-2026-10-19.pdf");
+  });
+});
+
+describe("buildReportPdf", () => {
+  it("renders a PDF with the analysis and transcript", async () => {
+    const pdf = await buildReportPdf(
+      {
+        candidateName: "Jane Doe",
+        categoryName: "Java",
+        date: new Date(2026, 9, 19, 10, 30),
+        analysis: {
+          score: 82,
+          analysis: "Solid fundamentals.",
+          strengths: ["Clear explanations"],
+          improvements: ["Concurrency"],
+          recommendation: "hire",
+          questions: [],
+        },
+        responses: Array.from({ length: 30 }, (_, i) => ({
+          question: `Question ${i + 1}`,
+          answer: "A long answer. ".repeat(40),
+        })),
+        photos: [],
+      },
+      { t: (key, values) => translate("en", key, values), dateLocale: enUS },
+    );
+
+    const text = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(pdf);
+    });
+    expect(text.startsWith("%PDF-")).toBe(true);
+    // The transcript runs past the first page
+    expect(text).toMatch(/\/Count [2-9]/);
+  });
+});
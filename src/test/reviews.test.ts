@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import type { AnalysisResult, QuestionAssessment } from "@/lib/interviews";
+import { getDisagreements, scoreToRating } from "@/lib/reviews";
+
+const assessment = (question: number, score: number): QuestionAssessment => ({
+  question,
+  score,
+  correctness: 3,
+  depth: 3,
+  communication: 3,
+  modelAnswer: "",
+  missedPoints: [],
+});
+
+const analysis: AnalysisResult = {
+  score: 72,
+  analysis: "",
+  strengths: [],
+  improvements: [],
+  recommendation: "consider",
+  questions: [assessment(1, 90), assessment(2, 35), assessment(3, 60)],
+};
+
+describe("scoreToRating", () => {
+  it("maps 0-100 scores onto a 1-5 scale", () => {
+    expect(scoreToRating(0)).toBe(1);
+    expect(scoreToRating(19)).toBe(1);
+    expect(scoreToRating(60)).toBe(4);
+    expect(scoreToRating(100)).toBe(5);
+  });
+});
+
+describe("getDisagreements", () => {
+  it("flags a different decision and ratings two or more points from the AI", () => {
+    const result = getDisagreements(
+      {
+        decision: "hire",
+        questionRatings: [
+          { question: 1, rating: 2, note: "" },
+          { question: 2, rating: 3, note: "" },
+          { question: 3, rating: 0, note: "not rated" },
+        ],
+      },
+      analysis,
+    );
+    expect(result.decision).toBe(true);
+    expect([...result.questions]).toEqual([1]);
+  });
+
+  it("finds nothing without a decision or an analysis", () => {
+    expect(getDisagreements({ decision: null, questionRatings: [] }, analysis).decision).toBe(false);
+    expect(getDisagreements({ decision: "hire", questionRatings: [] }, null).decision).toBe(false);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi } from "vitest";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { getShareErrorKey, isShareLinkActive } from "@/lib/share-links";
+import { getShareLinkState, isShareToken, readShareRequest } from "../../supabase/functions/shared-results/links.ts";
+
+describe("isShareLinkActive", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+
+  it("is active until it expires", () => {
+    expect(isShareLinkActive({ expires_at: "2026-10-20T12:00:00Z", revoked_at: null }, now)).toBe(true);
+    expect(isShareLinkActive({ expires_at: "2026-10-19T12:00:00Z", revoked_at: null }, now)).toBe(false);
+  });
+
+  it("is inactive once revoked", () => {
+    expect(isShareLinkActive({ expires_at: "2026-10-20T12:00:00Z", revoked_at: "2026-10-19T11:00:00Z" }, now)).toBe(false);
+  });
+});
+
+describe("getShareErrorKey", () => {
+  it("maps the edge function's status codes to messages", () => {
+    expect(getShareErrorKey({ context: { status: 404 } })).toBe("shared.notFound");
+    expect(getShareErrorKey({ context: { status: 410 } })).toBe("shared.unavailable");
+    expect(getShareErrorKey(new Error("network"))).toBe("shared.loadFailed");
+  });
+});
+
+describe("shared-results token checks", () => {
+  const now = new Date("2026-10-19T12:00:00Z");
+  const link = { expires_at: "2026-10-20T12:00:00Z", revoked_at: null };
+
+  it("only looks up tokens in the generated format", () => {
+    expect(isShareToken("0123456789abcdef0123456789abcdef")).toBe(true);
+    expect(isShareToken("0123456789ABCDEF0123456789ABCDEF")).toBe(false);
+    expect(isShareToken("0123456789abcdef")).toBe(false);
+    expect(isShareToken("' OR 1=1 --")).toBe(false);
+    expect(isShareToken(undefined)).toBe(false);
+  });
+
+  it("reads the token from a JSON object body and refuses anything else", () => {
+    expect(readShareRequest('{"token":"abc"}')).toEqual({ token: "abc" });
+    expect(readShareRequest("{}")).toEqual({ token: undefined });
+    ["", "not json", "null", "42", '"token"'].forEach((body) => expect(readShareRequest(body), body).toBeUndefined());
+  });
+
+  it("gives access only to live links whose creator can still share the interview", () => {
+    expect(getShareLinkState(null, false, now)).toBe("not_found");
+    expect(getShareLinkState(link, true, now)).toBe("active");
+    expect(getShareLinkState({ ...link, revoked_at: "2026-10-19T11:00:00Z" }, true, now)).toBe("unavailable");
+    expect(getShareLinkState({ ...link, expires_at: "2026-10-19T12:00:00Z" }, true, now)).toBe("unavailable");
+    expect(getShareLinkState(link, false, now)).toBe("unavailable");
+  });
+});
@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, afterEach } from "vitest";
+import type { StoredUpload } from "@/lib/upload-store";
+
+// IndexedDB as plain maps: upload records by id and chunks by "<id>:<index>"
+const store = vi.hoisted(() => ({ uploads: new Map<string, unknown>(), chunks: new Map<string, Blob>() }));
+
+vi.mock("@/integrations/supabase/client", () => ({
+  supabase: {
+    auth: { getSession: async () => ({ data: { session: { access_token: "test-token" } } }) },
+  },
+}));
+
+vi.mock("@/lib/upload-store", () => ({
+  isUploadStoreAvailable: () => true,
+  saveUpload: async (upload: StoredUpload, chunks: Blob[]) => {
+    store.uploads.set(upload.id, { ...upload });
+    chunks.forEach((chunk, index) => store.chunks.set(`${upload.id}:${index}`, chunk));
+  },
+  updateUpload: async (upload: StoredUpload) => {
+    store.uploads.set(upload.id, { ...upload });
+  },
+  listUploads: async () => [...store.uploads.values()],
+  getChunk: async (uploadId: string, index: number) => store.chunks.get(`${uploadId}:${index}`),
+  deleteUpload: async (upload: StoredUpload) => {
+    store.uploads.delete(upload.id);
+    for (let index = 0; index < upload.chunkCount; index++) store.chunks.delete(`${upload.id}:${index}`);
+  },
+}));
+
+import {
+  enqueueUpload,
+  getRetryDelay,
+  getUploadsSnapshot,
+  resumePendingUploads,
+  splitIntoChunks,
+  subscribeToUploads,
+  UPLOAD_CHUNK_SIZE,
+  waitForUpload,
+} from "@/lib/upload-manager";
+
+const UPLOAD_URL = "https://storage.test/upload/resumable/abc";
+
+// What the TUS endpoint answers, with the Upload-Offset or Location it sends back
+const tusResponse = (status: number, headers: Record<string, string> = {}) => new Response(null, { status, headers });
+
+const requests = (fetch: ReturnType<typeof vi.fn>) =>
+  fetch.mock.calls.map(([, init]: [string, RequestInit]) => ({
+    method: init.method,
+    offset: (init.headers as Record<string, string>)["Upload-Offset"],
+    size: (init.body as Blob | undefined)?.size,
+  }));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.useRealTimers();
+});
+
+describe("splitIntoChunks", () => {
+  it("splits a blob into fixed-size chunks with a shorter tail", () => {
+    const blob = new Blob([new Uint8Array(25)]);
+    const chunks = splitIntoChunks(blob, 10);
+    expect(chunks.map((chunk) => chunk.size)).toEqual([10, 10, 5]);
+  });
+
+  it("keeps a single chunk for small files", () => {
+    const blob = new Blob([new Uint8Array(1024)], { type: "image/jpeg" });
+    expect(splitIntoChunks(blob)).toHaveLength(1);
+    expect(UPLOAD_CHUNK_SIZE).toBe(6 * 1024 * 1024);
+  });
+
+  it("returns one empty chunk for an empty blob", () => {
+    expect(splitIntoChunks(new Blob([]), 10)).toHaveLength(1);
+  });
+});
+
+describe("getRetryDelay", () => {
+  it("backs off exponentially up to a cap", () => {
+    expect(getRetryDelay(0)).toBe(1000);
+    expect(getRetryDelay(1)).toBe(2000);
+    expect(getRetryDelay(3)).toBe(8000);
+    expect(getRetryDelay(10)).toBe(30000);
+  });
+});
+
+describe("upload queue", () => {
+  it("resumes an upload left in IndexedDB by a reload from the server's offset", async () => {
+    const id = "user-1/interview-1/recording.webm";
+    const chunks = splitIntoChunks(new Blob([new Uint8Array(25)]), 10);
+    store.uploads.set(id, {
+      id,
+      bucket: "interview-recordings",
+      path: id,
+      label: "Recording",
+      contentType: "video/webm",
+      size: 25,
+      chunkSize: 10,
+      chunkCount: chunks.length,
+      uploadUrl: UPLOAD_URL,
+      createdAt: 1,
+    });
+    chunks.forEach((chunk, index) => store.chunks.set(`${id}:${index}`, chunk));
+    // Someone else's upload on a shared device stays where it is
+    const otherId = "user-2/interview-2/recording.webm";
+    store.uploads.set(otherId, { id: otherId, path: otherId });
+
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(tusResponse(200, { "Upload-Offset": "10" }))
+      .mockResolvedValueOnce(tusResponse(204, { "Upload-Offset": "20" }))
+      .mockResolvedValueOnce(tusResponse(204, { "Upload-Offset": "25" }));
+    vi.stubGlobal("fetch", fetch);
+
+    await resumePendingUploads("user-1");
+    expect(await waitForUpload(id)).toMatchObject({ status: "completed", uploadedBytes: 25 });
+
+    expect(fetch.mock.calls.every(([url]) => url === UPLOAD_URL)).toBe(true);
+    expect(requests(fetch)).toEqual([
+      { method: "HEAD", offset: undefined, size: undefined },
+      { method: "PATCH", offset: "10", size: 10 },
+      { method: "PATCH", offset: "20", size: 5 },
+    ]);
+    expect([...store.uploads.keys()]).toEqual([otherId]);
+    expect(store.chunks.size).toBe(0);
+    expect(getUploadsSnapshot().some((upload) => upload.id === otherId)).toBe(false);
+  });
+
+  it("retries a chunk the server failed to take after a backoff", async () => {
+    vi.useFakeTimers();
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(tusResponse(201, { Location: UPLOAD_URL }))
+      .mockResolvedValueOnce(tusResponse(200, { "Upload-Offset": "0" }))
+      .mockResolvedValueOnce(tusResponse(503))
+      .mockResolvedValueOnce(tusResponse(200, { "Upload-Offset": "0" }))
+      .mockResolvedValueOnce(tusResponse(204, { "Upload-Offset": "8" }));
+    vi.stubGlobal("fetch", fetch);
+
+    const id = "user-1/interview-1/photo.jpg";
+    const statuses: string[] = [];
+    const unsubscribe = subscribeToUploads(() => {
+      const status = getUploadsSnapshot().find((upload) => upload.id === id)?.status;
+      if (status && status !== statuses[statuses.length - 1]) statuses.push(status);
+    });
+
+    await enqueueUpload({ path: id, blob: new Blob([new Uint8Array(8)], { type: "image/jpeg" }), label: "Photo" });
+    const done = waitForUpload(id);
+    await vi.advanceTimersByTimeAsync(getRetryDelay(0));
+    const state = await done;
+    unsubscribe();
+
+    expect(state).toMatchObject({ status: "completed", uploadedBytes: 8, error: null });
+    expect(statuses).toEqual(["queued", "uploading", "retrying", "uploading", "completed"]);
+    expect(requests(fetch)).toEqual([
+      { method: "POST", offset: undefined, size: undefined },
+      { method: "HEAD", offset: undefined, size: undefined },
+      { method: "PATCH", offset: "0", size: 8 },
+      { method: "HEAD", offset: undefined, size: undefined },
+      { method: "PATCH", offset: "0", size: 8 },
+    ]);
+    expect(store.uploads.has(id)).toBe(false);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from "vitest";
+import { createHmac } from "node:crypto";
+
+vi.mock("@/integrations/supabase/client", () => ({ supabase: {} }));
+
+import { isValidWebhookUrl } from "@/lib/webhooks";
+import {
+  backoffMinutes,
+  getDeliveryUpdate,
+  isPrivateAddress,
+  MAX_ATTEMPTS,
+  signPayload,
+} from "../../supabase/functions/webhook-dispatcher/delivery.ts";
+
+describe("isValidWebhookUrl", () => {
+  it("accepts http and https URLs", () => {
+    expect(isValidWebhookUrl("https://ats.example.com/hooks")).toBe(true);
+    expect(isValidWebhookUrl(" http://localhost:8789/ ")).toBe(true);
+  });
+
+  it("rejects other schemes and malformed URLs", () => {
+    expect(isValidWebhookUrl("ftp://ats.example.com/hooks")).toBe(false);
+    expect(isValidWebhookUrl("ats.example.com/hooks")).toBe(false);
+    expect(isValidWebhookUrl("")).toBe(false);
+  });
+});
+
+describe("isPrivateAddress", () => {
+  it("blocks loopback, private, link-local and metadata addresses", () => {
+    ["127.0.0.1", "10.1.2.3", "172.16.0.1", "192.168.1.1", "169.254.169.254", "100.64.0.1", "0.0.0.0"].forEach(
+      (address) => expect(isPrivateAddress(address), address).toBe(true),
+    );
+    ["::1", "::", "fd00::1", "fe80::1", "::ffff:127.0.0.1", "::ffff:a9fe:a9fe", "64:ff9b::10.0.0.1"].forEach(
+      (address) => expect(isPrivateAddress(address), address).toBe(true),
+    );
+  });
+
+  it("allows public addresses and refuses anything that isn't an address", () => {
+    ["93.184.216.34", "172.32.0.1", "2606:2800:220:1:248:1893:25c8:1946", "::ffff:93.184.216.34"].forEach(
+      (address) => expect(isPrivateAddress(address), address).toBe(false),
+    );
+    expect(isPrivateAddress("example.com")).toBe(true);
+    expect(isPrivateAddress("1::2::3")).toBe(true);
+  });
+});
+
+describe("signPayload", () => {
+  it("signs <timestamp>.<body> with HMAC-SHA256, as receivers verify it", async () => {
+    const body = JSON.stringify({ id: "delivery-1", event: "webhook.test" });
+    const expected = createHmac("sha256", "secret").update(`1760868000.${body}`).digest("hex");
+
+    expect(await signPayload("secret", 1760868000, body)).toBe(expected);
+    expect(await signPayload("secret", 1760868001, body)).not.toBe(expected);
+    expect(await signPayload("other", 1760868000, body)).not.toBe(expected);
+  });
+});
+
+describe("getDeliveryUpdate", () => {
+  const now = Date.parse("2026-10-19T12:00:00Z");
+  const failure = { ok: false, statusCode: 500, error: null };
+
+  it("marks a 2xx as delivered", () => {
+    expect(getDeliveryUpdate(0, { ok: true, statusCode: 204, error: null }, true, now)).toEqual({
+      attempts: 1,
+      status: "succeeded",
+      last_status_code: 204,
+      last_error: null,
+      delivered_at: "2026-10-19T12:00:00.000Z",
+      next_attempt_at: null,
+    });
+  });
+
+  it("retries failures after 1, 2, 4 … 64 minutes, then gives up", () => {
+    const waits = [];
+    for (let attempts = 0; attempts < MAX_ATTEMPTS - 1; attempts++) {
+      const update = getDeliveryUpdate(attempts, failure, true, now);
+      expect(update).toMatchObject({ attempts: attempts + 1, status: "pending", last_status_code: 500, delivered_at: null });
+      waits.push((Date.parse(update.next_attempt_at) - now) / 60_000);
+    }
+    expect(waits).toEqual([1, 2, 4, 8, 16, 32, 64]);
+    expect(waits).toEqual(waits.map((_, i) => backoffMinutes(i + 1)));
+
+    expect(getDeliveryUpdate(MAX_ATTEMPTS - 1, failure, true, now)).toMatchObject({
+      attempts: MAX_ATTEMPTS,
+      status: "failed",
+      next_attempt_at: null,
+    });
+  });
+
+  it("fails straight away when retries are off, e.g. for test events", () => {
+    expect(getDeliveryUpdate(0, { ok: false, statusCode: null, error: "Timed out" }, false, now)).toMatchObject({
+      attempts: 1,
+      status: "failed",
+      last_error: "Timed out",
+      next_attempt_at: null,
+    });
+  });
+});
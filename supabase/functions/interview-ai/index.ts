@@ -1,11 +1,166 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { createAnalysisSchema, createQuestionsSchema, followUpSchema, parseResult } from "./schemas.ts";
+import { AIProviderError, createChatCompletion, getChatProviders } from "./providers.ts";
+import { generateValidated, MAX_REPAIR_ATTEMPTS } from "./replies.ts";
+import { drawBankQuestions, getReferenceAnswers, parseBankMix } from "./question-bank.ts";
+import {
+  getActionConflict,
+  getAnalysisUpdate,
+  getAnalyzedResponses,
+  getFallbackResult,
+  getStoredQuestions,
+  insertFollowUp,
+  isValidInsertAt,
+} from "./interview-state.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
 };
 
+// Largest answer recording accepted for transcription (matches the Whisper API limit)
+const MAX_AUDIO_BYTES = 25 * 1024 * 1024;
+
+// Interview locales and the language name used in prompts
+const LOCALE_LANGUAGES: Record<string, string> = {
+  en: 'English',
+  es: 'Spanish',
+  de: 'German',
+  hi: 'Hindi',
+};
+
+// Main questions per interview, from the question bank and the model combined
+const QUESTION_COUNT = 5;
+
+// Longest question thread (main question plus follow-ups) accepted by follow_up
+const MAX_FOLLOW_UP_THREAD = 6;
+
+const audioExtensions: Record<string, string> = {
+  'audio/webm': 'webm',
+  'audio/ogg': 'ogg',
+  'audio/mp4': 'mp4',
+  'audio/mpeg': 'mp3',
+  'audio/wav': 'wav',
+};
+
+// Forward recorded audio to an OpenAI-compatible /audio/transcriptions endpoint.
+// STT_API_URL can point at a local stub for testing.
+async function transcribeAudio(audio: string, mimeType: string, language?: string) {
+  const STT_API_KEY = Deno.env.get("STT_API_KEY");
+  const STT_API_URL = (Deno.env.get("STT_API_URL") ?? "https://api.openai.com/v1").replace(/\/$/, '');
+  const STT_MODEL = Deno.env.get("STT_MODEL") ?? "whisper-1";
+
+  if (!STT_API_KEY) {
+    throw new Error("STT_API_KEY is not configured");
+  }
+
+  const bytes = Uint8Array.from(atob(audio), (c) => c.charCodeAt(0));
+  const baseType = mimeType.split(';')[0];
+  const extension = audioExtensions[baseType] ?? 'webm';
+
+  const form = new FormData();
+  form.append('file', new Blob([bytes], { type: baseType }), `answer.${extension}`);
+  form.append('model', STT_MODEL);
+  form.append('response_format', 'json');
+  if (language) {
+    // The transcription API expects ISO-639-1 ("en"), not a BCP-47 tag ("en-US")
+    form.append('language', language.split('-')[0]);
+  }
+
+  const response = await fetch(`${STT_API_URL}/audio/transcriptions`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${STT_API_KEY}` },
+    body: form,
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Transcription API error:", response.status, errorText);
+    throw new Error(`Transcription API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return { text: typeof data.text === 'string' ? data.text : '' };
+}
+
+const TTS_CACHE_BUCKET = 'tts-cache';
+const TTS_VOICES = ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'];
+
+async function sha256Hex(value: string) {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+// Render speech through an OpenAI-compatible /audio/speech endpoint. Audio is
+// cached in storage by model, voice, speed and text, so replays of the same
+// question never re-synthesize.
+async function synthesizeSpeech(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  text: string,
+  voice: string,
+  speed: number,
+) {
+  const TTS_API_KEY = Deno.env.get("TTS_API_KEY");
+  const TTS_API_URL = (Deno.env.get("TTS_API_URL") ?? "https://api.openai.com/v1").replace(/\/$/, '');
+  const TTS_MODEL = Deno.env.get("TTS_MODEL") ?? "tts-1";
+
+  const cachePath = `${await sha256Hex(`${TTS_MODEL}|${voice}|${speed}|${text}`)}.mp3`;
+  const storage = supabaseAdmin.storage.from(TTS_CACHE_BUCKET);
+
+  const cached = await storage.createSignedUrl(cachePath, 3600);
+  if (!cached.error && cached.data?.signedUrl) {
+    return { url: cached.data.signedUrl, cached: true };
+  }
+
+  if (!TTS_API_KEY) {
+    throw new Error("TTS_API_KEY is not configured");
+  }
+
+  const response = await fetch(`${TTS_API_URL}/audio/speech`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${TTS_API_KEY}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ model: TTS_MODEL, voice, input: text, speed, response_format: 'mp3' }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error("Speech API error:", response.status, errorText);
+    throw new Error(`Speech API error: ${response.status}`);
+  }
+
+  const audio = new Uint8Array(await response.arrayBuffer());
+  const { error: uploadError } = await storage.upload(cachePath, audio, {
+    contentType: 'audio/mpeg',
+    upsert: true,
+  });
+  if (uploadError) {
+    throw new Error(`Failed to cache speech audio: ${uploadError.message}`);
+  }
+
+  const { data: signed, error: signError } = await storage.createSignedUrl(cachePath, 3600);
+  if (signError || !signed?.signedUrl) {
+    throw new Error("Failed to sign speech audio URL");
+  }
+  return { url: signed.signedUrl, cached: false };
+}
+
+// Candidates can't write an interview's questions or analysis, so they are stored from here
+async function updateInterview(
+  supabaseAdmin: ReturnType<typeof createClient>,
+  interviewId: string,
+  values: Record<string, unknown>,
+) {
+  const { error } = await supabaseAdmin.from('interviews').update(values).eq('id', interviewId);
+  if (error) {
+    console.error("Failed to update interview:", error);
+    throw new Error('Failed to update interview');
+  }
+}
+
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
     return new Response('ok', { headers: corsHeaders });
@@ -44,7 +199,7 @@ serve(async (req) => {
     const userId = user.id;
     console.log(`Authenticated user: ${userId}`);
 
-    const { action, category, responses, candidateName } = await req.json();
+    const { action, interviewId, insertAt, audio, mimeType, language, text, voice, speed, conversation } = await req.json();
     
     // Input validation
     if (!action || typeof action !== 'string') {
@@ -54,56 +209,227 @@ serve(async (req) => {
       );
     }
 
-    if (!['generate_questions', 'analyze_responses'].includes(action)) {
+    if (!['generate_questions', 'analyze_responses', 'follow_up', 'transcribe_audio', 'synthesize_speech'].includes(action)) {
       return new Response(
         JSON.stringify({ error: 'Invalid action type' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    if (!category || typeof category !== 'string' || category.length > 100) {
+    if (action === "synthesize_speech") {
+      if (!text || typeof text !== 'string' || text.length > 1000) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid text parameter' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const selectedVoice = typeof voice === 'string' && TTS_VOICES.includes(voice)
+        ? voice
+        : (Deno.env.get("TTS_VOICE") ?? 'alloy');
+      const selectedSpeed = typeof speed === 'number' && speed >= 0.5 && speed <= 2
+        ? Math.round(speed * 10) / 10
+        : 1;
+
+      console.log(`Processing synthesize_speech for user: ${userId}`);
+      const result = await synthesizeSpeech(supabaseAdmin, text.trim(), selectedVoice, selectedSpeed);
+
+      return new Response(JSON.stringify({ result }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (action === "transcribe_audio") {
+      if (!audio || typeof audio !== 'string' || audio.length > Math.ceil(MAX_AUDIO_BYTES / 3) * 4) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid audio parameter' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      if (!mimeType || typeof mimeType !== 'string' || !mimeType.startsWith('audio/')) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid mimeType parameter' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      const sanitizedLanguage = typeof language === 'string' && /^[a-z]{2,3}(-[A-Za-z]{2,4})?$/.test(language)
+        ? language
+        : undefined;
+
+      console.log(`Processing transcribe_audio for user: ${userId}`);
+      const result = await transcribeAudio(audio, mimeType, sanitizedLanguage);
+
+      return new Response(JSON.stringify({ result }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!interviewId || typeof interviewId !== 'string') {
       return new Response(
-        JSON.stringify({ error: 'Invalid category parameter' }),
+        JSON.stringify({ error: 'Invalid interviewId parameter' }),
         { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const LOVABLE_API_KEY = Deno.env.get("LOVABLE_API_KEY");
-    
-    if (!LOVABLE_API_KEY) {
-      throw new Error("LOVABLE_API_KEY is not configured");
+    // Category, locale, questions and answers come from the stored interview, not the request
+    const { data: interview, error: interviewError } = await supabaseAdmin
+      .from('interviews')
+      .select('user_id, candidate_name, category, locale, status, finished_at, questions, responses')
+      .eq('id', interviewId)
+      .maybeSingle();
+
+    if (interviewError) {
+      console.error("Failed to read interview:", interviewError);
+      throw new Error('Failed to read interview');
+    }
+
+    if (!interview || interview.user_id !== userId) {
+      return new Response(
+        JSON.stringify({ error: 'Interview not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const conflict = getActionConflict(action, interview);
+    if (conflict) {
+      return new Response(
+        JSON.stringify({ error: conflict }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const category = String(interview.category);
+    const storedQuestions = getStoredQuestions(interview);
+
+    // Categories are managed by admins; disabled ones can't start new interviews but
+    // interviews already running in them can still get follow-ups and an analysis
+    const { data: categoryRow, error: categoryError } = await supabaseAdmin
+      .from('categories')
+      .select('name, prompt_context, enabled')
+      .eq('slug', category)
+      .maybeSingle();
+
+    if (categoryError) {
+      console.error("Failed to read category:", categoryError);
+      throw new Error('Failed to read category');
+    }
+
+    if (!categoryRow || (action === "generate_questions" && !categoryRow.enabled)) {
+      return new Response(
+        JSON.stringify({ error: 'Unknown category' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    // Invites fix the questions up front, and a reloaded interview keeps the ones it was given
+    if (action === "generate_questions" && storedQuestions.length > 0) {
+      return new Response(JSON.stringify({ result: storedQuestions, degraded: false }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
     }
 
     let systemPrompt = "";
     let userPrompt = "";
+    let bankQuestions: string[] = [];
+    let generatedCount = QUESTION_COUNT;
+    let analyzedResponses: ReturnType<typeof getAnalyzedResponses> = [];
 
     // Sanitize category for use in prompts
-    const sanitizedCategory = category.replace(/[<>{}]/g, '').substring(0, 50);
+    const sanitizedCategory = String(categoryRow.name).replace(/[<>{}]/g, '').substring(0, 50);
+    const contextNote = categoryRow.prompt_context
+      ? `Additional context for ${sanitizedCategory} interviews:\n${String(categoryRow.prompt_context).replace(/[<>{}]/g, '').substring(0, 1000)}\n\n`
+      : '';
+
+    // Unknown locales fall back to English rather than failing the interview
+    const interviewLocale = interview.locale in LOCALE_LANGUAGES ? interview.locale : 'en';
+    const interviewLanguage = LOCALE_LANGUAGES[interviewLocale];
 
     if (action === "generate_questions") {
-      systemPrompt = `You are an expert technical interviewer. Generate exactly 5 technical interview questions for a ${sanitizedCategory} developer position. 
+      bankQuestions = await drawBankQuestions(supabaseAdmin, {
+        category,
+        locale: interviewLocale,
+        mix: parseBankMix(Deno.env.get('QUESTION_BANK_MIX')),
+        limit: QUESTION_COUNT,
+      });
+      generatedCount = QUESTION_COUNT - bankQuestions.length;
+
+      if (generatedCount === 0) {
+        console.log(`Using ${bankQuestions.length} bank questions for category: ${sanitizedCategory}, user: ${userId}`);
+        await updateInterview(supabaseAdmin, interviewId, { questions: bankQuestions });
+        return new Response(JSON.stringify({ result: bankQuestions, degraded: false }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const bankNote = bankQuestions.length > 0
+        ? `The interview already includes these questions; do not repeat or closely overlap them:\n${bankQuestions.map((q) => `- ${q}`).join("\n")}\n\n`
+        : '';
+
+      systemPrompt = `You are an expert technical interviewer. Generate exactly ${generatedCount} technical interview questions for a ${sanitizedCategory} developer position. 
       
 The questions should:
 - Progress from easy to hard
 - Cover fundamental concepts, practical scenarios, and problem-solving
 - Be clear and concise
 - Test real-world knowledge
+- Be written in ${interviewLanguage}, keeping technical terms and code identifiers as they are
 
-Return ONLY a JSON array of 5 question strings. No other text.
-Example format: ["Question 1?", "Question 2?", "Question 3?", "Question 4?", "Question 5?"]`;
+${contextNote}${bankNote}Return ONLY a JSON array of ${generatedCount} question strings. No other text.
+Example format: ["First question?", "Second question?"]`;
       
-      userPrompt = `Generate 5 ${sanitizedCategory} interview questions.`;
+      userPrompt = `Generate ${generatedCount} ${sanitizedCategory} interview questions.`;
+    } else if (action === "follow_up") {
+      if (!Array.isArray(conversation) || conversation.length === 0 || conversation.length > MAX_FOLLOW_UP_THREAD) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid conversation parameter' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      // Where the follow-up goes in the stored questions: right after the answer it probes
+      if (!isValidInsertAt(insertAt, storedQuestions)) {
+        return new Response(
+          JSON.stringify({ error: 'Invalid insertAt parameter' }),
+          { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+
+      systemPrompt = `You are an expert technical interviewer for a ${sanitizedCategory} developer position.
+You are given one interview question and the candidate's answer, possibly followed by earlier follow-up questions and answers.
+
+Decide whether one more follow-up question would reveal something important:
+- Ask a follow-up when the latest answer is vague, superficial, partly incorrect or skips a key point
+- Move on when the answer is complete and clear, or when further probing would repeat itself
+- A follow-up must be a single short question that builds directly on what the candidate said
+- Write the follow-up in ${interviewLanguage}, keeping technical terms and code identifiers as they are
+
+${contextNote}Return ONLY JSON in one of these exact formats:
+{"action": "follow_up", "question": "Your follow-up question?"}
+{"action": "move_on"}`;
+
+      const thread = conversation.map((turn: { question: string; answer: string }, i: number) => {
+        const question = String(turn?.question ?? '').replace(/[<>{}]/g, '').substring(0, 500);
+        const answer = String(turn?.answer || '(No response provided)').replace(/[<>{}]/g, '').substring(0, 2000);
+        return `${i === 0 ? 'Question' : 'Follow-up'}: ${question}\nAnswer: ${answer}`;
+      });
+
+      userPrompt = `${thread.join("\n\n")}
+
+Should the interviewer ask a follow-up question?`;
     } else if (action === "analyze_responses") {
-      // Validate responses array
-      if (!Array.isArray(responses) || responses.length === 0) {
+      if (storedQuestions.length === 0 || !Array.isArray(interview.responses) || interview.responses.length === 0) {
         return new Response(
-          JSON.stringify({ error: 'Invalid responses parameter' }),
+          JSON.stringify({ error: 'Interview has no responses' }),
           { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
         );
       }
 
+      analyzedResponses = getAnalyzedResponses(storedQuestions, interview.responses);
+
       // Sanitize candidate name
-      const sanitizedName = (candidateName || 'Candidate').replace(/[<>{}]/g, '').substring(0, 100);
+      const sanitizedName = String(interview.candidate_name || 'Candidate').replace(/[<>{}]/g, '').substring(0, 100);
 
       systemPrompt = `You are an expert technical interviewer analyzing interview responses. Evaluate the candidate's performance and provide constructive feedback.
 
@@ -113,27 +439,70 @@ Be encouraging but honest. Consider:
 - Problem-solving approach
 - Depth of knowledge
 
+Some questions are follow-ups the interviewer asked to probe a previous answer; read them together
+with the question they follow up on.
+
+Questions from the curated question bank come with a reference answer. Use it as the benchmark for
+correctness and as the basis of the model answer for that question.
+
+Each answer is labelled with how it was given. Spoken answers were transcribed automatically, so
+do not penalize filler words, missing punctuation or misheard words in them. Typed answers were
+written by the candidate; judge them on content rather than expecting conversational phrasing.
+
 Provide:
 1. An overall score from 0-100
 2. A detailed analysis (2-3 paragraphs)
 3. Key strengths
 4. Areas for improvement
 5. Hiring recommendation
+6. A rubric for every question, in the same order as the Q&A:
+   - score: 0-100 for that answer
+   - correctness, depth, communication: 1 (poor) to 5 (excellent)
+   - modelAnswer: a 1-2 sentence summary of what a strong answer would cover
+   - missedPoints: key points the candidate left out (empty if none)
 
-Return as JSON with this exact format:
+The interview was conducted in ${interviewLanguage}. Write the analysis, strengths, improvements, model answers and missed points
+in ${interviewLanguage}, but keep the JSON keys and the recommendation value exactly as shown below.
+
+${contextNote}Return as JSON with this exact format:
 {
   "score": number,
   "analysis": "detailed analysis text",
   "strengths": ["strength1", "strength2"],
   "improvements": ["area1", "area2"],
-  "recommendation": "hire/consider/not_recommended"
+  "recommendation": "hire/consider/not_recommended",
+  "questions": [
+    {
+      "question": 1,
+      "score": number,
+      "correctness": number,
+      "depth": number,
+      "communication": number,
+      "modelAnswer": "summary of a strong answer",
+      "missedPoints": ["point1", "point2"]
+    }
+  ]
 }`;
 
+      const referenceAnswers = await getReferenceAnswers(
+        supabaseAdmin,
+        category,
+        analyzedResponses.map((r) => r.question),
+      );
+
       // Sanitize responses
-      const sanitizedResponses = responses.slice(0, 10).map((r: { question: string; answer: string }, i: number) => {
-        const question = (r.question || '').replace(/[<>{}]/g, '').substring(0, 500);
-        const answer = (r.answer || '(No response provided)').replace(/[<>{}]/g, '').substring(0, 2000);
-        return `Q${i + 1}: ${question}\nA${i + 1}: ${answer}`;
+      const sanitizedResponses = analyzedResponses.map((r, i) => {
+        const question = r.question.replace(/[<>{}]/g, '').substring(0, 500);
+        const answer = String(r.answer || '(No response provided)').replace(/[<>{}]/g, '').substring(0, 2000);
+        const mode = r.inputMode === 'typed'
+          ? 'typed'
+          : r.edited ? 'spoken, transcript edited by candidate' : 'spoken';
+        const label = typeof r.followUpOf === 'number' ? ` (follow-up to Q${r.followUpOf + 1})` : '';
+        const reference = referenceAnswers.get(r.question);
+        const referenceLine = reference
+          ? `\nReference answer: ${reference.replace(/[<>{}]/g, '').substring(0, 2000)}`
+          : '';
+        return `Q${i + 1}${label}: ${question}${referenceLine}\nA${i + 1} (${mode}): ${answer}`;
       });
 
       userPrompt = `Candidate: ${sanitizedName}
@@ -147,86 +516,68 @@ Analyze this interview and provide feedback.`;
 
     console.log(`Processing ${action} for category: ${sanitizedCategory}, user: ${userId}`);
 
-    const response = await fetch("https://ai.gateway.lovable.dev/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${LOVABLE_API_KEY}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        model: "google/gemini-3-flash-preview",
-        messages: [
-          { role: "system", content: systemPrompt },
-          { role: "user", content: userPrompt },
-        ],
-      }),
-    });
+    const schema = action === "generate_questions"
+      ? createQuestionsSchema(generatedCount)
+      : action === "follow_up"
+        ? followUpSchema
+        : createAnalysisSchema(analyzedResponses.length);
 
-    if (!response.ok) {
-      if (response.status === 429) {
-        return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
-          status: 429,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      if (response.status === 402) {
-        return new Response(JSON.stringify({ error: "Payment required. Please add funds." }), {
-          status: 402,
-          headers: { ...corsHeaders, "Content-Type": "application/json" },
-        });
-      }
-      const errorText = await response.text();
-      console.error("AI gateway error:", response.status, errorText);
-      throw new Error(`AI gateway error: ${response.status}`);
-    }
-
-    const data = await response.json();
-    const content = data.choices?.[0]?.message?.content;
+    const providers = getChatProviders((name) => Deno.env.get(name));
+    let result: unknown = await generateValidated<unknown>(
+      (messages) => createChatCompletion(providers, action, messages),
+      (content) => parseResult<unknown>(schema, content),
+      systemPrompt,
+      userPrompt,
+    );
+    const degraded = result === null;
 
-    console.log("AI Response received successfully");
+    // Fallbacks are flagged as degraded so the client can tell the user; an analysis
+    // is never made up, the client offers to retry instead
+    if (degraded) {
+      console.error(`AI response for ${action} failed validation after ${MAX_REPAIR_ATTEMPTS} repair attempts`);
+      result = getFallbackResult(action, sanitizedCategory, generatedCount);
+    } else {
+      console.log("AI Response received successfully");
+    }
 
-    // Parse JSON from the response
-    let result;
-    try {
-      // Clean up the response - remove markdown code blocks if present
-      let cleanContent = content.trim();
-      if (cleanContent.startsWith("```json")) {
-        cleanContent = cleanContent.slice(7);
-      }
-      if (cleanContent.startsWith("```")) {
-        cleanContent = cleanContent.slice(3);
-      }
-      if (cleanContent.endsWith("```")) {
-        cleanContent = cleanContent.slice(0, -3);
-      }
-      result = JSON.parse(cleanContent.trim());
-    } catch (parseError) {
-      console.error("Failed to parse AI response:", parseError);
-      if (action === "generate_questions") {
-        result = [
-          `What are the core concepts of ${sanitizedCategory}?`,
-          `Explain a challenging ${sanitizedCategory} problem you've solved.`,
-          `How do you handle debugging in ${sanitizedCategory}?`,
-          `What best practices do you follow in ${sanitizedCategory}?`,
-          `Describe a ${sanitizedCategory} project you're proud of.`
-        ];
+    // Bank questions come first, easiest to hardest, and generated ones complete the set
+    if (action === "generate_questions") {
+      result = [...bankQuestions, ...(result as string[])];
+      await updateInterview(supabaseAdmin, interviewId, { questions: result });
+    } else if (action === "follow_up" && (result as { action: string }).action === "follow_up") {
+      // Past the analysis limit a follow-up would never be scored, so the interview moves on
+      const questions = insertFollowUp(storedQuestions, insertAt, (result as { question: string }).question);
+      if (questions) {
+        await updateInterview(supabaseAdmin, interviewId, { questions });
       } else {
-        result = {
-          score: 70,
-          analysis: "Unable to generate detailed analysis. The candidate showed general knowledge of the subject.",
-          strengths: ["Participated in the interview"],
-          improvements: ["Could provide more detailed responses"],
-          recommendation: "consider"
-        };
+        result = { action: "move_on" };
       }
+    } else if (action === "analyze_responses" && !degraded) {
+      await updateInterview(
+        supabaseAdmin,
+        interviewId,
+        getAnalysisUpdate(result as { score: number; analysis: string; recommendation: string }),
+      );
     }
 
-    return new Response(JSON.stringify({ result }), {
+    return new Response(JSON.stringify({ result, degraded }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
 
   } catch (error) {
     console.error("Interview AI error:", error);
+    if (error instanceof AIProviderError && error.status === 429) {
+      return new Response(JSON.stringify({ error: "Rate limit exceeded. Please try again later." }), {
+        status: 429,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+    if (error instanceof AIProviderError && error.status === 402) {
+      return new Response(JSON.stringify({ error: "Payment required. Please add funds." }), {
+        status: 402,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
     return new Response(JSON.stringify({ error: error instanceof Error ? error.message : "Unknown error" }), {
       status: 500,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
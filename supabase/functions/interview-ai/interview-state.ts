@@ -0,0 +1,77 @@
+// Plain rules for the stored interview, free of Deno APIs so the app's tests can import them
+
+export type InterviewAction = 'generate_questions' | 'follow_up' | 'analyze_responses';
+
+// Main questions plus their follow-ups sent to analyze_responses
+export const MAX_ANALYZED_RESPONSES = 30;
+
+export interface StoredInterview {
+  status?: unknown;
+  finished_at?: unknown;
+  questions?: unknown;
+  responses?: unknown;
+}
+
+export type StoredResponse = { answer?: unknown; inputMode?: unknown; edited?: unknown; followUpOf?: unknown };
+
+export const getStoredQuestions = (interview: StoredInterview): string[] =>
+  Array.isArray(interview.questions) ? interview.questions.map(String) : [];
+
+// Why the action can't run on this interview any more, answered with a 409. Once the candidate
+// has finished there are no more follow-ups, and an interview is only analyzed once, so answers
+// rewritten after seeing the model answers can never be graded
+export const getActionConflict = (action: InterviewAction, interview: StoredInterview) => {
+  if (action === 'follow_up' && (interview.finished_at || interview.status === 'completed')) {
+    return 'Interview already finished';
+  }
+  if (action === 'analyze_responses' && interview.status === 'completed') {
+    return 'Interview already analyzed';
+  }
+  return null;
+};
+
+// Follow-ups go right after the answer they probe, so `insertAt` must fall inside the stored questions
+export const isValidInsertAt = (insertAt: unknown, questions: string[]): insertAt is number =>
+  Number.isInteger(insertAt) && (insertAt as number) >= 1 && (insertAt as number) <= questions.length;
+
+// The stored questions with the follow-up spliced in, or null once a follow-up would be past
+// the analysis limit and never scored
+export const insertFollowUp = (questions: string[], insertAt: number, question: string) => {
+  if (questions.length >= MAX_ANALYZED_RESPONSES) return null;
+  return [...questions.slice(0, insertAt), question, ...questions.slice(insertAt)];
+};
+
+// Answers line up with the stored questions, follow-ups included
+export const getAnalyzedResponses = (questions: string[], responses: unknown) => {
+  const stored = (Array.isArray(responses) ? responses : []) as StoredResponse[];
+  return questions.slice(0, MAX_ANALYZED_RESPONSES).map((question, i) => ({ ...stored[i], question }));
+};
+
+// The columns an analysis is stored in; status and score are only ever written from here
+export const getAnalysisUpdate = (
+  analysis: { score: number; analysis: string; recommendation: string },
+  now = new Date(),
+) => ({
+  status: 'completed',
+  score: analysis.score,
+  analysis: analysis.analysis,
+  recommendation: analysis.recommendation,
+  analysis_details: analysis,
+  completed_at: now.toISOString(),
+});
+
+// What the client gets when the model never produced a valid reply: generic questions, no
+// follow-up, and no analysis at all, since a made-up score would be worse than a retry
+export const getFallbackResult = (action: InterviewAction, category: string, questionCount: number) => {
+  if (action === 'generate_questions') {
+    return [
+      `What are the core concepts of ${category}?`,
+      `Explain a challenging ${category} problem you've solved.`,
+      `How do you handle debugging in ${category}?`,
+      `What best practices do you follow in ${category}?`,
+      `Describe a ${category} project you're proud of.`,
+    ].slice(0, questionCount);
+  }
+  if (action === 'follow_up') return { action: 'move_on' };
+  return null;
+};
@@ -0,0 +1,118 @@
+// OpenAI-compatible chat completion providers, configured through function secrets.
+// The primary provider defaults to the Lovable AI gateway; a fallback provider is
+// tried when the primary is rate limited, failing (5xx) or unreachable. Secrets are read
+// through the given `env` lookup, so none of this touches Deno APIs and the app's tests
+// can import it.
+
+export type ChatAction = 'generate_questions' | 'follow_up' | 'analyze_responses';
+
+export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export interface ChatProvider {
+  name: string;
+  url: string;
+  apiKey?: string;
+  models: Record<ChatAction, string>;
+}
+
+export type EnvLookup = (name: string) => string | undefined;
+
+export class AIProviderError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const LOVABLE_GATEWAY_URL = 'https://ai.gateway.lovable.dev/v1';
+const DEFAULT_MODEL = 'google/gemini-3-flash-preview';
+
+const CHAT_ACTIONS: ChatAction[] = ['generate_questions', 'follow_up', 'analyze_responses'];
+
+// Per-action models are read from <PREFIX>_MODEL_<ACTION>, e.g. AI_MODEL_ANALYZE_RESPONSES,
+// and fall back to <PREFIX>_MODEL, then to the given defaults
+function readModels(env: EnvLookup, prefix: string, defaults: (action: ChatAction) => string) {
+  const model = env(`${prefix}_MODEL`);
+  return Object.fromEntries(
+    CHAT_ACTIONS.map((action) => [
+      action,
+      env(`${prefix}_MODEL_${action.toUpperCase()}`) ?? model ?? defaults(action),
+    ]),
+  ) as Record<ChatAction, string>;
+}
+
+export function getChatProviders(env: EnvLookup): ChatProvider[] {
+  const providers: ChatProvider[] = [];
+  const models = readModels(env, 'AI', () => DEFAULT_MODEL);
+
+  const primaryUrl = env('AI_API_URL');
+  if (primaryUrl) {
+    // Local and self-hosted servers (Ollama, mocks) usually need no key
+    providers.push({
+      name: 'primary',
+      url: primaryUrl.replace(/\/$/, ''),
+      apiKey: env('AI_API_KEY'),
+      models,
+    });
+  } else {
+    const apiKey = env('AI_API_KEY') ?? env('LOVABLE_API_KEY');
+    if (apiKey) {
+      providers.push({ name: 'primary', url: LOVABLE_GATEWAY_URL, apiKey, models });
+    }
+  }
+
+  const fallbackUrl = env('AI_FALLBACK_API_URL');
+  if (fallbackUrl) {
+    providers.push({
+      name: 'fallback',
+      url: fallbackUrl.replace(/\/$/, ''),
+      apiKey: env('AI_FALLBACK_API_KEY'),
+      // Without fallback models the primary's model names are reused
+      models: readModels(env, 'AI_FALLBACK', (action) => models[action]),
+    });
+  }
+
+  return providers;
+}
+
+// Errors worth retrying on another provider; other client errors (bad request,
+// payment required) would fail there the same way
+export const shouldFailOver = (status: number) => status === 429 || status >= 500;
+
+async function requestProvider(provider: ChatProvider, action: ChatAction, messages: ChatMessage[]) {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (provider.apiKey) headers.Authorization = `Bearer ${provider.apiKey}`;
+
+  const response = await fetch(`${provider.url}/chat/completions`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ model: provider.models[action], messages }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`AI provider ${provider.name} error:`, response.status, errorText);
+    throw new AIProviderError(response.status, `AI provider error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return String(data.choices?.[0]?.message?.content ?? '');
+}
+
+// Send the conversation to each provider in turn until one answers
+export async function createChatCompletion(providers: ChatProvider[], action: ChatAction, messages: ChatMessage[]) {
+  if (providers.length === 0) {
+    throw new Error('No AI provider is configured');
+  }
+
+  let lastError: unknown;
+  for (const provider of providers) {
+    try {
+      return await requestProvider(provider, action, messages);
+    } catch (error) {
+      if (error instanceof AIProviderError && !shouldFailOver(error.status)) throw error;
+      lastError = error;
+      console.warn(`AI provider ${provider.name} failed for ${action}, trying the next one`);
+    }
+  }
+  throw lastError;
+}
@@ -0,0 +1,103 @@
+// The query builder calls made on the service role client, typed here rather than imported
+// from esm.sh so the app's tests can import this module
+interface QuestionBankQuery extends PromiseLike<{ data: unknown[] | null; error: unknown }> {
+  eq(column: string, value: unknown): QuestionBankQuery;
+  in(column: string, values: unknown[]): QuestionBankQuery;
+  not(column: string, operator: string, value: unknown): QuestionBankQuery;
+  limit(count: number): QuestionBankQuery;
+}
+
+type SupabaseAdmin = { from(table: string): { select(columns: string): QuestionBankQuery } };
+
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export type BankMix = Record<Difficulty, number>;
+
+const DEFAULT_BANK_MIX = 'easy:1,medium:1,hard:1';
+
+// Rows fetched per difficulty to pick from at random
+const DRAW_POOL_SIZE = 100;
+
+// QUESTION_BANK_MIX sets how many bank questions of each difficulty an interview gets,
+// e.g. "easy:1,medium:2,hard:1"; the rest are generated. "none" turns the bank off.
+export function parseBankMix(value: string | undefined): BankMix {
+  const mix: BankMix = { easy: 0, medium: 0, hard: 0 };
+  if (value?.trim() === 'none') return mix;
+
+  for (const entry of (value ?? DEFAULT_BANK_MIX).split(',')) {
+    const [difficulty, count] = entry.split(':').map((part) => part.trim());
+    const parsed = Number.parseInt(count ?? '', 10);
+    if (!DIFFICULTIES.includes(difficulty as Difficulty) || Number.isNaN(parsed) || parsed < 0) {
+      console.warn(`Ignoring invalid QUESTION_BANK_MIX entry: "${entry}"`);
+      continue;
+    }
+    mix[difficulty as Difficulty] = parsed;
+  }
+  return mix;
+}
+
+function shuffle<T>(items: T[]) {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+// Random active questions for the interview, easiest first, never more than `limit`.
+// A bank that can't be read only means more generated questions.
+export async function drawBankQuestions(
+  supabaseAdmin: SupabaseAdmin,
+  { category, locale, mix, limit }: { category: string; locale: string; mix: BankMix; limit: number },
+) {
+  const drawn: string[] = [];
+
+  for (const difficulty of DIFFICULTIES) {
+    const wanted = Math.min(mix[difficulty], limit - drawn.length);
+    if (wanted <= 0) continue;
+
+    const { data, error } = await supabaseAdmin
+      .from('question_bank')
+      .select('text')
+      .eq('category', category)
+      .eq('locale', locale)
+      .eq('difficulty', difficulty)
+      .eq('active', true)
+      .limit(DRAW_POOL_SIZE);
+
+    if (error) {
+      console.error(`Failed to read ${difficulty} bank questions:`, error);
+      continue;
+    }
+
+    drawn.push(...shuffle((data ?? []) as { text: string }[]).slice(0, wanted).map((row) => row.text));
+  }
+
+  return drawn;
+}
+
+// Reference answers of the bank questions that were asked, keyed by question text
+export async function getReferenceAnswers(supabaseAdmin: SupabaseAdmin, category: string, questions: string[]) {
+  const answers = new Map<string, string>();
+  if (questions.length === 0) return answers;
+
+  const { data, error } = await supabaseAdmin
+    .from('question_bank')
+    .select('text, reference_answer')
+    .eq('category', category)
+    .in('text', questions)
+    .not('reference_answer', 'is', null);
+
+  if (error) {
+    console.error("Failed to read reference answers:", error);
+    return answers;
+  }
+
+  for (const row of (data ?? []) as { text: string; reference_answer: string }[]) {
+    answers.set(row.text, row.reference_answer);
+  }
+  return answers;
+}
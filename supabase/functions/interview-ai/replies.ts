@@ -0,0 +1,50 @@
+// Reading and repairing model replies, free of Deno APIs so the app's tests can import them
+
+type Message = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export type ParsedResult<T> = { success: true; data: T } | { success: false; error: string };
+
+// Times a reply that fails validation is sent back to the model for correction
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// Models often wrap JSON in markdown fences or add a sentence around it
+export function extractJson(content: string) {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const text = (fenced ? fenced[1] : content).trim();
+  const start = text.search(/[[{]/);
+  if (start === -1) throw new Error("no JSON value found");
+
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+// Ask the model through `complete` and check the reply with `parse`. Invalid replies are sent
+// back with the validation errors; returns null once the repair attempts run out.
+export async function generateValidated<T>(
+  complete: (messages: Message[]) => Promise<string>,
+  parse: (content: string) => ParsedResult<T>,
+  systemPrompt: string,
+  userPrompt: string,
+) {
+  const messages: Message[] = [
+    { role: "system", content: systemPrompt },
+    { role: "user", content: userPrompt },
+  ];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const content = await complete([...messages]);
+    const parsed = parse(content);
+    if (!("error" in parsed)) return parsed.data;
+
+    console.warn(`Invalid AI response (attempt ${attempt + 1}): ${parsed.error}`);
+    messages.push(
+      { role: "assistant", content },
+      {
+        role: "user",
+        content: `Your previous reply was invalid: ${parsed.error}. Reply again with only the corrected JSON, in exactly the requested format.`,
+      },
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,55 @@
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import { extractJson, type ParsedResult } from "./replies.ts";
+
+// Expected shape of the model's reply for each chat action
+
+export const createQuestionsSchema = (questionCount: number) =>
+  z.array(z.string().trim().min(1).max(500)).length(questionCount);
+
+const rating = z.number().int().min(1).max(5);
+
+const assessmentSchema = z.object({
+  question: z.number().int().min(1),
+  score: z.number().min(0).max(100),
+  correctness: rating,
+  depth: rating,
+  communication: rating,
+  modelAnswer: z.string(),
+  missedPoints: z.array(z.string()),
+});
+
+export const createAnalysisSchema = (questionCount: number) =>
+  z.object({
+    score: z.number().min(0).max(100),
+    analysis: z.string().trim().min(1),
+    strengths: z.array(z.string()),
+    improvements: z.array(z.string()),
+    recommendation: z.enum(["hire", "consider", "not_recommended"]),
+    questions: z.array(assessmentSchema).refine(
+      (assessments) => assessments.every((assessment) => assessment.question <= questionCount),
+      { message: `question numbers must be between 1 and ${questionCount}` },
+    ),
+  });
+
+export const followUpSchema = z.discriminatedUnion("action", [
+  z.object({ action: z.literal("follow_up"), question: z.string().trim().min(1).max(500) }),
+  z.object({ action: z.literal("move_on") }),
+]);
+
+// Parse and validate a model reply; the error text is written to be sent back to the model
+export function parseResult<T>(schema: z.ZodType<T>, content: string): ParsedResult<T> {
+  let value: unknown;
+  try {
+    value = extractJson(content);
+  } catch (error) {
+    return { success: false, error: `the reply is not valid JSON (${error instanceof Error ? error.message : error})` };
+  }
+
+  const parsed = schema.safeParse(value);
+  if (parsed.success) return { success: true, data: parsed.data };
+
+  const issues = parsed.error.issues
+    .slice(0, 5)
+    .map((issue) => `${issue.path.join(".") || "(root)"}: ${issue.message}`);
+  return { success: false, error: issues.join("; ") };
+}
@@ -0,0 +1,126 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import { getShareLinkState, isShareToken, readShareRequest } from "./links.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+const RECORDINGS_BUCKET = 'interview-recordings';
+
+// Media URLs handed to visitors last an hour at most, and never past the link's expiry
+const MEDIA_URL_SECONDS = 3600;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Resolves a share token to a read-only copy of the interview's results. The function is public
+// (verify_jwt = false); the token is the only credential, so everything is read with the service role
+// and only the fields the shared page shows are returned.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const request = readShareRequest(await req.text());
+    if (!request) {
+      return jsonResponse({ error: 'invalid_request' }, 400);
+    }
+
+    const { token } = request;
+    if (!isShareToken(token)) {
+      return jsonResponse({ error: 'Share link not found' }, 404);
+    }
+
+    const supabaseAdmin = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const { data: link, error: linkError } = await supabaseAdmin
+      .from('share_links')
+      .select('interview_id, created_by, include_media, expires_at, revoked_at')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (linkError) throw linkError;
+
+    // A link only lasts as long as its creator may share the interview, e.g. while a
+    // recruiter is still in the organization
+    let creatorCanShare = false;
+    if (link) {
+      const { data: canShare, error: canShareError } = await supabaseAdmin.rpc('can_share_interview', {
+        _user_id: link.created_by,
+        _interview_id: link.interview_id,
+      });
+      if (canShareError) throw canShareError;
+      creatorCanShare = canShare === true;
+    }
+
+    const state = getShareLinkState(link, creatorCanShare);
+    if (state === 'not_found') {
+      return jsonResponse({ error: 'Share link not found' }, 404);
+    }
+    if (state === 'unavailable') {
+      return jsonResponse({ error: 'Share link expired or revoked' }, 410);
+    }
+
+    const expiresAt = new Date(link.expires_at);
+
+    const { data: interview, error: interviewError } = await supabaseAdmin
+      .from('interviews')
+      .select('candidate_name, category, locale, status, created_at, responses, analysis_details, video_url, photo_paths')
+      .eq('id', link.interview_id)
+      .single();
+
+    if (interviewError) throw interviewError;
+
+    const { data: category } = await supabaseAdmin
+      .from('categories')
+      .select('name')
+      .eq('slug', interview.category)
+      .maybeSingle();
+
+    let videoUrl: string | null = null;
+    let photoUrls: string[] = [];
+
+    if (link.include_media) {
+      const seconds = Math.max(1, Math.min(MEDIA_URL_SECONDS, Math.floor((expiresAt.getTime() - Date.now()) / 1000)));
+      const storage = supabaseAdmin.storage.from(RECORDINGS_BUCKET);
+
+      if (interview.video_url) {
+        const { data } = await storage.createSignedUrl(interview.video_url, seconds);
+        videoUrl = data?.signedUrl ?? null;
+      }
+
+      const photoPaths = Array.isArray(interview.photo_paths) ? interview.photo_paths as string[] : [];
+      if (photoPaths.length > 0) {
+        const { data } = await storage.createSignedUrls(photoPaths, seconds);
+        photoUrls = (data ?? []).flatMap((photo) => (photo.signedUrl ? [photo.signedUrl] : []));
+      }
+    }
+
+    return jsonResponse({
+      result: {
+        candidateName: interview.candidate_name,
+        categoryName: category?.name ?? interview.category,
+        locale: interview.locale,
+        status: interview.status,
+        createdAt: interview.created_at,
+        responses: Array.isArray(interview.responses) ? interview.responses : [],
+        analysis: interview.analysis_details ?? null,
+        videoUrl,
+        photoUrls,
+        expiresAt: link.expires_at,
+      },
+    });
+  } catch (error) {
+    console.error("Shared results error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
@@ -0,0 +1,30 @@
+// Plain share-link rules, free of Deno APIs so the app's tests can import them
+
+// Share tokens are UUIDs without dashes
+const TOKEN_PATTERN = /^[0-9a-f]{32}$/;
+
+export const isShareToken = (token: unknown): token is string =>
+  typeof token === 'string' && TOKEN_PATTERN.test(token);
+
+// The token from a request body, or undefined when the body isn't a JSON object at all
+export const readShareRequest = (body: string): { token: unknown } | undefined => {
+  try {
+    const parsed = JSON.parse(body);
+    return parsed && typeof parsed === 'object' ? { token: parsed.token } : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+export interface StoredShareLink {
+  expires_at: string;
+  revoked_at: string | null;
+}
+
+// What a visitor gets for a link: unknown tokens are not found (404); revoked and expired links,
+// and links whose creator can no longer share the interview (can_share_interview), are gone (410)
+export const getShareLinkState = (link: StoredShareLink | null, creatorCanShare: boolean, now = new Date()) => {
+  if (!link) return 'not_found';
+  if (link.revoked_at || new Date(link.expires_at) <= now || !creatorCanShare) return 'unavailable';
+  return 'active';
+};
@@ -0,0 +1,113 @@
+// Plain helpers for the dispatcher, free of Deno APIs so the app's tests can import them
+
+const parseIpv4 = (address: string) => {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) return null;
+  return parts.map(Number);
+};
+
+// The eight 16-bit groups of an IPv6 address, expanding "::" and a trailing dotted IPv4 part
+const parseIpv6 = (address: string) => {
+  let value = address.toLowerCase().replace(/^\[|\]$/g, '').split('%')[0];
+
+  const dotted = value.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/);
+  if (dotted) {
+    const ipv4 = parseIpv4(dotted[2]);
+    if (!ipv4) return null;
+    value = `${dotted[1]}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = value.split('::');
+  if (halves.length > 2) return null;
+  const head = halves[0] ? halves[0].split(':') : [];
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail];
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null;
+  return groups.map((group) => parseInt(group, 16));
+};
+
+// Unspecified, private, shared (CGNAT), loopback, link-local (cloud metadata lives at
+// 169.254.169.254), benchmarking, multicast and reserved ranges
+const isPrivateIpv4 = ([a, b, c]: number[]) =>
+  a === 0 ||
+  a === 10 ||
+  a === 127 ||
+  a >= 224 ||
+  (a === 100 && b >= 64 && b < 128) ||
+  (a === 169 && b === 254) ||
+  (a === 172 && b >= 16 && b < 32) ||
+  (a === 192 && b === 168) ||
+  (a === 192 && b === 0 && c === 0) ||
+  (a === 198 && (b === 18 || b === 19));
+
+export const isIpAddress = (host: string) => parseIpv4(host) !== null || parseIpv6(host) !== null;
+
+// Whether a webhook may not be sent to this address; anything that isn't an IP address counts
+export const isPrivateAddress = (address: string) => {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return isPrivateIpv4(ipv4);
+
+  const groups = parseIpv6(address);
+  if (!groups) return true;
+
+  // IPv4-compatible (including :: and ::1), IPv4-mapped and NAT64 addresses carry an IPv4 address
+  const embedsIpv4 =
+    (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) ||
+    (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every((group) => group === 0));
+  if (embedsIpv4) {
+    return isPrivateIpv4([groups[6] >> 8, groups[6] & 0xff, groups[7] >> 8, groups[7] & 0xff]);
+  }
+
+  return (
+    (groups[0] & 0xfe00) === 0xfc00 || // unique local
+    (groups[0] & 0xffc0) === 0xfe80 || // link-local
+    (groups[0] & 0xff00) === 0xff00 // multicast
+  );
+};
+
+// Attempts before a delivery is marked failed; retries wait 1, 2, 4, ... 64 minutes (about two hours in all)
+export const MAX_ATTEMPTS = 8;
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), (byte) => byte.toString(16).padStart(2, '0')).join('');
+
+// HMAC-SHA256 of "<timestamp>.<body>", so a captured request can't be replayed with a new timestamp
+export async function signPayload(secret: string, timestamp: number, body: string) {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign'],
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${body}`));
+  return toHex(signature);
+}
+
+// Minutes to wait after the given failed attempt
+export const backoffMinutes = (attempts: number) => 2 ** (attempts - 1);
+
+export interface SendResult {
+  ok: boolean;
+  statusCode: number | null;
+  error: string | null;
+}
+
+// The delivery row after one more attempt: failures go back to pending with a backoff unless
+// `retry` is off or the attempts run out
+export const getDeliveryUpdate = (previousAttempts: number, result: SendResult, retry: boolean, now = Date.now()) => {
+  const attempts = previousAttempts + 1;
+  const retrying = !result.ok && retry && attempts < MAX_ATTEMPTS;
+
+  return {
+    attempts,
+    status: result.ok ? 'succeeded' : retrying ? 'pending' : 'failed',
+    last_status_code: result.statusCode,
+    last_error: result.error,
+    delivered_at: result.ok ? new Date(now).toISOString() : null,
+    next_attempt_at: retrying ? new Date(now + backoffMinutes(attempts) * 60_000).toISOString() : null,
+  };
+};
@@ -0,0 +1,213 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.39.3';
+import {
+  getDeliveryUpdate,
+  isIpAddress,
+  isPrivateAddress,
+  signPayload,
+  type SendResult,
+} from "./delivery.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-supabase-client-platform, x-supabase-client-platform-version, x-supabase-client-runtime, x-supabase-client-runtime-version',
+};
+
+// Deliveries sent per dispatch run
+const BATCH_SIZE = 50;
+
+// A receiver that takes longer than this counts as a failed attempt
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// Lets webhooks reach private addresses, for a receiver on the developer's machine. Never set it in production.
+const ALLOW_PRIVATE_URLS = Deno.env.get('WEBHOOK_ALLOW_PRIVATE_URLS') === '1';
+
+interface Webhook {
+  id: string;
+  url: string;
+  secret: string;
+  enabled: boolean;
+}
+
+interface Delivery {
+  id: string;
+  webhook_id: string;
+  event: string;
+  payload: Record<string, unknown>;
+  attempts: number;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+
+// Webhook URLs are entered by recruiters, so the dispatcher must not be usable to reach the
+// cloud metadata service or anything else on the internal network. Every address the host
+// resolves to has to be public; the request itself doesn't follow redirects.
+async function checkDestination(url: URL) {
+  if (ALLOW_PRIVATE_URLS) return null;
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIpAddress(host)) {
+    return isPrivateAddress(host) ? 'Blocked address' : null;
+  }
+  if (host === 'localhost' || host.endsWith('.localhost')) {
+    return 'Blocked address';
+  }
+
+  const lookups = await Promise.all(
+    (['A', 'AAAA'] as const).map((type) => Deno.resolveDns(host, type).catch(() => [] as string[])),
+  );
+  const addresses = lookups.flat();
+  if (addresses.length === 0) return 'Host not found';
+  return addresses.some(isPrivateAddress) ? 'Blocked address' : null;
+}
+
+// Only the status code of a response is kept; receiver error pages never end up in the log
+async function send(webhook: Webhook, delivery: Delivery): Promise<SendResult> {
+  const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  try {
+    const blocked = await checkDestination(new URL(webhook.url));
+    if (blocked) {
+      return { ok: false, statusCode: null, error: blocked };
+    }
+
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'ai-interview-webhooks/1',
+        'X-Webhook-Id': delivery.id,
+        'X-Webhook-Event': delivery.event,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': `v1=${await signPayload(webhook.secret, timestamp, body)}`,
+      },
+      body,
+      redirect: 'manual',
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    // Release the connection without reading the body
+    await response.body?.cancel();
+    return { ok: response.ok, statusCode: response.status, error: null };
+  } catch (error) {
+    console.error("Webhook request failed:", delivery.id, error);
+    const timedOut = error instanceof DOMException && error.name === 'TimeoutError';
+    return { ok: false, statusCode: null, error: timedOut ? 'Timed out' : 'Request failed' };
+  }
+}
+
+// Send one delivery and record the outcome; failures are retried unless retry is off or attempts run out
+async function attempt(supabaseAdmin: SupabaseClient, webhook: Webhook | undefined, delivery: Delivery, retry = true) {
+  const result: SendResult = webhook?.enabled
+    ? await send(webhook, delivery)
+    : { ok: false, statusCode: null, error: webhook ? 'Webhook disabled' : 'Webhook deleted' };
+
+  const { error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update(getDeliveryUpdate(delivery.attempts, result, retry && !!webhook?.enabled))
+    .eq('id', delivery.id);
+
+  if (error) console.error("Error recording webhook delivery:", delivery.id, error);
+  return result;
+}
+
+async function dispatch(supabaseAdmin: SupabaseClient) {
+  const { data: deliveries, error } = await supabaseAdmin.rpc('claim_webhook_deliveries', { _limit: BATCH_SIZE });
+  if (error) throw error;
+  if (!deliveries?.length) return { sent: 0, failed: 0 };
+
+  const webhookIds = [...new Set((deliveries as Delivery[]).map((delivery) => delivery.webhook_id))];
+  const { data: webhooks, error: webhooksError } = await supabaseAdmin
+    .from('webhooks')
+    .select('id, url, secret, enabled')
+    .in('id', webhookIds);
+  if (webhooksError) throw webhooksError;
+
+  const byId = new Map((webhooks as Webhook[]).map((webhook) => [webhook.id, webhook]));
+  let sent = 0;
+  for (const delivery of deliveries as Delivery[]) {
+    const result = await attempt(supabaseAdmin, byId.get(delivery.webhook_id), delivery);
+    if (result.ok) sent++;
+  }
+  return { sent, failed: deliveries.length - sent };
+}
+
+// Two actions:
+// - dispatch: send due deliveries. Called every minute by pg_cron with the service role key.
+// - test: send a webhook.test event right away, for the "Send test event" button. The caller must be
+//   able to read the webhook, so it is looked up with their own token and RLS applies.
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get('Authorization');
+    if (!authHeader?.startsWith('Bearer ')) {
+      return jsonResponse({ error: 'Missing authorization header' }, 401);
+    }
+
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+    const supabaseAdmin = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey);
+    const { action, webhookId } = await req.json();
+
+    if (action === 'dispatch') {
+      if (authHeader !== `Bearer ${serviceRoleKey}`) {
+        return jsonResponse({ error: 'Unauthorized' }, 401);
+      }
+      return jsonResponse({ result: await dispatch(supabaseAdmin) });
+    }
+
+    if (action === 'test') {
+      if (typeof webhookId !== 'string') {
+        return jsonResponse({ error: 'Invalid webhookId' }, 400);
+      }
+
+      const supabaseUser = createClient(
+        Deno.env.get('SUPABASE_URL') ?? '',
+        Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+        { global: { headers: { Authorization: authHeader } } },
+      );
+      const { data: visible } = await supabaseUser.from('webhooks').select('id').eq('id', webhookId).maybeSingle();
+      if (!visible) {
+        return jsonResponse({ error: 'Webhook not found' }, 404);
+      }
+
+      const { data: webhook, error: webhookError } = await supabaseAdmin
+        .from('webhooks')
+        .select('id, url, secret, enabled, organization_id')
+        .eq('id', webhookId)
+        .single();
+      if (webhookError) throw webhookError;
+
+      const { data: delivery, error: insertError } = await supabaseAdmin
+        .from('webhook_deliveries')
+        .insert({
+          webhook_id: webhook.id,
+          event: 'webhook.test',
+          payload: {
+            event: 'webhook.test',
+            occurredAt: new Date().toISOString(),
+            data: { webhookId: webhook.id, organizationId: webhook.organization_id },
+          },
+          next_attempt_at: null,
+        })
+        .select('id, webhook_id, event, payload, attempts')
+        .single();
+      if (insertError) throw insertError;
+
+      // Sent even when the webhook is disabled, so it can be checked before it is turned on
+      const result = await attempt(supabaseAdmin, { ...webhook, enabled: true }, delivery as Delivery, false);
+      return jsonResponse({ result });
+    }
+
+    return jsonResponse({ error: 'Invalid action' }, 400);
+  } catch (error) {
+    console.error("Webhook dispatcher error:", error);
+    return jsonResponse({ error: error instanceof Error ? error.message : "Unknown error" }, 500);
+  }
+});
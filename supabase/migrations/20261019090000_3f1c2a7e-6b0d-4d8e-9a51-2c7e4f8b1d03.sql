@@ -0,0 +1,14 @@
+-- Persist the full AI analysis alongside the interview session
+
+-- 1. Store the hiring recommendation and the structured analysis result
+ALTER TABLE public.interviews ADD COLUMN IF NOT EXISTS recommendation TEXT;
+ALTER TABLE public.interviews ADD COLUMN IF NOT EXISTS analysis_details JSONB;
+
+-- 2. Restrict status to the session lifecycle values
+ALTER TABLE public.interviews
+ADD CONSTRAINT interviews_status_check
+CHECK (status IN ('pending', 'in_progress', 'completed'));
+
+-- 3. Index for listing a user's sessions newest first
+CREATE INDEX IF NOT EXISTS interviews_user_id_created_at_idx
+ON public.interviews (user_id, created_at DESC);
@@ -0,0 +1,23 @@
+-- Store continuous session recordings instead of a single snapshot
+
+-- 1. Captured photos are kept separately from the video recording
+ALTER TABLE public.interviews ADD COLUMN IF NOT EXISTS photo_paths JSONB DEFAULT '[]'::jsonb;
+
+-- 2. video_url now holds the storage path of the WebM recording
+COMMENT ON COLUMN public.interviews.video_url IS 'Storage path of the session recording in the interview-recordings bucket';
+
+-- 3. Raise the bucket file size limit (500MB) and restrict it to recordings and photos
+UPDATE storage.buckets
+SET file_size_limit = 524288000,
+    allowed_mime_types = ARRAY['video/webm', 'image/jpeg']
+WHERE id = 'interview-recordings';
+
+-- 4. Allow re-uploading a recording for the same session
+CREATE POLICY "Users can update their own recordings"
+ON storage.objects
+FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'interview-recordings'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+);
@@ -0,0 +1,6 @@
+-- Cache for server-rendered question audio
+
+-- 1. Private bucket; only the interview-ai function (service role) reads and writes it
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('tts-cache', 'tts-cache', false, 5242880, ARRAY['audio/mpeg'])
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,9 @@
+-- Language the interview was conducted in
+
+-- 1. Locale used for questions, speech recognition, voice and analysis
+ALTER TABLE public.interviews ADD COLUMN IF NOT EXISTS locale TEXT NOT NULL DEFAULT 'en';
+
+-- 2. Restrict to the locales the app ships translations and prompts for
+ALTER TABLE public.interviews
+ADD CONSTRAINT interviews_locale_check
+CHECK (locale IN ('en', 'es', 'de', 'hi'));
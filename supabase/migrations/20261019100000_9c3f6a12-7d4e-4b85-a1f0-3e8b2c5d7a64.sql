@@ -0,0 +1,79 @@
+-- Curated question bank, managed by admins and drawn from by generate_questions
+
+-- 1. Roles live in their own table so users can't grant themselves one through their profile
+CREATE TYPE public.app_role AS ENUM ('admin');
+
+CREATE TABLE public.user_roles (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, role)
+);
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own roles"
+ON public.user_roles
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+-- 2. Role check usable from policies without recursing into user_roles' own RLS
+CREATE OR REPLACE FUNCTION public.has_role(_user_id UUID, _role public.app_role)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles WHERE user_id = _user_id AND role = _role
+  )
+$$;
+
+-- 3. Vetted questions with a reference answer for the analysis
+CREATE TABLE public.question_bank (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  category TEXT NOT NULL,
+  locale TEXT NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'es', 'de', 'hi')),
+  difficulty TEXT NOT NULL CHECK (difficulty IN ('easy', 'medium', 'hard')),
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  text TEXT NOT NULL CHECK (char_length(text) BETWEEN 1 AND 500),
+  reference_answer TEXT,
+  active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX question_bank_draw_idx ON public.question_bank (category, locale, difficulty) WHERE active;
+
+ALTER TABLE public.question_bank ENABLE ROW LEVEL SECURITY;
+
+-- 4. Only admins see the bank; candidates get questions through the interview-ai function,
+-- so reference answers never reach them
+CREATE POLICY "Admins can read the question bank"
+ON public.question_bank
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can add to the question bank"
+ON public.question_bank
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update the question bank"
+ON public.question_bank
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can delete from the question bank"
+ON public.question_bank
+FOR DELETE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,52 @@
+-- Interview categories, managed by admins instead of being hardcoded in the app
+
+-- 1. Slug is what interviews and the question bank store; the rest is presentation and prompt context
+CREATE TABLE public.categories (
+  slug TEXT NOT NULL PRIMARY KEY CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$' AND char_length(slug) <= 50),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 50),
+  description TEXT,
+  icon TEXT NOT NULL DEFAULT 'code',
+  color TEXT NOT NULL DEFAULT 'from-violet-500 to-purple-500',
+  prompt_context TEXT CHECK (char_length(prompt_context) <= 1000),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- 2. The categories the app shipped with
+INSERT INTO public.categories (slug, name, icon, color, sort_order) VALUES
+  ('java', 'Java', 'code', 'from-orange-500 to-red-500', 1),
+  ('python', 'Python', 'terminal', 'from-blue-500 to-cyan-500', 2),
+  ('frontend', 'Frontend', 'globe', 'from-violet-500 to-purple-500', 3),
+  ('php', 'PHP', 'server', 'from-indigo-500 to-blue-500', 4),
+  ('react-native', 'React Native', 'smartphone', 'from-cyan-500 to-teal-500', 5),
+  ('database', 'Database/SQL', 'database', 'from-emerald-500 to-green-500', 6);
+
+-- 3. Bank questions must belong to a known category
+ALTER TABLE public.question_bank
+ADD CONSTRAINT question_bank_category_fkey
+FOREIGN KEY (category) REFERENCES public.categories(slug) ON UPDATE CASCADE;
+
+ALTER TABLE public.categories ENABLE ROW LEVEL SECURITY;
+
+-- 4. Everyone signed in sees enabled categories; admins also see disabled ones.
+-- There is no delete policy: past interviews keep pointing at their category, so it is disabled instead.
+CREATE POLICY "Users can read enabled categories"
+ON public.categories
+FOR SELECT
+TO authenticated
+USING (enabled OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can add categories"
+ON public.categories
+FOR INSERT
+TO authenticated
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can update categories"
+ON public.categories
+FOR UPDATE
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
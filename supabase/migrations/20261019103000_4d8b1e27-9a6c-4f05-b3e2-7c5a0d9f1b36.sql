@@ -0,0 +1,3 @@
+-- Recruiters review the interviews of candidates in their organization.
+-- Added on its own: a new enum value can't be used in the migration that adds it.
+ALTER TYPE public.app_role ADD VALUE IF NOT EXISTS 'recruiter';
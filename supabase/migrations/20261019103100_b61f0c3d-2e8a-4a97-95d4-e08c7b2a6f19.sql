@@ -0,0 +1,137 @@
+-- Organizations, and recruiter access to the interviews that belong to them
+
+-- 1. Hiring teams; recruiters are members of the organizations whose interviews they review
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX organization_members_user_idx ON public.organization_members (user_id);
+
+-- 2. Membership checks usable from policies without recursing into organization_members' own RLS
+CREATE OR REPLACE FUNCTION public.is_org_member(_user_id UUID, _organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE user_id = _user_id AND organization_id = _organization_id
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.is_org_recruiter(_user_id UUID, _organization_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'recruiter') AND public.is_org_member(_user_id, _organization_id)
+$$;
+
+-- 3. Interviews taken for an organization; personal practice interviews have none
+ALTER TABLE public.interviews
+ADD COLUMN organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX interviews_organization_created_idx
+ON public.interviews (organization_id, created_at DESC)
+WHERE organization_id IS NOT NULL;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+
+-- 4. Members see their organizations and who else is in them; admins manage both
+CREATE POLICY "Members can read their organizations"
+ON public.organizations
+FOR SELECT
+TO authenticated
+USING (public.is_org_member(auth.uid(), id) OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage organizations"
+ON public.organizations
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Members can read their organization's members"
+ON public.organization_members
+FOR SELECT
+TO authenticated
+USING (public.is_org_member(auth.uid(), organization_id) OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can manage organization members"
+ON public.organization_members
+FOR ALL
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- 5. Candidates can only file an interview under an organization they belong to
+DROP POLICY IF EXISTS "Authenticated users can create their own interviews" ON public.interviews;
+DROP POLICY IF EXISTS "Users can update their own interviews" ON public.interviews;
+
+CREATE POLICY "Authenticated users can create their own interviews"
+ON public.interviews
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND (organization_id IS NULL OR public.is_org_member(auth.uid(), organization_id))
+);
+
+CREATE POLICY "Users can update their own interviews"
+ON public.interviews
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND (organization_id IS NULL OR public.is_org_member(auth.uid(), organization_id))
+);
+
+-- 6. Recruiters read their organization's interviews; admins read all of them
+CREATE POLICY "Recruiters can read their organization's interviews"
+ON public.interviews
+FOR SELECT
+TO authenticated
+USING (organization_id IS NOT NULL AND public.is_org_recruiter(auth.uid(), organization_id));
+
+CREATE POLICY "Admins can read all interviews"
+ON public.interviews
+FOR SELECT
+TO authenticated
+USING (public.has_role(auth.uid(), 'admin'));
+
+-- 7. ...and their recordings, stored under <user id>/<interview id>/
+CREATE POLICY "Recruiters can read their organization's recordings"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'interview-recordings'
+  AND EXISTS (
+    SELECT 1 FROM public.interviews
+    WHERE id::text = (storage.foldername(name))[2]
+      AND user_id::text = (storage.foldername(name))[1]
+      AND organization_id IS NOT NULL
+      AND public.is_org_recruiter(auth.uid(), organization_id)
+  )
+);
+
+CREATE POLICY "Admins can read all recordings"
+ON storage.objects
+FOR SELECT
+TO authenticated
+USING (bucket_id = 'interview-recordings' AND public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,16 @@
+-- Recruiter dashboard: sort by recommendation strength and by score within an organization
+
+-- 1. hire > consider > not_recommended; the text values don't sort that way on their own
+ALTER TABLE public.interviews
+ADD COLUMN recommendation_rank SMALLINT GENERATED ALWAYS AS (
+  CASE recommendation
+    WHEN 'hire' THEN 3
+    WHEN 'consider' THEN 2
+    WHEN 'not_recommended' THEN 1
+  END
+) STORED;
+
+-- 2. The dashboard's default view is an organization's completed interviews by score
+CREATE INDEX interviews_organization_score_idx
+ON public.interviews (organization_id, status, score DESC)
+WHERE organization_id IS NOT NULL;
@@ -0,0 +1,167 @@
+-- Invite links: recruiters set up an interview for a candidate, who starts it from a unique link
+
+-- 1. What the invited interview looks like; an empty question set means generated questions as usual
+CREATE TABLE public.interview_invites (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  label TEXT NOT NULL CHECK (char_length(label) BETWEEN 1 AND 100),
+  category TEXT NOT NULL REFERENCES public.categories(slug) ON UPDATE CASCADE,
+  locale TEXT NOT NULL DEFAULT 'en' CHECK (locale IN ('en', 'es', 'de', 'hi')),
+  questions TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(questions) <= 20),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_attempts INTEGER NOT NULL DEFAULT 1 CHECK (max_attempts BETWEEN 1 AND 10),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX interview_invites_organization_idx ON public.interview_invites (organization_id, created_at DESC);
+
+-- 2. Interviews started from an invite
+ALTER TABLE public.interviews
+ADD COLUMN invite_id UUID REFERENCES public.interview_invites(id) ON DELETE SET NULL;
+
+CREATE INDEX interviews_invite_idx ON public.interviews (invite_id) WHERE invite_id IS NOT NULL;
+
+ALTER TABLE public.interview_invites ENABLE ROW LEVEL SECURITY;
+
+-- 3. Recruiters manage their organization's invites; candidates only reach them through the functions below
+CREATE POLICY "Recruiters can read their organization's invites"
+ON public.interview_invites
+FOR SELECT
+TO authenticated
+USING (public.is_org_recruiter(auth.uid(), organization_id) OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Recruiters can create invites for their organization"
+ON public.interview_invites
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = created_by
+  AND (public.is_org_recruiter(auth.uid(), organization_id) OR public.has_role(auth.uid(), 'admin'))
+);
+
+CREATE POLICY "Recruiters can delete their organization's invites"
+ON public.interview_invites
+FOR DELETE
+TO authenticated
+USING (public.is_org_recruiter(auth.uid(), organization_id) OR public.has_role(auth.uid(), 'admin'));
+
+-- 4. An invited candidate isn't a member of the organization, so an interview's organization and
+-- invite are fixed when it is created instead of being checked on every update. Deleting an
+-- organization or invite still clears them: the foreign key does that from a nested trigger.
+CREATE OR REPLACE FUNCTION public.keep_interview_links()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF pg_trigger_depth() = 1 AND (
+    NEW.organization_id IS DISTINCT FROM OLD.organization_id
+    OR NEW.invite_id IS DISTINCT FROM OLD.invite_id
+  ) THEN
+    RAISE EXCEPTION 'The organization and invite of an interview cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER interviews_keep_links
+BEFORE UPDATE ON public.interviews
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_interview_links();
+
+DROP POLICY IF EXISTS "Authenticated users can create their own interviews" ON public.interviews;
+DROP POLICY IF EXISTS "Users can update their own interviews" ON public.interviews;
+
+CREATE POLICY "Authenticated users can create their own interviews"
+ON public.interviews
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND invite_id IS NULL
+  AND (organization_id IS NULL OR public.is_org_member(auth.uid(), organization_id))
+);
+
+CREATE POLICY "Users can update their own interviews"
+ON public.interviews
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- 5. What the candidate sees before starting; the token is the only way in
+CREATE OR REPLACE FUNCTION public.get_invite(_token TEXT)
+RETURNS TABLE (
+  organization_name TEXT,
+  category TEXT,
+  locale TEXT,
+  question_count INTEGER,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_attempts INTEGER,
+  attempts_used INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.name,
+    i.category,
+    i.locale,
+    cardinality(i.questions),
+    i.expires_at,
+    i.max_attempts,
+    (SELECT count(*)::integer FROM public.interviews WHERE invite_id = i.id)
+  FROM public.interview_invites i
+  JOIN public.organizations o ON o.id = i.organization_id
+  WHERE i.token = _token AND auth.uid() IS NOT NULL
+$$;
+
+-- 6. Create the candidate's interview from the invite, enforcing the deadline and attempts
+CREATE OR REPLACE FUNCTION public.start_invited_interview(_token TEXT, _candidate_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invite public.interview_invites%ROWTYPE;
+  _interview_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'invite_not_found';
+  END IF;
+
+  -- Locked so two tabs can't both take the last attempt
+  SELECT * INTO _invite FROM public.interview_invites WHERE token = _token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invite_not_found';
+  END IF;
+
+  IF _invite.expires_at IS NOT NULL AND _invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'invite_expired';
+  END IF;
+
+  IF (SELECT count(*) FROM public.interviews WHERE invite_id = _invite.id) >= _invite.max_attempts THEN
+    RAISE EXCEPTION 'invite_used_up';
+  END IF;
+
+  INSERT INTO public.interviews (user_id, candidate_name, category, locale, status, organization_id, invite_id, questions)
+  VALUES (
+    auth.uid(),
+    left(_candidate_name, 100),
+    _invite.category,
+    _invite.locale,
+    'pending',
+    _invite.organization_id,
+    _invite.id,
+    CASE WHEN cardinality(_invite.questions) > 0 THEN to_jsonb(_invite.questions) END
+  )
+  RETURNING id INTO _interview_id;
+
+  RETURN _interview_id;
+END;
+$$;
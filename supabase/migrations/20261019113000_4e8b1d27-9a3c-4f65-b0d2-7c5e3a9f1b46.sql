@@ -0,0 +1,52 @@
+-- Human reviews: a recruiter's own verdict on an interview, kept next to the AI analysis
+
+-- 1. One review per interview, owned by whoever saved it last
+CREATE TABLE public.reviews (
+  interview_id UUID NOT NULL PRIMARY KEY REFERENCES public.interviews(id) ON DELETE CASCADE,
+  reviewer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  decision TEXT CHECK (decision IN ('hire', 'consider', 'not_recommended')),
+  notes TEXT NOT NULL DEFAULT '' CHECK (char_length(notes) <= 5000),
+  -- [{ "question": 1-based position, "rating": 1-5, "note": text }]
+  question_ratings JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(question_ratings) = 'array'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- 2. Recruiters review their organization's interviews; admins review any of them
+CREATE OR REPLACE FUNCTION public.can_review_interview(_user_id UUID, _interview_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT public.has_role(_user_id, 'admin') OR EXISTS (
+    SELECT 1
+    FROM public.interviews
+    WHERE id = _interview_id
+      AND organization_id IS NOT NULL
+      AND public.is_org_recruiter(_user_id, organization_id)
+  )
+$$;
+
+ALTER TABLE public.reviews ENABLE ROW LEVEL SECURITY;
+
+-- 3. Reviews are internal to the hiring team; candidates never see them
+CREATE POLICY "Reviewers can read reviews"
+ON public.reviews
+FOR SELECT
+TO authenticated
+USING (public.can_review_interview(auth.uid(), interview_id));
+
+CREATE POLICY "Reviewers can create reviews"
+ON public.reviews
+FOR INSERT
+TO authenticated
+WITH CHECK (auth.uid() = reviewer_id AND public.can_review_interview(auth.uid(), interview_id));
+
+CREATE POLICY "Reviewers can update reviews"
+ON public.reviews
+FOR UPDATE
+TO authenticated
+USING (public.can_review_interview(auth.uid(), interview_id))
+WITH CHECK (auth.uid() = reviewer_id AND public.can_review_interview(auth.uid(), interview_id));
@@ -0,0 +1,55 @@
+-- Share links: read-only, expiring access to an interview's results for people without an account
+
+-- 1. Links are resolved by the shared-results edge function with the service role; there is no anonymous access
+CREATE TABLE public.share_links (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text, '-', ''),
+  interview_id UUID NOT NULL REFERENCES public.interviews(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  -- Whether the recording and photos are shown too
+  include_media BOOLEAN NOT NULL DEFAULT false,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX share_links_interview_idx ON public.share_links (interview_id, created_at DESC);
+
+-- 2. Candidates share their own interviews; reviewers share the ones they can review
+CREATE OR REPLACE FUNCTION public.can_share_interview(_user_id UUID, _interview_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.interviews WHERE id = _interview_id AND user_id = _user_id
+  ) OR public.can_review_interview(_user_id, _interview_id)
+$$;
+
+ALTER TABLE public.share_links ENABLE ROW LEVEL SECURITY;
+
+-- 3. Everyone manages only the links they created; revoking sets revoked_at
+CREATE POLICY "Users can read their own share links"
+ON public.share_links
+FOR SELECT
+TO authenticated
+USING (auth.uid() = created_by);
+
+CREATE POLICY "Users can create share links for interviews they can share"
+ON public.share_links
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = created_by
+  AND expires_at > now()
+  AND public.can_share_interview(auth.uid(), interview_id)
+);
+
+CREATE POLICY "Users can revoke their own share links"
+ON public.share_links
+FOR UPDATE
+TO authenticated
+USING (auth.uid() = created_by)
+WITH CHECK (auth.uid() = created_by AND public.can_share_interview(auth.uid(), interview_id));
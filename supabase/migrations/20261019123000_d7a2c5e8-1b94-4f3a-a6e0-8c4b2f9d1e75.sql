@@ -0,0 +1,219 @@
+-- Outbound webhooks: organizations subscribe their ATS to interview lifecycle events
+
+-- 1. Subscriptions; the secret signs every delivery
+CREATE TABLE public.webhooks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  url TEXT NOT NULL CHECK (url ~ '^https?://'),
+  secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', ''),
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY['interview.created', 'interview.completed', 'interview.analyzed', 'review.submitted']
+  ),
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX webhooks_organization_idx ON public.webhooks (organization_id);
+
+-- 2. One row per event and webhook. The webhook-dispatcher edge function sends pending rows
+-- and retries failures with exponential backoff until they succeed or run out of attempts.
+CREATE TABLE public.webhook_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  webhook_id UUID NOT NULL REFERENCES public.webhooks(id) ON DELETE CASCADE,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE DEFAULT now(),
+  last_status_code INTEGER,
+  last_error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX webhook_deliveries_due_idx ON public.webhook_deliveries (next_attempt_at) WHERE status = 'pending';
+CREATE INDEX webhook_deliveries_webhook_idx ON public.webhook_deliveries (webhook_id, created_at DESC);
+
+ALTER TABLE public.webhooks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- 3. Recruiters manage their organization's webhooks and read its delivery log; only the
+-- database and the dispatcher write deliveries
+CREATE POLICY "Recruiters can read their organization's webhooks"
+ON public.webhooks
+FOR SELECT
+TO authenticated
+USING (public.is_org_recruiter(auth.uid(), organization_id) OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Recruiters can create webhooks for their organization"
+ON public.webhooks
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = created_by
+  AND (public.is_org_recruiter(auth.uid(), organization_id) OR public.has_role(auth.uid(), 'admin'))
+);
+
+CREATE POLICY "Recruiters can update their organization's webhooks"
+ON public.webhooks
+FOR UPDATE
+TO authenticated
+USING (public.is_org_recruiter(auth.uid(), organization_id) OR public.has_role(auth.uid(), 'admin'))
+WITH CHECK (public.is_org_recruiter(auth.uid(), organization_id) OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Recruiters can delete their organization's webhooks"
+ON public.webhooks
+FOR DELETE
+TO authenticated
+USING (public.is_org_recruiter(auth.uid(), organization_id) OR public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Recruiters can read their organization's webhook deliveries"
+ON public.webhook_deliveries
+FOR SELECT
+TO authenticated
+USING (
+  EXISTS (
+    SELECT 1
+    FROM public.webhooks
+    WHERE webhooks.id = webhook_deliveries.webhook_id
+      AND (public.is_org_recruiter(auth.uid(), webhooks.organization_id) OR public.has_role(auth.uid(), 'admin'))
+  )
+);
+
+-- 4. Queue an event for every enabled webhook of the organization that subscribes to it
+CREATE OR REPLACE FUNCTION public.enqueue_webhook_event(_organization_id UUID, _event TEXT, _data JSONB)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  INSERT INTO public.webhook_deliveries (webhook_id, event, payload)
+  SELECT id, _event, jsonb_build_object('event', _event, 'occurredAt', now(), 'data', _data)
+  FROM public.webhooks
+  WHERE organization_id = _organization_id AND enabled AND _event = ANY(events)
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.enqueue_webhook_event(UUID, TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- 5. Interview events, for interviews taken for an organization:
+-- interview.created on insert, interview.completed when the status becomes completed,
+-- interview.analyzed whenever a new analysis is stored
+CREATE OR REPLACE FUNCTION public.queue_interview_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _data JSONB;
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  _data := jsonb_build_object(
+    'interviewId', NEW.id,
+    'organizationId', NEW.organization_id,
+    'inviteId', NEW.invite_id,
+    'candidateName', NEW.candidate_name,
+    'category', NEW.category,
+    'locale', NEW.locale,
+    'status', NEW.status,
+    'score', NEW.score,
+    'recommendation', NEW.recommendation,
+    'createdAt', NEW.created_at,
+    'completedAt', NEW.completed_at
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_webhook_event(NEW.organization_id, 'interview.created', _data);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'completed' AND OLD.status IS DISTINCT FROM 'completed' THEN
+    PERFORM public.enqueue_webhook_event(NEW.organization_id, 'interview.completed', _data);
+  END IF;
+
+  IF NEW.analysis_details IS NOT NULL AND NEW.analysis_details IS DISTINCT FROM OLD.analysis_details THEN
+    PERFORM public.enqueue_webhook_event(
+      NEW.organization_id,
+      'interview.analyzed',
+      _data || jsonb_build_object('analysis', NEW.analysis_details)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_interview_webhooks
+AFTER INSERT OR UPDATE ON public.interviews
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_interview_webhooks();
+
+-- 6. review.submitted, each time a review with a decision is saved
+CREATE OR REPLACE FUNCTION public.queue_review_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id UUID;
+BEGIN
+  IF NEW.decision IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT organization_id INTO _organization_id FROM public.interviews WHERE id = NEW.interview_id;
+  IF _organization_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.enqueue_webhook_event(
+    _organization_id,
+    'review.submitted',
+    jsonb_build_object(
+      'interviewId', NEW.interview_id,
+      'organizationId', _organization_id,
+      'reviewerId', NEW.reviewer_id,
+      'decision', NEW.decision,
+      'notes', NEW.notes,
+      'questionRatings', NEW.question_ratings,
+      'updatedAt', NEW.updated_at
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER queue_review_webhooks
+AFTER INSERT OR UPDATE ON public.reviews
+FOR EACH ROW
+EXECUTE FUNCTION public.queue_review_webhooks();
+
+-- 7. The dispatcher claims due deliveries before sending them. SKIP LOCKED and the lease on
+-- next_attempt_at keep overlapping runs from sending the same delivery twice.
+CREATE OR REPLACE FUNCTION public.claim_webhook_deliveries(_limit INTEGER)
+RETURNS SETOF public.webhook_deliveries
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.webhook_deliveries
+  SET next_attempt_at = now() + interval '5 minutes'
+  WHERE id IN (
+    SELECT id
+    FROM public.webhook_deliveries
+    WHERE status = 'pending' AND next_attempt_at <= now()
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_webhook_deliveries(INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,9 @@
+-- Record proctoring signals with the interview session
+
+-- 1. Tab switches, focus loss, fullscreen exits, copy/paste and long silences, each stamped
+-- with its offset from the start of the session recording
+ALTER TABLE public.interviews ADD COLUMN IF NOT EXISTS integrity_events JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.interviews
+ADD CONSTRAINT interviews_integrity_events_check
+CHECK (jsonb_typeof(integrity_events) = 'array');
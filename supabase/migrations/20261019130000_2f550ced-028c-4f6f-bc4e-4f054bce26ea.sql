@@ -0,0 +1,49 @@
+-- Keep the interview verdict out of the candidate's hands
+
+-- 1. Recruiters, reviews, share links and webhooks all go by the questions, status and analysis
+-- of an interview, so candidates can only write their answers, recording and proctoring signals.
+-- interview-ai stores the questions and the analysis with the service role.
+REVOKE UPDATE ON public.interviews FROM anon, authenticated;
+GRANT UPDATE (responses, video_url, photo_paths, integrity_events) ON public.interviews TO authenticated;
+
+-- 2. An organization's interview starts out empty; personal ones may be imported with their results
+DROP POLICY IF EXISTS "Authenticated users can create their own interviews" ON public.interviews;
+
+CREATE POLICY "Authenticated users can create their own interviews"
+ON public.interviews
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND invite_id IS NULL
+  AND (
+    organization_id IS NULL
+    OR (
+      public.is_org_member(auth.uid(), organization_id)
+      AND status = 'pending'
+      AND questions IS NULL
+      AND score IS NULL
+      AND analysis IS NULL
+      AND analysis_details IS NULL
+      AND recommendation IS NULL
+      AND completed_at IS NULL
+    )
+  )
+);
+
+-- 3. The only status change left to the candidate: camera and microphone are live
+CREATE OR REPLACE FUNCTION public.mark_interview_in_progress(_interview_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.interviews
+  SET status = 'in_progress'
+  WHERE id = _interview_id
+    AND user_id = auth.uid()
+    AND status = 'pending'
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_interview_in_progress(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_interview_in_progress(UUID) TO authenticated;
@@ -0,0 +1,96 @@
+-- Count invite attempts where the candidate can't undo them
+
+-- 1. Attempts are counted on the invite when an interview is started, so deleting an
+-- interview doesn't give the attempt back
+ALTER TABLE public.interview_invites
+ADD COLUMN attempts_used INTEGER NOT NULL DEFAULT 0 CHECK (attempts_used >= 0);
+
+UPDATE public.interview_invites i
+SET attempts_used = (SELECT count(*) FROM public.interviews WHERE invite_id = i.id);
+
+-- 2. ...and interviews started from an invite stay with the organization that sent it
+DROP POLICY IF EXISTS "Users can delete their own interviews" ON public.interviews;
+
+CREATE POLICY "Users can delete their own interviews"
+ON public.interviews
+FOR DELETE
+TO authenticated
+USING (auth.uid() = user_id AND invite_id IS NULL);
+
+-- 3. What the candidate sees before starting
+CREATE OR REPLACE FUNCTION public.get_invite(_token TEXT)
+RETURNS TABLE (
+  organization_name TEXT,
+  category TEXT,
+  locale TEXT,
+  question_count INTEGER,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  max_attempts INTEGER,
+  attempts_used INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    o.name,
+    i.category,
+    i.locale,
+    cardinality(i.questions),
+    i.expires_at,
+    i.max_attempts,
+    i.attempts_used
+  FROM public.interview_invites i
+  JOIN public.organizations o ON o.id = i.organization_id
+  WHERE i.token = _token AND auth.uid() IS NOT NULL
+$$;
+
+-- 4. Create the candidate's interview from the invite, enforcing the deadline and attempts
+CREATE OR REPLACE FUNCTION public.start_invited_interview(_token TEXT, _candidate_name TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _invite public.interview_invites%ROWTYPE;
+  _interview_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'invite_not_found';
+  END IF;
+
+  -- Locked so two tabs can't both take the last attempt
+  SELECT * INTO _invite FROM public.interview_invites WHERE token = _token FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'invite_not_found';
+  END IF;
+
+  IF _invite.expires_at IS NOT NULL AND _invite.expires_at <= now() THEN
+    RAISE EXCEPTION 'invite_expired';
+  END IF;
+
+  IF _invite.attempts_used >= _invite.max_attempts THEN
+    RAISE EXCEPTION 'invite_used_up';
+  END IF;
+
+  UPDATE public.interview_invites SET attempts_used = attempts_used + 1 WHERE id = _invite.id;
+
+  INSERT INTO public.interviews (user_id, candidate_name, category, locale, status, organization_id, invite_id, questions)
+  VALUES (
+    auth.uid(),
+    left(_candidate_name, 100),
+    _invite.category,
+    _invite.locale,
+    'pending',
+    _invite.organization_id,
+    _invite.id,
+    CASE WHEN cardinality(_invite.questions) > 0 THEN to_jsonb(_invite.questions) END
+  )
+  RETURNING id INTO _interview_id;
+
+  RETURN _interview_id;
+END;
+$$;
@@ -0,0 +1,52 @@
+-- Keep an invited interview to what the recruiter set up
+
+-- 1. Besides its organization and invite, an invited interview keeps its category and language,
+-- and once it has questions they stay in place: the only change left is follow-ups inserted
+-- between them. Nested updates (foreign keys clearing a deleted invite) are still let through.
+CREATE OR REPLACE FUNCTION public.keep_interview_links()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _question JSONB;
+  _kept INTEGER := 0;
+BEGIN
+  IF pg_trigger_depth() <> 1 THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.organization_id IS DISTINCT FROM OLD.organization_id
+    OR NEW.invite_id IS DISTINCT FROM OLD.invite_id THEN
+    RAISE EXCEPTION 'The organization and invite of an interview cannot be changed';
+  END IF;
+
+  IF OLD.invite_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.category IS DISTINCT FROM OLD.category OR NEW.locale IS DISTINCT FROM OLD.locale THEN
+    RAISE EXCEPTION 'The category and language of an invited interview cannot be changed';
+  END IF;
+
+  IF OLD.questions IS NOT NULL AND NEW.questions IS DISTINCT FROM OLD.questions THEN
+    IF NEW.questions IS NULL OR jsonb_typeof(NEW.questions) <> 'array' THEN
+      RAISE EXCEPTION 'The questions of an invited interview cannot be changed';
+    END IF;
+
+    -- Every existing question must still be there, in the same order
+    FOR _question IN
+      SELECT value FROM jsonb_array_elements(NEW.questions) WITH ORDINALITY ORDER BY ordinality
+    LOOP
+      IF _kept < jsonb_array_length(OLD.questions) AND _question = OLD.questions -> _kept THEN
+        _kept := _kept + 1;
+      END IF;
+    END LOOP;
+
+    IF _kept < jsonb_array_length(OLD.questions) THEN
+      RAISE EXCEPTION 'The questions of an invited interview cannot be changed';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
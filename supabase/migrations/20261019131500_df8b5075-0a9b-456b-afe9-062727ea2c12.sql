@@ -0,0 +1,48 @@
+-- Proctoring signals can be added to but never rewritten
+
+-- 1. Candidates no longer write integrity_events directly...
+REVOKE UPDATE (integrity_events) ON public.interviews FROM authenticated;
+
+-- 2. ...they append finished events to their own interview through this function
+CREATE OR REPLACE FUNCTION public.append_integrity_events(_interview_id UUID, _events JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF jsonb_typeof(_events) IS DISTINCT FROM 'array' OR jsonb_array_length(_events) > 50 THEN
+    RAISE EXCEPTION 'invalid_integrity_events';
+  END IF;
+
+  UPDATE public.interviews
+  SET integrity_events = integrity_events || _events
+  WHERE id = _interview_id AND user_id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_integrity_events(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.append_integrity_events(UUID, JSONB) TO authenticated;
+
+-- 3. Whoever writes the column, events already recorded stay as they are
+CREATE OR REPLACE FUNCTION public.keep_integrity_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF jsonb_array_length(NEW.integrity_events) < jsonb_array_length(OLD.integrity_events)
+    OR EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(OLD.integrity_events) WITH ORDINALITY AS recorded(event, position)
+      WHERE NEW.integrity_events -> (recorded.position::integer - 1) IS DISTINCT FROM recorded.event
+    ) THEN
+    RAISE EXCEPTION 'Integrity events can only be appended';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER interviews_keep_integrity_events
+BEFORE UPDATE OF integrity_events ON public.interviews
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_integrity_events();
@@ -0,0 +1,93 @@
+-- interview.completed when the candidate finishes answering, not when the analysis is stored
+
+-- 1. When the candidate finished; the analysis can come much later or not at all
+ALTER TABLE public.interviews ADD COLUMN finished_at TIMESTAMP WITH TIME ZONE;
+
+UPDATE public.interviews SET finished_at = completed_at WHERE status = 'completed';
+
+-- 2. Set by the interview room after the last answer is saved
+CREATE OR REPLACE FUNCTION public.finish_interview(_interview_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.interviews
+  SET finished_at = now()
+  WHERE id = _interview_id
+    AND user_id = auth.uid()
+    AND finished_at IS NULL
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.finish_interview(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.finish_interview(UUID) TO authenticated;
+
+-- 3. An analyzed interview is finished too, in case the interview room never got to say so
+CREATE OR REPLACE FUNCTION public.set_interview_finished_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status = 'completed' AND NEW.finished_at IS NULL THEN
+    NEW.finished_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER interviews_set_finished_at
+BEFORE UPDATE ON public.interviews
+FOR EACH ROW
+EXECUTE FUNCTION public.set_interview_finished_at();
+
+-- 4. Interview events, for interviews taken for an organization:
+-- interview.created on insert, interview.completed when the candidate finishes,
+-- interview.analyzed whenever a new analysis is stored
+CREATE OR REPLACE FUNCTION public.queue_interview_webhooks()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _data JSONB;
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  _data := jsonb_build_object(
+    'interviewId', NEW.id,
+    'organizationId', NEW.organization_id,
+    'inviteId', NEW.invite_id,
+    'candidateName', NEW.candidate_name,
+    'category', NEW.category,
+    'locale', NEW.locale,
+    'status', NEW.status,
+    'score', NEW.score,
+    'recommendation', NEW.recommendation,
+    'createdAt', NEW.created_at,
+    'finishedAt', NEW.finished_at,
+    'completedAt', NEW.completed_at
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_webhook_event(NEW.organization_id, 'interview.created', _data);
+    RETURN NEW;
+  END IF;
+
+  IF NEW.finished_at IS NOT NULL AND OLD.finished_at IS NULL THEN
+    PERFORM public.enqueue_webhook_event(NEW.organization_id, 'interview.completed', _data);
+  END IF;
+
+  IF NEW.analysis_details IS NOT NULL AND NEW.analysis_details IS DISTINCT FROM OLD.analysis_details THEN
+    PERFORM public.enqueue_webhook_event(
+      NEW.organization_id,
+      'interview.analyzed',
+      _data || jsonb_build_object('analysis', NEW.analysis_details)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,37 @@
+-- Share links: the server picks the token, and revoking is the only change a creator can make
+
+-- 1. Tokens are always generated here, whatever the client sends
+CREATE OR REPLACE FUNCTION public.generate_share_link_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.token := replace(gen_random_uuid()::text, '-', '');
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER share_links_generate_token
+BEFORE INSERT ON public.share_links
+FOR EACH ROW
+EXECUTE FUNCTION public.generate_share_link_token();
+
+-- 2. Links can't be updated directly, so expiry, media and token stay as created...
+DROP POLICY IF EXISTS "Users can revoke their own share links" ON public.share_links;
+
+-- 3. ...and are revoked through this function
+CREATE OR REPLACE FUNCTION public.revoke_share_link(_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.share_links
+  SET revoked_at = now()
+  WHERE id = _id
+    AND created_by = auth.uid()
+    AND revoked_at IS NULL
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_share_link(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_share_link(UUID) TO authenticated;
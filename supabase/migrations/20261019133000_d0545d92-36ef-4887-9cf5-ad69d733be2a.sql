@@ -0,0 +1,9 @@
+-- Accept MP4 recordings from browsers that can't record WebM
+
+-- 1. Safari records MP4; uploads are sent with the base type, without codec parameters
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY['video/webm', 'video/mp4', 'image/jpeg']
+WHERE id = 'interview-recordings';
+
+-- 2. The extension of the stored path follows the recording's type
+COMMENT ON COLUMN public.interviews.video_url IS 'Storage path of the session recording (WebM or MP4) in the interview-recordings bucket';
@@ -0,0 +1,22 @@
+-- Freeze the answers of a finished interview
+
+-- 1. Once the candidate has finished, or the interview has been analyzed, the answers stay as
+-- they were graded: the analysis shows model answers and missed points, which must not be
+-- copied back into the answers.
+CREATE OR REPLACE FUNCTION public.keep_finished_responses()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.responses IS DISTINCT FROM OLD.responses
+    AND (OLD.finished_at IS NOT NULL OR OLD.status = 'completed') THEN
+    RAISE EXCEPTION 'The answers of a finished interview cannot be changed';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER interviews_keep_finished_responses
+BEFORE UPDATE OF responses ON public.interviews
+FOR EACH ROW
+EXECUTE FUNCTION public.keep_finished_responses();
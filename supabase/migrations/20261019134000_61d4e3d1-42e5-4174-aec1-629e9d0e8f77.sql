@@ -0,0 +1,48 @@
+-- Tell imported interviews apart from the ones taken in the app
+
+-- 1. Set by the JSON import; the results of an imported interview come from a file, not from interview-ai
+ALTER TABLE public.interviews ADD COLUMN imported_at TIMESTAMP WITH TIME ZONE;
+
+-- 2. Only imported interviews may be created with results, and only personal ones can be imported
+DROP POLICY IF EXISTS "Authenticated users can create their own interviews" ON public.interviews;
+
+CREATE POLICY "Authenticated users can create their own interviews"
+ON public.interviews
+FOR INSERT
+TO authenticated
+WITH CHECK (
+  auth.uid() = user_id
+  AND invite_id IS NULL
+  AND (
+    (organization_id IS NULL AND imported_at IS NOT NULL)
+    OR (
+      (organization_id IS NULL OR public.is_org_member(auth.uid(), organization_id))
+      AND imported_at IS NULL
+      AND status = 'pending'
+      AND questions IS NULL
+      AND score IS NULL
+      AND analysis IS NULL
+      AND analysis_details IS NULL
+      AND recommendation IS NULL
+      AND completed_at IS NULL
+    )
+  )
+);
+
+-- 3. A share link would show an imported result as if the app had assessed it, so imported
+-- interviews can't be shared; shared-results re-checks this when a link is opened
+CREATE OR REPLACE FUNCTION public.can_share_interview(_user_id UUID, _interview_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM public.interviews WHERE id = _interview_id AND imported_at IS NOT NULL
+  ) AND (
+    EXISTS (
+      SELECT 1 FROM public.interviews WHERE id = _interview_id AND user_id = _user_id
+    ) OR public.can_review_interview(_user_id, _interview_id)
+  )
+$$;
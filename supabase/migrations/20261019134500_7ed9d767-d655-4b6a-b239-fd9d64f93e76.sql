@@ -0,0 +1,23 @@
+-- Share links expire after at most 30 days, the longest option in the share dialog
+
+-- 1. created_at is always the insert time, and expiry is capped from it; the browser computes
+-- expires_at from its own clock, so a slightly long expiry is cut back rather than refused
+CREATE OR REPLACE FUNCTION public.generate_share_link_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.token := replace(gen_random_uuid()::text, '-', '');
+  NEW.created_at := now();
+  NEW.expires_at := LEAST(NEW.expires_at, NEW.created_at + interval '30 days');
+  RETURN NEW;
+END;
+$$;
+
+-- 2. Existing links are held to the same limit
+UPDATE public.share_links
+SET expires_at = created_at + interval '30 days'
+WHERE expires_at > created_at + interval '30 days';
+
+ALTER TABLE public.share_links
+ADD CONSTRAINT share_links_expiry_limit CHECK (expires_at <= created_at + interval '30 days');
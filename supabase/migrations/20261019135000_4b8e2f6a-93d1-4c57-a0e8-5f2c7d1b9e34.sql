@@ -0,0 +1,43 @@
+-- Integrity events are checked one by one before they are appended
+
+-- 1. A recorded event is one of the six kinds, at a non-negative offset, with optional numeric details
+CREATE OR REPLACE FUNCTION public.is_valid_integrity_event(_event JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_typeof(_event) = 'object'
+    AND COALESCE(_event ->> 'type' IN ('tab_hidden', 'focus_lost', 'fullscreen_exit', 'copy', 'paste', 'long_silence'), false)
+    AND CASE WHEN jsonb_typeof(_event -> 'at') = 'number' THEN (_event ->> 'at')::numeric >= 0 ELSE false END
+    AND COALESCE(jsonb_typeof(_event -> 'duration'), 'number') = 'number'
+    AND COALESCE(jsonb_typeof(_event -> 'chars'), 'number') = 'number';
+$$;
+
+-- 2. Appending refuses the whole batch when any event in it isn't one
+CREATE OR REPLACE FUNCTION public.append_integrity_events(_interview_id UUID, _events JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF jsonb_typeof(_events) IS DISTINCT FROM 'array' OR jsonb_array_length(_events) > 50 THEN
+    RAISE EXCEPTION 'invalid_integrity_events';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(_events) AS event
+    WHERE NOT public.is_valid_integrity_event(event)
+  ) THEN
+    RAISE EXCEPTION 'invalid_integrity_events';
+  END IF;
+
+  UPDATE public.interviews
+  SET integrity_events = integrity_events || _events
+  WHERE id = _interview_id AND user_id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.append_integrity_events(UUID, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.append_integrity_events(UUID, JSONB) TO authenticated;